@@ -0,0 +1,38 @@
+// Web Push handlers, pulled into the generated service worker through
+// workbox.importScripts in vite.config.ts. Payloads come from the send-push
+// edge function: { id, title, body, type, priority, url }.
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'WinterWatch', {
+      body: data.body || '',
+      icon: '/pwa-192x192.png',
+      badge: '/pwa-maskable-192x192.png',
+      tag: data.id,
+      requireInteraction: data.priority === 'urgent',
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -5,8 +5,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import { useMyRoute } from "@/hooks/useRoutes";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { PWAInstallBanner } from "@/components/pwa/PWAInstallBanner";
+import { LocationTracker } from "@/components/tracking/LocationTracker";
 import { SplashLoader, PageLoader } from "@/components/pwa/SplashLoader";
 
 // Lazy load pages for code splitting
@@ -14,14 +16,21 @@ const Home = lazy(() => import("./pages/Home"));
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const ShovelCrew = lazy(() => import("./pages/ShovelCrew"));
 const ClientPortal = lazy(() => import("./pages/ClientPortal"));
+const ClientInvoice = lazy(() => import("./pages/ClientInvoice"));
 const Accounts = lazy(() => import("./pages/Accounts"));
 const Equipment = lazy(() => import("./pages/Equipment"));
 const Employees = lazy(() => import("./pages/Employees"));
 const TimeClock = lazy(() => import("./pages/TimeClock"));
+const Timesheets = lazy(() => import("./pages/Timesheets"));
 const WorkLogs = lazy(() => import("./pages/WorkLogs"));
 const Reports = lazy(() => import("./pages/Reports"));
 const Admin = lazy(() => import("./pages/Admin"));
 const RoutePlanner = lazy(() => import("./pages/RoutePlanner"));
+const SavedRoutes = lazy(() => import("./pages/Routes"));
+const MyRoute = lazy(() => import("./pages/MyRoute"));
+const StormOutlook = lazy(() => import("./pages/StormOutlook"));
+const Storms = lazy(() => import("./pages/Storms"));
+const StormSummary = lazy(() => import("./pages/StormSummary"));
 const AuditLog = lazy(() => import("./pages/AuditLog"));
 const Profile = lazy(() => import("./pages/Profile"));
 
@@ -33,14 +42,20 @@ const queryClient = new QueryClient();
 // Component to handle role-based redirect after login
 const RoleBasedRedirect = () => {
   const { loading, rolesLoading, employeeCategory, isStaff } = useAuth();
+  const { routes: todaysRoutes, isLoading: routesLoading } = useMyRoute();
 
-  if (loading || rolesLoading) return null;
+  if (loading || rolesLoading || routesLoading) return null;
 
   // Clients go to client portal
   if (!isStaff()) {
     return <Navigate to="/client-portal" replace />;
   }
 
+  // Crew with a route handed out for today start on it
+  if (todaysRoutes.length > 0) {
+    return <Navigate to="/my-route" replace />;
+  }
+
   // Shovel crew goes to shovel dashboard
   if (employeeCategory === 'shovel') {
     return <Navigate to="/shovel-crew" replace />;
@@ -68,6 +83,7 @@ const AppContent = () => {
     <>
       {showSplash && <SplashLoader onComplete={() => setShowSplash(false)} />}
       <PWAInstallBanner />
+      <LocationTracker />
       <Suspense fallback={<PageLoader />}>
         <Routes>
           {/* Public routes */}
@@ -126,6 +142,14 @@ const AppContent = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/timesheets"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                <Timesheets />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/work-logs"
             element={
@@ -158,6 +182,46 @@ const AppContent = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/routes"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                <SavedRoutes />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/my-route"
+            element={
+              <ProtectedRoute requireStaff>
+                <MyRoute />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/storms"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                <Storms />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/storms/:stormId"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                <StormSummary />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/storm-outlook"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'manager', 'driver', 'shovel_crew']}>
+                <StormOutlook />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/audit-log"
             element={
@@ -186,6 +250,14 @@ const AppContent = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/client-portal/invoices/:invoiceId"
+            element={
+              <ProtectedRoute>
+                <ClientInvoice />
+              </ProtectedRoute>
+            }
+          />
 
           {/* Catch-all */}
           <Route path="*" element={<NotFound />} />
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useClockInZones, useClockInZoneSettings } from '@/hooks/useClockInZones';
+import { useGeolocation } from '@/hooks/useGeolocation';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Crosshair, Loader2, MapPinned, Plus, Trash2 } from 'lucide-react';
+import {
+  CLOCK_IN_POLICY_LABELS,
+  DEFAULT_CLOCK_IN_ZONE_RADIUS,
+  type ClockInPolicyAction,
+  type ClockInZoneSettings as Settings,
+} from '@/lib/clockInZones';
+import type { EmployeeCategory } from '@/lib/supabase-types';
+
+const CATEGORY_LABELS: Record<EmployeeCategory, string> = {
+  plow: 'Plow crew',
+  shovel: 'Shovel crew',
+};
+
+const emptyZone = { name: '', latitude: '', longitude: '', radius: String(DEFAULT_CLOCK_IN_ZONE_RADIUS) };
+
+export const ClockInZoneSettings = () => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { settings, saveSettings } = useClockInZoneSettings();
+  const { zones, addZone, updateZone, deleteZone } = useClockInZones();
+  const { getPosition, loading: gpsLoading } = useGeolocation();
+  const [draft, setDraft] = useState<Settings>(settings);
+  const [newZone, setNewZone] = useState(emptyZone);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleSave = () => {
+    saveSettings.mutate(draft, {
+      onSuccess: () => toast({ title: 'Clock-in policy saved' }),
+      onError: (error) => {
+        toast({ title: 'Error saving clock-in policy', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  const handleUseLocation = async () => {
+    const position = await getPosition();
+    if (!position) {
+      toast({ title: 'Location unavailable', variant: 'destructive' });
+      return;
+    }
+    setNewZone({ ...newZone, latitude: position.latitude.toFixed(6), longitude: position.longitude.toFixed(6) });
+  };
+
+  const latitude = parseFloat(newZone.latitude);
+  const longitude = parseFloat(newZone.longitude);
+  const radius = parseInt(newZone.radius);
+  const newZoneValid =
+    newZone.name.trim() !== '' &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180 &&
+    radius > 0;
+
+  const handleAddZone = () => {
+    addZone.mutate(
+      { name: newZone.name.trim(), latitude, longitude, radius_meters: radius },
+      {
+        onSuccess: () => {
+          setNewZone(emptyZone);
+          toast({ title: 'Clock-in zone added' });
+        },
+        onError: (error) => {
+          toast({ title: 'Error adding zone', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  const handleDeleteZone = (id: string, name: string) => {
+    if (!confirm(`Delete the clock-in zone "${name}"?`)) return;
+    deleteZone.mutate(id, {
+      onError: (error) => {
+        toast({ title: 'Error deleting zone', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPinned className="h-5 w-5" />
+          Clock-In Zones
+        </CardTitle>
+        <CardDescription>
+          Where employees may clock in. Clock-ins outside every zone or without GPS follow the crew's policy and are
+          recorded in the audit log with the distance to the nearest zone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {zones.length === 0 && (
+            <p className="text-sm text-muted-foreground">No fixed zones yet. Add the shop or yard below.</p>
+          )}
+          {zones.map((zone) => (
+            <div key={zone.id} className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{zone.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {zone.latitude.toFixed(5)}, {zone.longitude.toFixed(5)} · {zone.radius_meters} m radius
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={zone.is_active}
+                  disabled={!canEdit}
+                  onCheckedChange={(checked) => updateZone.mutate({ id: zone.id, is_active: checked })}
+                />
+                {canEdit && (
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteZone(zone.id, zone.name)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {canEdit && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+              <div className="space-y-1 col-span-2 md:col-span-1">
+                <Label className="text-xs">Name</Label>
+                <Input
+                  value={newZone.name}
+                  placeholder="Main yard"
+                  onChange={(e) => setNewZone({ ...newZone, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Latitude</Label>
+                <Input value={newZone.latitude} onChange={(e) => setNewZone({ ...newZone, latitude: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Longitude</Label>
+                <Input value={newZone.longitude} onChange={(e) => setNewZone({ ...newZone, longitude: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Radius (m)</Label>
+                <Input
+                  type="number"
+                  min="10"
+                  value={newZone.radius}
+                  onChange={(e) => setNewZone({ ...newZone, radius: e.target.value })}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="icon" onClick={handleUseLocation} disabled={gpsLoading} title="Use my location">
+                  {gpsLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Crosshair className="h-4 w-4" />}
+                </Button>
+                <Button onClick={handleAddZone} disabled={!newZoneValid || addZone.isPending} className="flex-1">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+            <div>
+              <Label>Active accounts are zones</Label>
+              <p className="text-xs text-muted-foreground">Crews can clock in at any active account with a location.</p>
+            </div>
+            <Switch
+              checked={draft.include_accounts}
+              disabled={!canEdit}
+              onCheckedChange={(checked) => setDraft({ ...draft, include_accounts: checked })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Account zone radius (m)</Label>
+            <Input
+              type="number"
+              min="10"
+              step="10"
+              value={draft.account_radius_meters}
+              disabled={!canEdit || !draft.include_accounts}
+              onChange={(e) => setDraft({ ...draft, account_radius_meters: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          {(Object.keys(CATEGORY_LABELS) as EmployeeCategory[]).map((category) => (
+            <div key={category} className="space-y-2">
+              <Label>{CATEGORY_LABELS[category]} outside a zone or without GPS</Label>
+              <Select
+                value={draft.policies[category]}
+                disabled={!canEdit}
+                onValueChange={(value) =>
+                  setDraft({ ...draft, policies: { ...draft.policies, [category]: value as ClockInPolicyAction } })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CLOCK_IN_POLICY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        {canEdit ? (
+          <Button onClick={handleSave} disabled={saveSettings.isPending || draft.account_radius_meters <= 0}>
+            {saveSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Clock-In Policy
+          </Button>
+        ) : (
+          <p className="text-xs text-muted-foreground">Only admins can change clock-in zones.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
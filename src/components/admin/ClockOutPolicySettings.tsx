@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useClockOutPolicy } from '@/hooks/useMissedClockOuts';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AlarmClockOff, Loader2 } from 'lucide-react';
+import type { ClockOutPolicy } from '@/lib/clockOutPolicy';
+
+export const ClockOutPolicySettings = () => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { policy, savePolicy } = useClockOutPolicy();
+  const [draft, setDraft] = useState<ClockOutPolicy>(policy);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const handleSave = () => {
+    savePolicy.mutate(draft, {
+      onSuccess: () => toast({ title: 'Clock-out policy saved' }),
+      onError: (error) => {
+        toast({ title: 'Error saving clock-out policy', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlarmClockOff className="h-5 w-5" />
+          Missed Clock-Outs
+        </CardTitle>
+        <CardDescription>
+          Shifts open longer than this are flagged for review, and the employee and managers are notified.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Flag shifts open longer than (hours)</Label>
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              value={draft.max_shift_hours}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, max_shift_hours: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+            <div>
+              <Label>Auto-close at last check-out</Label>
+              <p className="text-xs text-muted-foreground">
+                Close flagged shifts at the employee's last work log check-out. They stay in the review queue.
+              </p>
+            </div>
+            <Switch
+              checked={draft.auto_close}
+              disabled={!canEdit}
+              onCheckedChange={(checked) => setDraft({ ...draft, auto_close: checked })}
+            />
+          </div>
+        </div>
+        {canEdit ? (
+          <Button onClick={handleSave} disabled={savePolicy.isPending || draft.max_shift_hours <= 0}>
+            {savePolicy.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Clock-Out Policy
+          </Button>
+        ) : (
+          <p className="text-xs text-muted-foreground">Only admins can change the clock-out policy.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocationTrackingSettings } from '@/hooks/useLocationTracking';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Navigation, Trash2 } from 'lucide-react';
+import type { LocationTrackingSettings as Settings } from '@/lib/locationTracking';
+
+export const LocationTrackingSettings = () => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { settings, saveSettings } = useLocationTrackingSettings();
+  const [draft, setDraft] = useState<Settings>(settings);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const purgeMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('purge_expired_location_pings');
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (deleted) => {
+      toast({ title: 'Location history purged', description: `${deleted} expired pings deleted` });
+    },
+    onError: (error) => {
+      toast({ title: 'Error purging location history', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  const handleSave = () => {
+    if (draft.interval_seconds < 10 || draft.min_distance_meters <= 0 || draft.retention_days < 1) {
+      toast({
+        title: 'Check the tracking settings',
+        description: 'Interval must be at least 10 seconds, distance above 0 and retention at least 1 day.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveSettings.mutate(draft, {
+      onSuccess: () => toast({ title: 'Location tracking settings saved' }),
+      onError: (error) => {
+        toast({ title: 'Error saving location tracking settings', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Navigation className="h-5 w-5" />
+          Location Tracking
+        </CardTitle>
+        <CardDescription>
+          How often crew who share their location send a position while on shift, and how long the history is kept.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label>Ping Interval (seconds)</Label>
+            <Input
+              type="number"
+              min="10"
+              value={draft.interval_seconds}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, interval_seconds: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Minimum Movement (meters)</Label>
+            <Input
+              type="number"
+              min="1"
+              value={draft.min_distance_meters}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, min_distance_meters: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Keep History (days)</Label>
+            <Input
+              type="number"
+              min="1"
+              value={draft.retention_days}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, retention_days: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        </div>
+        {canEdit ? (
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saveSettings.isPending}>
+              {saveSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Tracking Settings
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => purgeMutation.mutate()} disabled={purgeMutation.isPending}>
+              {purgeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              Purge Expired Now
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Only admins can change location tracking.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
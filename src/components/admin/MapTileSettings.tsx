@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useMapTileSettings } from '@/hooks/useMapData';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Map as MapIcon } from 'lucide-react';
+import { DEFAULT_MAP_TILE_SETTINGS, type MapTileSettings as Settings } from '@/lib/maps';
+
+export const MapTileSettings = () => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { settings, saveSettings } = useMapTileSettings();
+  const [draft, setDraft] = useState<Settings>(settings);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleSave = () => {
+    if (!draft.url.includes('{z}') || !draft.url.includes('{x}') || !draft.url.includes('{y}')) {
+      toast({ title: 'Tile URL needs {z}, {x} and {y} placeholders', variant: 'destructive' });
+      return;
+    }
+    saveSettings.mutate(draft, {
+      onSuccess: () => toast({ title: 'Map tiles saved' }),
+      onError: (error) => {
+        toast({ title: 'Error saving map tiles', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapIcon className="h-5 w-5" />
+          Map Tiles
+        </CardTitle>
+        <CardDescription>
+          Tile server for every map in the app. Point this at a self-hosted server to avoid public tile limits.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-[1fr_120px] gap-3">
+          <div className="space-y-2">
+            <Label>Tile URL</Label>
+            <Input
+              value={draft.url}
+              placeholder={DEFAULT_MAP_TILE_SETTINGS.url}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Max Zoom</Label>
+            <Input
+              type="number"
+              min="1"
+              max="22"
+              value={draft.maxZoom}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, maxZoom: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Attribution</Label>
+          <Input
+            value={draft.attribution}
+            disabled={!canEdit}
+            onChange={(e) => setDraft({ ...draft, attribution: e.target.value })}
+          />
+        </div>
+        {canEdit ? (
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saveSettings.isPending}>
+              {saveSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Map Tiles
+            </Button>
+            <Button variant="outline" onClick={() => setDraft(DEFAULT_MAP_TILE_SETTINGS)}>
+              Reset to Default
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Only admins can change map tiles.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
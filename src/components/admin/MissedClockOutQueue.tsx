@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { format, differenceInMinutes } from 'date-fns';
+import { useMissedClockOuts, useLastCheckOut } from '@/hooks/useMissedClockOuts';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { AlertTriangle, Check, Loader2 } from 'lucide-react';
+
+const toInputValue = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+type FlaggedShift = ReturnType<typeof useMissedClockOuts>['shifts'][number];
+
+interface FlaggedShiftRowProps {
+  shift: FlaggedShift;
+  saving: boolean;
+  onResolve: (clockOutTime: string) => void;
+}
+
+const FlaggedShiftRow = ({ shift, saving, onResolve }: FlaggedShiftRowProps) => {
+  const isOpen = !shift.clock_out_time;
+  const { data: lastCheckOut } = useLastCheckOut(shift.employee_id, shift.clock_in_time, isOpen);
+  const [clockOut, setClockOut] = useState('');
+
+  // Start from the recorded clock-out, or the last check-out for open shifts
+  useEffect(() => {
+    const suggested = shift.clock_out_time ?? lastCheckOut;
+    if (suggested) setClockOut(toInputValue(suggested));
+  }, [shift.clock_out_time, lastCheckOut]);
+
+  const hours = differenceInMinutes(shift.clock_out_time ? new Date(shift.clock_out_time) : new Date(), new Date(shift.clock_in_time)) / 60;
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 p-4 rounded-lg bg-muted/30">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <p className="font-medium">{shift.employees?.name || 'Unknown'}</p>
+          {isOpen ? (
+            <Badge variant="outline" className="border-destructive/40 text-destructive">Still open</Badge>
+          ) : shift.auto_closed ? (
+            <Badge variant="outline" className="border-warning/40 text-warning">Auto-closed</Badge>
+          ) : (
+            <Badge variant="outline">Clocked out late</Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          In {format(new Date(shift.clock_in_time), 'EEE MMM d, h:mm a')}
+          {shift.clock_out_time && ` · Out ${format(new Date(shift.clock_out_time), 'EEE MMM d, h:mm a')}`}
+          {` · ${hours.toFixed(1)}h`}
+        </p>
+        {isOpen && (
+          <p className="text-xs text-muted-foreground">
+            {lastCheckOut
+              ? `Last work log check-out ${format(new Date(lastCheckOut), 'EEE MMM d, h:mm a')}`
+              : 'No work log check-out since clock-in'}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          type="datetime-local"
+          value={clockOut}
+          min={toInputValue(shift.clock_in_time)}
+          onChange={(e) => setClockOut(e.target.value)}
+          className="w-auto"
+        />
+        <Button size="sm" onClick={() => onResolve(new Date(clockOut).toISOString())} disabled={!clockOut || saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+          Confirm
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const MissedClockOutQueue = () => {
+  const { toast } = useToast();
+  const { shifts, isLoading, resolveShift } = useMissedClockOuts();
+
+  const handleResolve = (timeClockId: string, clockOutTime: string) => {
+    resolveShift.mutate(
+      { timeClockId, clockOutTime },
+      {
+        onSuccess: () => toast({ title: 'Shift reviewed' }),
+        onError: (error) => {
+          toast({ title: 'Error reviewing shift', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  if (isLoading || shifts.length === 0) return null;
+
+  return (
+    <Card className="glass border-warning/40">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="h-5 w-5 text-warning" />
+          Missed Clock-Outs
+          <Badge variant="secondary">{shifts.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Shifts left open past the limit. Confirm or correct the clock-out time; the change is kept in the audit log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {shifts.map((shift) => (
+          <FlaggedShiftRow
+            key={shift.id}
+            shift={shift}
+            saving={resolveShift.isPending && resolveShift.variables?.timeClockId === shift.id}
+            onResolve={(clockOutTime) => handleResolve(shift.id, clockOutTime)}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
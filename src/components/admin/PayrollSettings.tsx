@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePayrollSettings } from '@/hooks/usePayroll';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Wallet } from 'lucide-react';
+import {
+  PAYROLL_PERIOD_LABELS,
+  type PayrollPeriodType,
+  type PayrollSettings as Settings,
+} from '@/lib/payroll';
+
+// Blank input means the overtime rule is off
+const parseThreshold = (value: string) => {
+  const hours = parseFloat(value);
+  return hours > 0 ? hours : null;
+};
+
+export const PayrollSettings = () => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { settings, saveSettings } = usePayrollSettings();
+  const [draft, setDraft] = useState<Settings>(settings);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleSave = () => {
+    saveSettings.mutate(draft, {
+      onSuccess: () => toast({ title: 'Payroll settings saved' }),
+      onError: (error) => {
+        toast({ title: 'Error saving payroll settings', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Payroll
+        </CardTitle>
+        <CardDescription>
+          Pay period length, overtime thresholds and the codes used in payroll exports. Timesheets already approved keep their totals.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-2">
+            <Label>Pay Period</Label>
+            <Select
+              value={draft.period_type}
+              disabled={!canEdit}
+              onValueChange={(value) => setDraft({ ...draft, period_type: value as PayrollPeriodType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAYROLL_PERIOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>A Period Starts On</Label>
+            <Input
+              type="date"
+              value={draft.period_anchor}
+              disabled={!canEdit}
+              onChange={(e) => e.target.value && setDraft({ ...draft, period_anchor: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Daily OT After (hours)</Label>
+            <Input
+              type="number"
+              min="1"
+              step="0.5"
+              placeholder="None"
+              value={draft.daily_overtime_hours ?? ''}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, daily_overtime_hours: parseThreshold(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Weekly OT After (hours)</Label>
+            <Input
+              type="number"
+              min="1"
+              step="0.5"
+              placeholder="None"
+              value={draft.weekly_overtime_hours ?? ''}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, weekly_overtime_hours: parseThreshold(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Payroll Company Code</Label>
+            <Input
+              value={draft.company_code}
+              placeholder="e.g. ADP Co Code"
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, company_code: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Storm Premium Earnings Code</Label>
+            <Input
+              value={draft.storm_earning_code}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, storm_earning_code: e.target.value })}
+            />
+          </div>
+        </div>
+        {canEdit ? (
+          <Button onClick={handleSave} disabled={saveSettings.isPending}>
+            {saveSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Payroll Settings
+          </Button>
+        ) : (
+          <p className="text-xs text-muted-foreground">Only admins can change payroll settings.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
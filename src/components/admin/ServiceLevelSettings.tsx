@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useServiceLevelSettings } from '@/hooks/useServiceLevels';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Timer } from 'lucide-react';
+import { ACCOUNT_PRIORITIES, type ServiceLevelSettings as Settings } from '@/lib/serviceLevels';
+
+export const ServiceLevelSettings = () => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { settings, saveSettings } = useServiceLevelSettings();
+  const [draft, setDraft] = useState<Settings>(settings);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleSave = () => {
+    saveSettings.mutate(draft, {
+      onSuccess: () => toast({ title: 'Service levels saved' }),
+      onError: (error) => {
+        toast({ title: 'Error saving service levels', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Service Levels
+        </CardTitle>
+        <CardDescription>
+          Hours after a storm starts that each account priority must be serviced within. Deadlines already set for a storm are not changed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {ACCOUNT_PRIORITIES.map((priority) => (
+            <div key={priority} className="space-y-2">
+              <Label className="capitalize">{priority} (hours)</Label>
+              <Input
+                type="number"
+                min="0.5"
+                step="0.5"
+                value={draft.hours[priority]}
+                disabled={!canEdit}
+                onChange={(e) =>
+                  setDraft({ ...draft, hours: { ...draft.hours, [priority]: parseFloat(e.target.value) || 0 } })
+                }
+              />
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label>Warn (minutes before)</Label>
+            <Input
+              type="number"
+              min="0"
+              step="15"
+              value={draft.warning_minutes}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, warning_minutes: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        </div>
+        {canEdit ? (
+          <Button onClick={handleSave} disabled={saveSettings.isPending}>
+            {saveSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Service Levels
+          </Button>
+        ) : (
+          <p className="text-xs text-muted-foreground">Only admins can change service levels.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
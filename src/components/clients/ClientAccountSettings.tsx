@@ -0,0 +1,302 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useClientAccountSettings, useOrganizationMembers } from '@/hooks/useClientAccount';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { OrganizationMembers } from '@/components/clients/OrganizationMembers';
+import { PendingInvitations } from '@/components/clients/PendingInvitations';
+import { Clock, Loader2, Trash2, UserPlus } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  CONTACT_CHANGE_STATUS_LABELS,
+  CONTACT_FIELD_LABELS,
+  CONTACT_FIELDS,
+  canManageClientAccount,
+  contactDetailsChanged,
+  diffContactChange,
+  normalizeContactDetails,
+  type ClientAccountAccess,
+  type ContactChangeStatus,
+  type ContactDetails,
+} from '@/lib/clientAccounts';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface ClientAccountSettingsProps {
+  access: ClientAccountAccess;
+}
+
+const toContactDetails = (account: Tables<'accounts'>): ContactDetails => ({
+  contact_name: account.contact_name,
+  contact_email: account.contact_email,
+  contact_phone: account.contact_phone,
+});
+
+// Self-service settings in the client portal: contact details (applied after
+// staff approval), who else can log in, and service notifications. Billing
+// and viewer roles only get the notification choice.
+export const ClientAccountSettings = ({ access }: ClientAccountSettingsProps) => {
+  const { account, organizationId, organizationName } = access;
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const {
+    accountUsers,
+    membership,
+    contactRequests,
+    pendingRequest,
+    isLoading,
+    requestContactChange,
+    cancelContactChange,
+    pendingInvitations,
+    addAccountUser,
+    cancelInvitation,
+    removeAccountUser,
+    setNotifyServiceCompleted,
+  } = useClientAccountSettings(account.id, canManageClientAccount(access.role));
+  const {
+    membership: organizationMembership,
+    notifyServiceCompleted: organizationNotify,
+    setNotifyServiceCompleted: setOrganizationNotify,
+  } = useOrganizationMembers(organizationId);
+  const canManage = canManageClientAccount(access.role);
+
+  const [contact, setContact] = useState<ContactDetails>(toContactDetails(account));
+  const [newUserEmail, setNewUserEmail] = useState('');
+
+  useEffect(() => {
+    setContact(toContactDetails(account));
+  }, [account]);
+
+  const lastReviewed = contactRequests.find((request) => request.status !== 'pending');
+  const hasChanges = contactDetailsChanged(toContactDetails(account), normalizeContactDetails(contact));
+
+  const handleRequestChange = async () => {
+    try {
+      await requestContactChange.mutateAsync(contact);
+      toast({ title: 'Change requested', description: 'We will update your details once the office approves.' });
+    } catch (error) {
+      toast({ title: 'Error requesting change', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleCancelChange = async () => {
+    if (!pendingRequest) return;
+    try {
+      await cancelContactChange.mutateAsync(pendingRequest.id);
+      setContact(toContactDetails(account));
+      toast({ title: 'Request cancelled' });
+    } catch (error) {
+      toast({ title: 'Error cancelling request', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleAddUser = async () => {
+    try {
+      await addAccountUser.mutateAsync(newUserEmail);
+      setNewUserEmail('');
+      toast({
+        title: 'Invitation sent',
+        description: `${newUserEmail} will see it when they sign in to the portal with that email.`,
+      });
+    } catch (error) {
+      toast({ title: 'Error inviting user', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleRemoveUser = async (userId: string, label: string) => {
+    const self = userId === user?.id;
+    if (!confirm(self ? 'Remove your own access to this account?' : `Remove ${label} from this account?`)) return;
+    try {
+      await removeAccountUser.mutateAsync(userId);
+      toast({ title: 'User removed' });
+    } catch (error) {
+      toast({ title: 'Error removing user', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleToggleNotify = async (enabled: boolean, scope: 'account' | 'organization') => {
+    try {
+      if (scope === 'organization') {
+        await setOrganizationNotify.mutateAsync(enabled);
+      } else {
+        await setNotifyServiceCompleted.mutateAsync(enabled);
+      }
+    } catch (error) {
+      toast({ title: 'Error saving preference', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle>Contact Details</CardTitle>
+            <CardDescription>Changes are reviewed by our office before they take effect.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {pendingRequest ? (
+              <div className="space-y-3 rounded-lg border border-warning/40 bg-warning/10 p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2 font-medium">
+                    <Clock className="h-4 w-4 text-warning" />
+                    Requested {format(new Date(pendingRequest.created_at), 'MMM d, h:mm a')}
+                  </span>
+                  <Badge variant="outline">{CONTACT_CHANGE_STATUS_LABELS.pending}</Badge>
+                </div>
+                {diffContactChange(pendingRequest).map((change) => (
+                  <p key={change.field}>
+                    <span className="text-muted-foreground">{change.label}:</span> {change.previous || '-'} → {change.next || '-'}
+                  </p>
+                ))}
+                <Button size="sm" variant="outline" onClick={handleCancelChange} disabled={cancelContactChange.isPending}>
+                  {cancelContactChange.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Cancel Request
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="grid gap-3 sm:grid-cols-3">
+                  {CONTACT_FIELDS.map((field) => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={field}>{CONTACT_FIELD_LABELS[field]}</Label>
+                      <Input
+                        id={field}
+                        type={field === 'contact_email' ? 'email' : field === 'contact_phone' ? 'tel' : 'text'}
+                        value={contact[field] ?? ''}
+                        onChange={(e) => setContact({ ...contact, [field]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <Button onClick={handleRequestChange} disabled={!hasChanges || requestContactChange.isPending}>
+                  {requestContactChange.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Request Change
+                </Button>
+              </>
+            )}
+
+            {lastReviewed && !pendingRequest && (
+              <p className="text-xs text-muted-foreground">
+                Last request {CONTACT_CHANGE_STATUS_LABELS[lastReviewed.status as ContactChangeStatus]?.toLowerCase() ?? lastReviewed.status}
+                {lastReviewed.reviewed_at && ` on ${format(new Date(lastReviewed.reviewed_at), 'MMM d')}`}
+                {lastReviewed.review_note && `: ${lastReviewed.review_note}`}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {canManage && (
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle>Authorized Users</CardTitle>
+            <CardDescription>
+              People who can sign in to see services and invoices for {account.name}. Invited people get access once they accept.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : (
+              <div className="divide-y divide-border">
+                {accountUsers.map((accountUser) => (
+                  <div key={accountUser.user_id} className="flex items-center justify-between gap-2 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {accountUser.display_name || accountUser.email}
+                        {accountUser.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">{accountUser.email}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 shrink-0"
+                      onClick={() => handleRemoveUser(accountUser.user_id, accountUser.email)}
+                      disabled={(!organizationId && accountUsers.length <= 1) || removeAccountUser.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <PendingInvitations
+              invitations={pendingInvitations}
+              onCancel={(id) => cancelInvitation.mutateAsync(id)}
+              isCancelling={cancelInvitation.isPending}
+            />
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                value={newUserEmail}
+                placeholder="colleague@example.com"
+                onChange={(e) => setNewUserEmail(e.target.value)}
+              />
+              <Button className="gap-2 shrink-0" onClick={handleAddUser} disabled={!newUserEmail.trim() || addAccountUser.isPending}>
+                {addAccountUser.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+                Invite
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {organizationId && (
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle>{organizationName || 'Organization'} Users</CardTitle>
+            <CardDescription>People who can sign in to every property in your organization.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OrganizationMembers organizationId={organizationId} canManage={organizationMembership?.role === 'owner'} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle>Notifications</CardTitle>
+          <CardDescription>Choose what we tell you about. This only affects your login.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {membership && (
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="notify-service-completed">Service completed at {account.name}</Label>
+                <p className="text-xs text-muted-foreground">Get a notification with the crew's photo when a visit is finished.</p>
+              </div>
+              <Switch
+                id="notify-service-completed"
+                checked={membership.notify_service_completed}
+                onCheckedChange={(checked) => handleToggleNotify(checked, 'account')}
+                disabled={setNotifyServiceCompleted.isPending}
+              />
+            </div>
+          )}
+          {organizationMembership && (
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="notify-organization-service-completed">
+                  Service completed at any {organizationName || 'organization'} property
+                </Label>
+                <p className="text-xs text-muted-foreground">Covers every property, including ones added later.</p>
+              </div>
+              <Switch
+                id="notify-organization-service-completed"
+                checked={organizationNotify}
+                onCheckedChange={(checked) => handleToggleNotify(checked, 'organization')}
+                disabled={setOrganizationNotify.isPending}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import { useState, useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useClientOrganizations } from '@/hooks/useClientAccount';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { OrganizationMembers } from '@/components/clients/OrganizationMembers';
+import { Loader2, Search } from 'lucide-react';
+import type { ClientOrganization } from '@/lib/clientAccounts';
+
+interface ClientOrganizationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null to create a new organization
+  organization: ClientOrganization | null;
+}
+
+export const ClientOrganizationDialog = ({ open, onOpenChange, organization }: ClientOrganizationDialogProps) => {
+  const { toast } = useToast();
+  const { saveOrganization } = useClientOrganizations();
+  const [name, setName] = useState('');
+  const [billingEmail, setBillingEmail] = useState('');
+  const [notes, setNotes] = useState('');
+  const [accountIds, setAccountIds] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  // Members are managed once the organization exists
+  const [savedId, setSavedId] = useState<string | null>(null);
+
+  const { data: accountRows } = useQuery({
+    queryKey: ['accounts', 'organizations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, name, address, organization_id, client_organizations(name)')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+  const accounts = accountRows ?? [];
+  // Tick the current properties once per opening so refetches don't undo edits
+  const selectionLoaded = useRef(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(organization?.name ?? '');
+    setBillingEmail(organization?.billing_email ?? '');
+    setNotes(organization?.notes ?? '');
+    setSearch('');
+    setSavedId(organization?.id ?? null);
+    setAccountIds([]);
+    selectionLoaded.current = false;
+  }, [open, organization]);
+
+  useEffect(() => {
+    if (!open || !accountRows || selectionLoaded.current) return;
+    selectionLoaded.current = true;
+    if (organization) {
+      setAccountIds(accountRows.filter((a) => a.organization_id === organization.id).map((a) => a.id));
+    }
+  }, [open, organization, accountRows]);
+
+  const term = search.trim().toLowerCase();
+  const visibleAccounts = term
+    ? accounts.filter((a) => a.name.toLowerCase().includes(term) || a.address.toLowerCase().includes(term))
+    : accounts;
+
+  const toggleAccount = (id: string, checked: boolean) => {
+    setAccountIds(checked ? [...accountIds, id] : accountIds.filter((accountId) => accountId !== id));
+  };
+
+  const handleSave = async () => {
+    try {
+      const id = await saveOrganization.mutateAsync({
+        id: savedId ?? undefined,
+        name,
+        billing_email: billingEmail,
+        notes,
+        accountIds,
+      });
+      setSavedId(id);
+      toast({ title: 'Organization saved' });
+      if (savedId) onOpenChange(false);
+    } catch (error) {
+      toast({ title: 'Error saving organization', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{organization ? 'Edit Organization' : 'New Organization'}</DialogTitle>
+          <DialogDescription>
+            Group a property manager's accounts so their staff can sign in once and see every site.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="organization-name">Name</Label>
+              <Input id="organization-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="organization-billing-email">Billing email</Label>
+              <Input
+                id="organization-billing-email"
+                type="email"
+                value={billingEmail}
+                onChange={(e) => setBillingEmail(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="organization-notes">Notes</Label>
+            <Textarea id="organization-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Properties ({accountIds.length})</Label>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input className="pl-8" placeholder="Search accounts" value={search} onChange={(e) => setSearch(e.target.value)} />
+            </div>
+            <ScrollArea className="h-48 rounded-md border border-border">
+              <div className="p-2 space-y-1">
+                {visibleAccounts.map((account) => {
+                  const otherOrganization =
+                    account.organization_id && account.organization_id !== savedId ? account.client_organizations?.name : null;
+                  return (
+                    <label key={account.id} className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-muted/50 cursor-pointer">
+                      <Checkbox
+                        checked={accountIds.includes(account.id)}
+                        onCheckedChange={(checked) => toggleAccount(account.id, checked === true)}
+                      />
+                      <span className="truncate">{account.name}</span>
+                      {otherOrganization && (
+                        <span className="ml-auto text-xs text-muted-foreground shrink-0">in {otherOrganization}</span>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Users</Label>
+            {savedId ? (
+              <OrganizationMembers organizationId={savedId} canManage />
+            ) : (
+              <p className="text-sm text-muted-foreground">Save the organization to add users.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || saveOrganization.isPending}>
+            {saveOrganization.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
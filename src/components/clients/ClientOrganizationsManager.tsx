@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useClientOrganizations } from '@/hooks/useClientAccount';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ClientOrganizationDialog } from '@/components/clients/ClientOrganizationDialog';
+import { Building2, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { ClientOrganization } from '@/lib/clientAccounts';
+
+export const ClientOrganizationsManager = () => {
+  const { toast } = useToast();
+  const { organizations, isLoading, deleteOrganization } = useClientOrganizations();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ClientOrganization | null>(null);
+
+  const openDialog = (organization: ClientOrganization | null) => {
+    setEditing(organization);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (organization: ClientOrganization) => {
+    if (!confirm(`Delete ${organization.name}? Its properties stay, but its users lose access through it.`)) return;
+    try {
+      await deleteOrganization.mutateAsync(organization.id);
+      toast({ title: 'Organization deleted' });
+    } catch (error) {
+      toast({ title: 'Error deleting organization', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle className="text-base font-medium">Client Organizations</CardTitle>
+          <CardDescription>Property managers with several sites and portal users</CardDescription>
+        </div>
+        <Button size="sm" className="gap-1" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4" />
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : organizations.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Building2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No client organizations yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {organizations.map((organization) => (
+              <div key={organization.id} className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted/30">
+                <div className="min-w-0">
+                  <p className="font-medium text-sm truncate">{organization.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {organization.accounts.map((account) => account.name).join(', ') || 'No properties'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge variant="secondary">{organization.accounts.length} properties</Badge>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openDialog(organization)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleDelete(organization)}
+                    disabled={deleteOrganization.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ClientOrganizationDialog open={dialogOpen} onOpenChange={setDialogOpen} organization={editing} />
+    </Card>
+  );
+};
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useContactChangeQueue } from '@/hooks/useClientAccount';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Check, Loader2, UserCog, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { diffContactChange } from '@/lib/clientAccounts';
+
+// Client-submitted contact detail changes waiting for staff approval
+export const ContactChangeQueue = () => {
+  const { toast } = useToast();
+  const { requests, isLoading, reviewRequest } = useContactChangeQueue();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const handleReview = async (id: string, status: 'approved' | 'rejected') => {
+    try {
+      await reviewRequest.mutateAsync({ id, status, note: notes[id] });
+      toast({ title: status === 'approved' ? 'Contact details updated' : 'Request rejected' });
+    } catch (error) {
+      toast({ title: 'Error reviewing request', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          Contact Changes
+          {requests.length > 0 && <Badge variant="secondary">{requests.length} pending</Badge>}
+        </CardTitle>
+        <CardDescription>Contact details clients asked to change from the portal</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <UserCog className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No contact changes waiting</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {requests.map((request) => (
+              <div key={request.id} className="p-3 rounded-lg bg-muted/30 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-sm truncate">{request.accounts?.name || 'Unknown account'}</p>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+                <div className="space-y-1 text-sm">
+                  {diffContactChange(request).map((change) => (
+                    <p key={change.field}>
+                      <span className="text-muted-foreground">{change.label}:</span>{' '}
+                      <span className="line-through text-muted-foreground">{change.previous || '-'}</span> → {change.next || '-'}
+                    </p>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    className="h-8 flex-1 min-w-[160px]"
+                    value={notes[request.id] ?? ''}
+                    placeholder="Note to client (optional)"
+                    onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                  />
+                  <Button
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => handleReview(request.id, 'approved')}
+                    disabled={reviewRequest.isPending}
+                  >
+                    <Check className="h-4 w-4" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    onClick={() => handleReview(request.id, 'rejected')}
+                    disabled={reviewRequest.isPending}
+                  >
+                    <X className="h-4 w-4" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
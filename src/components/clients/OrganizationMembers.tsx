@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganizationMembers } from '@/hooks/useClientAccount';
+import { PendingInvitations } from '@/components/clients/PendingInvitations';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import {
+  ORGANIZATION_ROLES,
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLE_LABELS,
+  type OrganizationRole,
+} from '@/lib/clientAccounts';
+
+interface OrganizationMembersProps {
+  organizationId: string;
+  // Owners in the portal and admins/managers in the office
+  canManage: boolean;
+}
+
+export const OrganizationMembers = ({ organizationId, canManage }: OrganizationMembersProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { members, pendingInvitations, isLoading, setMember, cancelInvitation, removeMember } =
+    useOrganizationMembers(organizationId, canManage);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('viewer');
+
+  const handleAdd = async () => {
+    try {
+      const result = await setMember.mutateAsync({ email, role });
+      setEmail('');
+      toast(
+        result === 'updated'
+          ? { title: 'Role updated', description: `${email} is now ${ORGANIZATION_ROLE_LABELS[role].toLowerCase()}.` }
+          : { title: 'Invitation sent', description: `${email} will see it when they sign in to the portal with that email.` }
+      );
+    } catch (error) {
+      toast({ title: 'Error inviting user', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleRoleChange = async (memberEmail: string, newRole: OrganizationRole) => {
+    try {
+      await setMember.mutateAsync({ email: memberEmail, role: newRole });
+    } catch (error) {
+      toast({ title: 'Error changing role', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleRemove = async (userId: string, label: string) => {
+    if (!confirm(userId === user?.id ? 'Remove yourself from this organization?' : `Remove ${label}?`)) return;
+    try {
+      await removeMember.mutateAsync(userId);
+      toast({ title: 'User removed' });
+    } catch (error) {
+      toast({ title: 'Error removing user', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {members.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No users yet.</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {members.map((member) => (
+            <div key={member.user_id} className="flex items-center justify-between gap-2 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {member.display_name || member.email}
+                  {member.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+              </div>
+              {canManage ? (
+                <div className="flex items-center gap-1 shrink-0">
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => handleRoleChange(member.email, value as OrganizationRole)}
+                    disabled={setMember.isPending}
+                  >
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ORGANIZATION_ROLES.map((key) => (
+                        <SelectItem key={key} value={key}>{ORGANIZATION_ROLE_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleRemove(member.user_id, member.email)}
+                    disabled={removeMember.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Badge variant="outline">{ORGANIZATION_ROLE_LABELS[member.role as OrganizationRole] ?? member.role}</Badge>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <PendingInvitations
+          invitations={pendingInvitations}
+          onCancel={(id) => cancelInvitation.mutateAsync(id)}
+          isCancelling={cancelInvitation.isPending}
+        />
+      )}
+
+      {canManage && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              placeholder="colleague@example.com"
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as OrganizationRole)}>
+              <SelectTrigger className="w-28 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ORGANIZATION_ROLES.map((key) => (
+                  <SelectItem key={key} value={key}>{ORGANIZATION_ROLE_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button className="gap-2 shrink-0" onClick={handleAdd} disabled={!email.trim() || setMember.isPending}>
+              {setMember.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+              Invite
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">{ORGANIZATION_ROLE_DESCRIPTIONS[role]}.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ORGANIZATION_ROLE_LABELS, type OrganizationRole } from '@/lib/clientAccounts';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface PendingInvitationsProps {
+  invitations: Tables<'portal_invitations'>[];
+  onCancel: (invitationId: string) => Promise<void>;
+  isCancelling: boolean;
+}
+
+// Invitations the recipient hasn't answered yet, with a way to withdraw them
+export const PendingInvitations = ({ invitations, onCancel, isCancelling }: PendingInvitationsProps) => {
+  const { toast } = useToast();
+
+  const handleCancel = async (invitation: Tables<'portal_invitations'>) => {
+    if (!confirm(`Cancel the invitation to ${invitation.email}?`)) return;
+    try {
+      await onCancel(invitation.id);
+      toast({ title: 'Invitation cancelled' });
+    } catch (error) {
+      toast({ title: 'Error cancelling invitation', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">Invited</p>
+      <div className="divide-y divide-border">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between gap-2 py-2">
+            <div className="min-w-0">
+              <p className="text-sm truncate">{invitation.email}</p>
+              <p className="text-xs text-muted-foreground">
+                Expires {format(new Date(invitation.expires_at), 'MMM d')}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {invitation.role && (
+                <Badge variant="outline">
+                  {ORGANIZATION_ROLE_LABELS[invitation.role as OrganizationRole] ?? invitation.role}
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => handleCancel(invitation)}
+                disabled={isCancelling}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { useToast } from '@/hooks/use-toast';
+import { usePortalInvitations } from '@/hooks/useClientAccount';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Check, Loader2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { ORGANIZATION_ROLE_LABELS, type OrganizationRole } from '@/lib/clientAccounts';
+
+// Invitations sent to the signed-in email. Nothing is shared with the login
+// until they accept here.
+export const PortalInvitations = ({ className }: { className?: string }) => {
+  const { toast } = useToast();
+  const { invitations, respond } = usePortalInvitations();
+
+  const handleRespond = async (id: string, accept: boolean) => {
+    try {
+      await respond.mutateAsync({ id, accept });
+      toast({ title: accept ? 'Invitation accepted' : 'Invitation declined' });
+    } catch (error) {
+      toast({ title: 'Error answering invitation', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card className={cn('glass', className)}>
+      <CardHeader>
+        <CardTitle>Invitations</CardTitle>
+        <CardDescription>Accept to see services and invoices for these properties.</CardDescription>
+      </CardHeader>
+      <CardContent className="divide-y divide-border">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">
+                {invitation.organization_name ?? invitation.account_name}
+                {invitation.role && (
+                  <span className="text-muted-foreground font-normal">
+                    {' '}· {ORGANIZATION_ROLE_LABELS[invitation.role as OrganizationRole] ?? invitation.role}
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {invitation.invited_by_name ? `From ${invitation.invited_by_name} · ` : ''}
+                {format(new Date(invitation.created_at), 'MMM d')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleRespond(invitation.id, true)} disabled={respond.isPending}>
+                {respond.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />}
+                Accept
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleRespond(invitation.id, false)} disabled={respond.isPending}>
+                <X className="h-3 w-3 mr-1" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
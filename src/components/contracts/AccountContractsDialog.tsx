@@ -0,0 +1,461 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ContractPricePreview } from '@/components/contracts/ContractPricePreview';
+import { FileSignature, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatCurrency } from '@/lib/invoicing';
+import {
+  BILLING_MODEL_LABELS,
+  DEFAULT_DEPTH_TIERS,
+  findActiveContract,
+  formatDepthTier,
+  parseDepthTiers,
+  validateDepthTiers,
+  type AccountContract,
+  type DepthTier,
+} from '@/lib/rateCards';
+import type { Json } from '@/integrations/supabase/types';
+import type { ContractBillingModel } from '@/lib/supabase-types';
+
+interface AccountContractsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: { id: string; name: string } | null;
+}
+
+const emptyForm = () => ({
+  name: `${new Date().getFullYear()}–${new Date().getFullYear() + 1} Season`,
+  billing_model: 'per_push' as ContractBillingModel,
+  seasonal_fee: '',
+  per_push_rate: '',
+  depth_tiers: DEFAULT_DEPTH_TIERS,
+  salt_per_unit: '',
+  shovel_hourly_rate: '',
+  minimum_charge: '',
+  effective_from: format(new Date(), 'yyyy-MM-dd'),
+  effective_to: '',
+  notes: '',
+});
+
+type ContractForm = ReturnType<typeof emptyForm>;
+
+const toNumber = (value: string) => (value === '' ? null : parseFloat(value));
+const toInput = (value: number | null) => (value === null ? '' : String(value));
+
+export const AccountContractsDialog = ({ open, onOpenChange, account }: AccountContractsDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<AccountContract | 'new' | null>(null);
+  const [form, setForm] = useState<ContractForm>(emptyForm());
+
+  const { data: contracts = [], isLoading } = useQuery({
+    queryKey: ['accountContracts', account?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('account_contracts')
+        .select('*')
+        .eq('account_id', account!.id)
+        .order('effective_from', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!account?.id,
+  });
+
+  useEffect(() => {
+    if (!open) setEditing(null);
+  }, [open]);
+
+  const startEdit = (contract: AccountContract | null) => {
+    if (contract) {
+      const tiers = parseDepthTiers(contract.depth_tiers);
+      setForm({
+        name: contract.name,
+        billing_model: contract.billing_model as ContractBillingModel,
+        seasonal_fee: toInput(contract.seasonal_fee),
+        per_push_rate: toInput(contract.per_push_rate),
+        depth_tiers: tiers.length > 0 ? tiers : DEFAULT_DEPTH_TIERS,
+        salt_per_unit: toInput(contract.salt_per_unit),
+        shovel_hourly_rate: toInput(contract.shovel_hourly_rate),
+        minimum_charge: toInput(contract.minimum_charge),
+        effective_from: contract.effective_from,
+        effective_to: contract.effective_to || '',
+        notes: contract.notes || '',
+      });
+    } else {
+      setForm(emptyForm());
+    }
+    setEditing(contract ?? 'new');
+  };
+
+  // The contract as it would be saved, used for validation and the preview
+  const draftContract: AccountContract = {
+    id: editing && editing !== 'new' ? editing.id : 'draft',
+    account_id: account?.id || '',
+    name: form.name,
+    billing_model: form.billing_model,
+    seasonal_fee: form.billing_model === 'seasonal' ? toNumber(form.seasonal_fee) : null,
+    per_push_rate: form.billing_model === 'per_push' ? toNumber(form.per_push_rate) : null,
+    depth_tiers: (form.billing_model === 'per_inch' ? form.depth_tiers : []) as unknown as Json,
+    salt_per_unit: toNumber(form.salt_per_unit),
+    shovel_hourly_rate: toNumber(form.shovel_hourly_rate),
+    minimum_charge: toNumber(form.minimum_charge),
+    effective_from: form.effective_from,
+    effective_to: form.effective_to || null,
+    notes: form.notes || null,
+    created_by: null,
+    created_at: '',
+    updated_at: '',
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { id, created_by, created_at, updated_at, ...payload } = draftContract;
+
+      if (editing && editing !== 'new') {
+        const { error } = await supabase.from('account_contracts').update(payload).eq('id', editing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('account_contracts')
+          .insert({ ...payload, created_by: user?.id });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accountContracts', account?.id] });
+      toast({ title: 'Contract saved' });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({ title: 'Error saving contract', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('account_contracts').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accountContracts', account?.id] });
+      toast({ title: 'Contract deleted' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error deleting contract', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  const handleSave = () => {
+    if (!form.name.trim() || !form.effective_from) {
+      toast({ title: 'Name and effective date are required', variant: 'destructive' });
+      return;
+    }
+    if (form.effective_to && form.effective_to < form.effective_from) {
+      toast({ title: 'Contract must end after it starts', variant: 'destructive' });
+      return;
+    }
+    if (form.billing_model === 'per_inch') {
+      const tierError = validateDepthTiers(form.depth_tiers);
+      if (tierError) {
+        toast({ title: 'Invalid depth tiers', description: tierError, variant: 'destructive' });
+        return;
+      }
+    }
+    saveMutation.mutate();
+  };
+
+  const updateTier = (index: number, changes: Partial<DepthTier>) => {
+    setForm({
+      ...form,
+      depth_tiers: form.depth_tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)),
+    });
+  };
+
+  const addTier = () => {
+    const last = form.depth_tiers[form.depth_tiers.length - 1];
+    const start = last ? (last.max_inches ?? last.min_inches + 4) : 0;
+    const tiers = last && last.max_inches === null
+      ? [...form.depth_tiers.slice(0, -1), { ...last, max_inches: start }]
+      : form.depth_tiers;
+    setForm({ ...form, depth_tiers: [...tiers, { min_inches: start, max_inches: null, rate: 0 }] });
+  };
+
+  const activeContract = findActiveContract(contracts, new Date());
+
+  const describeRates = (contract: AccountContract) => {
+    const model = contract.billing_model as ContractBillingModel;
+    if (model === 'seasonal') return `${formatCurrency(Number(contract.seasonal_fee) || 0)} / season`;
+    if (model === 'per_push') return `${formatCurrency(Number(contract.per_push_rate) || 0)} / push`;
+    return parseDepthTiers(contract.depth_tiers)
+      .map((tier) => `${formatDepthTier(tier)} ${formatCurrency(tier.rate)}`)
+      .join(' • ');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Contracts – {account?.name}</DialogTitle>
+          <DialogDescription>
+            Rate cards used when invoicing this account. Empty rates fall back to the default invoice pricing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!editing ? (
+          <div className="space-y-3">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : contracts.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <FileSignature className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No contracts yet. This account is billed at the default rates.</p>
+              </div>
+            ) : (
+              contracts.map((contract) => (
+                <div
+                  key={contract.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/30"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-sm">{contract.name}</p>
+                      {activeContract?.id === contract.id && (
+                        <Badge className="bg-success text-success-foreground">Active</Badge>
+                      )}
+                      <Badge variant="outline">
+                        {BILLING_MODEL_LABELS[contract.billing_model as ContractBillingModel]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(`${contract.effective_from}T00:00:00`), 'MMM d, yyyy')} –{' '}
+                      {contract.effective_to
+                        ? format(new Date(`${contract.effective_to}T00:00:00`), 'MMM d, yyyy')
+                        : 'open-ended'}
+                      {' • '}
+                      {describeRates(contract)}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => startEdit(contract)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (confirm(`Delete contract "${contract.name}"?`)) {
+                          deleteMutation.mutate(contract.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+              <Button className="gap-2" onClick={() => startEdit(null)}>
+                <Plus className="h-4 w-4" />
+                New Contract
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Billing Model</Label>
+                <Select
+                  value={form.billing_model}
+                  onValueChange={(value) => setForm({ ...form, billing_model: value as ContractBillingModel })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BILLING_MODEL_LABELS) as ContractBillingModel[]).map((model) => (
+                      <SelectItem key={model} value={model}>{BILLING_MODEL_LABELS[model]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Effective From *</Label>
+                <Input
+                  type="date"
+                  value={form.effective_from}
+                  onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Effective To</Label>
+                <Input
+                  type="date"
+                  value={form.effective_to}
+                  onChange={(e) => setForm({ ...form, effective_to: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {form.billing_model === 'seasonal' && (
+              <div className="space-y-2">
+                <Label>Seasonal Fee ($)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.seasonal_fee}
+                  onChange={(e) => setForm({ ...form, seasonal_fee: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Covers all plowing between the effective dates</p>
+              </div>
+            )}
+
+            {form.billing_model === 'per_push' && (
+              <div className="space-y-2">
+                <Label>Rate per Push ($)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.per_push_rate}
+                  onChange={(e) => setForm({ ...form, per_push_rate: e.target.value })}
+                />
+              </div>
+            )}
+
+            {form.billing_model === 'per_inch' && (
+              <div className="space-y-2">
+                <Label>Snow Depth Tiers</Label>
+                {form.depth_tiers.map((tier, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_1fr_40px] gap-2 items-center">
+                    <Input
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      placeholder="From (in)"
+                      value={tier.min_inches}
+                      onChange={(e) => updateTier(index, { min_inches: parseFloat(e.target.value) || 0 })}
+                    />
+                    <Input
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      placeholder="and up"
+                      value={tier.max_inches ?? ''}
+                      onChange={(e) => updateTier(index, { max_inches: toNumber(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Rate ($)"
+                      value={tier.rate}
+                      onChange={(e) => updateTier(index, { rate: parseFloat(e.target.value) || 0 })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm({ ...form, depth_tiers: form.depth_tiers.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" className="gap-2" onClick={addTier}>
+                  <Plus className="h-4 w-4" />
+                  Add Tier
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  From (inclusive), to (exclusive, leave blank for "and up"), price per push
+                </p>
+              </div>
+            )}
+
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Salt ($ per lb)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Default"
+                  value={form.salt_per_unit}
+                  onChange={(e) => setForm({ ...form, salt_per_unit: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Shovel ($ per hour)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Default"
+                  value={form.shovel_hourly_rate}
+                  onChange={(e) => setForm({ ...form, shovel_hourly_rate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Minimum Charge ($)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="None"
+                  value={form.minimum_charge}
+                  onChange={(e) => setForm({ ...form, minimum_charge: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+
+            {account && <ContractPricePreview accountId={account.id} contract={draftContract} />}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditing(null)}>Back</Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Contract
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,186 @@
+import { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useInvoicePricing } from '@/hooks/useInvoicePricing';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Calculator } from 'lucide-react';
+import { format } from 'date-fns';
+import { BILLABLE_LOG_COLUMNS, formatCurrency, type BillableLog, type BillableLogKind } from '@/lib/invoicing';
+import { priceLogWithContract, type AccountContract } from '@/lib/rateCards';
+
+interface ContractPricePreviewProps {
+  accountId: string;
+  contract: AccountContract;
+}
+
+type RecentLog = BillableLog & { kind: BillableLogKind };
+
+const SAMPLE_LOG_ID = 'sample';
+
+// Shows what a work log would cost under the contract being edited, using
+// either one of the account's recent logs or a hand-entered sample visit
+export const ContractPricePreview = ({ accountId, contract }: ContractPricePreviewProps) => {
+  const { pricing } = useInvoicePricing();
+  const [selectedLogId, setSelectedLogId] = useState(SAMPLE_LOG_ID);
+  const [kind, setKind] = useState<BillableLogKind>('plow');
+  const [serviceType, setServiceType] = useState('both');
+  const [snowDepth, setSnowDepth] = useState('4');
+  const [saltUsed, setSaltUsed] = useState('200');
+  const [durationMinutes, setDurationMinutes] = useState('30');
+
+  const { data: recentLogs = [] } = useQuery({
+    queryKey: ['contractPreviewLogs', accountId],
+    queryFn: async (): Promise<RecentLog[]> => {
+      const [workLogs, shovelLogs] = await Promise.all([
+        supabase
+          .from('work_logs')
+          .select(BILLABLE_LOG_COLUMNS)
+          .eq('account_id', accountId)
+          .order('check_in_time', { ascending: false })
+          .limit(10),
+        supabase
+          .from('shovel_work_logs')
+          .select(BILLABLE_LOG_COLUMNS)
+          .eq('account_id', accountId)
+          .order('check_in_time', { ascending: false })
+          .limit(10),
+      ]);
+      if (workLogs.error) throw workLogs.error;
+      if (shovelLogs.error) throw shovelLogs.error;
+
+      return [
+        ...(workLogs.data || []).map((log) => ({ ...log, kind: 'plow' as const })),
+        ...(shovelLogs.data || []).map((log) => ({ ...log, kind: 'shovel' as const })),
+      ].sort((a, b) => b.check_in_time.localeCompare(a.check_in_time));
+    },
+    enabled: !!accountId,
+  });
+
+  const selectedLog = recentLogs.find((log) => log.id === selectedLogId);
+
+  const preview = useMemo(() => {
+    const log: RecentLog = selectedLog ?? {
+      id: SAMPLE_LOG_ID,
+      kind,
+      service_type: serviceType,
+      check_in_time: new Date().toISOString(),
+      check_out_time: null,
+      duration_minutes: parseInt(durationMinutes) || 0,
+      snow_depth: snowDepth === '' ? null : parseFloat(snowDepth),
+      salt_used: saltUsed === '' ? null : parseFloat(saltUsed),
+    };
+    return priceLogWithContract(log.kind, log, contract, pricing);
+  }, [selectedLog, kind, serviceType, snowDepth, saltUsed, durationMinutes, contract, pricing]);
+
+  const serviceTypeOptions = kind === 'shovel'
+    ? [
+        { value: 'shovel', label: 'Shovel Only' },
+        { value: 'salt', label: 'Salt Only' },
+        { value: 'both', label: 'Shovel & Salt' },
+      ]
+    : [
+        { value: 'plow', label: 'Plow Only' },
+        { value: 'salt', label: 'Salt Only' },
+        { value: 'both', label: 'Plow & Salt' },
+      ];
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="flex items-center gap-2">
+        <Calculator className="h-4 w-4 text-primary" />
+        <p className="font-medium text-sm">Cost Preview</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Work log</Label>
+        <Select value={selectedLogId} onValueChange={setSelectedLogId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SAMPLE_LOG_ID}>Sample visit</SelectItem>
+            {recentLogs.map((log) => (
+              <SelectItem key={log.id} value={log.id}>
+                {format(new Date(log.check_in_time), 'MMM d, yyyy h:mm a')} • {log.kind} / {log.service_type}
+                {log.snow_depth !== null ? ` • ${log.snow_depth}"` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!selectedLog && (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Crew</Label>
+            <Select
+              value={kind}
+              onValueChange={(value) => {
+                setKind(value as BillableLogKind);
+                setServiceType('both');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="plow">Plow</SelectItem>
+                <SelectItem value="shovel">Shovel</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Service</Label>
+            <Select value={serviceType} onValueChange={setServiceType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {serviceTypeOptions.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Snow (in)</Label>
+            <Input type="number" step="0.5" value={snowDepth} onChange={(e) => setSnowDepth(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Salt (lbs)</Label>
+            <Input type="number" value={saltUsed} onChange={(e) => setSaltUsed(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Minutes</Label>
+            <Input type="number" value={durationMinutes} onChange={(e) => setDurationMinutes(e.target.value)} />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1 text-sm">
+        {preview.items.map((item) => (
+          <div key={item.id} className="flex justify-between gap-2">
+            <span className="text-muted-foreground">
+              {item.description}
+              {item.quantity !== 1 && ` × ${item.quantity} @ ${formatCurrency(item.unit_price)}`}
+            </span>
+            <span>{formatCurrency(item.amount)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between font-bold pt-1 border-t border-border">
+          <span>Visit total</span>
+          <span>{formatCurrency(preview.total)}</span>
+        </div>
+      </div>
+
+      {preview.warnings.map((warning) => (
+        <p key={warning} className="flex items-center gap-1 text-xs text-warning">
+          <AlertTriangle className="h-3 w-3" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,390 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle2, Loader2, Plus, Trash2, Wrench } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatCurrency } from '@/lib/invoicing';
+import {
+  MAINTENANCE_TYPE_LABELS,
+  isMaintenanceOverdue,
+  nextMaintenanceDate,
+  parseLocalDate,
+  summarizeMaintenanceCosts,
+} from '@/lib/maintenance';
+import type { MaintenanceType } from '@/lib/supabase-types';
+
+export interface MaintenanceEquipment {
+  id: string;
+  name: string;
+  status: string;
+  maintenance_interval_days: number | null;
+  last_maintenance_date: string | null;
+  next_maintenance_date: string | null;
+}
+
+interface MaintenanceHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  equipment: MaintenanceEquipment | null;
+}
+
+const emptyForm = (intervalDays: number | null) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  return {
+    maintenance_type: 'routine' as MaintenanceType,
+    description: '',
+    performed_date: today,
+    performed_by: '',
+    cost: '',
+    next_due_date: nextMaintenanceDate(today, intervalDays),
+    notes: '',
+    sign_off: true,
+  };
+};
+
+const formatDay = (date: string | null) => (date ? format(parseLocalDate(date), 'MMM d, yyyy') : '-');
+
+export const MaintenanceHistorySheet = ({ open, onOpenChange, equipment }: MaintenanceHistorySheetProps) => {
+  const { user, isAdminOrManager } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState(() => emptyForm(null));
+
+  const canManage = isAdminOrManager();
+  const inMaintenance = equipment?.status === 'maintenance';
+
+  const { data: logs = [], isLoading } = useQuery({
+    queryKey: ['maintenanceLogs', equipment?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('maintenance_logs')
+        .select('*')
+        .eq('equipment_id', equipment!.id)
+        .order('performed_date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!equipment?.id,
+  });
+
+  useEffect(() => {
+    if (!open) setFormOpen(false);
+  }, [open]);
+
+  const startEntry = () => {
+    setForm(emptyForm(equipment?.maintenance_interval_days ?? null));
+    setFormOpen(true);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['maintenanceLogs'] });
+    queryClient.invalidateQueries({ queryKey: ['equipment'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!equipment) return;
+      const signOff = inMaintenance && form.sign_off;
+
+      // The sync_equipment_maintenance_dates trigger rolls the unit's dates forward
+      const { error } = await supabase.from('maintenance_logs').insert({
+        equipment_id: equipment.id,
+        maintenance_type: form.maintenance_type,
+        description: form.description.trim(),
+        performed_date: form.performed_date,
+        performed_by: form.performed_by.trim() || null,
+        cost: form.cost === '' ? null : parseFloat(form.cost),
+        next_due_date: form.next_due_date || null,
+        notes: form.notes.trim() || null,
+        ...(signOff && { signed_off_by: user?.id, signed_off_at: new Date().toISOString() }),
+      });
+      if (error) throw error;
+
+      if (signOff) {
+        const { error: statusError } = await supabase
+          .from('equipment')
+          .update({ status: 'active' })
+          .eq('id', equipment.id);
+        if (statusError) throw statusError;
+      }
+      return signOff;
+    },
+    onSuccess: (signedOff) => {
+      invalidate();
+      setFormOpen(false);
+      toast({
+        title: 'Maintenance logged',
+        description: signedOff ? `${equipment?.name} is back in service.` : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({ title: 'Error logging maintenance', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('maintenance_logs').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Maintenance entry deleted' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error deleting entry', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  const outOfServiceMutation = useMutation({
+    mutationFn: async () => {
+      if (!equipment) return;
+      const { error } = await supabase.from('equipment').update({ status: 'maintenance' }).eq('id', equipment.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: `${equipment?.name} taken out of service` });
+    },
+    onError: (error) => {
+      toast({ title: 'Error updating equipment', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  const costs = summarizeMaintenanceCosts(logs);
+  const overdue = isMaintenanceOverdue(equipment?.next_maintenance_date ?? null);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            {equipment?.name} Maintenance
+          </SheetTitle>
+          <SheetDescription>
+            Every {equipment?.maintenance_interval_days ?? 90} days • Last {formatDay(equipment?.last_maintenance_date ?? null)}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 mt-4">
+          {inMaintenance ? (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-warning/10 border border-warning/20 text-sm">
+              <AlertTriangle className="h-4 w-4 text-warning mt-0.5 shrink-0" />
+              <p>Out of service. Crews can't select this unit until the work is logged and signed off.</p>
+            </div>
+          ) : canManage && equipment?.status === 'active' && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => outOfServiceMutation.mutate()}
+              disabled={outOfServiceMutation.isPending}
+            >
+              Take Out of Service
+            </Button>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="p-3 rounded-lg bg-muted/30">
+              <p className="text-xs text-muted-foreground">Next Due</p>
+              <p className={`font-medium ${overdue ? 'text-destructive' : ''}`}>
+                {formatDay(equipment?.next_maintenance_date ?? null)}
+              </p>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/30">
+              <p className="text-xs text-muted-foreground">Total Cost</p>
+              <p className="font-medium">{formatCurrency(costs.total)}</p>
+            </div>
+          </div>
+
+          {costs.bySeason.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Cost by Season</p>
+              {costs.bySeason.map((season) => (
+                <div key={season.season} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {season.label} ({season.count} {season.count === 1 ? 'entry' : 'entries'})
+                  </span>
+                  <span>{formatCurrency(season.total)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canManage && !formOpen && (
+            <Button className="w-full gap-2" onClick={startEntry}>
+              <Plus className="h-4 w-4" />
+              Log Maintenance
+            </Button>
+          )}
+
+          {formOpen && (
+            <div className="space-y-3 p-3 rounded-lg border border-border">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.maintenance_type}
+                    onValueChange={(value) => setForm({ ...form, maintenance_type: value as MaintenanceType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MAINTENANCE_TYPE_LABELS) as MaintenanceType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{MAINTENANCE_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Date Performed</Label>
+                  <Input
+                    type="date"
+                    value={form.performed_date}
+                    onChange={(e) => setForm({
+                      ...form,
+                      performed_date: e.target.value,
+                      next_due_date: e.target.value
+                        ? nextMaintenanceDate(e.target.value, equipment?.maintenance_interval_days ?? null)
+                        : form.next_due_date,
+                    })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Description *</Label>
+                <Input
+                  value={form.description}
+                  placeholder="e.g. Oil change, hydraulic hose replaced"
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label>Performed By</Label>
+                  <Input
+                    value={form.performed_by}
+                    placeholder="Mechanic or shop"
+                    onChange={(e) => setForm({ ...form, performed_by: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Cost ($)</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={form.cost}
+                    onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Next Due</Label>
+                <Input
+                  type="date"
+                  min={form.performed_date}
+                  value={form.next_due_date}
+                  onChange={(e) => setForm({ ...form, next_due_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Notes</Label>
+                <Textarea rows={2} value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+              </div>
+              {inMaintenance && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="maintenance-sign-off"
+                    checked={form.sign_off}
+                    onCheckedChange={(checked) => setForm({ ...form, sign_off: checked === true })}
+                  />
+                  <Label htmlFor="maintenance-sign-off" className="font-normal">
+                    Sign off and return to service
+                  </Label>
+                </div>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setFormOpen(false)}>Cancel</Button>
+                <Button
+                  size="sm"
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!form.description.trim() || !form.performed_date || saveMutation.isPending}
+                >
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Entry
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">History</p>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : logs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No maintenance logged yet</p>
+            ) : (
+              logs.map((log) => (
+                <div key={log.id} className="p-3 rounded-lg bg-muted/30 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="outline">
+                        {MAINTENANCE_TYPE_LABELS[log.maintenance_type as MaintenanceType] ?? log.maintenance_type}
+                      </Badge>
+                      <span className="text-sm text-muted-foreground">{formatDay(log.performed_date)}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {log.cost !== null && <span className="text-sm font-medium">{formatCurrency(Number(log.cost))}</span>}
+                      {canManage && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => {
+                            if (confirm('Delete this maintenance entry?')) deleteMutation.mutate(log.id);
+                          }}
+                        >
+                          <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-sm">{log.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[log.performed_by, log.next_due_date && `Next due ${formatDay(log.next_due_date)}`]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </p>
+                  {log.notes && <p className="text-xs text-muted-foreground whitespace-pre-line">{log.notes}</p>}
+                  {log.signed_off_at && (
+                    <p className="text-xs text-success flex items-center gap-1">
+                      <CheckCircle2 className="h-3 w-3" />
+                      Signed off {format(new Date(log.signed_off_at), 'MMM d, yyyy h:mm a')}
+                    </p>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Loader2, MapPinOff, Search, Pencil } from 'lucide-react';
+import {
+  LOCATION_ISSUE_LABELS,
+  findLocationIssues,
+  formatAddress,
+  geocodeMany,
+} from '@/lib/geocoding';
+
+interface QualityAccount {
+  id: string;
+  name: string;
+  address: string;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  location_source: string | null;
+}
+
+interface LocationQualityDialogProps<T extends QualityAccount> {
+  accounts: T[];
+  onEdit: (account: T) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Entered by hand',
+  geocoded: 'Geocoded',
+  import: 'Imported',
+  gps: 'Set on site',
+};
+
+// Accounts whose pin is missing or looks wrong, with bulk geocoding
+export const LocationQualityDialog = <T extends QualityAccount>({ accounts, onEdit }: LocationQualityDialogProps<T>) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const issues = useMemo(() => findLocationIssues(accounts), [accounts]);
+  const flagged = accounts.filter((account) => issues.has(account.id));
+
+  const geocodeAccounts = async (targets: T[]) => {
+    setProgress({ done: 0, total: targets.length });
+    try {
+      const results = await geocodeMany(targets, (done, total) => setProgress({ done, total }));
+      let updated = 0;
+      for (let i = 0; i < targets.length; i++) {
+        const result = results[i];
+        if (!result) continue;
+        const { error } = await supabase
+          .from('accounts')
+          .update({
+            latitude: result.latitude,
+            longitude: result.longitude,
+            location_source: 'geocoded',
+            location_updated_at: new Date().toISOString(),
+            location_updated_by: user?.id,
+          })
+          .eq('id', targets[i].id);
+        if (error) throw error;
+        updated++;
+      }
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      toast({
+        title: `Geocoded ${updated} of ${targets.length} accounts`,
+        description: updated < targets.length ? 'Addresses that were not found need a pin set by hand.' : undefined,
+      });
+    } catch (error) {
+      toast({ title: 'Error geocoding accounts', description: String(error), variant: 'destructive' });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const missing = flagged.filter((account) => issues.get(account.id)?.includes('missing'));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <MapPinOff className="h-4 w-4" />
+          Location Quality
+          {flagged.length > 0 && <Badge variant="destructive">{flagged.length}</Badge>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Location Quality</DialogTitle>
+          <DialogDescription>
+            Accounts with a missing or suspicious pin. These sort last by distance and can't be routed or geofenced.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">
+            {flagged.length} of {accounts.length} accounts need attention
+          </span>
+          <Button
+            size="sm"
+            className="gap-2"
+            onClick={() => geocodeAccounts(missing)}
+            disabled={!!progress || missing.length === 0}
+          >
+            {progress ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            {progress ? `Geocoding ${progress.done}/${progress.total}` : `Geocode ${missing.length} Missing`}
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[400px] border rounded-lg">
+          {flagged.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p>Every account has a plausible pin</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {flagged.map((account) => (
+                <div key={account.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium truncate">{account.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{formatAddress(account)}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {issues.get(account.id)?.map((issue) => (
+                        <Badge key={issue} variant="outline" className="text-xs">
+                          {LOCATION_ISSUE_LABELS[issue]}
+                        </Badge>
+                      ))}
+                      {account.location_source && (
+                        <Badge variant="secondary" className="text-xs">
+                          {SOURCE_LABELS[account.location_source] ?? account.location_source}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => geocodeAccounts([account])}
+                      disabled={!!progress}
+                      title="Look up from address"
+                    >
+                      <Search className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setOpen(false);
+                        onEdit(account);
+                      }}
+                      title="Edit account"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,62 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Crosshair, Loader2 } from 'lucide-react';
+import type { GPSPosition } from '@/lib/supabase-types';
+
+interface SetPinFromGpsButtonProps {
+  accountId: string;
+  accountName: string;
+  position: GPSPosition | null;
+}
+
+// Fix a wrongly geocoded account by moving its pin to where the driver is
+// standing. The database rejects fixes worse than 100 m and audits the move.
+export const SetPinFromGpsButton = ({ accountId, accountName, position }: SetPinFromGpsButtonProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const setPin = useMutation({
+    mutationFn: async (fix: GPSPosition) => {
+      const { error } = await supabase.rpc('set_account_location_from_gps', {
+        _account_id: accountId,
+        _latitude: fix.latitude,
+        _longitude: fix.longitude,
+        _accuracy: fix.accuracy,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['shovelAccounts'] });
+      queryClient.invalidateQueries({ queryKey: ['routeAccounts'] });
+      queryClient.invalidateQueries({ queryKey: ['mapAccounts'] });
+      toast({ title: 'Pin updated', description: `${accountName} now uses your current position.` });
+    },
+    onError: (error) => {
+      toast({ title: 'Error setting pin', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleClick = () => {
+    if (!position) return;
+    if (!confirm(`Move the pin for ${accountName} to your current position (±${Math.round(position.accuracy)} m)?`)) return;
+    setPin.mutate(position);
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      className="gap-1 h-7 px-2 text-xs"
+      onClick={handleClick}
+      disabled={!position || setPin.isPending}
+      title={position ? undefined : 'Waiting for GPS'}
+    >
+      {setPin.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Crosshair className="h-3 w-3" />}
+      Set pin here
+    </Button>
+  );
+};
@@ -0,0 +1,138 @@
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import {
+  INVOICE_STATUS_LABELS,
+  calculateInvoiceTotal,
+  formatCurrency,
+  parseLineItems,
+  type InvoiceLetterhead,
+} from '@/lib/invoicing';
+import { billToLines, type InvoiceBillTo } from '@/lib/generateInvoicePDF';
+import type { Tables } from '@/integrations/supabase/types';
+import type { InvoiceStatus } from '@/lib/supabase-types';
+
+interface InvoiceDocumentProps {
+  invoice: Tables<'invoices'>;
+  account: InvoiceBillTo | null;
+  letterhead: InvoiceLetterhead;
+}
+
+const formatDay = (date: string) => format(new Date(`${date.slice(0, 10)}T00:00:00`), 'MMM d, yyyy');
+
+// On-screen counterpart of the invoice PDF
+export const InvoiceDocument = ({ invoice, account, letterhead }: InvoiceDocumentProps) => {
+  const lineItems = parseLineItems(invoice.line_items);
+  const subtotal = calculateInvoiceTotal(lineItems);
+  const taxRate = Number(invoice.tax_rate) || 0;
+  const status = invoice.status as InvoiceStatus;
+  const amountDue = status === 'paid' || status === 'cancelled' ? 0 : Number(invoice.amount);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between gap-4">
+        <div>
+          <p className="text-xl font-bold">{letterhead.companyName}</p>
+          {letterhead.address && (
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{letterhead.address}</p>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {[letterhead.phone, letterhead.email].filter(Boolean).join(' | ')}
+          </p>
+        </div>
+        <div className="sm:text-right space-y-1">
+          <p className="text-2xl font-bold text-primary">INVOICE</p>
+          <p className="text-sm">#{invoice.invoice_number}</p>
+          <p className="text-sm text-muted-foreground">
+            Issued {formatDay(invoice.issued_date || invoice.created_at)}
+          </p>
+          <p className="text-sm text-muted-foreground">Due {formatDay(invoice.due_date)}</p>
+          <Badge
+            variant={status === 'paid' ? 'default' : status === 'overdue' ? 'destructive' : 'outline'}
+          >
+            {INVOICE_STATUS_LABELS[status] ?? invoice.status}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:justify-between gap-4 border-t border-border pt-4">
+        <div>
+          <p className="text-sm font-medium">Bill To</p>
+          {billToLines(account).map((line) => (
+            <p key={line} className="text-sm text-muted-foreground">{line}</p>
+          ))}
+        </div>
+        {invoice.period_start && invoice.period_end && (
+          <div className="sm:text-right">
+            <p className="text-sm font-medium">Service Period</p>
+            <p className="text-sm text-muted-foreground">
+              {formatDay(invoice.period_start)} – {formatDay(invoice.period_end)}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="text-left p-2 font-medium">Description</th>
+              <th className="text-right p-2 font-medium">Qty</th>
+              <th className="text-right p-2 font-medium hidden sm:table-cell">Unit Price</th>
+              <th className="text-right p-2 font-medium">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lineItems.map((item) => (
+              <tr key={item.id} className="border-t border-border">
+                <td className="p-2">{item.description}</td>
+                <td className="p-2 text-right">{item.quantity}</td>
+                <td className="p-2 text-right hidden sm:table-cell">{formatCurrency(item.unit_price)}</td>
+                <td className="p-2 text-right">{formatCurrency(item.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end">
+        <div className="w-full sm:w-64 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Subtotal</span>
+            <span>{formatCurrency(subtotal)}</span>
+          </div>
+          {taxRate > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tax ({taxRate}%)</span>
+              <span>{formatCurrency(Number(invoice.tax_amount) || 0)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Total</span>
+            <span>{formatCurrency(Number(invoice.amount))}</span>
+          </div>
+          <div className="flex justify-between font-bold text-base border-t border-border pt-1">
+            <span>Amount Due</span>
+            <span>{formatCurrency(amountDue)}</span>
+          </div>
+          {status === 'paid' && invoice.paid_date && (
+            <p className="text-success text-right">Paid {formatDay(invoice.paid_date)}</p>
+          )}
+        </div>
+      </div>
+
+      {invoice.notes && (
+        <div>
+          <p className="text-sm font-medium">Notes</p>
+          <p className="text-sm text-muted-foreground whitespace-pre-line">{invoice.notes}</p>
+        </div>
+      )}
+
+      {letterhead.paymentInstructions && (
+        <div>
+          <p className="text-sm font-medium">Payment Instructions</p>
+          <p className="text-sm text-muted-foreground whitespace-pre-line">{letterhead.paymentInstructions}</p>
+        </div>
+      )}
+    </div>
+  );
+};
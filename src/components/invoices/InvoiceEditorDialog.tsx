@@ -0,0 +1,330 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useInvoicePricing } from '@/hooks/useInvoicePricing';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InvoiceLineItemsEditor } from '@/components/invoices/InvoiceLineItemsEditor';
+import { Loader2, Wand2 } from 'lucide-react';
+import { format, startOfMonth, endOfMonth, addDays } from 'date-fns';
+import {
+  BILLABLE_LOG_COLUMNS,
+  buildInvoiceLineItems,
+  byServiceDate,
+  calculateInvoiceTotals,
+  collectBilledIds,
+  defaultDueDate,
+  parseLineItems,
+  serializeLineItems,
+  type InvoiceLineItem,
+} from '@/lib/invoicing';
+import { contractsInPeriod, priceLog, seasonalFeeLineItems } from '@/lib/rateCards';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface InvoiceEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null creates a new draft
+  invoice: Tables<'invoices'> | null;
+}
+
+export const InvoiceEditorDialog = ({ open, onOpenChange, invoice }: InvoiceEditorDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { pricing } = useInvoicePricing();
+
+  const [accountId, setAccountId] = useState('');
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [taxRate, setTaxRate] = useState('0');
+  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([]);
+  const [generating, setGenerating] = useState(false);
+
+  const isNew = !invoice;
+  const readOnly = !!invoice && invoice.status !== 'draft';
+
+  const { data: accounts = [] } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('accounts').select('id, name').order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (invoice) {
+      setAccountId(invoice.account_id);
+      setPeriodStart(invoice.period_start || '');
+      setPeriodEnd(invoice.period_end || '');
+      setDueDate(invoice.due_date);
+      setNotes(invoice.notes || '');
+      setTaxRate(String(invoice.tax_rate ?? 0));
+      setLineItems(parseLineItems(invoice.line_items));
+    } else {
+      const lastMonth = addDays(startOfMonth(new Date()), -1);
+      setAccountId('');
+      setPeriodStart(format(startOfMonth(lastMonth), 'yyyy-MM-dd'));
+      setPeriodEnd(format(endOfMonth(lastMonth), 'yyyy-MM-dd'));
+      setDueDate(defaultDueDate(pricing));
+      setNotes('');
+      setTaxRate(String(pricing.taxRate));
+      setLineItems([]);
+    }
+  }, [open, invoice, pricing]);
+
+  // Pull the account's unbilled plow and shovel logs for the period and price
+  // them with the account's contract, falling back to the default rates
+  const handleGenerate = async () => {
+    if (!accountId || !periodStart || !periodEnd) {
+      toast({ title: 'Select an account and billing period', variant: 'destructive' });
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const from = new Date(`${periodStart}T00:00:00`).toISOString();
+      const to = addDays(new Date(`${periodEnd}T00:00:00`), 1).toISOString();
+
+      const [workLogsResult, shovelLogsResult, invoicesResult, contractsResult] = await Promise.all([
+        supabase
+          .from('work_logs')
+          .select(BILLABLE_LOG_COLUMNS)
+          .eq('account_id', accountId)
+          .gte('check_in_time', from)
+          .lt('check_in_time', to)
+          .order('check_in_time'),
+        supabase
+          .from('shovel_work_logs')
+          .select(BILLABLE_LOG_COLUMNS)
+          .eq('account_id', accountId)
+          .gte('check_in_time', from)
+          .lt('check_in_time', to)
+          .order('check_in_time'),
+        supabase
+          .from('invoices')
+          .select('id, status, line_items')
+          .eq('account_id', accountId),
+        supabase
+          .from('account_contracts')
+          .select('*')
+          .eq('account_id', accountId)
+          .order('effective_from'),
+      ]);
+
+      if (workLogsResult.error) throw workLogsResult.error;
+      if (shovelLogsResult.error) throw shovelLogsResult.error;
+      if (invoicesResult.error) throw invoicesResult.error;
+      if (contractsResult.error) throw contractsResult.error;
+
+      const billed = collectBilledIds(
+        (invoicesResult.data || []).filter((existing) => existing.id !== invoice?.id)
+      );
+      const contracts = contractsResult.data || [];
+      const workLogs = (workLogsResult.data || []).filter((log) => !billed.logIds.has(log.id));
+      const shovelLogs = (shovelLogsResult.data || []).filter((log) => !billed.logIds.has(log.id));
+      const skipped = (workLogsResult.data?.length || 0) + (shovelLogsResult.data?.length || 0)
+        - workLogs.length - shovelLogs.length;
+
+      // Keep manually added lines, replace anything previously generated
+      const manualItems = lineItems.filter(
+        (item) => !item.work_log_id && !item.shovel_work_log_id && !item.contract_id
+      );
+      const generated = [
+        ...seasonalFeeLineItems(contractsInPeriod(contracts, periodStart, periodEnd), billed.contractIds),
+        ...buildInvoiceLineItems(workLogs, shovelLogs, (kind, log) => priceLog(kind, log, contracts, pricing).items),
+      ].sort(byServiceDate);
+      setLineItems([...generated, ...manualItems]);
+
+      toast({
+        title: `${workLogs.length + shovelLogs.length} services added`,
+        description: skipped > 0 ? `${skipped} already invoiced and skipped` : undefined,
+      });
+    } catch (error) {
+      console.error('Error generating invoice lines:', error);
+      toast({ title: 'Error loading work logs', description: String(error), variant: 'destructive' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const totals = calculateInvoiceTotals(lineItems, parseFloat(taxRate) || 0);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        account_id: accountId,
+        period_start: periodStart || null,
+        period_end: periodEnd || null,
+        due_date: dueDate,
+        notes: notes || null,
+        line_items: serializeLineItems(lineItems),
+        tax_rate: parseFloat(taxRate) || 0,
+        tax_amount: totals.tax,
+        amount: totals.total,
+      };
+
+      if (invoice) {
+        const { error } = await supabase.from('invoices').update(payload).eq('id', invoice.id);
+        if (error) throw error;
+      } else {
+        // invoice_number is assigned by the database
+        const { error } = await supabase
+          .from('invoices')
+          .insert({ ...payload, status: 'draft', created_by: user?.id });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      toast({ title: isNew ? 'Draft invoice created' : 'Invoice updated' });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: 'Error saving invoice', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  const handleSave = () => {
+    if (!accountId || !dueDate) {
+      toast({ title: 'Account and due date are required', variant: 'destructive' });
+      return;
+    }
+    if (periodStart && periodEnd && periodStart > periodEnd) {
+      toast({ title: 'Billing period start must be before the end', variant: 'destructive' });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isNew ? 'New Invoice' : `Invoice ${invoice.invoice_number}`}
+          </DialogTitle>
+          <DialogDescription>
+            {readOnly
+              ? 'Only draft invoices can be edited.'
+              : 'Generate line items from work logs, then adjust them before sending.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Account *</Label>
+              <Select value={accountId} onValueChange={setAccountId} disabled={!isNew}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Due Date *</Label>
+              <Input
+                type="date"
+                value={dueDate}
+                disabled={readOnly}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid sm:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Period Start</Label>
+              <Input
+                type="date"
+                value={periodStart}
+                disabled={readOnly}
+                onChange={(e) => setPeriodStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Period End</Label>
+              <Input
+                type="date"
+                value={periodEnd}
+                disabled={readOnly}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+              />
+            </div>
+            {!readOnly && (
+              <Button variant="outline" className="gap-2" onClick={handleGenerate} disabled={generating}>
+                {generating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+                Generate from Logs
+              </Button>
+            )}
+          </div>
+
+          <InvoiceLineItemsEditor
+            items={lineItems}
+            onChange={setLineItems}
+            taxRate={parseFloat(taxRate) || 0}
+            readOnly={readOnly}
+          />
+
+          <div className="space-y-2 max-w-[160px]">
+            <Label>Tax Rate (%)</Label>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={taxRate}
+              disabled={readOnly}
+              onChange={(e) => setTaxRate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              placeholder="Shown on the invoice"
+              value={notes}
+              disabled={readOnly}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {readOnly ? 'Close' : 'Cancel'}
+          </Button>
+          {!readOnly && (
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isNew ? 'Create Draft' : 'Save Draft'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { useInvoiceLetterhead } from '@/hooks/useInvoicePricing';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FileArchive } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import { downloadInvoicesZip } from '@/lib/generateInvoicePDF';
+import type { InvoiceWithAccount } from '@/components/invoices/InvoiceManager';
+
+interface InvoiceExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoices: InvoiceWithAccount[];
+}
+
+// Invoices are filed under the day they were issued; drafts fall back to creation
+const invoiceDay = (invoice: InvoiceWithAccount) => (invoice.issued_date || invoice.created_at).slice(0, 10);
+
+export const InvoiceExportDialog = ({ open, onOpenChange, invoices }: InvoiceExportDialogProps) => {
+  const { toast } = useToast();
+  const { letterhead } = useInvoiceLetterhead();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [includeDrafts, setIncludeDrafts] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFrom(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+    setTo(format(new Date(), 'yyyy-MM-dd'));
+    setIncludeDrafts(false);
+  }, [open]);
+
+  const selected = invoices.filter((invoice) => {
+    if (invoice.status === 'cancelled') return false;
+    if (invoice.status === 'draft' && !includeDrafts) return false;
+    const day = invoiceDay(invoice);
+    return (!from || day >= from) && (!to || day <= to);
+  });
+
+  const handleExport = () => {
+    setIsExporting(true);
+    // Let the button render its busy state before the synchronous PDF work starts
+    setTimeout(() => {
+      try {
+        downloadInvoicesZip(
+          selected.map((invoice) => ({ invoice, account: invoice.accounts, letterhead })),
+          `invoices-${from || 'start'}-to-${to || 'today'}.zip`
+        );
+        toast({ title: `Exported ${selected.length} invoice${selected.length === 1 ? '' : 's'}` });
+        onOpenChange(false);
+      } catch (error) {
+        toast({ title: 'Error exporting invoices', description: String(error), variant: 'destructive' });
+      } finally {
+        setIsExporting(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Invoices</DialogTitle>
+          <DialogDescription>
+            Download every invoice issued in a period as PDFs in a single zip file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-include-drafts"
+              checked={includeDrafts}
+              onCheckedChange={(checked) => setIncludeDrafts(checked === true)}
+            />
+            <Label htmlFor="export-include-drafts" className="font-normal">Include drafts</Label>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {selected.length} invoice{selected.length === 1 ? '' : 's'} in this period
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button className="gap-2" onClick={handleExport} disabled={selected.length === 0 || isExporting}>
+            <FileArchive className="h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Download Zip'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useInvoiceLetterhead } from '@/hooks/useInvoicePricing';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import type { InvoiceLetterhead } from '@/lib/invoicing';
+
+interface InvoiceLetterheadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const InvoiceLetterheadDialog = ({ open, onOpenChange }: InvoiceLetterheadDialogProps) => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { letterhead, saveLetterhead } = useInvoiceLetterhead();
+  const [draft, setDraft] = useState<InvoiceLetterhead>(letterhead);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    if (open) setDraft(letterhead);
+  }, [open, letterhead]);
+
+  const handleSave = () => {
+    saveLetterhead.mutate(draft, {
+      onSuccess: () => {
+        toast({ title: 'Letterhead saved' });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({ title: 'Error saving letterhead', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invoice Letterhead</DialogTitle>
+          <DialogDescription>
+            Company details and payment instructions printed on every invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Company Name</Label>
+            <Input
+              value={draft.companyName}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, companyName: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Address</Label>
+            <Textarea
+              rows={2}
+              value={draft.address}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Phone</Label>
+              <Input
+                value={draft.phone}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                type="email"
+                value={draft.email}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Payment Instructions</Label>
+            <Textarea
+              rows={3}
+              placeholder="e.g. Make checks payable to... or pay online at..."
+              value={draft.paymentInstructions}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, paymentInstructions: e.target.value })}
+            />
+          </div>
+
+          {!canEdit && (
+            <p className="text-xs text-muted-foreground">Only admins can change the letterhead.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canEdit || saveLetterhead.isPending}>
+            {saveLetterhead.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Letterhead
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,109 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  calculateInvoiceTotals,
+  createLineItem,
+  formatCurrency,
+  type InvoiceLineItem,
+} from '@/lib/invoicing';
+
+interface InvoiceLineItemsEditorProps {
+  items: InvoiceLineItem[];
+  onChange: (items: InvoiceLineItem[]) => void;
+  taxRate?: number;
+  readOnly?: boolean;
+}
+
+export const InvoiceLineItemsEditor = ({ items, onChange, taxRate = 0, readOnly = false }: InvoiceLineItemsEditorProps) => {
+  const totals = calculateInvoiceTotals(items, taxRate);
+
+  const updateItem = (id: string, changes: Partial<InvoiceLineItem>) => {
+    onChange(items.map((item) => (item.id === id ? createLineItem({ ...item, ...changes }) : item)));
+  };
+
+  const removeItem = (id: string) => {
+    onChange(items.filter((item) => item.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="hidden sm:grid grid-cols-[1fr_80px_100px_100px_40px] gap-2 text-xs font-medium text-muted-foreground px-1">
+        <span>Description</span>
+        <span className="text-right">Qty</span>
+        <span className="text-right">Unit Price</span>
+        <span className="text-right">Amount</span>
+        <span />
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No line items</p>
+      ) : (
+        items.map((item) => (
+          <div
+            key={item.id}
+            className="grid grid-cols-[1fr_80px_100px_100px_40px] gap-2 items-center"
+          >
+            <Input
+              value={item.description}
+              placeholder="Description"
+              disabled={readOnly}
+              onChange={(e) => updateItem(item.id, { description: e.target.value })}
+            />
+            <Input
+              type="number"
+              step="0.25"
+              min="0"
+              className="text-right"
+              value={item.quantity}
+              disabled={readOnly}
+              onChange={(e) => updateItem(item.id, { quantity: parseFloat(e.target.value) || 0 })}
+            />
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              className="text-right"
+              value={item.unit_price}
+              disabled={readOnly}
+              onChange={(e) => updateItem(item.id, { unit_price: parseFloat(e.target.value) || 0 })}
+            />
+            <span className="text-right text-sm font-medium">{formatCurrency(item.amount)}</span>
+            {!readOnly ? (
+              <Button variant="ghost" size="icon" onClick={() => removeItem(item.id)}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            ) : (
+              <span />
+            )}
+          </div>
+        ))
+      )}
+
+      <div className="flex items-start justify-between pt-2 border-t border-border">
+        {!readOnly ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => onChange([...items, createLineItem()])}
+          >
+            <Plus className="h-4 w-4" />
+            Add Line
+          </Button>
+        ) : (
+          <span />
+        )}
+        <div className="text-right space-y-1">
+          {taxRate > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">Subtotal: {formatCurrency(totals.subtotal)}</p>
+              <p className="text-sm text-muted-foreground">Tax ({taxRate}%): {formatCurrency(totals.tax)}</p>
+            </>
+          )}
+          <p className="text-lg font-bold">Total: {formatCurrency(totals.total)}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
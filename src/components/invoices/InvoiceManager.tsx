@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { InvoiceEditorDialog } from '@/components/invoices/InvoiceEditorDialog';
+import { InvoicePricingDialog } from '@/components/invoices/InvoicePricingDialog';
+import { InvoiceLetterheadDialog } from '@/components/invoices/InvoiceLetterheadDialog';
+import { InvoiceExportDialog } from '@/components/invoices/InvoiceExportDialog';
+import { useInvoiceLetterhead } from '@/hooks/useInvoicePricing';
+import {
+  FileText,
+  Plus,
+  Loader2,
+  MoreHorizontal,
+  Send,
+  CheckCircle,
+  AlertTriangle,
+  XCircle,
+  DollarSign,
+  Pencil,
+  Download,
+  Building,
+  FileArchive,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  INVOICE_STATUS_LABELS,
+  canTransitionInvoice,
+  formatCurrency,
+  isPastDue,
+} from '@/lib/invoicing';
+import { downloadInvoicePDF, type InvoiceBillTo } from '@/lib/generateInvoicePDF';
+import type { Tables } from '@/integrations/supabase/types';
+import type { InvoiceStatus } from '@/lib/supabase-types';
+
+export type InvoiceWithAccount = Tables<'invoices'> & { accounts: InvoiceBillTo | null };
+
+const STATUS_BADGE_CLASSES: Record<InvoiceStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  sent: 'bg-info/10 text-info border-info/20',
+  paid: 'bg-success/10 text-success border-success/20',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/20',
+  cancelled: 'bg-muted text-muted-foreground line-through',
+};
+
+export const InvoiceManager = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { letterhead } = useInvoiceLetterhead();
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all'>('all');
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [pricingOpen, setPricingOpen] = useState(false);
+  const [letterheadOpen, setLetterheadOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [selectedInvoice, setSelectedInvoice] = useState<InvoiceWithAccount | null>(null);
+
+  const { data: invoices = [], isLoading } = useQuery({
+    queryKey: ['invoices'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, accounts(name, address, city, state, zip, contact_name, contact_email, contact_phone)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as InvoiceWithAccount[];
+    },
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ invoice, status }: { invoice: InvoiceWithAccount; status: InvoiceStatus }) => {
+      if (!canTransitionInvoice(invoice.status as InvoiceStatus, status)) {
+        throw new Error(`Cannot change a ${invoice.status} invoice to ${status}`);
+      }
+
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const { error } = await supabase
+        .from('invoices')
+        .update({
+          status,
+          ...(status === 'sent' && { issued_date: today }),
+          ...(status === 'paid' && { paid_date: today }),
+        })
+        .eq('id', invoice.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { invoice, status }) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      toast({ title: `${invoice.invoice_number} marked ${INVOICE_STATUS_LABELS[status].toLowerCase()}` });
+    },
+    onError: (error) => {
+      toast({ title: 'Error updating invoice', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  const openEditor = (invoice: InvoiceWithAccount | null) => {
+    setSelectedInvoice(invoice);
+    setEditorOpen(true);
+  };
+
+  const filteredInvoices = statusFilter === 'all'
+    ? invoices
+    : invoices.filter((invoice) => invoice.status === statusFilter);
+
+  const outstanding = invoices
+    .filter((invoice) => invoice.status === 'sent' || invoice.status === 'overdue')
+    .reduce((sum, invoice) => sum + Number(invoice.amount), 0);
+  const overdueCount = invoices.filter((invoice) => invoice.status === 'overdue' || isPastDue(invoice)).length;
+  const draftCount = invoices.filter((invoice) => invoice.status === 'draft').length;
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-4">
+        <Card className="glass">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Outstanding</p>
+            <p className="text-2xl font-bold">{formatCurrency(outstanding)}</p>
+          </CardContent>
+        </Card>
+        <Card className="glass">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Overdue</p>
+            <p className="text-2xl font-bold text-destructive">{overdueCount}</p>
+          </CardContent>
+        </Card>
+        <Card className="glass">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Drafts</p>
+            <p className="text-2xl font-bold">{draftCount}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="glass">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle className="text-base font-medium">Invoices</CardTitle>
+            <CardDescription>Build invoices from work logs and track payment</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as InvoiceStatus | 'all')}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>{INVOICE_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" className="gap-2" onClick={() => setPricingOpen(true)}>
+              <DollarSign className="h-4 w-4" />
+              Pricing
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => setLetterheadOpen(true)}>
+              <Building className="h-4 w-4" />
+              Letterhead
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => setExportOpen(true)}>
+              <FileArchive className="h-4 w-4" />
+              Export
+            </Button>
+            <Button className="gap-2" onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4" />
+              New Invoice
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : filteredInvoices.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No invoices found</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {filteredInvoices.map((invoice) => {
+                const status = invoice.status as InvoiceStatus;
+                const pastDue = isPastDue(invoice);
+
+                return (
+                  <div
+                    key={invoice.id}
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors cursor-pointer"
+                    onClick={() => openEditor(invoice)}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="p-2 rounded-lg bg-muted">
+                        <FileText className="h-4 w-4 text-muted-foreground" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm">
+                          {invoice.invoice_number} • {invoice.accounts?.name || 'Unknown account'}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {invoice.period_start && invoice.period_end
+                            ? `${format(new Date(`${invoice.period_start}T00:00:00`), 'MMM d')} – ${format(new Date(`${invoice.period_end}T00:00:00`), 'MMM d, yyyy')} • `
+                            : ''}
+                          Due {format(new Date(`${invoice.due_date}T00:00:00`), 'MMM d, yyyy')}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                      <p className="font-bold text-sm">{formatCurrency(Number(invoice.amount))}</p>
+                      <Badge variant="outline" className={STATUS_BADGE_CLASSES[status]}>
+                        {INVOICE_STATUS_LABELS[status] ?? invoice.status}
+                      </Badge>
+                      {pastDue && (
+                        <Badge variant="outline" className="border-destructive text-destructive">Past due</Badge>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                          <DropdownMenuItem onClick={() => openEditor(invoice)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            {status === 'draft' ? 'Edit' : 'View'}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => downloadInvoicePDF({ invoice, account: invoice.accounts, letterhead })}
+                          >
+                            <Download className="h-4 w-4 mr-2" />
+                            Download PDF
+                          </DropdownMenuItem>
+                          {canTransitionInvoice(status, 'sent') && (
+                            <DropdownMenuItem onClick={() => updateStatusMutation.mutate({ invoice, status: 'sent' })}>
+                              <Send className="h-4 w-4 mr-2" />
+                              Mark Sent
+                            </DropdownMenuItem>
+                          )}
+                          {canTransitionInvoice(status, 'paid') && (
+                            <DropdownMenuItem onClick={() => updateStatusMutation.mutate({ invoice, status: 'paid' })}>
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Mark Paid
+                            </DropdownMenuItem>
+                          )}
+                          {canTransitionInvoice(status, 'overdue') && (
+                            <DropdownMenuItem onClick={() => updateStatusMutation.mutate({ invoice, status: 'overdue' })}>
+                              <AlertTriangle className="h-4 w-4 mr-2" />
+                              Mark Overdue
+                            </DropdownMenuItem>
+                          )}
+                          {canTransitionInvoice(status, 'cancelled') && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => updateStatusMutation.mutate({ invoice, status: 'cancelled' })}
+                              >
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Cancel Invoice
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <InvoiceEditorDialog open={editorOpen} onOpenChange={setEditorOpen} invoice={selectedInvoice} />
+      <InvoicePricingDialog open={pricingOpen} onOpenChange={setPricingOpen} />
+      <InvoiceLetterheadDialog open={letterheadOpen} onOpenChange={setLetterheadOpen} />
+      <InvoiceExportDialog open={exportOpen} onOpenChange={setExportOpen} invoices={invoices} />
+    </div>
+  );
+};
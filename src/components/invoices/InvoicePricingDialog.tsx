@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useInvoicePricing } from '@/hooks/useInvoicePricing';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import type { BillableService, InvoicePricing, RateBasis } from '@/lib/invoicing';
+
+interface InvoicePricingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SERVICES: { key: BillableService; label: string }[] = [
+  { key: 'plow', label: 'Plowing' },
+  { key: 'salt', label: 'Salting' },
+  { key: 'shovel', label: 'Shoveling' },
+];
+
+export const InvoicePricingDialog = ({ open, onOpenChange }: InvoicePricingDialogProps) => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { pricing, savePricing } = useInvoicePricing();
+  const [draft, setDraft] = useState<InvoicePricing>(pricing);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    if (open) setDraft(pricing);
+  }, [open, pricing]);
+
+  const updateRate = (service: BillableService, changes: Partial<InvoicePricing[BillableService]>) => {
+    setDraft({ ...draft, [service]: { ...draft[service], ...changes } });
+  };
+
+  const handleSave = () => {
+    savePricing.mutate(draft, {
+      onSuccess: () => {
+        toast({ title: 'Invoice pricing saved' });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({ title: 'Error saving pricing', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invoice Pricing</DialogTitle>
+          <DialogDescription>
+            Default rates applied when invoices are generated from work logs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {SERVICES.map(({ key, label }) => (
+            <div key={key} className="grid grid-cols-[1fr_140px_120px] gap-2 items-end">
+              <Label className="pb-3">{label}</Label>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Billed</Label>
+                <Select
+                  value={draft[key].basis}
+                  onValueChange={(value) => updateRate(key, { basis: value as RateBasis })}
+                  disabled={!canEdit}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="per_visit">Per visit</SelectItem>
+                    <SelectItem value="per_hour">Per hour</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Rate ($)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft[key].rate}
+                  disabled={!canEdit}
+                  onChange={(e) => updateRate(key, { rate: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label>Salt Material ($ per lb)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.saltPerUnit}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, saltPerUnit: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Payment Terms (days)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={draft.paymentTermsDays}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, paymentTermsDays: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tax Rate (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={draft.taxRate}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, taxRate: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          {!canEdit && (
+            <p className="text-xs text-muted-foreground">Only admins can change invoice pricing.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canEdit || savePricing.isPending}>
+            {savePricing.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Pricing
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
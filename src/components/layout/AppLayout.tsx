@@ -4,6 +4,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { NotificationsDropdown } from '@/components/notifications/NotificationsDropdown';
+import { PendingSyncBadge } from '@/components/pwa/PendingSyncBadge';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -23,9 +24,13 @@ import {
   LogOut,
   LayoutDashboard,
   Clock,
+  ClipboardCheck,
   Shovel,
   CloudSnow,
+  Snowflake,
   Route,
+  Navigation,
+  Signpost,
   Database,
   User,
   ChevronDown,
@@ -58,7 +63,12 @@ const dropdownNavItems: NavItem[] = [
   { title: 'Equipment', href: '/equipment', icon: Truck, roles: ['admin', 'manager'] },
   { title: 'Employees', href: '/employees', icon: Users, roles: ['admin', 'manager'] },
   { title: 'Time Clock', href: '/time-clock', icon: Clock, roles: ['admin', 'manager', 'driver', 'shovel_crew'] },
+  { title: 'Timesheets', href: '/timesheets', icon: ClipboardCheck, roles: ['admin', 'manager'] },
+  { title: 'My Route', href: '/my-route', icon: Navigation, roles: ['admin', 'manager', 'driver', 'shovel_crew'] },
   { title: 'Route Planner', href: '/route-planner', icon: Route, roles: ['admin', 'manager', 'driver'] },
+  { title: 'Routes', href: '/routes', icon: Signpost, roles: ['admin', 'manager'] },
+  { title: 'Storms', href: '/storms', icon: Snowflake, roles: ['admin', 'manager'] },
+  { title: 'Storm Outlook', href: '/storm-outlook', icon: CloudSnow, roles: ['admin', 'manager', 'driver', 'shovel_crew'] },
   
   { title: 'Admin', href: '/admin', icon: LayoutDashboard, roles: ['admin', 'manager'] },
   { title: 'Audit Log', href: '/audit-log', icon: Database, roles: ['admin'] },
@@ -126,6 +136,7 @@ export const AppLayout = ({ children }: AppLayoutProps) => {
 
             {/* Right side: Notifications + User Dropdown */}
             <div className="flex items-center gap-2">
+              <PendingSyncBadge />
               <NotificationsDropdown />
               
               {/* User Dropdown - Desktop */}
@@ -30,16 +30,23 @@ interface CSVImportProps {
   tableName: string;
   columns: { key: string; label: string; required?: boolean }[];
   onImport: (data: Record<string, any>[]) => Promise<void>;
+  // Optional step run on the mapped rows before import (e.g. geocoding)
+  prepareRows?: (
+    data: Record<string, unknown>[],
+    onProgress: (done: number, total: number) => void
+  ) => Promise<Record<string, unknown>[]>;
+  prepareLabel?: string;
   trigger?: React.ReactNode;
 }
 
-export const CSVImport = ({ tableName, columns, onImport, trigger }: CSVImportProps) => {
+export const CSVImport = ({ tableName, columns, onImport, prepareRows, prepareLabel = 'Preparing', trigger }: CSVImportProps) => {
   const [open, setOpen] = useState(false);
   const [file, setFile] = useState<File | null>(null);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [csvData, setCsvData] = useState<string[][]>([]);
   const [columnMappings, setColumnMappings] = useState<ColumnMapping[]>([]);
   const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
   const [step, setStep] = useState<'upload' | 'map' | 'preview'>('upload');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -157,7 +164,11 @@ export const CSVImport = ({ tableName, columns, onImport, trigger }: CSVImportPr
 
     setImporting(true);
     try {
-      const data = getMappedData();
+      let data = getMappedData();
+      if (prepareRows) {
+        data = await prepareRows(data, (done, total) => setProgress({ done, total }));
+        setProgress(null);
+      }
       await onImport(data);
       toast({
         title: 'Import successful',
@@ -174,6 +185,7 @@ export const CSVImport = ({ tableName, columns, onImport, trigger }: CSVImportPr
       });
     } finally {
       setImporting(false);
+      setProgress(null);
     }
   };
 
@@ -335,7 +347,7 @@ export const CSVImport = ({ tableName, columns, onImport, trigger }: CSVImportPr
           {step === 'preview' && (
             <Button onClick={handleImport} disabled={importing}>
               {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-              Import {csvData.length} Records
+              {progress ? `${prepareLabel} ${progress.done}/${progress.total}` : `Import ${csvData.length} Records`}
             </Button>
           )}
         </DialogFooter>
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAccountServiceStatus, useCrewPositions } from '@/hooks/useMapData';
+import { ServiceMap } from '@/components/map/ServiceMap';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Map as MapIcon } from 'lucide-react';
+
+// Active accounts by today's service status, with everyone on shift
+export const CrewMap = () => {
+  const serviceStatus = useAccountServiceStatus();
+  const { positions } = useCrewPositions();
+
+  const { data: accounts = [] } = useQuery({
+    queryKey: ['mapAccounts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, name, address, latitude, longitude')
+        .eq('status', 'active');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return (
+    <Card className="glass">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <MapIcon className="h-5 w-5 text-muted-foreground" />
+          <CardTitle className="text-lg">Crew Map</CardTitle>
+          <Badge variant="outline">{positions.length} located</Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ServiceMap accounts={accounts} statusByAccount={serviceStatus} crew={positions} className="h-[400px]" />
+      </CardContent>
+    </Card>
+  );
+};
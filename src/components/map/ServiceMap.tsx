@@ -0,0 +1,176 @@
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { format } from 'date-fns';
+import { useMapTileSettings } from '@/hooks/useMapData';
+import { cn } from '@/lib/utils';
+import {
+  ACCOUNT_SERVICE_STATUS_COLORS,
+  ACCOUNT_SERVICE_STATUS_LABELS,
+  type AccountServiceStatus,
+} from '@/lib/maps';
+import type { CrewPosition } from '@/hooks/useMapData';
+
+export interface MapAccount {
+  id: string;
+  name: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface MapPoint {
+  latitude: number;
+  longitude: number;
+}
+
+interface ServiceMapProps {
+  accounts: MapAccount[];
+  statusByAccount?: Map<string, AccountServiceStatus>;
+  // Planned stop order, drawn as a line from the start point
+  route?: MapPoint[];
+  start?: MapPoint | null;
+  crew?: CrewPosition[];
+  onAccountClick?: (accountId: string) => void;
+  className?: string;
+}
+
+const CREW_COLOR = '#f59e0b';
+const NO_CREW: CrewPosition[] = [];
+
+// Escape text placed into Leaflet popups, which take raw HTML
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+export const ServiceMap = ({
+  accounts,
+  statusByAccount,
+  route,
+  start,
+  crew = NO_CREW,
+  onAccountClick,
+  className,
+}: ServiceMapProps) => {
+  const { settings } = useMapTileSettings();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layersRef = useRef<L.LayerGroup | null>(null);
+  const fittedRef = useRef(false);
+  // Kept in a ref so a new handler each render doesn't redraw every pin
+  const onAccountClickRef = useRef(onAccountClick);
+  onAccountClickRef.current = onAccountClick;
+
+  // Create the map once
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const map = L.map(containerRef.current, { zoomControl: true }).setView([0, 0], 2);
+    layersRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      layersRef.current = null;
+      fittedRef.current = false;
+    };
+  }, []);
+
+  // Tile layer follows the admin setting
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const tiles = L.tileLayer(settings.url, { attribution: settings.attribution, maxZoom: settings.maxZoom }).addTo(map);
+    return () => {
+      tiles.remove();
+    };
+  }, [settings]);
+
+  // Redraw pins, route and crew whenever the data changes
+  useEffect(() => {
+    const map = mapRef.current;
+    const layers = layersRef.current;
+    if (!map || !layers) return;
+    layers.clearLayers();
+    const bounds = L.latLngBounds([]);
+
+    for (const account of accounts) {
+      if (account.latitude === null || account.longitude === null) continue;
+      const status = statusByAccount?.get(account.id) ?? 'pending';
+      const marker = L.circleMarker([account.latitude, account.longitude], {
+        radius: 7,
+        color: '#0f172a',
+        weight: 1,
+        fillColor: ACCOUNT_SERVICE_STATUS_COLORS[status],
+        fillOpacity: 0.9,
+      })
+        .bindPopup(
+          `<strong>${escapeHtml(account.name)}</strong><br/>${escapeHtml(account.address ?? '')}<br/>` +
+            `<em>${ACCOUNT_SERVICE_STATUS_LABELS[status]}</em>`
+        )
+        .addTo(layers);
+      marker.on('click', () => onAccountClickRef.current?.(account.id));
+      bounds.extend(marker.getLatLng());
+    }
+
+    if (route && route.length > 0) {
+      const points: L.LatLngExpression[] = [
+        ...(start ? [[start.latitude, start.longitude] as L.LatLngTuple] : []),
+        ...route.map((point) => [point.latitude, point.longitude] as L.LatLngTuple),
+      ];
+      L.polyline(points, { color: '#0ea5e9', weight: 4, opacity: 0.8 }).addTo(layers);
+      points.forEach((point) => bounds.extend(point));
+    }
+
+    if (start) {
+      L.circleMarker([start.latitude, start.longitude], {
+        radius: 8,
+        color: '#ffffff',
+        weight: 2,
+        fillColor: '#0ea5e9',
+        fillOpacity: 1,
+      })
+        .bindTooltip('You are here')
+        .addTo(layers);
+      bounds.extend([start.latitude, start.longitude]);
+    }
+
+    for (const member of crew) {
+      L.circleMarker([member.latitude, member.longitude], {
+        radius: 9,
+        color: '#ffffff',
+        weight: 2,
+        fillColor: CREW_COLOR,
+        fillOpacity: 1,
+      })
+        .bindTooltip(`${escapeHtml(member.name)} · ${format(new Date(member.recordedAt), 'h:mm a')}`)
+        .addTo(layers);
+      bounds.extend([member.latitude, member.longitude]);
+    }
+
+    // Only jump to the data the first time so live updates don't fight the user
+    if (!fittedRef.current && bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [24, 24], maxZoom: 15 });
+      fittedRef.current = true;
+    }
+  }, [accounts, statusByAccount, route, start, crew]);
+
+  return (
+    <div className={cn('relative rounded-lg overflow-hidden border border-border', className)}>
+      <div ref={containerRef} className="h-full w-full min-h-[300px] z-0" />
+      <div className="absolute bottom-2 left-2 z-[400] flex flex-wrap gap-2 rounded-md bg-background/90 px-2 py-1 text-xs">
+        {(Object.keys(ACCOUNT_SERVICE_STATUS_LABELS) as AccountServiceStatus[]).map((status) => (
+          <span key={status} className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: ACCOUNT_SERVICE_STATUS_COLORS[status] }} />
+            {ACCOUNT_SERVICE_STATUS_LABELS[status]}
+          </span>
+        ))}
+        {crew.length > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: CREW_COLOR }} />
+            Crew
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,9 +2,11 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeInvalidation } from '@/hooks/useRealtimeInvalidation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { WorkPhoto } from '@/components/worklog/WorkPhoto';
 import {
   Popover,
   PopoverContent,
@@ -53,7 +55,13 @@ export const NotificationsDropdown = () => {
       return data as Notification[];
     },
     enabled: !!user?.id,
-    refetchInterval: 30000, // Refetch every 30 seconds
+  });
+
+  useRealtimeInvalidation({
+    table: 'notifications',
+    queryKey: ['notifications', user?.id],
+    filter: `user_id=eq.${user?.id}`,
+    enabled: !!user?.id,
   });
 
   const unreadCount = notifications.filter((n) => !n.is_read).length;
@@ -180,6 +188,11 @@ export const NotificationsDropdown = () => {
                         <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
                           {notification.message}
                         </p>
+                        {notification.type === 'service_completed' && notification.metadata?.photo_url && (
+                          <div className="mt-2">
+                            <WorkPhoto path={notification.metadata.photo_url} className="w-full max-h-32" />
+                          </div>
+                        )}
                         <p className="text-xs text-muted-foreground mt-1">
                           {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
                         </p>
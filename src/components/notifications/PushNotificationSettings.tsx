@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { BellRing, Loader2 } from 'lucide-react';
+import { PUSH_CATEGORIES, PUSH_CATEGORY_LABELS, type PushCategory } from '@/lib/pushNotifications';
+
+interface Draft {
+  notification_types: string[];
+  quiet_hours: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+}
+
+export const PushNotificationSettings = () => {
+  const { toast } = useToast();
+  const { supported, subscription, isLoading, enable, disable, updatePreferences } = usePushNotifications();
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    if (!subscription) {
+      setDraft(null);
+      return;
+    }
+    setDraft({
+      notification_types: subscription.notification_types,
+      quiet_hours: !!subscription.quiet_hours_start && !!subscription.quiet_hours_end,
+      // Postgres returns HH:MM:SS; time inputs want HH:MM
+      quiet_hours_start: subscription.quiet_hours_start?.slice(0, 5) ?? '22:00',
+      quiet_hours_end: subscription.quiet_hours_end?.slice(0, 5) ?? '06:00',
+    });
+  }, [subscription]);
+
+  const handleToggle = (checked: boolean) => {
+    const mutation = checked ? enable : disable;
+    mutation.mutate(undefined, {
+      onSuccess: () =>
+        toast({ title: checked ? 'Push notifications on for this device' : 'Push notifications off for this device' }),
+      onError: (error) => {
+        toast({
+          title: 'Error updating push notifications',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const toggleCategory = (category: PushCategory, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      notification_types: checked
+        ? [...draft.notification_types, category]
+        : draft.notification_types.filter((type) => type !== category),
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    updatePreferences.mutate(
+      {
+        notification_types: draft.notification_types,
+        quiet_hours_start: draft.quiet_hours ? draft.quiet_hours_start : null,
+        quiet_hours_end: draft.quiet_hours ? draft.quiet_hours_end : null,
+      },
+      {
+        onSuccess: () => toast({ title: 'Notification preferences saved' }),
+        onError: (error) => {
+          toast({ title: 'Error saving preferences', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  const toggling = enable.isPending || disable.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Push Notifications
+        </CardTitle>
+        <CardDescription>Get notifications on this device even when the app is closed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!supported ? (
+          <p className="text-sm text-muted-foreground">
+            This browser doesn't support push notifications. On iPhone and iPad, add the app to your Home Screen
+            first.
+          </p>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="push-enabled">Notify me on this device</Label>
+              <p className="text-xs text-muted-foreground">Each phone or computer is set up separately.</p>
+            </div>
+            <Switch
+              id="push-enabled"
+              checked={!!subscription}
+              onCheckedChange={handleToggle}
+              disabled={isLoading || toggling}
+            />
+          </div>
+        )}
+
+        {draft && (
+          <>
+            <div className="space-y-3 rounded-lg border border-border p-3">
+              {PUSH_CATEGORIES.map((category) => (
+                <div key={category} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`push-${category}`}>{PUSH_CATEGORY_LABELS[category].label}</Label>
+                    <p className="text-xs text-muted-foreground">{PUSH_CATEGORY_LABELS[category].description}</p>
+                  </div>
+                  <Switch
+                    id={`push-${category}`}
+                    checked={draft.notification_types.includes(category)}
+                    onCheckedChange={(checked) => toggleCategory(category, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3 rounded-lg border border-border p-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="push-quiet-hours">Quiet hours</Label>
+                  <p className="text-xs text-muted-foreground">Hold everything but urgent notifications</p>
+                </div>
+                <Switch
+                  id="push-quiet-hours"
+                  checked={draft.quiet_hours}
+                  onCheckedChange={(checked) => setDraft({ ...draft, quiet_hours: checked })}
+                />
+              </div>
+              {draft.quiet_hours && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-xs">From</Label>
+                    <Input
+                      type="time"
+                      value={draft.quiet_hours_start}
+                      onChange={(e) => setDraft({ ...draft, quiet_hours_start: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs">Until</Label>
+                    <Input
+                      type="time"
+                      value={draft.quiet_hours_end}
+                      onChange={(e) => setDraft({ ...draft, quiet_hours_end: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Button
+              onClick={handleSave}
+              disabled={
+                updatePreferences.isPending ||
+                (draft.quiet_hours && (!draft.quiet_hours_start || !draft.quiet_hours_end))
+              }
+            >
+              {updatePreferences.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Preferences
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
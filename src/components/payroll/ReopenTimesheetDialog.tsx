@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+
+interface ReopenTimesheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeName: string;
+  onConfirm: (reason: string) => Promise<void>;
+}
+
+export const ReopenTimesheetDialog = ({ open, onOpenChange, employeeName, onConfirm }: ReopenTimesheetDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      await onConfirm(reason.trim());
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reopen Timesheet</DialogTitle>
+          <DialogDescription>
+            {employeeName}'s shifts in this period become editable again. The reason is kept in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="reopen-reason">Reason *</Label>
+          <Textarea
+            id="reopen-reason"
+            value={reason}
+            placeholder="e.g. Missed clock-out on Tuesday"
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={saving || !reason.trim()}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Reopen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,145 @@
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { AlertCircle, CloudOff, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import type { QueuedServiceLog } from '@/lib/offlineQueue';
+
+const FailedSyncList = ({
+  records,
+  isOnline,
+  isSyncing,
+  onRetry,
+  onDiscard,
+}: {
+  records: QueuedServiceLog[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  onRetry: (id: string) => void;
+  onDiscard: (record: QueuedServiceLog) => void;
+}) => (
+  <div className="space-y-3">
+    <div>
+      <p className="font-medium text-sm">Couldn't sync</p>
+      <p className="text-xs text-muted-foreground">
+        The server rejected these services. Retry once the problem is fixed, or discard them.
+      </p>
+    </div>
+    {records.map((record) => (
+      <div key={record.id} className="rounded-lg border border-border p-3 space-y-2">
+        <div>
+          <p className="text-sm font-medium">
+            {record.accountName || 'Unknown property'}
+            <span className="text-muted-foreground font-normal"> · {record.kind === 'plow' ? 'Plow' : 'Shovel'}</span>
+          </p>
+          <p className="text-xs text-muted-foreground">Logged {format(new Date(record.queuedAt), 'MMM d, h:mm a')}</p>
+          {record.lastError && <p className="text-xs text-destructive mt-1 break-words">{record.lastError}</p>}
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" disabled={!isOnline || isSyncing} onClick={() => onRetry(record.id)}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Retry
+          </Button>
+          <Button size="sm" variant="ghost" className="text-destructive" onClick={() => onDiscard(record)}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Discard
+          </Button>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export const PendingSyncBadge = () => {
+  const { toast } = useToast();
+  const { pendingCount, failedLogs, isOnline, isSyncing, syncNow, retryFailed, discardFailed } = useOfflineQueue();
+
+  if (pendingCount === 0 && failedLogs.length === 0 && isOnline) return null;
+
+  const handleRetry = async (id: string) => {
+    try {
+      await retryFailed(id);
+    } catch (error) {
+      toast({ title: 'Error retrying sync', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleDiscard = async (record: QueuedServiceLog) => {
+    if (!confirm(`Discard the service logged at ${record.accountName || 'this property'}? It will not be recorded.`)) return;
+    try {
+      await discardFailed(record.id);
+    } catch (error) {
+      toast({ title: 'Error discarding service', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const label = pendingCount > 0
+    ? `${pendingCount} pending sync`
+    : 'Offline';
+
+  const pendingBadge = (pendingCount > 0 || !isOnline) && (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={() => syncNow()}
+          disabled={!isOnline || isSyncing}
+          className="touch-target flex items-center"
+        >
+          <Badge
+            variant="outline"
+            className={cn(
+              'gap-1 whitespace-nowrap',
+              isOnline ? 'border-warning text-warning' : 'border-destructive text-destructive'
+            )}
+          >
+            {isSyncing ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : isOnline ? (
+              <RefreshCw className="h-3 w-3" />
+            ) : (
+              <CloudOff className="h-3 w-3" />
+            )}
+            {label}
+          </Badge>
+        </button>
+      </TooltipTrigger>
+      <TooltipContent>
+        {isOnline
+          ? 'Tap to sync logged services now'
+          : 'Services you log are saved on this device and will sync when you are back online'}
+      </TooltipContent>
+    </Tooltip>
+  );
+
+  return (
+    <>
+      {pendingBadge}
+      {failedLogs.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button type="button" className="touch-target flex items-center">
+              <Badge variant="outline" className="gap-1 whitespace-nowrap border-destructive text-destructive">
+                <AlertCircle className="h-3 w-3" />
+                {failedLogs.length} failed
+              </Badge>
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 max-h-[70vh] overflow-y-auto" align="end">
+            <FailedSyncList
+              records={failedLogs}
+              isOnline={isOnline}
+              isSyncing={isSyncing}
+              onRetry={handleRetry}
+              onDiscard={handleDiscard}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+    </>
+  );
+};
@@ -15,8 +15,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { useQueryClient } from '@tanstack/react-query';
-import { Loader2, Trash2 } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Lock, Trash2 } from 'lucide-react';
+import { findApprovalFor } from '@/lib/payroll';
 
 interface BulkEditDialogProps {
   open: boolean;
@@ -50,6 +51,36 @@ export function BulkEditDialog({
   const [snowDepth, setSnowDepth] = useState('');
   const [saltUsed, setSaltUsed] = useState('');
 
+  // Shifts on approved timesheets are frozen, so they are left out of both
+  // update and delete rather than failing the whole batch
+  const { data: lockedIds = [] } = useQuery({
+    queryKey: ['lockedShifts', selectedIds],
+    queryFn: async () => {
+      const { data: shifts, error } = await supabase
+        .from('time_clock')
+        .select('id, employee_id, clock_in_time')
+        .in('id', selectedIds);
+      if (error) throw error;
+      if (!shifts.length) return [];
+
+      const times = shifts.map((shift) => shift.clock_in_time).sort();
+      const { data: approvals, error: approvalsError } = await supabase
+        .from('timesheet_approvals')
+        .select('id, employee_id, period_start, period_end')
+        .in('employee_id', [...new Set(shifts.map((shift) => shift.employee_id))])
+        .lte('period_start', times[times.length - 1])
+        .gt('period_end', times[0]);
+      if (approvalsError) throw approvalsError;
+
+      return shifts
+        .filter((shift) => findApprovalFor(approvals, shift.employee_id, shift.clock_in_time))
+        .map((shift) => shift.id);
+    },
+    enabled: open && type === 'time_clock' && selectedIds.length > 0,
+  });
+
+  const editableIds = selectedIds.filter((id) => !lockedIds.includes(id));
+
   const resetForm = () => {
     setUpdateServiceType(false);
     setUpdateNotes(false);
@@ -67,7 +98,7 @@ export function BulkEditDialog({
   };
 
   const handleBulkUpdate = async () => {
-    if (selectedIds.length === 0) return;
+    if (editableIds.length === 0) return;
 
     const updates: Record<string, any> = {};
     
@@ -94,18 +125,19 @@ export function BulkEditDialog({
       const { error } = await supabase
         .from(type)
         .update(updates)
-        .in('id', selectedIds);
+        .in('id', editableIds);
 
       if (error) throw error;
 
       toast({
         title: 'Success',
-        description: `Updated ${selectedIds.length} ${type === 'time_clock' ? 'shifts' : 'entries'}.`,
+        description: `Updated ${editableIds.length} ${type === 'time_clock' ? 'shifts' : 'entries'}.`,
       });
 
       queryClient.invalidateQueries({ queryKey: ['workLogsReport'] });
       queryClient.invalidateQueries({ queryKey: ['shovelLogsReport'] });
       queryClient.invalidateQueries({ queryKey: ['timeClockReport'] });
+      queryClient.invalidateQueries({ queryKey: ['timesheets'] });
       
       onSuccess();
       handleClose();
@@ -122,25 +154,26 @@ export function BulkEditDialog({
   };
 
   const handleBulkDelete = async () => {
-    if (selectedIds.length === 0) return;
+    if (editableIds.length === 0) return;
 
     setIsDeleting(true);
     try {
       const { error } = await supabase
         .from(type)
         .delete()
-        .in('id', selectedIds);
+        .in('id', editableIds);
 
       if (error) throw error;
 
       toast({
         title: 'Deleted',
-        description: `Deleted ${selectedIds.length} ${type === 'time_clock' ? 'shifts' : 'entries'}.`,
+        description: `Deleted ${editableIds.length} ${type === 'time_clock' ? 'shifts' : 'entries'}.`,
       });
 
       queryClient.invalidateQueries({ queryKey: ['workLogsReport'] });
       queryClient.invalidateQueries({ queryKey: ['shovelLogsReport'] });
       queryClient.invalidateQueries({ queryKey: ['timeClockReport'] });
+      queryClient.invalidateQueries({ queryKey: ['timesheets'] });
       
       onSuccess();
       handleClose();
@@ -169,6 +202,14 @@ export function BulkEditDialog({
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {lockedIds.length > 0 && (
+            <div className="flex items-start gap-2 rounded-lg border border-warning/40 bg-warning/10 p-3 text-sm">
+              <Lock className="h-4 w-4 mt-0.5 shrink-0 text-warning" />
+              {lockedIds.length} of the selected shifts {lockedIds.length === 1 ? 'is' : 'are'} on an approved
+              timesheet and will be left unchanged.
+            </div>
+          )}
+
           {isWorkLog && (
             <>
               {/* Service Type */}
@@ -274,7 +315,7 @@ export function BulkEditDialog({
           <Button
             variant="destructive"
             onClick={handleBulkDelete}
-            disabled={isDeleting || isLoading}
+            disabled={isDeleting || isLoading || editableIds.length === 0}
             className="w-full sm:w-auto"
           >
             {isDeleting ? (
@@ -288,7 +329,7 @@ export function BulkEditDialog({
             <Button variant="outline" onClick={handleClose} className="flex-1 sm:flex-none">
               Cancel
             </Button>
-            <Button onClick={handleBulkUpdate} disabled={isLoading || isDeleting} className="flex-1 sm:flex-none">
+            <Button onClick={handleBulkUpdate} disabled={isLoading || isDeleting || editableIds.length === 0} className="flex-1 sm:flex-none">
               {isLoading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
               Update
             </Button>
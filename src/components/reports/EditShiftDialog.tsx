@@ -22,6 +22,7 @@ import {
 } from '@/components/ui/select';
 import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
+import { Lock } from 'lucide-react';
 
 interface EditShiftDialogProps {
   open: boolean;
@@ -56,6 +57,20 @@ export const EditShiftDialog = ({ open, onOpenChange, shift }: EditShiftDialogPr
     },
   });
 
+  // Approved timesheets are frozen; the database rejects edits regardless
+  const { data: isLocked = false } = useQuery({
+    queryKey: ['shiftLocked', shift?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('is_timesheet_locked', {
+        _employee_id: shift!.employee_id,
+        _at: shift!.clock_in_time,
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!shift,
+  });
+
   // Load shift data when dialog opens
   useEffect(() => {
     if (shift && open) {
@@ -107,6 +122,7 @@ export const EditShiftDialog = ({ open, onOpenChange, shift }: EditShiftDialogPr
 
       toast.success('Shift updated successfully');
       queryClient.invalidateQueries({ queryKey: ['timeClockReport'] });
+      queryClient.invalidateQueries({ queryKey: ['timesheets'] });
       onOpenChange(false);
     } catch (error: any) {
       console.error('Error updating shift:', error);
@@ -127,6 +143,13 @@ export const EditShiftDialog = ({ open, onOpenChange, shift }: EditShiftDialogPr
         </DialogHeader>
 
         <div className="space-y-4">
+          {isLocked && (
+            <div className="flex items-start gap-2 rounded-lg border border-warning/40 bg-warning/10 p-3 text-sm">
+              <Lock className="h-4 w-4 mt-0.5 shrink-0 text-warning" />
+              This shift is on an approved timesheet. Reopen the timesheet to make changes.
+            </div>
+          )}
+
           {/* Employee */}
           <div className="space-y-2">
             <Label>Employee *</Label>
@@ -173,7 +196,7 @@ export const EditShiftDialog = ({ open, onOpenChange, shift }: EditShiftDialogPr
           {/* Actions */}
           <div className="flex gap-2 justify-end pt-4">
             <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
-            <Button onClick={handleSubmit} disabled={saving}>
+            <Button onClick={handleSubmit} disabled={saving || isLocked}>
               {saving ? 'Saving...' : 'Save Changes'}
             </Button>
           </div>
@@ -0,0 +1,181 @@
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar as CalendarIcon, Download, Loader2, ShieldCheck } from 'lucide-react';
+import { endOfDay, format, startOfDay, subDays } from 'date-fns';
+import { buildProofOfServiceReport } from '@/lib/proofOfService';
+import { downloadProofOfServicePDF } from '@/lib/generateReportPDF';
+
+interface ProofOfServiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: { id: string; name: string }[];
+  defaultAccountId?: string | null;
+  defaultRange?: { from: Date; to: Date };
+}
+
+export const ProofOfServiceDialog = ({
+  open,
+  onOpenChange,
+  accounts,
+  defaultAccountId,
+  defaultRange,
+}: ProofOfServiceDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [accountId, setAccountId] = useState('');
+  const [from, setFrom] = useState(() => subDays(new Date(), 30));
+  const [to, setTo] = useState(() => new Date());
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Take the defaults once per opening so parent re-renders don't undo picks
+  const initialized = useRef(false);
+
+  useEffect(() => {
+    if (!open) {
+      initialized.current = false;
+      return;
+    }
+    if (initialized.current) return;
+    initialized.current = true;
+    setAccountId(defaultAccountId ?? (accounts.length === 1 ? accounts[0].id : ''));
+    if (defaultRange) {
+      setFrom(defaultRange.from);
+      setTo(defaultRange.to);
+    }
+    setProgress(null);
+  }, [open, accounts, defaultAccountId, defaultRange]);
+
+  const { data: issuedReports = [] } = useQuery({
+    queryKey: ['proofOfServiceReports', accountId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('proof_of_service_reports')
+        .select('*')
+        .eq('account_id', accountId)
+        .order('created_at', { ascending: false })
+        .limit(5);
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!accountId,
+  });
+
+  const handleGenerate = async () => {
+    if (!user) return;
+    setGenerating(true);
+    try {
+      const report = await buildProofOfServiceReport(accountId, startOfDay(from), endOfDay(to), (done, total) =>
+        setProgress({ done, total })
+      );
+      downloadProofOfServicePDF(report);
+      queryClient.invalidateQueries({ queryKey: ['proofOfServiceReports', accountId] });
+      toast({ title: 'Report ready', description: `${report.visits.length} visits included.` });
+    } catch (error) {
+      toast({ title: 'Error generating report', description: String(error), variant: 'destructive' });
+    } finally {
+      setGenerating(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Proof of Service
+          </DialogTitle>
+          <DialogDescription>
+            A signed-off record of every visit with times, GPS, weather, salt and photos, for insurers and claims.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {accounts.length > 1 && (
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { label: 'From', value: from, onChange: setFrom },
+              { label: 'To', value: to, onChange: setTo },
+            ].map((field) => (
+              <div key={field.label} className="space-y-2">
+                <Label>{field.label}</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start text-left font-normal">
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {format(field.value, 'MMM d, yyyy')}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar mode="single" selected={field.value} onSelect={(date) => date && field.onChange(date)} />
+                  </PopoverContent>
+                </Popover>
+              </div>
+            ))}
+          </div>
+
+          {issuedReports.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Recently issued</Label>
+              {issuedReports.map((report) => (
+                <div key={report.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span>
+                    {format(new Date(report.period_start), 'MMM d')} - {format(new Date(report.period_end), 'MMM d, yyyy')}
+                    <span className="text-muted-foreground"> · {report.visit_count} visits</span>
+                  </span>
+                  <span className="font-mono text-muted-foreground" title={`Report ${report.id}\nSHA-256 ${report.content_hash}`}>
+                    {report.content_hash.slice(0, 12)}…
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleGenerate} disabled={!accountId || from > to || generating}>
+            {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            {progress && progress.total > 0 ? `Photos ${progress.done}/${progress.total}` : 'Download PDF'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useRouteAssignments } from '@/hooks/useRoutes';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import type { RouteWithStops } from '@/lib/routes';
+
+interface RouteAssignmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  routeDate: string;
+  routes: RouteWithStops[];
+}
+
+export const RouteAssignmentDialog = ({ open, onOpenChange, routeDate, routes }: RouteAssignmentDialogProps) => {
+  const { toast } = useToast();
+  const { saveAssignment } = useRouteAssignments(routeDate);
+
+  const [routeId, setRouteId] = useState('');
+  const [equipmentId, setEquipmentId] = useState('none');
+  const [employeeIds, setEmployeeIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+
+  const { data: employees = [] } = useQuery({
+    queryKey: ['routeAssignmentEmployees'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, name, category')
+        .eq('status', 'active')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const { data: equipment = [] } = useQuery({
+    queryKey: ['routeEditorEquipment'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('equipment')
+        .select('id, name')
+        .eq('status', 'active')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setRouteId('');
+    setEquipmentId('none');
+    setEmployeeIds([]);
+    setNotes('');
+  }, [open]);
+
+  const activeRoutes = routes.filter((route) => route.is_active);
+
+  const handleRouteChange = (value: string) => {
+    setRouteId(value);
+    // Default to the route's usual truck
+    const route = routes.find((r) => r.id === value);
+    setEquipmentId(route?.default_equipment_id ?? 'none');
+  };
+
+  const toggleEmployee = (employeeId: string, checked: boolean) => {
+    setEmployeeIds(checked ? [...employeeIds, employeeId] : employeeIds.filter((id) => id !== employeeId));
+  };
+
+  const handleSave = () => {
+    if (!routeId) {
+      toast({ title: 'Select a route', variant: 'destructive' });
+      return;
+    }
+    if (employeeIds.length === 0) {
+      toast({ title: 'Assign at least one employee', variant: 'destructive' });
+      return;
+    }
+
+    saveAssignment.mutate(
+      {
+        route_id: routeId,
+        route_date: routeDate,
+        equipment_id: equipmentId === 'none' ? null : equipmentId,
+        notes: notes.trim() || null,
+        employeeIds,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: 'Route assigned' });
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast({ title: 'Error assigning route', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Assign Route</DialogTitle>
+          <DialogDescription>Hand a saved route to a crew for {routeDate}.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Route</Label>
+            <Select value={routeId} onValueChange={handleRouteChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a route" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeRoutes.map((route) => (
+                  <SelectItem key={route.id} value={route.id}>
+                    {route.name} ({route.route_stops.length} stops)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Truck</Label>
+            <Select value={equipmentId} onValueChange={setEquipmentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                {equipment.map((unit) => (
+                  <SelectItem key={unit.id} value={unit.id}>{unit.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Crew ({employeeIds.length} selected)</Label>
+            <ScrollArea className="h-48 rounded-md border border-border">
+              <div className="p-2 space-y-1">
+                {employees.map((employee) => (
+                  <label key={employee.id} className="flex items-center gap-2 p-2 rounded hover:bg-muted/50 cursor-pointer">
+                    <Checkbox
+                      checked={employeeIds.includes(employee.id)}
+                      onCheckedChange={(checked) => toggleEmployee(employee.id, checked === true)}
+                    />
+                    <span className="text-sm flex-1">{employee.name}</span>
+                    <span className="text-xs text-muted-foreground capitalize">{employee.category}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} rows={2} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveAssignment.isPending}>
+            {saveAssignment.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
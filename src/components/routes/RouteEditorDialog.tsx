@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useRoutes } from '@/hooks/useRoutes';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Loader2, Plus, X } from 'lucide-react';
+import { ROUTE_SERVICE_TYPE_LABELS, sortedStops, type RouteServiceType, type RouteWithStops } from '@/lib/routes';
+
+interface RouteEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  route: RouteWithStops | null;
+  // Stops to start a new route with, e.g. from the route planner
+  initialAccountIds?: string[];
+  onSaved?: (routeId: string) => void;
+}
+
+export const RouteEditorDialog = ({ open, onOpenChange, route, initialAccountIds, onSaved }: RouteEditorDialogProps) => {
+  const { toast } = useToast();
+  const { saveRoute } = useRoutes();
+
+  const [name, setName] = useState('');
+  const [serviceType, setServiceType] = useState<RouteServiceType>('both');
+  const [equipmentId, setEquipmentId] = useState<string>('none');
+  const [notes, setNotes] = useState('');
+  const [accountIds, setAccountIds] = useState<string[]>([]);
+  const [accountToAdd, setAccountToAdd] = useState('');
+
+  const { data: accounts = [] } = useQuery({
+    queryKey: ['routeEditorAccounts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, name, address')
+        .eq('status', 'active')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const { data: equipment = [] } = useQuery({
+    queryKey: ['routeEditorEquipment'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('equipment')
+        .select('id, name')
+        .eq('status', 'active')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setName(route?.name ?? '');
+    setServiceType((route?.service_type as RouteServiceType) ?? 'both');
+    setEquipmentId(route?.default_equipment_id ?? 'none');
+    setNotes(route?.notes ?? '');
+    setAccountIds(route ? sortedStops(route).map((stop) => stop.account_id) : initialAccountIds ?? []);
+    setAccountToAdd('');
+  }, [open, route, initialAccountIds]);
+
+  const accountsById = new Map(accounts.map((account) => [account.id, account]));
+  const availableAccounts = accounts.filter((account) => !accountIds.includes(account.id));
+
+  const moveStop = (index: number, offset: number) => {
+    const next = [...accountIds];
+    const [stop] = next.splice(index, 1);
+    next.splice(index + offset, 0, stop);
+    setAccountIds(next);
+  };
+
+  const addStop = (accountId: string) => {
+    setAccountIds([...accountIds, accountId]);
+    setAccountToAdd('');
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast({ title: 'Route name is required', variant: 'destructive' });
+      return;
+    }
+    if (accountIds.length === 0) {
+      toast({ title: 'Add at least one stop', variant: 'destructive' });
+      return;
+    }
+
+    saveRoute.mutate(
+      {
+        id: route?.id,
+        name: name.trim(),
+        service_type: serviceType,
+        default_equipment_id: equipmentId === 'none' ? null : equipmentId,
+        notes: notes.trim() || null,
+        accountIds,
+      },
+      {
+        onSuccess: (routeId) => {
+          toast({ title: route ? 'Route updated' : 'Route saved' });
+          onOpenChange(false);
+          onSaved?.(routeId);
+        },
+        onError: (error) => {
+          toast({ title: 'Error saving route', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{route ? 'Edit Route' : 'New Route'}</DialogTitle>
+          <DialogDescription>Stops are visited in the order listed.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={name} placeholder="e.g. North Side Lots" onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Service Type</Label>
+              <Select value={serviceType} onValueChange={(value) => setServiceType(value as RouteServiceType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ROUTE_SERVICE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Default Truck</Label>
+              <Select value={equipmentId} onValueChange={setEquipmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {equipment.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>{unit.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Stops ({accountIds.length})</Label>
+            <ScrollArea className="h-56 rounded-md border border-border">
+              <div className="p-2 space-y-1">
+                {accountIds.length === 0 && (
+                  <p className="text-sm text-muted-foreground p-2">No stops yet</p>
+                )}
+                {accountIds.map((accountId, index) => (
+                  <div key={accountId} className="flex items-center gap-2 p-2 rounded bg-muted/50">
+                    <span className="w-6 text-center text-xs font-bold text-muted-foreground">{index + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{accountsById.get(accountId)?.name ?? 'Inactive account'}</p>
+                      <p className="text-xs text-muted-foreground truncate">{accountsById.get(accountId)?.address}</p>
+                    </div>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => moveStop(index, -1)}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      disabled={index === accountIds.length - 1}
+                      onClick={() => moveStop(index, 1)}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => setAccountIds(accountIds.filter((id) => id !== accountId))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="flex gap-2">
+              <Select value={accountToAdd} onValueChange={setAccountToAdd}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Add a stop..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" disabled={!accountToAdd} onClick={() => addStop(accountToAdd)}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} rows={2} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveRoute.isPending}>
+            {saveRoute.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {route ? 'Save Changes' : 'Save Route'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,230 @@
+import { useState, useEffect, useRef } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, Loader2, X } from 'lucide-react';
+import {
+  SERVICE_REQUEST_PHOTO_BUCKET,
+  SERVICE_REQUEST_PRIORITY_LABELS,
+  SERVICE_REQUEST_TYPE_LABELS,
+  buildServiceRequestPhotoPath,
+} from '@/lib/serviceRequests';
+import type { AccountPriority, ServiceRequestType } from '@/lib/supabase-types';
+
+interface NewServiceRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Properties the client can raise requests for; a picker appears when
+  // there is more than one
+  accounts: { id: string; name: string }[];
+}
+
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+export const NewServiceRequestDialog = ({ open, onOpenChange, accounts }: NewServiceRequestDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [requestType, setRequestType] = useState<ServiceRequestType>('new_service');
+  const [priority, setPriority] = useState<AccountPriority>('normal');
+  const [description, setDescription] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [accountId, setAccountId] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setAccountId(accounts.length === 1 ? accounts[0].id : '');
+    setRequestType('new_service');
+    setPriority('normal');
+    setDescription('');
+    setPhoto(null);
+  }, [open, accounts]);
+
+  useEffect(() => {
+    if (!photo) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(photo);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Invalid file type', description: 'Please select an image file', variant: 'destructive' });
+      return;
+    }
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast({ title: 'File too large', description: 'Maximum file size is 10MB', variant: 'destructive' });
+      return;
+    }
+    setPhoto(file);
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!user?.id) throw new Error('You must be signed in to submit a request');
+
+      let photoPath: string | null = null;
+      if (photo) {
+        photoPath = buildServiceRequestPhotoPath(user.id, photo);
+        const { error: uploadError } = await supabase.storage
+          .from(SERVICE_REQUEST_PHOTO_BUCKET)
+          .upload(photoPath, photo, { cacheControl: '3600', upsert: false });
+        if (uploadError) throw uploadError;
+      }
+
+      const { error } = await supabase.from('service_requests').insert({
+        account_id: accountId,
+        requested_by: user.id,
+        request_type: requestType,
+        priority,
+        description: description.trim(),
+        photo_url: photoPath,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clientServiceRequests'] });
+      toast({ title: 'Request submitted', description: 'We will get back to you shortly.' });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: 'Error submitting request', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Service Request</DialogTitle>
+          <DialogDescription>
+            Tell us what you need and our team will follow up here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {accounts.length > 1 && (
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Request Type</Label>
+              <Select value={requestType} onValueChange={(value) => setRequestType(value as ServiceRequestType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SERVICE_REQUEST_TYPE_LABELS) as ServiceRequestType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{SERVICE_REQUEST_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as AccountPriority)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SERVICE_REQUEST_PRIORITY_LABELS) as AccountPriority[]).map((level) => (
+                    <SelectItem key={level} value={level}>{SERVICE_REQUEST_PRIORITY_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Textarea
+              rows={4}
+              placeholder="e.g. Please clear the side entrance before 7am on weekdays"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Photo (optional)</Label>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileSelect}
+              accept="image/*"
+              className="hidden"
+            />
+            {previewUrl ? (
+              <div className="relative">
+                <img
+                  src={previewUrl}
+                  alt="Request photo preview"
+                  className="w-full h-40 object-cover rounded-lg border border-border"
+                />
+                <Button
+                  variant="destructive"
+                  size="icon"
+                  className="absolute top-2 right-2 h-8 w-8"
+                  onClick={() => setPhoto(null)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" className="w-full gap-2" onClick={() => fileInputRef.current?.click()}>
+                <Camera className="h-4 w-4" />
+                Add Photo
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => submitMutation.mutate()}
+            disabled={!accountId || !description.trim() || submitMutation.isPending}
+          >
+            {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
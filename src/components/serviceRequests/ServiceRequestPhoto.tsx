@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2 } from 'lucide-react';
+import { SERVICE_REQUEST_PHOTO_BUCKET } from '@/lib/serviceRequests';
+
+interface ServiceRequestPhotoProps {
+  path: string;
+}
+
+// The bucket is private, so photos are shown through short-lived signed URLs
+export const ServiceRequestPhoto = ({ path }: ServiceRequestPhotoProps) => {
+  const { data: url, isLoading } = useQuery({
+    queryKey: ['serviceRequestPhoto', path],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(SERVICE_REQUEST_PHOTO_BUCKET)
+        .createSignedUrl(path, 60 * 60); // 1 hour
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    staleTime: 30 * 60 * 1000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="h-32 flex items-center justify-center rounded-lg bg-muted/50">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!url) return null;
+
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img
+        src={url}
+        alt="Service request photo"
+        className="w-full max-h-48 object-cover rounded-lg border border-border"
+      />
+    </a>
+  );
+};
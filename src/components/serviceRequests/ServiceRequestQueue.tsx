@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useRealtimeInvalidation } from '@/hooks/useRealtimeInvalidation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ServiceRequestTriageDialog } from '@/components/serviceRequests/ServiceRequestTriageDialog';
+import { Camera, Loader2, MessageSquare, UserCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  SERVICE_REQUEST_PRIORITY_BADGE_CLASSES,
+  SERVICE_REQUEST_PRIORITY_LABELS,
+  SERVICE_REQUEST_STATUS_BADGE_CLASSES,
+  SERVICE_REQUEST_STATUS_LABELS,
+  SERVICE_REQUEST_TYPE_LABELS,
+  compareServiceRequests,
+  isOpenServiceRequest,
+  type ServiceRequest,
+} from '@/lib/serviceRequests';
+import type { AccountPriority, ServiceRequestStatus, ServiceRequestType } from '@/lib/supabase-types';
+
+export type ServiceRequestWithDetails = ServiceRequest & {
+  accounts: { name: string } | null;
+  employees: { name: string } | null;
+};
+
+type QueueFilter = 'open' | 'all' | ServiceRequestStatus;
+
+export const ServiceRequestQueue = () => {
+  const [filter, setFilter] = useState<QueueFilter>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: ['serviceRequests'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('service_requests')
+        .select('*, accounts(name), employees(name)')
+        .order('created_at', { ascending: false })
+        .limit(200);
+      if (error) throw error;
+      return data as ServiceRequestWithDetails[];
+    },
+  });
+
+  useRealtimeInvalidation({ table: 'service_requests', queryKey: ['serviceRequests'] });
+
+  const filteredRequests = requests
+    .filter((request) => {
+      if (filter === 'all') return true;
+      if (filter === 'open') return isOpenServiceRequest(request);
+      return request.status === filter;
+    })
+    .sort(compareServiceRequests);
+
+  const openCount = requests.filter(isOpenServiceRequest).length;
+  // Look the selection up by id so realtime refreshes flow into the open dialog
+  const selectedRequest = requests.find((request) => request.id === selectedId) ?? null;
+
+  return (
+    <Card className="glass">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            Service Requests
+            {openCount > 0 && <Badge variant="secondary">{openCount} open</Badge>}
+          </CardTitle>
+          <CardDescription>Triage, assign and respond to client requests</CardDescription>
+        </div>
+        <Select value={filter} onValueChange={(value) => setFilter(value as QueueFilter)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+            {(Object.keys(SERVICE_REQUEST_STATUS_LABELS) as ServiceRequestStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>{SERVICE_REQUEST_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : filteredRequests.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <MessageSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No service requests</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {filteredRequests.map((request) => {
+              const status = request.status as ServiceRequestStatus;
+              const priority = (request.priority || 'normal') as AccountPriority;
+
+              return (
+                <div
+                  key={request.id}
+                  className="p-3 rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors cursor-pointer space-y-2"
+                  onClick={() => setSelectedId(request.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium text-sm truncate">
+                      {request.accounts?.name || 'Unknown account'} •{' '}
+                      {SERVICE_REQUEST_TYPE_LABELS[request.request_type as ServiceRequestType] ?? request.request_type}
+                    </p>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant="outline" className={SERVICE_REQUEST_PRIORITY_BADGE_CLASSES[priority]}>
+                        {SERVICE_REQUEST_PRIORITY_LABELS[priority]}
+                      </Badge>
+                      <Badge variant="outline" className={SERVICE_REQUEST_STATUS_BADGE_CLASSES[status]}>
+                        {SERVICE_REQUEST_STATUS_LABELS[status] ?? request.status}
+                      </Badge>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2">{request.description}</p>
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                    <span>{formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}</span>
+                    {request.employees?.name && (
+                      <span className="flex items-center gap-1">
+                        <UserCheck className="h-3 w-3" />
+                        {request.employees.name}
+                      </span>
+                    )}
+                    {request.photo_url && <Camera className="h-3 w-3" />}
+                    {request.response && <span>Replied</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <ServiceRequestTriageDialog
+        open={!!selectedRequest}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+        request={selectedRequest}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ServiceRequestPhoto } from '@/components/serviceRequests/ServiceRequestPhoto';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  SERVICE_REQUEST_PRIORITY_BADGE_CLASSES,
+  SERVICE_REQUEST_PRIORITY_LABELS,
+  SERVICE_REQUEST_STATUS_LABELS,
+  SERVICE_REQUEST_TYPE_LABELS,
+  canTransitionServiceRequest,
+} from '@/lib/serviceRequests';
+import type { ServiceRequestWithDetails } from '@/components/serviceRequests/ServiceRequestQueue';
+import type { AccountPriority, ServiceRequestStatus, ServiceRequestType } from '@/lib/supabase-types';
+
+interface ServiceRequestTriageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request: ServiceRequestWithDetails | null;
+}
+
+const UNASSIGNED = 'unassigned';
+
+export const ServiceRequestTriageDialog = ({ open, onOpenChange, request }: ServiceRequestTriageDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ServiceRequestStatus>('pending');
+  const [priority, setPriority] = useState<AccountPriority>('normal');
+  const [assignedTo, setAssignedTo] = useState(UNASSIGNED);
+  const [response, setResponse] = useState('');
+
+  const { data: employees = [] } = useQuery({
+    queryKey: ['employees'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('employees').select('id, name').order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open || !request) return;
+    setStatus(request.status as ServiceRequestStatus);
+    setPriority((request.priority || 'normal') as AccountPriority);
+    setAssignedTo(request.assigned_to || UNASSIGNED);
+    setResponse(request.response || '');
+  }, [open, request]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!request) return;
+      if (!canTransitionServiceRequest(request.status as ServiceRequestStatus, status)) {
+        throw new Error(`Cannot change a ${request.status} request to ${status}`);
+      }
+
+      // completed_at and responded_at are maintained by a database trigger
+      const { error } = await supabase
+        .from('service_requests')
+        .update({
+          status,
+          priority,
+          assigned_to: assignedTo === UNASSIGNED ? null : assignedTo,
+          response: response.trim() || null,
+        })
+        .eq('id', request.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['serviceRequests'] });
+      toast({ title: 'Request updated' });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: 'Error updating request', description: String(error), variant: 'destructive' });
+    },
+  });
+
+  if (!request) return null;
+
+  const currentStatus = request.status as ServiceRequestStatus;
+  const requestPriority = (request.priority || 'normal') as AccountPriority;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {SERVICE_REQUEST_TYPE_LABELS[request.request_type as ServiceRequestType] ?? request.request_type}
+          </DialogTitle>
+          <DialogDescription>
+            {request.accounts?.name || 'Unknown account'} • {format(new Date(request.created_at), 'MMM d, yyyy h:mm a')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 rounded-lg bg-muted/30 space-y-2">
+            <Badge variant="outline" className={SERVICE_REQUEST_PRIORITY_BADGE_CLASSES[requestPriority]}>
+              {SERVICE_REQUEST_PRIORITY_LABELS[requestPriority]} priority
+            </Badge>
+            <p className="text-sm whitespace-pre-line">{request.description}</p>
+            {request.photo_url && <ServiceRequestPhoto path={request.photo_url} />}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as ServiceRequestStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SERVICE_REQUEST_STATUS_LABELS) as ServiceRequestStatus[]).map((option) => (
+                    <SelectItem
+                      key={option}
+                      value={option}
+                      disabled={!canTransitionServiceRequest(currentStatus, option)}
+                    >
+                      {SERVICE_REQUEST_STATUS_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as AccountPriority)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SERVICE_REQUEST_PRIORITY_LABELS) as AccountPriority[]).map((level) => (
+                    <SelectItem key={level} value={level}>{SERVICE_REQUEST_PRIORITY_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Assigned To</Label>
+            <Select value={assignedTo} onValueChange={setAssignedTo}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>{employee.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Response to Client</Label>
+            <Textarea
+              rows={4}
+              placeholder="Visible to the client in their portal"
+              value={response}
+              onChange={(e) => setResponse(e.target.value)}
+            />
+            {request.responded_at && (
+              <p className="text-xs text-muted-foreground">
+                Last replied {format(new Date(request.responded_at), 'MMM d, yyyy h:mm a')}
+              </p>
+            )}
+          </div>
+
+          {request.completed_at && (
+            <p className="text-xs text-muted-foreground">
+              Completed {format(new Date(request.completed_at), 'MMM d, yyyy h:mm a')}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,340 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSiteDocs } from '@/hooks/useSiteDocs';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { SitePhotoImage } from '@/components/siteDocs/SitePhotoImage';
+import { SitePhotoAnnotator } from '@/components/siteDocs/SitePhotoAnnotator';
+import { Camera, Loader2, Lock, Pencil, Trash2 } from 'lucide-react';
+import { MAX_SITE_PHOTO_BYTES, parseSiteAnnotations, type SitePhoto } from '@/lib/siteDocs';
+
+interface AccountSiteDocsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: { id: string; name: string } | null;
+}
+
+const emptyInstructions = {
+  contact_on_arrival: '',
+  contact_on_arrival_phone: '',
+  sidewalks_included: false,
+  salt_allowed: true,
+  stacking_instructions: '',
+  hazards: '',
+  special_instructions: '',
+};
+
+const emptyAccess = {
+  gate_code: '',
+  lockbox_code: '',
+  alarm_code: '',
+  access_notes: '',
+};
+
+const toNullable = (value: string) => value.trim() || null;
+
+export const AccountSiteDocsDialog = ({ open, onOpenChange, account }: AccountSiteDocsDialogProps) => {
+  const { toast } = useToast();
+  const { instructions, access, photos, saveInstructions, saveAccess, addPhoto, updatePhoto, deletePhoto } = useSiteDocs(
+    open ? account?.id : null
+  );
+  const [instructionsForm, setInstructionsForm] = useState(emptyInstructions);
+  const [accessForm, setAccessForm] = useState(emptyAccess);
+  const [newCaption, setNewCaption] = useState('');
+  const [annotating, setAnnotating] = useState<SitePhoto | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setInstructionsForm({
+      contact_on_arrival: instructions?.contact_on_arrival ?? '',
+      contact_on_arrival_phone: instructions?.contact_on_arrival_phone ?? '',
+      sidewalks_included: instructions?.sidewalks_included ?? false,
+      salt_allowed: instructions?.salt_allowed ?? true,
+      stacking_instructions: instructions?.stacking_instructions ?? '',
+      hazards: instructions?.hazards ?? '',
+      special_instructions: instructions?.special_instructions ?? '',
+    });
+  }, [instructions]);
+
+  useEffect(() => {
+    setAccessForm({
+      gate_code: access?.gate_code ?? '',
+      lockbox_code: access?.lockbox_code ?? '',
+      alarm_code: access?.alarm_code ?? '',
+      access_notes: access?.access_notes ?? '',
+    });
+  }, [access]);
+
+  const handleSaveInstructions = () => {
+    saveInstructions.mutate(
+      {
+        ...instructionsForm,
+        contact_on_arrival: toNullable(instructionsForm.contact_on_arrival),
+        contact_on_arrival_phone: toNullable(instructionsForm.contact_on_arrival_phone),
+        stacking_instructions: toNullable(instructionsForm.stacking_instructions),
+        hazards: toNullable(instructionsForm.hazards),
+        special_instructions: toNullable(instructionsForm.special_instructions),
+      },
+      {
+        onSuccess: () => toast({ title: 'Site instructions saved' }),
+        onError: (error) => {
+          toast({ title: 'Error saving site instructions', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  const handleSaveAccess = () => {
+    saveAccess.mutate(
+      {
+        gate_code: toNullable(accessForm.gate_code),
+        lockbox_code: toNullable(accessForm.lockbox_code),
+        alarm_code: toNullable(accessForm.alarm_code),
+        access_notes: toNullable(accessForm.access_notes),
+      },
+      {
+        onSuccess: () => toast({ title: 'Site access saved' }),
+        onError: (error) => {
+          toast({ title: 'Error saving site access', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Invalid file type', description: 'Please select an image file', variant: 'destructive' });
+      return;
+    }
+    if (file.size > MAX_SITE_PHOTO_BYTES) {
+      toast({ title: 'File too large', description: 'Maximum file size is 10MB', variant: 'destructive' });
+      return;
+    }
+
+    addPhoto.mutate(
+      { file, caption: newCaption },
+      {
+        onSuccess: () => {
+          setNewCaption('');
+          toast({ title: 'Site photo added', description: 'Annotate it to show drivers where to push and stack.' });
+        },
+        onError: (error) => {
+          toast({ title: 'Error uploading site photo', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  const handleDeletePhoto = (photo: SitePhoto) => {
+    if (!confirm('Delete this site photo?')) return;
+    deletePhoto.mutate(
+      { id: photo.id, storagePath: photo.storage_path },
+      {
+        onError: (error) => {
+          toast({ title: 'Error deleting site photo', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Site Docs{account ? ` · ${account.name}` : ''}</DialogTitle>
+            <DialogDescription>What a driver needs to know on arrival. Shown at check-in.</DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="instructions" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="instructions">Instructions</TabsTrigger>
+              <TabsTrigger value="access" className="gap-1">
+                <Lock className="h-3 w-3" />
+                Access
+              </TabsTrigger>
+              <TabsTrigger value="photos">Photos ({photos.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="instructions" className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Contact on Arrival</Label>
+                  <Input
+                    value={instructionsForm.contact_on_arrival}
+                    placeholder="e.g. Night manager"
+                    onChange={(e) => setInstructionsForm({ ...instructionsForm, contact_on_arrival: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Contact Phone</Label>
+                  <Input
+                    value={instructionsForm.contact_on_arrival_phone}
+                    onChange={(e) =>
+                      setInstructionsForm({ ...instructionsForm, contact_on_arrival_phone: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="flex items-center justify-between rounded-lg border border-border p-3">
+                  <Label htmlFor="sidewalks-included">Sidewalks included</Label>
+                  <Switch
+                    id="sidewalks-included"
+                    checked={instructionsForm.sidewalks_included}
+                    onCheckedChange={(checked) => setInstructionsForm({ ...instructionsForm, sidewalks_included: checked })}
+                  />
+                </div>
+                <div className="flex items-center justify-between rounded-lg border border-border p-3">
+                  <Label htmlFor="salt-allowed">Salt allowed</Label>
+                  <Switch
+                    id="salt-allowed"
+                    checked={instructionsForm.salt_allowed}
+                    onCheckedChange={(checked) => setInstructionsForm({ ...instructionsForm, salt_allowed: checked })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Snow Stacking</Label>
+                <Textarea
+                  rows={2}
+                  value={instructionsForm.stacking_instructions}
+                  placeholder="Where to pile snow, and where never to"
+                  onChange={(e) => setInstructionsForm({ ...instructionsForm, stacking_instructions: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Hazards</Label>
+                <Textarea
+                  rows={2}
+                  value={instructionsForm.hazards}
+                  placeholder="Curbs, drains, hydrants, speed bumps"
+                  onChange={(e) => setInstructionsForm({ ...instructionsForm, hazards: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Other Instructions</Label>
+                <Textarea
+                  rows={2}
+                  value={instructionsForm.special_instructions}
+                  onChange={(e) => setInstructionsForm({ ...instructionsForm, special_instructions: e.target.value })}
+                />
+              </div>
+              <Button onClick={handleSaveInstructions} disabled={saveInstructions.isPending}>
+                {saveInstructions.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Instructions
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="access" className="space-y-4">
+              <p className="text-xs text-muted-foreground">Visible to staff only. Clients never see these fields.</p>
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Gate Code</Label>
+                  <Input
+                    value={accessForm.gate_code}
+                    onChange={(e) => setAccessForm({ ...accessForm, gate_code: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Lockbox Code</Label>
+                  <Input
+                    value={accessForm.lockbox_code}
+                    onChange={(e) => setAccessForm({ ...accessForm, lockbox_code: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Alarm Code</Label>
+                  <Input
+                    value={accessForm.alarm_code}
+                    onChange={(e) => setAccessForm({ ...accessForm, alarm_code: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Access Notes</Label>
+                <Textarea
+                  rows={2}
+                  value={accessForm.access_notes}
+                  placeholder="e.g. Use the north gate after 10 PM"
+                  onChange={(e) => setAccessForm({ ...accessForm, access_notes: e.target.value })}
+                />
+              </div>
+              <Button onClick={handleSaveAccess} disabled={saveAccess.isPending}>
+                {saveAccess.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Access
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="photos" className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  value={newCaption}
+                  placeholder="Caption for the next photo (optional)"
+                  onChange={(e) => setNewCaption(e.target.value)}
+                />
+                <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileSelect} className="hidden" />
+                <Button
+                  variant="outline"
+                  className="gap-2 shrink-0"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={addPhoto.isPending}
+                >
+                  {addPhoto.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+                  Add Photo
+                </Button>
+              </div>
+
+              {photos.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Camera className="h-10 w-10 mx-auto mb-3 opacity-50" />
+                  <p>No site photos yet</p>
+                </div>
+              ) : (
+                <div className="grid sm:grid-cols-2 gap-4">
+                  {photos.map((photo) => (
+                    <div key={photo.id} className="space-y-2">
+                      <SitePhotoImage path={photo.storage_path} annotations={parseSiteAnnotations(photo.annotations)} />
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm truncate">{photo.caption || 'Untitled'}</span>
+                        <div className="flex gap-1 shrink-0">
+                          <Button variant="ghost" size="sm" className="gap-1" onClick={() => setAnnotating(photo)}>
+                            <Pencil className="h-3.5 w-3.5" />
+                            Annotate
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeletePhoto(photo)}>
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <SitePhotoAnnotator
+        open={!!annotating}
+        onOpenChange={(isOpen) => !isOpen && setAnnotating(null)}
+        photo={annotating}
+        onSave={(input) => updatePhoto.mutateAsync(input)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,108 @@
+import { useSiteDocs } from '@/hooks/useSiteDocs';
+import { Badge } from '@/components/ui/badge';
+import { SitePhotoImage } from '@/components/siteDocs/SitePhotoImage';
+import { AlertTriangle, KeyRound, Phone, User } from 'lucide-react';
+import {
+  SITE_ANNOTATION_TYPE_COLORS,
+  SITE_ANNOTATION_TYPE_LABELS,
+  hasSiteInstructions,
+  parseSiteAnnotations,
+  type SiteAnnotationType,
+} from '@/lib/siteDocs';
+
+interface SiteInstructionsPanelProps {
+  accountId: string;
+  // Shown when there are no docs; by default the panel renders nothing
+  emptyMessage?: string;
+}
+
+// Read-only site docs for an account: what drivers see on check-in and what
+// clients see in the portal. Access codes only load for staff.
+export const SiteInstructionsPanel = ({ accountId, emptyMessage }: SiteInstructionsPanelProps) => {
+  const { instructions, access, photos } = useSiteDocs(accountId);
+
+  const hasAccess = !!access && (!!access.gate_code || !!access.lockbox_code || !!access.alarm_code || !!access.access_notes);
+  if (!hasSiteInstructions(instructions) && !hasAccess && photos.length === 0) {
+    return emptyMessage ? <p className="text-sm text-muted-foreground">{emptyMessage}</p> : null;
+  }
+
+  const textRows = [
+    { label: 'Snow stacking', value: instructions?.stacking_instructions },
+    { label: 'Hazards', value: instructions?.hazards },
+    { label: 'Instructions', value: instructions?.special_instructions },
+  ].filter((row) => row.value);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-muted/20 p-3 text-sm">
+      <div className="flex flex-wrap gap-2">
+        {instructions?.sidewalks_included && <Badge variant="outline">Sidewalks included</Badge>}
+        {instructions && !instructions.salt_allowed && (
+          <Badge variant="outline" className="border-warning/40 text-warning">
+            No salt
+          </Badge>
+        )}
+      </div>
+
+      {hasAccess && (
+        <div className="space-y-1 rounded-md bg-primary/10 p-2">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 font-mono">
+            {access.gate_code && (
+              <span className="flex items-center gap-1">
+                <KeyRound className="h-3.5 w-3.5" /> Gate {access.gate_code}
+              </span>
+            )}
+            {access.lockbox_code && <span>Lockbox {access.lockbox_code}</span>}
+            {access.alarm_code && <span>Alarm {access.alarm_code}</span>}
+          </div>
+          {access.access_notes && <p className="text-xs text-muted-foreground">{access.access_notes}</p>}
+        </div>
+      )}
+
+      {instructions?.contact_on_arrival && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="flex items-center gap-1">
+            <User className="h-3.5 w-3.5 text-muted-foreground" />
+            Ask for {instructions.contact_on_arrival}
+          </span>
+          {instructions.contact_on_arrival_phone && (
+            <a href={`tel:${instructions.contact_on_arrival_phone}`} className="flex items-center gap-1 text-primary hover:underline">
+              <Phone className="h-3.5 w-3.5" />
+              {instructions.contact_on_arrival_phone}
+            </a>
+          )}
+        </div>
+      )}
+
+      {textRows.map((row) => (
+        <div key={row.label}>
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            {row.label === 'Hazards' && <AlertTriangle className="h-3 w-3 text-destructive" />}
+            {row.label}
+          </p>
+          <p className="whitespace-pre-wrap">{row.value}</p>
+        </div>
+      ))}
+
+      {photos.length > 0 && (
+        <div className="space-y-2">
+          <div className="grid gap-2 sm:grid-cols-2">
+            {photos.map((photo) => (
+              <div key={photo.id} className="space-y-1">
+                <SitePhotoImage path={photo.storage_path} annotations={parseSiteAnnotations(photo.annotations)} />
+                {photo.caption && <p className="text-xs text-muted-foreground">{photo.caption}</p>}
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs">
+            {(Object.keys(SITE_ANNOTATION_TYPE_LABELS) as SiteAnnotationType[]).map((type) => (
+              <span key={type} className="flex items-center gap-1">
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: SITE_ANNOTATION_TYPE_COLORS[type] }} />
+                {SITE_ANNOTATION_TYPE_LABELS[type]}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
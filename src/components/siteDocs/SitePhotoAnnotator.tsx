@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SitePhotoImage } from '@/components/siteDocs/SitePhotoImage';
+import { Loader2, Plus, Trash2, Undo2 } from 'lucide-react';
+import {
+  SITE_ANNOTATION_MIN_POINTS,
+  SITE_ANNOTATION_SHAPE_LABELS,
+  SITE_ANNOTATION_TYPE_COLORS,
+  SITE_ANNOTATION_TYPE_LABELS,
+  parseSiteAnnotations,
+  type SiteAnnotation,
+  type SiteAnnotationShape,
+  type SiteAnnotationType,
+  type SitePhoto,
+  type SitePoint,
+} from '@/lib/siteDocs';
+
+interface SitePhotoAnnotatorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  photo: SitePhoto | null;
+  onSave: (photo: { id: string; caption: string; annotations: SiteAnnotation[] }) => Promise<void>;
+}
+
+const SHAPE_HINTS: Record<SiteAnnotationShape, string> = {
+  marker: 'Click the photo to place the marker.',
+  arrow: 'Click where the push starts, then where it ends. Extra clicks bend the arrow.',
+  area: 'Click around the outline of the area.',
+};
+
+export const SitePhotoAnnotator = ({ open, onOpenChange, photo, onSave }: SitePhotoAnnotatorProps) => {
+  const { toast } = useToast();
+  const [caption, setCaption] = useState('');
+  const [annotations, setAnnotations] = useState<SiteAnnotation[]>([]);
+  const [type, setType] = useState<SiteAnnotationType>('push_zone');
+  const [shape, setShape] = useState<SiteAnnotationShape>('arrow');
+  const [label, setLabel] = useState('');
+  const [points, setPoints] = useState<SitePoint[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !photo) return;
+    setCaption(photo.caption ?? '');
+    setAnnotations(parseSiteAnnotations(photo.annotations));
+    setPoints([]);
+    setLabel('');
+  }, [open, photo]);
+
+  const handlePointClick = (point: SitePoint) => {
+    // A marker only ever has one point, so clicking again moves it
+    setPoints((current) => (shape === 'marker' ? [point] : [...current, point]));
+  };
+
+  const canAdd = points.length >= SITE_ANNOTATION_MIN_POINTS[shape];
+
+  const handleAdd = () => {
+    setAnnotations([
+      ...annotations,
+      { id: crypto.randomUUID(), type, shape, points, label: label.trim() },
+    ]);
+    setPoints([]);
+    setLabel('');
+  };
+
+  const handleSave = async () => {
+    if (!photo) return;
+    setSaving(true);
+    try {
+      await onSave({ id: photo.id, caption, annotations });
+      toast({ title: 'Site photo saved' });
+      onOpenChange(false);
+    } catch (error) {
+      toast({ title: 'Error saving site photo', description: String(error), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Annotate Site Photo</DialogTitle>
+          <DialogDescription>Mark push zones, stacking areas, hazards and no-salt zones for drivers.</DialogDescription>
+        </DialogHeader>
+
+        {photo && (
+          <div className="grid md:grid-cols-[1fr_260px] gap-4">
+            <SitePhotoImage
+              path={photo.storage_path}
+              annotations={annotations}
+              draft={{ type, shape, points }}
+              onPointClick={handlePointClick}
+            />
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Caption</Label>
+                <Input value={caption} placeholder="e.g. Front lot from the street" onChange={(e) => setCaption(e.target.value)} />
+              </div>
+
+              <div className="space-y-2 rounded-lg border border-border p-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Type</Label>
+                    <Select value={type} onValueChange={(value) => setType(value as SiteAnnotationType)}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SITE_ANNOTATION_TYPE_LABELS) as SiteAnnotationType[]).map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {SITE_ANNOTATION_TYPE_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Shape</Label>
+                    <Select
+                      value={shape}
+                      onValueChange={(value) => {
+                        setShape(value as SiteAnnotationShape);
+                        setPoints([]);
+                      }}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SITE_ANNOTATION_SHAPE_LABELS) as SiteAnnotationShape[]).map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {SITE_ANNOTATION_SHAPE_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Input
+                  className="h-8"
+                  value={label}
+                  placeholder="Label (optional), e.g. Drain"
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">{SHAPE_HINTS[shape]}</p>
+                <div className="flex gap-2">
+                  <Button size="sm" className="gap-1" onClick={handleAdd} disabled={!canAdd}>
+                    <Plus className="h-4 w-4" />
+                    Add
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    onClick={() => setPoints(points.slice(0, -1))}
+                    disabled={points.length === 0}
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    Undo Point
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Annotations</Label>
+                {annotations.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">None yet</p>
+                ) : (
+                  annotations.map((annotation) => (
+                    <div key={annotation.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-2 min-w-0">
+                        <span
+                          className="h-2.5 w-2.5 rounded-full shrink-0"
+                          style={{ backgroundColor: SITE_ANNOTATION_TYPE_COLORS[annotation.type] }}
+                        />
+                        <span className="truncate">
+                          {annotation.label || SITE_ANNOTATION_TYPE_LABELS[annotation.type]}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {SITE_ANNOTATION_SHAPE_LABELS[annotation.shape]}
+                        </span>
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => setAnnotations(annotations.filter((a) => a.id !== annotation.id))}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import { Loader2 } from 'lucide-react';
+import {
+  SITE_ANNOTATION_TYPE_COLORS,
+  SITE_PHOTO_BUCKET,
+  type SiteAnnotation,
+  type SiteAnnotationType,
+  type SitePoint,
+} from '@/lib/siteDocs';
+
+interface SitePhotoImageProps {
+  path: string;
+  annotations: SiteAnnotation[];
+  // Points of an annotation being drawn, shown dashed
+  draft?: Pick<SiteAnnotation, 'type' | 'shape' | 'points'> | null;
+  onPointClick?: (point: SitePoint) => void;
+  className?: string;
+}
+
+// The bucket is private, so photos are shown through short-lived signed URLs.
+// Annotations are stored as fractions of the image and drawn in an SVG sized
+// to the image's own pixels so shapes keep their proportions.
+export const SitePhotoImage = ({ path, annotations, draft, onPointClick, className }: SitePhotoImageProps) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  const { data: url, isLoading } = useQuery({
+    queryKey: ['sitePhotoUrl', path],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(SITE_PHOTO_BUCKET)
+        .createSignedUrl(path, 60 * 60); // 1 hour
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    staleTime: 30 * 60 * 1000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className={cn('h-40 flex items-center justify-center rounded-lg bg-muted/50', className)}>
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!url) return null;
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPointClick) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    onPointClick({
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    });
+  };
+
+  const scale = (point: SitePoint) => `${point.x * (size?.width ?? 0)},${point.y * (size?.height ?? 0)}`;
+  const stroke = size ? Math.max(size.width, size.height) / 200 : 1;
+
+  const renderShape = (
+    key: string,
+    type: SiteAnnotationType,
+    shape: SiteAnnotation['shape'],
+    points: SitePoint[],
+    label: string,
+    dashed = false
+  ) => {
+    const color = SITE_ANNOTATION_TYPE_COLORS[type];
+    const dash = dashed ? `${stroke * 2} ${stroke * 2}` : undefined;
+    const first = points[0];
+    return (
+      <g key={key}>
+        {shape === 'area' && points.length > 1 && (
+          <polygon
+            points={points.map(scale).join(' ')}
+            fill={color}
+            fillOpacity={0.25}
+            stroke={color}
+            strokeWidth={stroke}
+            strokeDasharray={dash}
+          />
+        )}
+        {shape === 'arrow' && points.length > 1 && (
+          <polyline
+            points={points.map(scale).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={stroke * 1.5}
+            strokeDasharray={dash}
+            markerEnd={`url(#arrow-${type})`}
+          />
+        )}
+        {(shape === 'marker' || points.length === 1) && first && (
+          <circle
+            cx={first.x * (size?.width ?? 0)}
+            cy={first.y * (size?.height ?? 0)}
+            r={stroke * 3}
+            fill={color}
+            stroke="#ffffff"
+            strokeWidth={stroke}
+          />
+        )}
+        {label && first && (
+          <text
+            x={first.x * (size?.width ?? 0) + stroke * 4}
+            y={first.y * (size?.height ?? 0) - stroke * 2}
+            fill="#ffffff"
+            stroke="#0f172a"
+            strokeWidth={stroke / 2}
+            paintOrder="stroke"
+            fontSize={stroke * 7}
+            fontWeight="bold"
+          >
+            {label}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  return (
+    <div
+      className={cn('relative overflow-hidden rounded-lg border border-border', onPointClick && 'cursor-crosshair', className)}
+      onClick={handleClick}
+    >
+      <img
+        src={url}
+        alt="Site photo"
+        className="w-full h-auto block select-none"
+        draggable={false}
+        onLoad={(event) =>
+          setSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })
+        }
+      />
+      {size && (
+        <svg
+          className="absolute inset-0 h-full w-full pointer-events-none"
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="none"
+        >
+          <defs>
+            {(Object.keys(SITE_ANNOTATION_TYPE_COLORS) as SiteAnnotationType[]).map((type) => (
+              <marker
+                key={type}
+                id={`arrow-${type}`}
+                viewBox="0 0 10 10"
+                refX="5"
+                refY="5"
+                markerWidth="4"
+                markerHeight="4"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={SITE_ANNOTATION_TYPE_COLORS[type]} />
+              </marker>
+            ))}
+          </defs>
+          {annotations.map((annotation) =>
+            renderShape(annotation.id, annotation.type, annotation.shape, annotation.points, annotation.label)
+          )}
+          {draft && draft.points.length > 0 && renderShape('draft', draft.type, draft.shape, draft.points, '', true)}
+        </svg>
+      )}
+    </div>
+  );
+};
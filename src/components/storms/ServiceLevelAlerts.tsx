@@ -0,0 +1,61 @@
+import { useCurrentServiceLevels } from '@/hooks/useServiceLevels';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  SERVICE_LEVEL_STATUS_CLASSES,
+  SERVICE_LEVEL_STATUS_LABELS,
+  formatDeadlineDistance,
+} from '@/lib/serviceLevels';
+
+// Accounts approaching or past their service deadline for the current storm
+export const ServiceLevelAlerts = () => {
+  const { storm, levels, flagged } = useCurrentServiceLevels();
+
+  if (!storm || levels.length === 0) return null;
+
+  const serviced = levels.filter((level) => level.first_serviced_at).length;
+
+  return (
+    <Card className={cn('glass', flagged.length > 0 && 'border-destructive/30')}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-medium flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            {flagged.length > 0 ? (
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+            ) : (
+              <CheckCircle2 className="h-4 w-4 text-success" />
+            )}
+            Service Deadlines • {storm.name}
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {serviced}/{levels.length} serviced
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {flagged.length === 0 ? (
+          <p className="text-sm text-muted-foreground">All accounts are on track</p>
+        ) : (
+          <div className="space-y-2">
+            {flagged.map((level) => (
+              <div key={level.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/30">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{level.accounts?.name}</p>
+                  <p className="text-xs text-muted-foreground capitalize">{level.priority} priority</p>
+                </div>
+                <div className="flex flex-col items-end gap-1 shrink-0">
+                  <Badge variant="outline" className={SERVICE_LEVEL_STATUS_CLASSES[level.status]}>
+                    {SERVICE_LEVEL_STATUS_LABELS[level.status]}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{formatDeadlineDistance(level.deadline_at)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
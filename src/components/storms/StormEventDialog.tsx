@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { useStormEvents } from '@/hooks/useStormEvents';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { StormEvent } from '@/lib/stormEvents';
+
+interface StormEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storm: StormEvent | null;
+}
+
+const toDateTime = (date: string, time: string) => (date ? new Date(`${date}T${time || '00:00'}`).toISOString() : null);
+
+export const StormEventDialog = ({ open, onOpenChange, storm }: StormEventDialogProps) => {
+  const { toast } = useToast();
+  const { saveStorm } = useStormEvents();
+
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [totalSnowfall, setTotalSnowfall] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    const start = storm ? new Date(storm.start_time) : new Date();
+    setName(storm?.name ?? `Storm ${format(start, 'MMM d')}`);
+    setStartDate(format(start, 'yyyy-MM-dd'));
+    setStartTime(format(start, 'HH:mm'));
+    setEndDate(storm?.end_time ? format(new Date(storm.end_time), 'yyyy-MM-dd') : '');
+    setEndTime(storm?.end_time ? format(new Date(storm.end_time), 'HH:mm') : '');
+    setTotalSnowfall(storm?.total_snowfall != null ? String(storm.total_snowfall) : '');
+    setNotes(storm?.notes ?? '');
+  }, [open, storm]);
+
+  const handleSave = () => {
+    const start = toDateTime(startDate, startTime);
+    const end = toDateTime(endDate, endTime);
+
+    if (!name.trim() || !start) {
+      toast({ title: 'Name and start are required', variant: 'destructive' });
+      return;
+    }
+    if (end && end <= start) {
+      toast({ title: 'The storm must end after it starts', variant: 'destructive' });
+      return;
+    }
+
+    saveStorm.mutate(
+      {
+        id: storm?.id,
+        name: name.trim(),
+        start_time: start,
+        end_time: end,
+        total_snowfall: totalSnowfall ? parseFloat(totalSnowfall) : null,
+        notes: notes.trim() || null,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: storm ? 'Storm updated' : 'Storm created' });
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast({ title: 'Error saving storm', description: String(error), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{storm ? 'Edit Storm' : 'New Storm'}</DialogTitle>
+          <DialogDescription>
+            Work logs and shifts in this window are grouped under the storm automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Start Date</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Start Time</Label>
+              <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>End Date</Label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>End Time</Label>
+              <Input type="time" value={endTime} disabled={!endDate} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">Leave the end blank while the storm is ongoing.</p>
+          <div className="space-y-2">
+            <Label>Total Snowfall (inches)</Label>
+            <Input
+              type="number"
+              step="0.1"
+              min="0"
+              value={totalSnowfall}
+              onChange={(e) => setTotalSnowfall(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} rows={3} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveStorm.isPending}>
+            {saveStorm.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {storm ? 'Save Changes' : 'Create Storm'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
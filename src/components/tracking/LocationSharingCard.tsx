@@ -0,0 +1,51 @@
+import { useLocationSharing, useLocationTrackingSettings } from '@/hooks/useLocationTracking';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Navigation } from 'lucide-react';
+
+export const LocationSharingCard = () => {
+  const { toast } = useToast();
+  const { enabled, isLoading, setEnabled } = useLocationSharing();
+  const { settings } = useLocationTrackingSettings();
+
+  const handleChange = (checked: boolean) => {
+    setEnabled.mutate(checked, {
+      onSuccess: () =>
+        toast({ title: checked ? 'Location sharing on' : 'Location sharing off' }),
+      onError: (error) => {
+        toast({ title: 'Error updating location sharing', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Navigation className="h-5 w-5" />
+          Location Sharing
+        </CardTitle>
+        <CardDescription>Let dispatch see where you are while you are clocked in</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="share-location">Share my location on shift</Label>
+            <p className="text-xs text-muted-foreground">
+              Your position is sent about every {Math.round(settings.interval_seconds / 60) || 1} min while you are
+              on shift and never off shift. History is kept for {settings.retention_days} days.
+            </p>
+          </div>
+          <Switch
+            id="share-location"
+            checked={enabled}
+            onCheckedChange={handleChange}
+            disabled={isLoading || setEnabled.isPending}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,7 @@
+import { useLocationTracker } from '@/hooks/useLocationTracking';
+
+// Renders nothing; keeps breadcrumbs flowing for opted-in staff on shift
+export const LocationTracker = () => {
+  useLocationTracker();
+  return null;
+};
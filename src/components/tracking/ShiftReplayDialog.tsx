@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { format } from 'date-fns';
+import { useShiftTrail } from '@/hooks/useLocationTracking';
+import { useMapTileSettings } from '@/hooks/useMapData';
+import { formatDistance } from '@/hooks/useGeolocation';
+import { positionAt, summarizeTrail } from '@/lib/locationTracking';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import { Loader2, MapPin } from 'lucide-react';
+
+interface ShiftReplayDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  timeClockId: string | null;
+}
+
+const TRAIL_COLOR = '#0ea5e9';
+const STOP_COLOR = '#22c55e';
+const IDLE_COLOR = '#ef4444';
+const MARKER_COLOR = '#f59e0b';
+
+export const ShiftReplayDialog = ({ open, onOpenChange, timeClockId }: ShiftReplayDialogProps) => {
+  const { settings } = useMapTileSettings();
+  const { data, isLoading } = useShiftTrail(open ? timeClockId : null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.CircleMarker | null>(null);
+  const [time, setTime] = useState(0);
+
+  const pings = useMemo(() => data?.pings ?? [], [data]);
+  const stops = useMemo(() => data?.stops ?? [], [data]);
+  const summary = useMemo(() => summarizeTrail(pings, stops), [pings, stops]);
+  const startTime = pings.length > 0 ? new Date(pings[0].recorded_at).getTime() : 0;
+  const endTime = pings.length > 0 ? new Date(pings[pings.length - 1].recorded_at).getTime() : 0;
+
+  // Start the scrubber at the end so the latest position shows first
+  useEffect(() => {
+    setTime(endTime);
+  }, [endTime]);
+
+  // Build the map once the dialog content and the trail are both there
+  useEffect(() => {
+    if (!open || !containerRef.current || pings.length === 0) return;
+    const map = L.map(containerRef.current);
+    L.tileLayer(settings.url, { attribution: settings.attribution, maxZoom: settings.maxZoom }).addTo(map);
+
+    const trail = L.polyline(
+      pings.map((ping) => [ping.latitude, ping.longitude] as L.LatLngTuple),
+      { color: TRAIL_COLOR, weight: 4, opacity: 0.8 }
+    ).addTo(map);
+
+    for (const stop of stops) {
+      if (stop.latitude === null || stop.longitude === null) continue;
+      L.circleMarker([stop.latitude, stop.longitude], {
+        radius: 7,
+        color: '#0f172a',
+        weight: 1,
+        fillColor: STOP_COLOR,
+        fillOpacity: 0.9,
+      })
+        .bindTooltip(`${stop.accountName} · ${format(new Date(stop.checkIn), 'h:mm a')}`)
+        .addTo(map);
+    }
+
+    for (const idle of summary.idlePeriods) {
+      L.circleMarker([idle.latitude, idle.longitude], {
+        radius: 7,
+        color: '#0f172a',
+        weight: 1,
+        fillColor: IDLE_COLOR,
+        fillOpacity: 0.9,
+      })
+        .bindTooltip(`Idle ${idle.minutes} min from ${format(new Date(idle.start), 'h:mm a')}`)
+        .addTo(map);
+    }
+
+    const last = pings[pings.length - 1];
+    markerRef.current = L.circleMarker([last.latitude, last.longitude], {
+      radius: 9,
+      color: '#ffffff',
+      weight: 2,
+      fillColor: MARKER_COLOR,
+      fillOpacity: 1,
+    }).addTo(map);
+
+    map.fitBounds(trail.getBounds(), { padding: [24, 24], maxZoom: 16 });
+    // The dialog animates in, so size the map after it settles
+    const resize = setTimeout(() => map.invalidateSize(), 200);
+    mapRef.current = map;
+
+    return () => {
+      clearTimeout(resize);
+      map.remove();
+      mapRef.current = null;
+      markerRef.current = null;
+    };
+  }, [open, pings, stops, summary, settings]);
+
+  // Move the marker with the scrubber
+  useEffect(() => {
+    const point = positionAt(pings, time);
+    if (point && markerRef.current) markerRef.current.setLatLng([point.latitude, point.longitude]);
+  }, [pings, time]);
+
+  const shift = data?.shift;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Shift Replay{shift?.employees?.name ? ` · ${shift.employees.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            {shift
+              ? `${format(new Date(shift.clock_in_time), 'MMM d, h:mm a')} – ${
+                  shift.clock_out_time ? format(new Date(shift.clock_out_time), 'h:mm a') : 'now'
+                }`
+              : 'Loading shift…'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : pings.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <MapPin className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No location history for this shift</p>
+            <p className="text-xs mt-1">The employee may not have location sharing turned on.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="rounded-lg bg-muted/30 p-3">
+                <p className="text-xl font-bold">{formatDistance(summary.distanceMeters)}</p>
+                <p className="text-xs text-muted-foreground">Travelled</p>
+              </div>
+              <div className="rounded-lg bg-muted/30 p-3">
+                <p className="text-xl font-bold">{stops.length}</p>
+                <p className="text-xs text-muted-foreground">Services logged</p>
+              </div>
+              <div className="rounded-lg bg-muted/30 p-3">
+                <p className="text-xl font-bold">{summary.idleMinutes} min</p>
+                <p className="text-xs text-muted-foreground">Idle off-site</p>
+              </div>
+            </div>
+
+            <div ref={containerRef} className="h-[360px] w-full rounded-lg border border-border z-0" />
+
+            <div className="space-y-2">
+              <Slider
+                min={startTime}
+                max={endTime}
+                step={1000}
+                value={[time]}
+                onValueChange={([value]) => setTime(value)}
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{format(new Date(startTime), 'h:mm a')}</span>
+                <span className="font-medium text-foreground">{time ? format(new Date(time), 'h:mm:ss a') : ''}</span>
+                <span>{format(new Date(endTime), 'h:mm a')}</span>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3 text-xs">
+              {[
+                { color: TRAIL_COLOR, label: 'Trail' },
+                { color: STOP_COLOR, label: 'Service stop' },
+                { color: IDLE_COLOR, label: 'Idle' },
+                { color: MARKER_COLOR, label: 'Position' },
+              ].map((item) => (
+                <span key={item.label} className="flex items-center gap-1">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: item.color }} />
+                  {item.label}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
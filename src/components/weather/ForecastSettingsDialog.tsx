@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useGeolocation } from '@/hooks/useGeolocation';
+import { useWeatherForecastSettings } from '@/hooks/useWeatherForecasts';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Locate } from 'lucide-react';
+import { FORECAST_PROVIDERS, type WeatherForecastSettings } from '@/lib/weatherForecast';
+
+interface ForecastSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toNumber = (value: string, fallback: number) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const ForecastSettingsDialog = ({ open, onOpenChange }: ForecastSettingsDialogProps) => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { settings, saveSettings } = useWeatherForecastSettings();
+  const { getPosition, loading: locating } = useGeolocation();
+  const [draft, setDraft] = useState<WeatherForecastSettings>(settings);
+
+  // Settings can only be changed by admins
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const fillCurrentLocation = async () => {
+    const position = await getPosition();
+    if (!position) {
+      toast({ title: 'Location unavailable', description: 'Allow location access and try again', variant: 'destructive' });
+      return;
+    }
+    setDraft({
+      ...draft,
+      latitude: Math.round(position.latitude * 10000) / 10000,
+      longitude: Math.round(position.longitude * 10000) / 10000,
+    });
+  };
+
+  const handleSave = () => {
+    saveSettings.mutate(draft, {
+      onSuccess: () => {
+        toast({ title: 'Forecast settings saved' });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({ title: 'Error saving settings', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Forecast Settings</DialogTitle>
+          <DialogDescription>
+            Where to forecast for, and when a day should alert the crew.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Service Area Name</Label>
+            <Input
+              value={draft.locationName}
+              placeholder="e.g. Downtown & North Side"
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, locationName: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <div className="space-y-2">
+              <Label>Latitude</Label>
+              <Input
+                type="number"
+                step="0.0001"
+                value={draft.latitude}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, latitude: toNumber(e.target.value, 0) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Longitude</Label>
+              <Input
+                type="number"
+                step="0.0001"
+                value={draft.longitude}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, longitude: toNumber(e.target.value, 0) })}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Use my location"
+              disabled={!canEdit || locating}
+              onClick={fillCurrentLocation}
+            >
+              {locating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Locate className="h-4 w-4" />}
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Forecast Days</Label>
+              <Input
+                type="number"
+                min="1"
+                max="16"
+                value={draft.days}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, days: Math.min(16, Math.max(1, toNumber(e.target.value, 7))) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select
+                value={draft.provider}
+                disabled={!canEdit}
+                onValueChange={(value) => setDraft({ ...draft, provider: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(FORECAST_PROVIDERS).map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Alert Thresholds</p>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-2">
+                <Label className="text-xs">Snow (in) ≥</Label>
+                <Input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={draft.thresholds.snowInches}
+                  disabled={!canEdit}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    thresholds: { ...draft.thresholds, snowInches: toNumber(e.target.value, 0) },
+                  })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs">Chance (%) ≥</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={draft.thresholds.snowChance}
+                  disabled={!canEdit}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    thresholds: { ...draft.thresholds, snowChance: toNumber(e.target.value, 0) },
+                  })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs">Low (°F) ≤</Label>
+                <Input
+                  type="number"
+                  placeholder="Off"
+                  value={draft.thresholds.lowTemperature ?? ''}
+                  disabled={!canEdit}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    thresholds: {
+                      ...draft.thresholds,
+                      lowTemperature: e.target.value === '' ? null : toNumber(e.target.value, 0),
+                    },
+                  })}
+                />
+              </div>
+            </div>
+          </div>
+
+          {!canEdit && (
+            <p className="text-xs text-muted-foreground">Only admins can change forecast settings.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canEdit || saveSettings.isPending}>
+            {saveSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Settings
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,122 +1,89 @@
 import { useState, useRef } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Camera, Upload, X, Loader2, Image as ImageIcon } from 'lucide-react';
+import { useWorkLogPhotos } from '@/hooks/useWorkLogPhotos';
+import { Camera, Upload, Loader2, Image as ImageIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  WORK_PHOTO_STAGES,
+  WORK_PHOTO_STAGE_LABELS,
+  prepareWorkPhoto,
+  type CapturedWorkPhoto,
+  type WorkPhotoStage,
+} from '@/lib/workPhotos';
 
 interface PhotoUploadProps {
   workLogId: string;
   workLogType: 'plow' | 'shovel';
-  currentPhotoUrl?: string | null;
-  onPhotoUploaded: (url: string) => void;
+  onPhotoUploaded: () => void;
 }
 
+// Attach photos to a visit after the fact. Location only comes from the
+// photos' EXIF data: wherever this is done from is not the job site.
 export const PhotoUpload = ({
   workLogId,
   workLogType,
-  currentPhotoUrl,
   onPhotoUploaded,
 }: PhotoUploadProps) => {
-  const [isUploading, setIsUploading] = useState(false);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [photoUrl, setPhotoUrl] = useState<string | null>(currentPhotoUrl || null);
+  const { addPhotos } = useWorkLogPhotos(workLogId, workLogType);
+  const [stage, setStage] = useState<WorkPhotoStage>('after');
+  const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  const isUploading = isProcessing || addPhotos.isPending;
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
 
     // Validate file type
-    if (!file.type.startsWith('image/')) {
+    if (files.some((file) => !file.type.startsWith('image/'))) {
       toast({
         title: 'Invalid file type',
-        description: 'Please select an image file',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      toast({
-        title: 'File too large',
-        description: 'Maximum file size is 10MB',
+        description: 'Please select image files only',
         variant: 'destructive',
       });
       return;
     }
 
-    // Create preview
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setPreviewUrl(reader.result as string);
-    };
-    reader.readAsDataURL(file);
-
-    // Upload to Supabase Storage
-    setIsUploading(true);
+    setIsProcessing(true);
     try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${workLogType}/${workLogId}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('work-photos')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false,
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get signed URL for viewing
-      const { data: signedUrlData, error: signedError } = await supabase.storage
-        .from('work-photos')
-        .createSignedUrl(fileName, 60 * 60 * 24 * 7); // 7 days
-
-      if (signedError) throw signedError;
-
-      const url = signedUrlData.signedUrl;
-      setPhotoUrl(url);
-
-      // Update work log with photo path (store the path, not signed URL)
-      const tableName = workLogType === 'plow' ? 'work_logs' : 'shovel_work_logs';
-      const { error: updateError } = await supabase
-        .from(tableName)
-        .update({ photo_url: fileName })
-        .eq('id', workLogId);
-
-      if (updateError) throw updateError;
-
-      onPhotoUploaded(url);
+      const prepared: CapturedWorkPhoto[] = [];
+      for (const file of files) {
+        prepared.push(await prepareWorkPhoto(file, stage, null));
+      }
+      setIsProcessing(false);
+      await addPhotos.mutateAsync(prepared);
+
+      onPhotoUploaded();
       toast({
-        title: 'Photo uploaded',
-        description: 'Work log photo has been saved successfully',
+        title: prepared.length === 1 ? 'Photo uploaded' : `${prepared.length} photos uploaded`,
+        description: 'Work log photos have been saved successfully',
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Upload error:', error);
       toast({
         title: 'Upload failed',
-        description: error.message || 'Failed to upload photo',
+        description: error instanceof Error ? error.message : 'Failed to upload photo',
         variant: 'destructive',
       });
-      setPreviewUrl(null);
     } finally {
-      setIsUploading(false);
+      setIsProcessing(false);
     }
   };
 
-  const clearPhoto = () => {
-    setPreviewUrl(null);
-    setPhotoUrl(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  const openPicker = (capture: boolean) => {
+    if (!fileInputRef.current) return;
+    if (capture) {
+      fileInputRef.current.setAttribute('capture', 'environment');
+    } else {
+      fileInputRef.current.removeAttribute('capture');
     }
+    fileInputRef.current.click();
   };
 
-  const displayUrl = previewUrl || photoUrl;
-
   return (
     <div className="space-y-3">
       <input
@@ -124,59 +91,52 @@ export const PhotoUpload = ({
         ref={fileInputRef}
         onChange={handleFileSelect}
         accept="image/*"
-        capture="environment"
+        multiple
         className="hidden"
       />
 
-      {displayUrl ? (
-        <div className="relative">
-          <img
-            src={displayUrl}
-            alt="Work log photo"
-            className="w-full h-48 object-cover rounded-lg border border-border"
-          />
-          {!isUploading && (
-            <Button
-              variant="destructive"
-              size="icon"
-              className="absolute top-2 right-2 h-8 w-8"
-              onClick={clearPhoto}
-            >
-              <X className="h-4 w-4" />
-            </Button>
-          )}
-          {isUploading && (
-            <div className="absolute inset-0 bg-background/80 flex items-center justify-center rounded-lg">
-              <Loader2 className="h-8 w-8 animate-spin text-primary" />
-            </div>
-          )}
-        </div>
-      ) : (
-        <div
-          onClick={() => fileInputRef.current?.click()}
-          className={cn(
-            'border-2 border-dashed border-border rounded-lg p-8 text-center cursor-pointer',
-            'hover:border-primary/50 hover:bg-muted/50 transition-colors'
-          )}
-        >
-          <div className="flex flex-col items-center gap-2">
-            <div className="p-3 rounded-full bg-muted">
+      <div className="grid grid-cols-3 gap-2">
+        {WORK_PHOTO_STAGES.map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={stage === value ? 'default' : 'outline'}
+            onClick={() => setStage(value)}
+            disabled={isUploading}
+          >
+            {WORK_PHOTO_STAGE_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      <div
+        onClick={() => !isUploading && openPicker(false)}
+        className={cn(
+          'border-2 border-dashed border-border rounded-lg p-8 text-center cursor-pointer',
+          'hover:border-primary/50 hover:bg-muted/50 transition-colors'
+        )}
+      >
+        <div className="flex flex-col items-center gap-2">
+          <div className="p-3 rounded-full bg-muted">
+            {isUploading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            ) : (
               <ImageIcon className="h-6 w-6 text-muted-foreground" />
-            </div>
-            <div>
-              <p className="text-sm font-medium">Add Photo</p>
-              <p className="text-xs text-muted-foreground">Tap to upload or take a photo</p>
-            </div>
+            )}
+          </div>
+          <div>
+            <p className="text-sm font-medium">Add {WORK_PHOTO_STAGE_LABELS[stage]} Photos</p>
+            <p className="text-xs text-muted-foreground">Photos are resized before upload</p>
           </div>
         </div>
-      )}
+      </div>
 
       <div className="flex gap-2">
         <Button
           variant="outline"
           size="sm"
           className="flex-1"
-          onClick={() => fileInputRef.current?.click()}
+          onClick={() => openPicker(false)}
           disabled={isUploading}
         >
           <Upload className="h-4 w-4 mr-2" />
@@ -186,12 +146,7 @@ export const PhotoUpload = ({
           variant="outline"
           size="sm"
           className="flex-1"
-          onClick={() => {
-            if (fileInputRef.current) {
-              fileInputRef.current.setAttribute('capture', 'environment');
-              fileInputRef.current.click();
-            }
-          }}
+          onClick={() => openPicker(true)}
           disabled={isUploading}
         >
           <Camera className="h-4 w-4 mr-2" />
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkLogPhotos } from '@/hooks/useWorkLogPhotos';
+import { Button } from '@/components/ui/button';
+import { WorkPhoto } from '@/components/worklog/WorkPhoto';
+import { PhotoUpload } from '@/components/worklog/PhotoUpload';
+import { Camera, Image as ImageIcon, Loader2, MapPin, Trash2 } from 'lucide-react';
+import { WORK_PHOTO_STAGES, WORK_PHOTO_STAGE_LABELS, type WorkLogPhoto } from '@/lib/workPhotos';
+
+interface WorkLogPhotoGalleryProps {
+  workLogId: string;
+  workLogType: 'plow' | 'shovel';
+}
+
+// All photos for a visit, grouped before/during/after
+export const WorkLogPhotoGallery = ({ workLogId, workLogType }: WorkLogPhotoGalleryProps) => {
+  const { user, isAdminOrManager } = useAuth();
+  const { toast } = useToast();
+  const { photos, isLoading, deletePhoto } = useWorkLogPhotos(workLogId, workLogType);
+  const [showUpload, setShowUpload] = useState(false);
+
+  const canDelete = (photo: WorkLogPhoto) => isAdminOrManager() || photo.uploaded_by === user?.id;
+
+  const handleDelete = async (photo: WorkLogPhoto) => {
+    if (!confirm('Delete this photo?')) return;
+    try {
+      await deletePhoto.mutateAsync(photo);
+      toast({ title: 'Photo deleted' });
+    } catch (error) {
+      toast({ title: 'Error deleting photo', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-muted-foreground flex items-center gap-1">
+          <Camera className="h-3 w-3" />
+          Photo Documentation
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setShowUpload(!showUpload)}>
+          <ImageIcon className="h-3 w-3 mr-1" />
+          {showUpload ? 'Done' : 'Add Photos'}
+        </Button>
+      </div>
+
+      {showUpload && (
+        <PhotoUpload workLogId={workLogId} workLogType={workLogType} onPhotoUploaded={() => setShowUpload(false)} />
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : photos.length === 0 ? (
+        !showUpload && (
+          <div className="text-sm text-muted-foreground p-4 text-center bg-muted/30 rounded-lg">
+            No photos attached
+          </div>
+        )
+      ) : (
+        WORK_PHOTO_STAGES.map((stage) => {
+          const stagePhotos = photos.filter((photo) => photo.stage === stage);
+          if (stagePhotos.length === 0) return null;
+          return (
+            <div key={stage} className="space-y-1">
+              <p className="text-xs font-medium">{WORK_PHOTO_STAGE_LABELS[stage]}</p>
+              <div className="grid grid-cols-2 gap-2">
+                {stagePhotos.map((photo) => (
+                  <div key={photo.id} className="space-y-1">
+                    <div className="relative">
+                      <WorkPhoto path={photo.storage_path} className="w-full h-32" />
+                      {canDelete(photo) && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          className="absolute top-1 right-1 h-6 w-6 p-0"
+                          onClick={() => handleDelete(photo)}
+                          disabled={deletePhoto.isPending}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="text-[11px] text-muted-foreground">
+                      {format(parseISO(photo.taken_at), 'MMM d, h:mm a')}
+                      {photo.latitude !== null && photo.longitude !== null && (
+                        <a
+                          href={`https://www.google.com/maps/search/?api=1&query=${photo.latitude},${photo.longitude}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center gap-1 text-primary hover:underline"
+                        >
+                          <MapPin className="h-3 w-3" />
+                          {photo.latitude.toFixed(5)}, {photo.longitude.toFixed(5)}
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
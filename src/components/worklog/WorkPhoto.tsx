@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2 } from 'lucide-react';
+
+interface WorkPhotoProps {
+  path: string;
+  className?: string;
+}
+
+// Work log photos live in the private work-photos bucket
+export const WorkPhoto = ({ path, className = 'w-full max-h-48' }: WorkPhotoProps) => {
+  const { data: url, isLoading } = useQuery({
+    queryKey: ['workPhoto', path],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from('work-photos')
+        .createSignedUrl(path, 60 * 60); // 1 hour
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    staleTime: 30 * 60 * 1000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="h-24 flex items-center justify-center rounded-lg bg-muted/50">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!url) return null;
+
+  return (
+    <a href={url} target="_blank" rel="noreferrer" onClick={(e) => e.stopPropagation()}>
+      <img src={url} alt="Service photo" className={`${className} object-cover rounded-lg border border-border`} />
+    </a>
+  );
+};
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Camera, Image as ImageIcon, Loader2, MapPin, X } from 'lucide-react';
+import type { GPSPosition } from '@/lib/supabase-types';
+import {
+  WORK_PHOTO_STAGES,
+  WORK_PHOTO_STAGE_LABELS,
+  prepareWorkPhoto,
+  type CapturedWorkPhoto,
+  type WorkPhotoStage,
+} from '@/lib/workPhotos';
+
+interface WorkPhotoCaptureProps {
+  photos: CapturedWorkPhoto[];
+  onChange: (photos: CapturedWorkPhoto[]) => void;
+  // Current fix, used for photos without GPS in their EXIF data
+  position: GPSPosition | null;
+  required?: boolean;
+}
+
+const CapturedPhotoThumb = ({ photo, onRemove }: { photo: CapturedWorkPhoto; onRemove: () => void }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo.blob]);
+
+  return (
+    <div className="relative">
+      {url && <img src={url} alt={`${WORK_PHOTO_STAGE_LABELS[photo.stage]} photo`} className="w-full h-24 object-cover rounded-lg" />}
+      <Badge className="absolute bottom-1 left-1 text-[10px] px-1.5 py-0">{WORK_PHOTO_STAGE_LABELS[photo.stage]}</Badge>
+      {photo.latitude !== null && <MapPin className="absolute bottom-1.5 right-1.5 h-3.5 w-3.5 text-white drop-shadow" />}
+      <Button
+        variant="destructive"
+        size="sm"
+        className="absolute top-1 right-1 h-6 w-6 p-0"
+        onClick={onRemove}
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+};
+
+// Before/during/after photos for the service being logged. Files are
+// compressed and tagged with time and GPS here, before they are queued.
+export const WorkPhotoCapture = ({ photos, onChange, position, required = false }: WorkPhotoCaptureProps) => {
+  const { toast } = useToast();
+  const galleryInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [stage, setStage] = useState<WorkPhotoStage>('before');
+  const [processing, setProcessing] = useState(false);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setProcessing(true);
+    try {
+      const prepared: CapturedWorkPhoto[] = [];
+      for (const file of files) {
+        prepared.push(await prepareWorkPhoto(file, stage, position));
+      }
+      onChange([...photos, ...prepared]);
+    } catch (error) {
+      toast({ title: 'Error processing photo', description: String(error), variant: 'destructive' });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-foreground">
+        Photos {required ? <span className="text-destructive">(Required for this account)</span> : '(Optional)'}
+      </Label>
+      <input ref={galleryInputRef} type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFiles}
+        className="hidden"
+      />
+
+      <div className="grid grid-cols-3 gap-2">
+        {WORK_PHOTO_STAGES.map((value) => (
+          <Button
+            key={value}
+            type="button"
+            size="sm"
+            variant={stage === value ? 'default' : 'outline'}
+            onClick={() => setStage(value)}
+          >
+            {WORK_PHOTO_STAGE_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      {photos.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {photos.map((photo) => (
+            <CapturedPhotoThumb
+              key={photo.id}
+              photo={photo}
+              onRemove={() => onChange(photos.filter((p) => p.id !== photo.id))}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <Button
+          variant="outline"
+          className="h-11 bg-muted/30"
+          onClick={() => galleryInputRef.current?.click()}
+          disabled={processing}
+        >
+          <ImageIcon className="h-4 w-4 mr-2" />
+          Choose from gallery
+        </Button>
+        <Button
+          variant="outline"
+          className="h-11 bg-muted/30"
+          onClick={() => cameraInputRef.current?.click()}
+          disabled={processing}
+        >
+          {processing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Camera className="h-4 w-4 mr-2" />}
+          Take photo
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect, createContext, useContext, useCallback } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { removeDevicePushSubscription } from '@/lib/pushNotifications';
 import type { AppRole } from '@/lib/supabase-types';
 
 interface AuthContextType {
@@ -137,6 +138,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   };
 
   const signOut = async () => {
+    // Shared tablets and office PCs must stop getting this user's pushes.
+    // Done first, while the row can still be deleted under their session.
+    try {
+      await removeDevicePushSubscription();
+    } catch (error) {
+      console.error('Error removing push subscription on sign out:', error);
+    }
     await supabase.auth.signOut();
     setRoles([]);
     setEmployeeId(null);
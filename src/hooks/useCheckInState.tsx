@@ -10,6 +10,8 @@ const defaultState: CheckInState = {
   accountName: null,
   checkInTime: null,
   serviceType: null,
+  geofenceEventId: null,
+  geofenceExitEventId: null,
 };
 
 export const useCheckInState = (type: 'plow' | 'shovel' = 'plow') => {
@@ -36,7 +38,8 @@ export const useCheckInState = (type: 'plow' | 'shovel' = 'plow') => {
   const checkIn = useCallback((
     accountId: string,
     accountName: string,
-    serviceType?: WorkLogServiceType | ShovelWorkLogServiceType
+    serviceType?: WorkLogServiceType | ShovelWorkLogServiceType,
+    geofenceEventId?: string | null
   ) => {
     setState({
       isCheckedIn: true,
@@ -44,6 +47,8 @@ export const useCheckInState = (type: 'plow' | 'shovel' = 'plow') => {
       accountName,
       checkInTime: new Date().toISOString(),
       serviceType: serviceType || null,
+      geofenceEventId: geofenceEventId || null,
+      geofenceExitEventId: null,
     });
   }, []);
 
@@ -51,6 +56,11 @@ export const useCheckInState = (type: 'plow' | 'shovel' = 'plow') => {
     setState(defaultState);
   }, []);
 
+  // Remember the geofence exit so it can be linked to the work log on check-out
+  const recordGeofenceExit = useCallback((eventId: string) => {
+    setState(prev => (prev.isCheckedIn ? { ...prev, geofenceExitEventId: eventId } : prev));
+  }, []);
+
   const updateServiceType = useCallback((serviceType: WorkLogServiceType | ShovelWorkLogServiceType) => {
     setState(prev => ({ ...prev, serviceType }));
   }, []);
@@ -77,6 +87,7 @@ export const useCheckInState = (type: 'plow' | 'shovel' = 'plow') => {
     ...state,
     checkIn,
     checkOut,
+    recordGeofenceExit,
     updateServiceType,
     getElapsedTime,
     formatElapsedTime,
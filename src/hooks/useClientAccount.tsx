@@ -0,0 +1,473 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeInvalidation } from '@/hooks/useRealtimeInvalidation';
+import {
+  normalizeContactDetails,
+  type ClientAccountAccess,
+  type ContactChangeRequest,
+  type ContactDetails,
+  type OrganizationRole,
+} from '@/lib/clientAccounts';
+
+type PortalInvitationTarget = 'account_id' | 'organization_id';
+
+// Invitations still waiting on the invitee, for whoever sent them
+const usePendingInvitations = (target: PortalInvitationTarget, targetId: string | null | undefined, enabled: boolean) => {
+  const queryClient = useQueryClient();
+
+  const { data: invitations = [] } = useQuery({
+    queryKey: ['pendingInvitations', target, targetId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('portal_invitations')
+        .select('*')
+        .eq(target, targetId!)
+        .is('accepted_at', null)
+        .is('declined_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!targetId && enabled,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['pendingInvitations', target, targetId] });
+  };
+
+  const cancelInvitation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const { error } = await supabase.from('portal_invitations').delete().eq('id', invitationId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return { invitations, cancelInvitation, invalidate };
+};
+
+export type ContactChangeRequestWithAccount = ContactChangeRequest & {
+  accounts: { name: string } | null;
+};
+
+// Every property the signed-in client can open, alphabetically. Staff see
+// all accounts through RLS, so access comes from the membership function
+// rather than a plain accounts query.
+export const useClientAccounts = () => {
+  const { user } = useAuth();
+
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: ['clientAccounts', user?.id],
+    queryFn: async (): Promise<ClientAccountAccess[]> => {
+      const { data: access, error: accessError } = await supabase.rpc('get_client_accounts');
+      if (accessError) throw accessError;
+      if (!access?.length) return [];
+
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .in('id', access.map((row) => row.account_id))
+        .order('name');
+      if (error) throw error;
+
+      return data.flatMap((account) => {
+        const row = access.find((item) => item.account_id === account.id);
+        return row
+          ? [{
+              account,
+              organizationId: row.organization_id,
+              organizationName: row.organization_name,
+              role: row.access_role as OrganizationRole,
+            }]
+          : [];
+      });
+    },
+    enabled: !!user?.id,
+  });
+
+  return { accounts, isLoading };
+};
+
+// Portal users, notification choice and contact change requests for the
+// account a client is looking at. Inviting and removing users goes through
+// audited database functions rather than direct writes.
+export const useClientAccountSettings = (accountId: string | null | undefined, canManage = false) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const {
+    invitations: pendingInvitations,
+    cancelInvitation,
+    invalidate: invalidateInvitations,
+  } = usePendingInvitations('account_id', accountId, canManage);
+
+  const { data: accountUsers = [], isLoading: usersLoading } = useQuery({
+    queryKey: ['accountUsers', accountId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_account_users', { _account_id: accountId! });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!accountId,
+  });
+
+  const { data: membership = null } = useQuery({
+    queryKey: ['accountMembership', accountId, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('account_users')
+        .select('*')
+        .eq('account_id', accountId!)
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!accountId && !!user?.id,
+  });
+
+  const { data: contactRequests = [] } = useQuery({
+    queryKey: ['contactChangeRequests', accountId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('account_contact_change_requests')
+        .select('*')
+        .eq('account_id', accountId!)
+        .order('created_at', { ascending: false })
+        .limit(5);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!accountId,
+  });
+
+  useRealtimeInvalidation({
+    table: 'account_contact_change_requests',
+    queryKey: ['contactChangeRequests', accountId],
+    filter: `account_id=eq.${accountId}`,
+    enabled: !!accountId,
+  });
+
+  const pendingRequest = contactRequests.find((request) => request.status === 'pending') ?? null;
+
+  const invalidateUsers = () => {
+    queryClient.invalidateQueries({ queryKey: ['accountUsers', accountId] });
+  };
+
+  const requestContactChange = useMutation({
+    mutationFn: async (details: ContactDetails) => {
+      const { error } = await supabase.from('account_contact_change_requests').insert({
+        ...normalizeContactDetails(details),
+        account_id: accountId!,
+        requested_by: user!.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contactChangeRequests', accountId] });
+    },
+  });
+
+  const cancelContactChange = useMutation({
+    mutationFn: async (requestId: string) => {
+      const { error } = await supabase.rpc('review_contact_change_request', {
+        _request_id: requestId,
+        _status: 'cancelled',
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contactChangeRequests', accountId] });
+    },
+  });
+
+  const addAccountUser = useMutation({
+    mutationFn: async (email: string) => {
+      const { error } = await supabase.rpc('add_account_user', { _account_id: accountId!, _email: email.trim() });
+      if (error) throw error;
+    },
+    onSuccess: invalidateInvitations,
+  });
+
+  const removeAccountUser = useMutation({
+    mutationFn: async (userId: string) => {
+      const { error } = await supabase.rpc('remove_account_user', { _account_id: accountId!, _user_id: userId });
+      if (error) throw error;
+    },
+    onSuccess: invalidateUsers,
+  });
+
+  const setNotifyServiceCompleted = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const { error } = await supabase.rpc('set_account_notifications', {
+        _account_id: accountId!,
+        _notify_service_completed: enabled,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accountMembership', accountId, user?.id] });
+    },
+  });
+
+  return {
+    accountUsers,
+    membership,
+    contactRequests,
+    pendingRequest,
+    isLoading: usersLoading,
+    requestContactChange,
+    cancelContactChange,
+    pendingInvitations,
+    addAccountUser,
+    cancelInvitation,
+    removeAccountUser,
+    setNotifyServiceCompleted,
+  };
+};
+
+// Contact changes waiting on staff, newest first
+export const useContactChangeQueue = () => {
+  const queryClient = useQueryClient();
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: ['contactChangeQueue'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('account_contact_change_requests')
+        .select('*, accounts(name)')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as ContactChangeRequestWithAccount[];
+    },
+  });
+
+  useRealtimeInvalidation({ table: 'account_contact_change_requests', queryKey: ['contactChangeQueue'] });
+
+  const reviewRequest = useMutation({
+    mutationFn: async ({ id, status, note }: { id: string; status: 'approved' | 'rejected'; note?: string }) => {
+      const { error } = await supabase.rpc('review_contact_change_request', {
+        _request_id: id,
+        _status: status,
+        _note: note?.trim() || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contactChangeQueue'] });
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+    },
+  });
+
+  return { requests, isLoading, reviewRequest };
+};
+
+// Members of a client organization. Owners and staff can invite, re-role and
+// remove; the database enforces that at least one owner remains.
+export const useOrganizationMembers = (organizationId: string | null | undefined, canManage = false) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const {
+    invitations: pendingInvitations,
+    cancelInvitation,
+    invalidate: invalidateInvitations,
+  } = usePendingInvitations('organization_id', organizationId, canManage);
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: ['organizationMembers', organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_organization_members', { _organization_id: organizationId! });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const membership = members.find((member) => member.user_id === user?.id) ?? null;
+
+  const { data: notifyServiceCompleted = false } = useQuery({
+    queryKey: ['organizationNotifications', organizationId, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('client_organization_members')
+        .select('notify_service_completed')
+        .eq('organization_id', organizationId!)
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.notify_service_completed ?? false;
+    },
+    enabled: !!organizationId && !!membership,
+  });
+
+  const invalidateMembers = () => {
+    queryClient.invalidateQueries({ queryKey: ['organizationMembers', organizationId] });
+  };
+
+  const setMember = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: OrganizationRole }) => {
+      const { data, error } = await supabase.rpc('set_organization_member', {
+        _organization_id: organizationId!,
+        _email: email.trim(),
+        _role: role,
+      });
+      if (error) throw error;
+      return data as 'updated' | 'invited';
+    },
+    onSuccess: () => {
+      invalidateMembers();
+      invalidateInvitations();
+    },
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (userId: string) => {
+      const { error } = await supabase.rpc('remove_organization_member', {
+        _organization_id: organizationId!,
+        _user_id: userId,
+      });
+      if (error) throw error;
+    },
+    onSuccess: invalidateMembers,
+  });
+
+  const setNotifyServiceCompleted = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const { error } = await supabase.rpc('set_organization_notifications', {
+        _organization_id: organizationId!,
+        _notify_service_completed: enabled,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organizationNotifications', organizationId, user?.id] });
+    },
+  });
+
+  return {
+    members,
+    membership,
+    notifyServiceCompleted,
+    pendingInvitations,
+    isLoading,
+    setMember,
+    cancelInvitation,
+    removeMember,
+    setNotifyServiceCompleted,
+  };
+};
+
+// Invitations addressed to the signed-in login. Accepting adds the account or
+// organization to their portal.
+export const usePortalInvitations = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: invitations = [] } = useQuery({
+    queryKey: ['portalInvitations', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_my_portal_invitations');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  const respond = useMutation({
+    mutationFn: async ({ id, accept }: { id: string; accept: boolean }) => {
+      const { error } = await supabase.rpc('respond_to_portal_invitation', { _invitation_id: id, _accept: accept });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portalInvitations'] });
+      queryClient.invalidateQueries({ queryKey: ['clientAccounts'] });
+    },
+  });
+
+  return { invitations, respond };
+};
+
+// Staff-side list of client organizations with the accounts they own
+export const useClientOrganizations = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: organizations = [], isLoading } = useQuery({
+    queryKey: ['clientOrganizations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('client_organizations')
+        .select('*, accounts(id, name)')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['clientOrganizations'] });
+    queryClient.invalidateQueries({ queryKey: ['accounts'] });
+  };
+
+  const saveOrganization = useMutation({
+    mutationFn: async ({
+      id,
+      name,
+      billing_email,
+      notes,
+      accountIds,
+    }: {
+      id?: string;
+      name: string;
+      billing_email: string;
+      notes: string;
+      accountIds: string[];
+    }) => {
+      const fields = { name: name.trim(), billing_email: billing_email.trim() || null, notes: notes.trim() || null };
+      let organizationId = id;
+      if (organizationId) {
+        const { error } = await supabase.from('client_organizations').update(fields).eq('id', organizationId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('client_organizations')
+          .insert({ ...fields, created_by: user?.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        organizationId = data.id;
+      }
+
+      // Release accounts that were unticked, then claim the selected ones
+      const { error: releaseError } = await supabase
+        .from('accounts')
+        .update({ organization_id: null })
+        .eq('organization_id', organizationId)
+        .not('id', 'in', `(${accountIds.join(',') || '00000000-0000-0000-0000-000000000000'})`);
+      if (releaseError) throw releaseError;
+
+      if (accountIds.length > 0) {
+        const { error: claimError } = await supabase
+          .from('accounts')
+          .update({ organization_id: organizationId })
+          .in('id', accountIds);
+        if (claimError) throw claimError;
+      }
+
+      return organizationId;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteOrganization = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('client_organizations').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return { organizations, isLoading, saveOrganization, deleteOrganization };
+};
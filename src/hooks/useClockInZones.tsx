@@ -0,0 +1,149 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CLOCK_IN_ZONE_SETTING_KEY,
+  DEFAULT_CLOCK_IN_ZONE_SETTINGS,
+  describeClockInException,
+  parseClockInZoneSettings,
+  type ClockInResult,
+  type ClockInZoneSettings,
+} from '@/lib/clockInZones';
+import type { GPSPosition } from '@/lib/supabase-types';
+import type { Json, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+// Whether accounts count as zones, and the per-category policy
+export const useClockInZoneSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: settings = DEFAULT_CLOCK_IN_ZONE_SETTINGS, isLoading } = useQuery({
+    queryKey: ['clockInZoneSettings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', CLOCK_IN_ZONE_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parseClockInZoneSettings(data?.value);
+    },
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: async (next: ClockInZoneSettings) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: CLOCK_IN_ZONE_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clockInZoneSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { settings, isLoading, saveSettings };
+};
+
+// Fixed zones such as the shop or yard
+export const useClockInZones = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: zones = [], isLoading } = useQuery({
+    queryKey: ['clockInZones'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('clock_in_zones').select('*').order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['clockInZones'] });
+
+  const addZone = useMutation({
+    mutationFn: async (zone: Omit<TablesInsert<'clock_in_zones'>, 'created_by'>) => {
+      const { error } = await supabase.from('clock_in_zones').insert({ ...zone, created_by: user?.id });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateZone = useMutation({
+    mutationFn: async ({ id, ...changes }: TablesUpdate<'clock_in_zones'> & { id: string }) => {
+      const { error } = await supabase.from('clock_in_zones').update(changes).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteZone = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('clock_in_zones').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return { zones, isLoading, addZone, updateZone, deleteZone };
+};
+
+// Clock-in through the zone policy. A warning asks the employee to confirm
+// before retrying; a block is explained. Resolves true once clocked in.
+export const useClockIn = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ position, acknowledged }: { position: GPSPosition | null; acknowledged: boolean }) => {
+      const { data, error } = await supabase.rpc('clock_in', {
+        ...(position
+          ? { _latitude: position.latitude, _longitude: position.longitude, _accuracy: position.accuracy }
+          : {}),
+        _acknowledged: acknowledged,
+      });
+      if (error) throw error;
+      return data as unknown as ClockInResult;
+    },
+  });
+
+  const clockIn = async (position: GPSPosition | null) => {
+    try {
+      let result = await mutation.mutateAsync({ position, acknowledged: false });
+
+      if (result.status === 'warning') {
+        if (!confirm(`${describeClockInException(result)} Clock in anyway? This will be recorded.`)) return false;
+        result = await mutation.mutateAsync({ position, acknowledged: true });
+      }
+
+      if (result.status === 'blocked') {
+        toast({
+          title: 'Clock-in not allowed here',
+          description: `${describeClockInException(result)} Move to a clock-in zone or ask a manager.`,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['activeShift'] });
+      queryClient.invalidateQueries({ queryKey: ['weeklyTimeClock'] });
+      queryClient.invalidateQueries({ queryKey: ['onShiftEmployees'] });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return { clockIn, isPending: mutation.isPending };
+};
@@ -0,0 +1,137 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  evaluateGeofence,
+  initialGeofenceState,
+  toGeofenceTargets,
+  GEOFENCE_ENTER_DWELL_MS,
+  type GeofenceState,
+  type GeofenceTransition,
+} from '@/lib/geofence';
+import { generateClientId } from '@/lib/offlineQueue';
+import type { GPSPosition, GeofenceEventType } from '@/lib/supabase-types';
+
+export type GeofenceCheckInMode = 'off' | 'prompt' | 'auto';
+
+interface UseGeofenceOptions {
+  enabled: boolean;
+  position: GPSPosition | null;
+  accounts: Parameters<typeof toGeofenceTargets>[0];
+  employeeId: string | null;
+  // Account the driver is already checked in to, so a reload does not re-enter it
+  initialAccountId?: string | null;
+  onEnter?: (transition: GeofenceTransition, eventId: string | null) => void;
+  onExit?: (transition: GeofenceTransition, eventId: string | null) => void;
+}
+
+const recordGeofenceEvent = async (
+  employeeId: string,
+  eventType: GeofenceEventType,
+  transition: GeofenceTransition
+): Promise<string | null> => {
+  const id = generateClientId();
+  const { error } = await supabase.from('geofence_events').insert({
+    id,
+    employee_id: employeeId,
+    account_id: transition.target.id,
+    event_type: eventType,
+    latitude: transition.position.latitude,
+    longitude: transition.position.longitude,
+    accuracy: transition.position.accuracy,
+    timestamp: new Date(transition.position.timestamp).toISOString(),
+  });
+
+  if (error) {
+    console.error('Error recording geofence event:', error);
+    return null;
+  }
+  return id;
+};
+
+// Global check-in mode, configured by admins in the Admin dashboard (Geofence Check-In)
+export const useGeofenceMode = () => {
+  const { data: mode = 'prompt' } = useQuery({
+    queryKey: ['geofenceCheckInMode'],
+    queryFn: async (): Promise<GeofenceCheckInMode> => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', 'geofence_check_in_mode')
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data?.value as GeofenceCheckInMode) || 'prompt';
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return mode;
+};
+
+export const useGeofence = ({
+  enabled,
+  position,
+  accounts,
+  employeeId,
+  initialAccountId = null,
+  onEnter,
+  onExit,
+}: UseGeofenceOptions) => {
+  const stateRef = useRef<GeofenceState>(initialGeofenceState(initialAccountId));
+  const lastPositionRef = useRef<GPSPosition | null>(null);
+  const onEnterRef = useRef(onEnter);
+  const onExitRef = useRef(onExit);
+  const [insideAccountId, setInsideAccountId] = useState<string | null>(initialAccountId);
+
+  onEnterRef.current = onEnter;
+  onExitRef.current = onExit;
+
+  const targets = useMemo(() => toGeofenceTargets(accounts), [accounts]);
+
+  const evaluate = useCallback((pos: GPSPosition) => {
+    const { state, transitions } = evaluateGeofence(stateRef.current, pos, targets);
+    stateRef.current = state;
+    setInsideAccountId(state.insideAccountId);
+
+    transitions.forEach(async (transition) => {
+      const eventType: GeofenceEventType = transition.type === 'enter' ? 'check_in' : 'check_out';
+      const eventId = employeeId ? await recordGeofenceEvent(employeeId, eventType, transition) : null;
+
+      if (transition.type === 'enter') {
+        onEnterRef.current?.(transition, eventId);
+      } else {
+        onExitRef.current?.(transition, eventId);
+      }
+    });
+  }, [targets, employeeId]);
+
+  useEffect(() => {
+    if (!enabled || !position) return;
+    lastPositionRef.current = position;
+    evaluate(position);
+  }, [enabled, position, evaluate]);
+
+  // Stationary devices may stop reporting positions, so re-check the last
+  // fix while an enter is pending to let the dwell period complete
+  useEffect(() => {
+    if (!enabled) return;
+
+    const interval = setInterval(() => {
+      if (stateRef.current.candidateAccountId && lastPositionRef.current) {
+        evaluate(lastPositionRef.current);
+      }
+    }, GEOFENCE_ENTER_DWELL_MS / 3);
+    return () => clearInterval(interval);
+  }, [enabled, evaluate]);
+
+  // Keep the engine in step with manual check-ins/check-outs
+  useEffect(() => {
+    if (stateRef.current.insideAccountId !== initialAccountId && initialAccountId) {
+      stateRef.current = initialGeofenceState(initialAccountId);
+      setInsideAccountId(initialAccountId);
+    }
+  }, [initialAccountId]);
+
+  return { insideAccountId };
+};
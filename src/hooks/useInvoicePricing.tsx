@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DEFAULT_INVOICE_LETTERHEAD,
+  DEFAULT_INVOICE_PRICING,
+  INVOICE_LETTERHEAD_SETTING_KEY,
+  INVOICE_PRICING_SETTING_KEY,
+  parseInvoiceLetterhead,
+  parseInvoicePricing,
+  type InvoiceLetterhead,
+  type InvoicePricing,
+} from '@/lib/invoicing';
+import type { Json } from '@/integrations/supabase/types';
+
+// Company-wide default rates used when building invoices from work logs
+export const useInvoicePricing = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: pricing = DEFAULT_INVOICE_PRICING, isLoading } = useQuery({
+    queryKey: ['invoicePricing'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', INVOICE_PRICING_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parseInvoicePricing(data?.value);
+    },
+  });
+
+  const savePricing = useMutation({
+    mutationFn: async (next: InvoicePricing) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: INVOICE_PRICING_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoicePricing'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { pricing, isLoading, savePricing };
+};
+
+// Company letterhead and payment instructions printed on invoices
+export const useInvoiceLetterhead = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: letterhead = DEFAULT_INVOICE_LETTERHEAD, isLoading } = useQuery({
+    queryKey: ['invoiceLetterhead'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', INVOICE_LETTERHEAD_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parseInvoiceLetterhead(data?.value);
+    },
+  });
+
+  const saveLetterhead = useMutation({
+    mutationFn: async (next: InvoiceLetterhead) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: INVOICE_LETTERHEAD_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoiceLetterhead'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { letterhead, isLoading, saveLetterhead };
+};
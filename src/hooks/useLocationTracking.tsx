@@ -0,0 +1,211 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useGeolocation } from '@/hooks/useGeolocation';
+import { useRealtimeInvalidation } from '@/hooks/useRealtimeInvalidation';
+import {
+  DEFAULT_LOCATION_TRACKING_SETTINGS,
+  LOCATION_TRACKING_SETTING_KEY,
+  parseLocationTrackingSettings,
+  shouldRecordPing,
+  type LocationTrackingSettings,
+} from '@/lib/locationTracking';
+import type { Json } from '@/integrations/supabase/types';
+import type { GPSPosition } from '@/lib/supabase-types';
+
+// Ping interval and breadcrumb retention
+export const useLocationTrackingSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: settings = DEFAULT_LOCATION_TRACKING_SETTINGS, isLoading } = useQuery({
+    queryKey: ['locationTrackingSettings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', LOCATION_TRACKING_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parseLocationTrackingSettings(data?.value);
+    },
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: async (next: LocationTrackingSettings) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: LOCATION_TRACKING_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+
+      // Apply a shorter retention straight away
+      const { error: purgeError } = await supabase.rpc('purge_expired_location_pings');
+      if (purgeError) throw purgeError;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locationTrackingSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { settings, isLoading, saveSettings };
+};
+
+// The signed-in user's opt-in to sharing their position while on shift
+export const useLocationSharing = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: enabled = false, isLoading } = useQuery({
+    queryKey: ['locationSharing', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('share_location_on_shift')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.share_location_on_shift ?? false;
+    },
+    enabled: !!user,
+  });
+
+  const setEnabled = useMutation({
+    mutationFn: async (next: boolean) => {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ share_location_on_shift: next })
+        .eq('user_id', user!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locationSharing'] });
+    },
+  });
+
+  return { enabled, isLoading, setEnabled };
+};
+
+// Sends breadcrumbs while the employee has opted in and has an open shift.
+// Mounted once in the app layout so it keeps running across pages.
+export const useLocationTracker = () => {
+  const { employeeId } = useAuth();
+  const { enabled: sharing } = useLocationSharing();
+  const { settings } = useLocationTrackingSettings();
+  const lastPingRef = useRef<GPSPosition | null>(null);
+
+  const { data: openShift } = useQuery({
+    queryKey: ['trackingShift', employeeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('time_clock')
+        .select('id')
+        .eq('employee_id', employeeId!)
+        .is('clock_out_time', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!employeeId && sharing,
+    refetchInterval: 60000,
+  });
+
+  const tracking = sharing && !!openShift;
+  const { position } = useGeolocation({ watchPosition: tracking });
+
+  useEffect(() => {
+    if (!tracking) lastPingRef.current = null;
+  }, [tracking]);
+
+  useEffect(() => {
+    if (!tracking || !position || !openShift || !employeeId) return;
+    if (!shouldRecordPing(lastPingRef.current, position, settings)) return;
+    lastPingRef.current = position;
+
+    supabase
+      .from('location_pings')
+      .insert({
+        time_clock_id: openShift.id,
+        employee_id: employeeId,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        accuracy: position.accuracy,
+        recorded_at: new Date(position.timestamp).toISOString(),
+      })
+      .then(({ error }) => {
+        // A missed breadcrumb is not worth interrupting the driver over
+        if (error) console.error('Error recording location ping:', error);
+      });
+  }, [tracking, position, openShift, employeeId, settings]);
+
+  return { tracking };
+};
+
+// Everything needed to replay one shift: its pings and the services logged
+// by the employee during it
+export const useShiftTrail = (timeClockId: string | null) => {
+  const query = useQuery({
+    queryKey: ['shiftTrail', timeClockId],
+    queryFn: async () => {
+      const { data: shift, error: shiftError } = await supabase
+        .from('time_clock')
+        .select('*, employees(name)')
+        .eq('id', timeClockId!)
+        .single();
+      if (shiftError) throw shiftError;
+
+      const shiftEnd = shift.clock_out_time ?? new Date().toISOString();
+      const [pings, workLogs, shovelLogs] = await Promise.all([
+        supabase
+          .from('location_pings')
+          .select('latitude, longitude, recorded_at')
+          .eq('time_clock_id', timeClockId!)
+          .order('recorded_at'),
+        supabase
+          .from('work_logs')
+          .select('check_in_time, check_out_time, accounts(name, latitude, longitude), work_log_employees!inner(employee_id)')
+          .eq('work_log_employees.employee_id', shift.employee_id)
+          .gte('check_in_time', shift.clock_in_time)
+          .lte('check_in_time', shiftEnd),
+        supabase
+          .from('shovel_work_logs')
+          .select('check_in_time, check_out_time, accounts(name, latitude, longitude), shovel_work_log_employees!inner(employee_id)')
+          .eq('shovel_work_log_employees.employee_id', shift.employee_id)
+          .gte('check_in_time', shift.clock_in_time)
+          .lte('check_in_time', shiftEnd),
+      ]);
+      if (pings.error) throw pings.error;
+      if (workLogs.error) throw workLogs.error;
+      if (shovelLogs.error) throw shovelLogs.error;
+
+      const stops = [...workLogs.data, ...shovelLogs.data]
+        .sort((a, b) => a.check_in_time.localeCompare(b.check_in_time))
+        .map((log) => ({
+          accountName: log.accounts?.name ?? 'Unknown account',
+          checkIn: log.check_in_time,
+          checkOut: log.check_out_time,
+          latitude: log.accounts?.latitude ?? null,
+          longitude: log.accounts?.longitude ?? null,
+        }));
+
+      return { shift, pings: pings.data, stops };
+    },
+    enabled: !!timeClockId,
+  });
+
+  useRealtimeInvalidation({
+    table: 'location_pings',
+    queryKey: ['shiftTrail', timeClockId],
+    filter: `time_clock_id=eq.${timeClockId}`,
+    enabled: !!timeClockId,
+  });
+
+  return query;
+};
@@ -0,0 +1,134 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrentServiceLevels } from '@/hooks/useServiceLevels';
+import { useRealtimeInvalidation } from '@/hooks/useRealtimeInvalidation';
+import {
+  DEFAULT_MAP_TILE_SETTINGS,
+  MAP_TILE_SETTING_KEY,
+  buildAccountServiceStatus,
+  parseMapTileSettings,
+  type MapTileSettings,
+} from '@/lib/maps';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface CrewPosition {
+  timeClockId: string;
+  employeeId: string;
+  name: string;
+  category: string | null;
+  latitude: number;
+  longitude: number;
+  recordedAt: string;
+}
+
+// Tile server used by every map
+export const useMapTileSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: settings = DEFAULT_MAP_TILE_SETTINGS, isLoading } = useQuery({
+    queryKey: ['mapTileSettings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', MAP_TILE_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parseMapTileSettings(data?.value);
+    },
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: async (next: MapTileSettings) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: MAP_TILE_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mapTileSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { settings, isLoading, saveSettings };
+};
+
+// Today's service status per account, from open and finished plow and shovel
+// logs, with unserviced accounts past their storm deadline marked overdue
+export const useAccountServiceStatus = () => {
+  const { levels } = useCurrentServiceLevels();
+
+  const { data: logs = [] } = useQuery({
+    queryKey: ['accountServiceStatus'],
+    queryFn: async () => {
+      const since = startOfDay(new Date()).toISOString();
+      const [workLogs, shovelLogs] = await Promise.all([
+        supabase.from('work_logs').select('account_id, check_out_time').gte('check_in_time', since),
+        supabase.from('shovel_work_logs').select('account_id, check_out_time').gte('check_in_time', since),
+      ]);
+      if (workLogs.error) throw workLogs.error;
+      if (shovelLogs.error) throw shovelLogs.error;
+      return [...workLogs.data, ...shovelLogs.data];
+    },
+  });
+
+  useRealtimeInvalidation({ table: 'work_logs', queryKey: ['accountServiceStatus'] });
+  useRealtimeInvalidation({ table: 'shovel_work_logs', queryKey: ['accountServiceStatus'] });
+
+  return useMemo(() => {
+    const overdue = new Set(levels.filter((level) => level.status === 'breached').map((level) => level.account_id));
+    return buildAccountServiceStatus(logs, overdue);
+  }, [logs, levels]);
+};
+
+// Last known position of everyone clocked in: their latest breadcrumb when
+// they share location, otherwise where they clocked in
+export const useCrewPositions = () => {
+  const { data: positions = [], isLoading } = useQuery({
+    queryKey: ['crewPositions'],
+    queryFn: async () => {
+      const [shifts, latest] = await Promise.all([
+        supabase
+          .from('time_clock')
+          .select('id, employee_id, clock_in_time, clock_in_latitude, clock_in_longitude, employees(name, category)')
+          .is('clock_out_time', null),
+        supabase.from('crew_latest_locations').select('time_clock_id, latitude, longitude, recorded_at'),
+      ]);
+      if (shifts.error) throw shifts.error;
+      if (latest.error) throw latest.error;
+
+      const latestByShift = new Map(latest.data.map((ping) => [ping.time_clock_id, ping]));
+      return shifts.data.flatMap((entry): CrewPosition[] => {
+        const ping = latestByShift.get(entry.id);
+        const latitude = ping?.latitude ?? entry.clock_in_latitude;
+        const longitude = ping?.longitude ?? entry.clock_in_longitude;
+        if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) return [];
+        return [
+          {
+            timeClockId: entry.id,
+            employeeId: entry.employee_id,
+            name: entry.employees?.name ?? 'Unknown',
+            category: entry.employees?.category ?? null,
+            latitude,
+            longitude,
+            recordedAt: ping?.recorded_at ?? entry.clock_in_time,
+          },
+        ];
+      });
+    },
+    refetchInterval: 30000,
+  });
+
+  useRealtimeInvalidation({ table: 'location_pings', queryKey: ['crewPositions'] });
+
+  return { positions, isLoading };
+};
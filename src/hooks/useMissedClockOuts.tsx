@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  CLOCK_OUT_POLICY_SETTING_KEY,
+  DEFAULT_CLOCK_OUT_POLICY,
+  parseClockOutPolicy,
+  type ClockOutPolicy,
+} from '@/lib/clockOutPolicy';
+import type { Json } from '@/integrations/supabase/types';
+
+// Open-shift limit and auto-close setting
+export const useClockOutPolicy = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: policy = DEFAULT_CLOCK_OUT_POLICY, isLoading } = useQuery({
+    queryKey: ['clockOutPolicy'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', CLOCK_OUT_POLICY_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parseClockOutPolicy(data?.value);
+    },
+  });
+
+  const savePolicy = useMutation({
+    mutationFn: async (next: ClockOutPolicy) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: CLOCK_OUT_POLICY_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clockOutPolicy'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { policy, isLoading, savePolicy };
+};
+
+// Shifts flagged for review. pg_cron evaluates every five minutes, which is
+// what notifies and auto-closes; evaluating here too keeps the queue current
+// to the minute while a manager watches Admin.
+export const useMissedClockOuts = () => {
+  const { isAdminOrManager } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: shifts = [], isLoading } = useQuery({
+    queryKey: ['missedClockOuts'],
+    queryFn: async () => {
+      const { error: evaluateError } = await supabase.rpc('evaluate_missed_clock_outs');
+      if (evaluateError) throw evaluateError;
+
+      const { data, error } = await supabase
+        .from('time_clock')
+        .select('*, employees(name)')
+        .eq('review_required', true)
+        .order('clock_in_time');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: isAdminOrManager(),
+    refetchInterval: 60000,
+  });
+
+  const resolveShift = useMutation({
+    mutationFn: async ({ timeClockId, clockOutTime }: { timeClockId: string; clockOutTime: string }) => {
+      const { error } = await supabase.rpc('resolve_missed_clock_out', {
+        _time_clock_id: timeClockId,
+        _clock_out_time: clockOutTime,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['missedClockOuts'] });
+      queryClient.invalidateQueries({ queryKey: ['onShiftEmployees'] });
+      queryClient.invalidateQueries({ queryKey: ['timesheets'] });
+      queryClient.invalidateQueries({ queryKey: ['timeClockReport'] });
+    },
+  });
+
+  return { shifts, isLoading, resolveShift };
+};
+
+// Where an open shift would be closed: the employee's last work log check-out
+export const useLastCheckOut = (employeeId: string, after: string, enabled: boolean) =>
+  useQuery({
+    queryKey: ['lastCheckOut', employeeId, after],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('last_work_log_check_out', {
+        _employee_id: employeeId,
+        _after: after,
+      });
+      if (error) throw error;
+      return data ?? null;
+    },
+    enabled,
+  });
@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  OUTBOX_CHANGED_EVENT,
+  enqueueServiceLog,
+  flushServiceLogOutbox,
+  getQueuedServiceLogs,
+  isNetworkError,
+  removeServiceLog,
+  retryServiceLog,
+  syncServiceLog,
+  type QueuedServiceLog,
+} from '@/lib/offlineQueue';
+
+const RETRY_INTERVAL_MS = 60000;
+
+// Queries that show service logs and need refreshing after a replay
+const SERVICE_LOG_QUERY_KEYS = [
+  ['recentActivity'],
+  ['todayStats'],
+  ['todayShovelStats'],
+  ['recentShovelActivity'],
+  ['workLogs'],
+];
+
+export type SubmitResult = 'synced' | 'queued';
+
+export const useOfflineQueue = () => {
+  const queryClient = useQueryClient();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [failedLogs, setFailedLogs] = useState<QueuedServiceLog[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Failed records are parked, so they don't count as waiting to sync
+  const refreshCount = useCallback(async () => {
+    try {
+      const records = await getQueuedServiceLogs();
+      setPendingCount(records.filter((record) => !record.failed).length);
+      setFailedLogs(records.filter((record) => record.failed));
+    } catch {
+      setPendingCount(0);
+      setFailedLogs([]);
+    }
+  }, []);
+
+  const invalidateServiceLogs = useCallback(() => {
+    SERVICE_LOG_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+  }, [queryClient]);
+
+  const syncNow = useCallback(async () => {
+    if (!navigator.onLine) return 0;
+
+    setIsSyncing(true);
+    try {
+      const synced = await flushServiceLogOutbox();
+      if (synced > 0) invalidateServiceLogs();
+      return synced;
+    } finally {
+      setIsSyncing(false);
+      refreshCount();
+    }
+  }, [invalidateServiceLogs, refreshCount]);
+
+  // Try to write straight to Supabase; fall back to the outbox when offline.
+  // New records queue behind older pending ones so replay order is preserved.
+  const submitServiceLog = useCallback(async (record: QueuedServiceLog): Promise<SubmitResult> => {
+    const queued = (await getQueuedServiceLogs().catch(() => [])).filter((queuedRecord) => !queuedRecord.failed);
+
+    if (queued.length === 0 && navigator.onLine) {
+      try {
+        await syncServiceLog(record);
+        invalidateServiceLogs();
+        return 'synced';
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    await enqueueServiceLog(record);
+    if (navigator.onLine) syncNow();
+    return 'queued';
+  }, [invalidateServiceLogs, syncNow]);
+
+  const retryFailed = useCallback(async (id: string) => {
+    await retryServiceLog(id);
+    return syncNow();
+  }, [syncNow]);
+
+  const discardFailed = useCallback((id: string) => removeServiceLog(id), []);
+
+  useEffect(() => {
+    refreshCount();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleChanged = () => refreshCount();
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener(OUTBOX_CHANGED_EVENT, handleChanged);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, handleChanged);
+    };
+  }, [refreshCount, syncNow]);
+
+  // Periodic retry covers flaky connections that never fire an 'online' event
+  useEffect(() => {
+    if (pendingCount === 0) return;
+
+    const interval = setInterval(() => {
+      syncNow();
+    }, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingCount, syncNow]);
+
+  return {
+    pendingCount,
+    failedLogs,
+    isOnline,
+    isSyncing,
+    submitServiceLog,
+    syncNow,
+    retryFailed,
+    discardFailed,
+  };
+};
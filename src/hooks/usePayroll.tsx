@@ -0,0 +1,261 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DEFAULT_PAYROLL_SETTINGS,
+  PAYROLL_SETTING_KEY,
+  calculateTimesheet,
+  parsePayrollSettings,
+  type PayrollPeriod,
+  type PayrollSettings,
+  type Timesheet,
+  type TimesheetApproval,
+} from '@/lib/payroll';
+import {
+  calculateStormPremiums,
+  downloadPayrollExport,
+  parseStormPremiums,
+  type PayrollExportFormatId,
+  type StormPremium,
+} from '@/lib/payrollExport';
+import type { Json } from '@/integrations/supabase/types';
+
+// Payroll period length and overtime thresholds
+export const usePayrollSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: settings = DEFAULT_PAYROLL_SETTINGS, isLoading } = useQuery({
+    queryKey: ['payrollSettings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', PAYROLL_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parsePayrollSettings(data?.value);
+    },
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: async (next: PayrollSettings) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: PAYROLL_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payrollSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { settings, isLoading, saveSettings };
+};
+
+// Approvals overlapping a range. RLS limits non-managers to their own.
+export const useTimesheetApprovals = (range: PayrollPeriod | null) =>
+  useQuery({
+    queryKey: ['timesheetApprovals', range?.start.toISOString(), range?.end.toISOString()],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('timesheet_approvals')
+        .select('*')
+        .lt('period_start', range!.end.toISOString())
+        .gt('period_end', range!.start.toISOString());
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!range,
+  });
+
+export interface EmployeeTimesheet extends Timesheet {
+  employee_id: string;
+  employee_name: string;
+  payroll_id: string | null;
+  // From the approval snapshot once approved, so re-tagging a storm can't
+  // change what a locked timesheet pays
+  storms: StormPremium[];
+  // Missed clock-outs still waiting for a manager
+  review_shift_count: number;
+  approval: TimesheetApproval | null;
+}
+
+const invalidateTimesheets = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['timesheets'] });
+  queryClient.invalidateQueries({ queryKey: ['timesheetApprovals'] });
+  queryClient.invalidateQueries({ queryKey: ['timeClockReport'] });
+};
+
+// Every employee's timesheet for one payroll period, with its approval
+export const useTimesheets = (period: PayrollPeriod, settings: PayrollSettings) => {
+  const queryClient = useQueryClient();
+  const from = period.start.toISOString();
+  const to = period.end.toISOString();
+
+  const { data: shifts = [], isLoading: shiftsLoading } = useQuery({
+    queryKey: ['timesheets', from, to],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('time_clock')
+        .select(
+          'id, employee_id, clock_in_time, clock_out_time, duration_minutes, break_minutes, notes, storm_event_id, review_required, employees(name, payroll_id), storm_events(name)'
+        )
+        .gte('clock_in_time', from)
+        .lt('clock_in_time', to)
+        .order('clock_in_time');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: approvals = [], isLoading: approvalsLoading } = useTimesheetApprovals(period);
+
+  const timesheets = useMemo<EmployeeTimesheet[]>(() => {
+    const byEmployee = new Map<string, typeof shifts>();
+    for (const shift of shifts) {
+      byEmployee.set(shift.employee_id, [...(byEmployee.get(shift.employee_id) ?? []), shift]);
+    }
+    return Array.from(byEmployee, ([employeeId, employeeShifts]) => {
+      const approval = approvals.find((a) => a.employee_id === employeeId) ?? null;
+      return {
+        ...calculateTimesheet(employeeShifts, period, settings),
+        employee_id: employeeId,
+        employee_name: employeeShifts[0].employees?.name ?? 'Unknown',
+        payroll_id: employeeShifts[0].employees?.payroll_id ?? null,
+        storms: approval
+          ? parseStormPremiums(approval.storm_premiums)
+          : calculateStormPremiums(
+              employeeShifts.map((shift) => ({ ...shift, storm_name: shift.storm_events?.name ?? null }))
+            ),
+        review_shift_count: employeeShifts.filter((shift) => shift.review_required).length,
+        approval,
+      };
+    }).sort((a, b) => a.employee_name.localeCompare(b.employee_name));
+  }, [shifts, approvals, period, settings]);
+
+  const approveTimesheet = useMutation({
+    mutationFn: async (timesheet: EmployeeTimesheet) => {
+      const { error } = await supabase.rpc('approve_timesheet', {
+        _employee_id: timesheet.employee_id,
+        _period_start: from,
+        _period_end: to,
+        _regular_minutes: timesheet.regular_minutes,
+        _overtime_minutes: timesheet.overtime_minutes,
+        _break_minutes: timesheet.break_minutes,
+        _shift_count: timesheet.shift_count,
+        _storm_premiums: timesheet.storms as unknown as Json,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateTimesheets(queryClient),
+  });
+
+  const reopenTimesheet = useMutation({
+    mutationFn: async ({ approvalId, reason }: { approvalId: string; reason: string }) => {
+      const { error } = await supabase.rpc('reopen_timesheet', { _approval_id: approvalId, _reason: reason });
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateTimesheets(queryClient),
+  });
+
+  // Approved time only. Open shifts are re-checked against the database so a
+  // stale page can't export a period someone is still clocked into.
+  const exportPayroll = useMutation({
+    mutationFn: async (formatId: PayrollExportFormatId) => {
+      const { count, error } = await supabase
+        .from('time_clock')
+        .select('id', { count: 'exact', head: true })
+        .is('clock_out_time', null)
+        .gte('clock_in_time', from)
+        .lt('clock_in_time', to);
+      if (error) throw error;
+      if (count) {
+        throw new Error(`${count} shift${count === 1 ? ' is' : 's are'} still open in this period. Clock them out first.`);
+      }
+
+      const approved = timesheets.filter((timesheet) => timesheet.approval);
+      if (approved.length === 0) throw new Error('No approved timesheets in this period');
+
+      downloadPayrollExport(
+        formatId,
+        approved.map((timesheet) => ({
+          employee_name: timesheet.employee_name,
+          payroll_id: timesheet.payroll_id,
+          regular_minutes: timesheet.approval!.regular_minutes,
+          overtime_minutes: timesheet.approval!.overtime_minutes,
+          storms: parseStormPremiums(timesheet.approval!.storm_premiums),
+        })),
+        period,
+        settings
+      );
+      return approved.length;
+    },
+  });
+
+  return {
+    shifts,
+    timesheets,
+    isLoading: shiftsLoading || approvalsLoading,
+    approveTimesheet,
+    reopenTimesheet,
+    exportPayroll,
+  };
+};
+
+// Unpaid breaks for one shift
+export const useShiftBreaks = (timeClockId: string | null | undefined) => {
+  const queryClient = useQueryClient();
+
+  const { data: breaks = [] } = useQuery({
+    queryKey: ['shiftBreaks', timeClockId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('time_clock_breaks')
+        .select('*')
+        .eq('time_clock_id', timeClockId!)
+        .order('break_start');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!timeClockId,
+  });
+
+  const openBreak = breaks.find((b) => !b.break_end) ?? null;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['shiftBreaks', timeClockId] });
+    queryClient.invalidateQueries({ queryKey: ['activeShift'] });
+    queryClient.invalidateQueries({ queryKey: ['weeklyTimeClock'] });
+  };
+
+  const startBreak = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('time_clock_breaks')
+        .insert({ time_clock_id: timeClockId!, break_start: new Date().toISOString() });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const endBreak = useMutation({
+    mutationFn: async () => {
+      if (!openBreak) return;
+      const { error } = await supabase
+        .from('time_clock_breaks')
+        .update({ break_end: new Date().toISOString() })
+        .eq('id', openBreak.id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return { breaks, openBreak, startBreak, endBreak };
+};
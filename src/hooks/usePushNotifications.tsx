@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  VAPID_PUBLIC_KEY,
+  getDeviceTimezone,
+  isPushSupported,
+  removeDevicePushSubscription,
+  urlBase64ToUint8Array,
+} from '@/lib/pushNotifications';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+
+type PushPreferences = Pick<
+  TablesUpdate<'push_subscriptions'>,
+  'notification_types' | 'quiet_hours_start' | 'quiet_hours_end'
+>;
+
+// The service worker is only registered in production builds
+const getRegistration = async () => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) throw new Error('The app is still starting up. Reload the page and try again.');
+  return registration;
+};
+
+// Web Push for this device. Each browser gets its own subscription row,
+// with its own notification types and quiet hours.
+export const usePushNotifications = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const supported = isPushSupported();
+
+  const { data: subscription = null, isLoading } = useQuery({
+    queryKey: ['pushSubscription', user?.id],
+    queryFn: async () => {
+      const registration = await navigator.serviceWorker.getRegistration();
+      const browserSubscription = await registration?.pushManager.getSubscription();
+      if (!browserSubscription) return null;
+
+      const { data, error } = await supabase
+        .from('push_subscriptions')
+        .select('*')
+        .eq('endpoint', browserSubscription.endpoint)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: supported && !!user?.id,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['pushSubscription'] });
+
+  const enable = useMutation({
+    mutationFn: async () => {
+      if (!user?.id || !VAPID_PUBLIC_KEY) return;
+
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+      }
+
+      // Start from a fresh subscription so a device handed between users
+      // never keeps delivering to the previous one
+      const registration = await getRegistration();
+      const existing = await registration.pushManager.getSubscription();
+      if (existing) await existing.unsubscribe();
+
+      const browserSubscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+      });
+      const { keys } = browserSubscription.toJSON();
+
+      const { error } = await supabase.from('push_subscriptions').insert({
+        user_id: user.id,
+        endpoint: browserSubscription.endpoint,
+        p256dh: keys?.p256dh ?? '',
+        auth: keys?.auth ?? '',
+        user_agent: navigator.userAgent,
+        timezone: getDeviceTimezone(),
+      });
+      if (error) {
+        await browserSubscription.unsubscribe();
+        throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const disable = useMutation({
+    mutationFn: removeDevicePushSubscription,
+    onSuccess: invalidate,
+  });
+
+  const updatePreferences = useMutation({
+    mutationFn: async (preferences: PushPreferences) => {
+      if (!subscription) return;
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .update({ ...preferences, timezone: getDeviceTimezone() })
+        .eq('id', subscription.id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return { supported, subscription, isLoading, enable, disable, updatePreferences };
+};
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+interface RealtimeInvalidationOptions {
+  table: string;
+  queryKey: QueryKey;
+  // Postgres changes filter, e.g. `account_id=eq.${id}`
+  filter?: string;
+  enabled?: boolean;
+}
+
+// Refetch a query whenever rows in a table change. RLS still applies to the
+// change feed, so subscribers only hear about rows they could select.
+export const useRealtimeInvalidation = ({ table, queryKey, filter, enabled = true }: RealtimeInvalidationOptions) => {
+  const queryClient = useQueryClient();
+  const key = JSON.stringify(queryKey);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`realtime:${table}:${filter ?? 'all'}:${key}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table, filter }, () => {
+        queryClient.invalidateQueries({ queryKey: JSON.parse(key) as QueryKey });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter, key, enabled, queryClient]);
+};
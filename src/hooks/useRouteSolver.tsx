@@ -0,0 +1,60 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { solveRoutes, type RouteSolution, type SolverInput } from '@/lib/routeSolver';
+
+// Solves routes in a Web Worker so large stop sets don't freeze the page.
+// Starting a new solve abandons the previous one.
+export const useRouteSolver = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const rejectRef = useRef<((reason: Error) => void) | null>(null);
+  const [isSolving, setIsSolving] = useState(false);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    rejectRef.current?.(new Error('Route solving was cancelled'));
+    rejectRef.current = null;
+    setIsSolving(false);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const solve = useCallback(
+    (input: SolverInput) => {
+      stop();
+
+      // Older browsers without worker support solve on the main thread
+      if (typeof Worker === 'undefined') {
+        return Promise.resolve(solveRoutes(input));
+      }
+
+      setIsSolving(true);
+      return new Promise<RouteSolution>((resolve, reject) => {
+        const worker = new Worker(new URL('../lib/routeSolver.worker.ts', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        rejectRef.current = reject;
+
+        const finish = () => {
+          worker.terminate();
+          if (workerRef.current === worker) {
+            workerRef.current = null;
+            rejectRef.current = null;
+            setIsSolving(false);
+          }
+        };
+
+        worker.onmessage = (event: MessageEvent<RouteSolution>) => {
+          finish();
+          resolve(event.data);
+        };
+        worker.onerror = (event) => {
+          finish();
+          reject(new Error(event.message || 'Route solver failed'));
+        };
+        worker.postMessage(input);
+      });
+    },
+    [stop]
+  );
+
+  return { solve, isSolving, cancel: stop };
+};
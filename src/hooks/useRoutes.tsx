@@ -0,0 +1,205 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addDays, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeInvalidation } from '@/hooks/useRealtimeInvalidation';
+import {
+  ROUTE_SELECT,
+  buildStopProgress,
+  type RouteAssignmentWithDetails,
+  type RouteServiceType,
+  type RouteWithStops,
+} from '@/lib/routes';
+
+export interface RouteInput {
+  id?: string;
+  name: string;
+  service_type: RouteServiceType;
+  default_equipment_id: string | null;
+  notes: string | null;
+  accountIds: string[];
+}
+
+export interface RouteAssignmentInput {
+  route_id: string;
+  route_date: string;
+  equipment_id: string | null;
+  notes: string | null;
+  employeeIds: string[];
+}
+
+const ASSIGNMENT_SELECT = `
+  *,
+  routes(${ROUTE_SELECT}),
+  equipment(name),
+  route_assignment_employees(employee_id, employees(name))
+`;
+
+// Saved route templates with their ordered stops
+export const useRoutes = () => {
+  const queryClient = useQueryClient();
+
+  const { data: routes = [], isLoading } = useQuery({
+    queryKey: ['routes'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('routes')
+        .select(ROUTE_SELECT)
+        .order('name');
+
+      if (error) throw error;
+      return data as RouteWithStops[];
+    },
+  });
+
+  const saveRoute = useMutation({
+    mutationFn: async ({ id, accountIds, ...values }: RouteInput) => {
+      let routeId = id;
+      if (routeId) {
+        const { error } = await supabase.from('routes').update(values).eq('id', routeId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('routes').insert(values).select('id').single();
+        if (error) throw error;
+        routeId = data.id;
+      }
+
+      const { error: stopsError } = await supabase.rpc('set_route_stops', {
+        _route_id: routeId,
+        _account_ids: accountIds,
+      });
+      if (stopsError) throw stopsError;
+      return routeId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['routes'] });
+      queryClient.invalidateQueries({ queryKey: ['routeAssignments'] });
+      queryClient.invalidateQueries({ queryKey: ['myRoute'] });
+    },
+  });
+
+  const deleteRoute = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('routes').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['routes'] });
+      queryClient.invalidateQueries({ queryKey: ['routeAssignments'] });
+    },
+  });
+
+  return { routes, isLoading, saveRoute, deleteRoute };
+};
+
+// Routes handed out for one day
+export const useRouteAssignments = (routeDate: string) => {
+  const queryClient = useQueryClient();
+
+  const { data: assignments = [], isLoading } = useQuery({
+    queryKey: ['routeAssignments', routeDate],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('route_assignments')
+        .select(ASSIGNMENT_SELECT)
+        .eq('route_date', routeDate)
+        .order('created_at');
+
+      if (error) throw error;
+      return data as RouteAssignmentWithDetails[];
+    },
+  });
+
+  const saveAssignment = useMutation({
+    mutationFn: async ({ employeeIds, ...values }: RouteAssignmentInput) => {
+      const { data, error } = await supabase.from('route_assignments').insert(values).select('id').single();
+      if (error) throw error;
+
+      if (employeeIds.length > 0) {
+        const { error: employeesError } = await supabase
+          .from('route_assignment_employees')
+          .insert(employeeIds.map((employee_id) => ({ route_assignment_id: data.id, employee_id })));
+        if (employeesError) throw employeesError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['routeAssignments'] });
+      queryClient.invalidateQueries({ queryKey: ['myRoute'] });
+    },
+  });
+
+  const deleteAssignment = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('route_assignments').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['routeAssignments'] });
+      queryClient.invalidateQueries({ queryKey: ['myRoute'] });
+    },
+  });
+
+  return { assignments, isLoading, saveAssignment, deleteAssignment };
+};
+
+// The signed-in employee's routes for a day, with per-stop progress taken
+// from the plow and shovel logs created that day
+export const useMyRoute = (routeDate = format(new Date(), 'yyyy-MM-dd')) => {
+  const { employeeId } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['myRoute', employeeId, routeDate],
+    queryFn: async () => {
+      const { data: assigned, error: assignedError } = await supabase
+        .from('route_assignment_employees')
+        .select('route_assignment_id, route_assignments!inner(route_date)')
+        .eq('employee_id', employeeId!)
+        .eq('route_assignments.route_date', routeDate);
+      if (assignedError) throw assignedError;
+      if (assigned.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('route_assignments')
+        .select(ASSIGNMENT_SELECT)
+        .in('id', assigned.map((row) => row.route_assignment_id))
+        .order('created_at');
+      if (error) throw error;
+      const assignments = data as RouteAssignmentWithDetails[];
+
+      const accountIds = assignments.flatMap((a) => a.routes?.route_stops.map((stop) => stop.account_id) ?? []);
+      const dayStart = new Date(`${routeDate}T00:00:00`).toISOString();
+      const dayEnd = addDays(new Date(`${routeDate}T00:00:00`), 1).toISOString();
+
+      const [workLogs, shovelLogs] = await Promise.all([
+        supabase
+          .from('work_logs')
+          .select('account_id, check_in_time')
+          .in('account_id', accountIds)
+          .gte('check_in_time', dayStart)
+          .lt('check_in_time', dayEnd),
+        supabase
+          .from('shovel_work_logs')
+          .select('account_id, check_in_time')
+          .in('account_id', accountIds)
+          .gte('check_in_time', dayStart)
+          .lt('check_in_time', dayEnd),
+      ]);
+      if (workLogs.error) throw workLogs.error;
+      if (shovelLogs.error) throw shovelLogs.error;
+
+      const logs = [...workLogs.data, ...shovelLogs.data];
+      return assignments.map((assignment) => ({
+        assignment,
+        stops: assignment.routes ? buildStopProgress(assignment.routes, logs) : [],
+      }));
+    },
+    enabled: !!employeeId,
+  });
+
+  const queryKey = ['myRoute', employeeId, routeDate];
+  useRealtimeInvalidation({ table: 'work_logs', queryKey, enabled: !!employeeId });
+  useRealtimeInvalidation({ table: 'shovel_work_logs', queryKey, enabled: !!employeeId });
+  useRealtimeInvalidation({ table: 'route_assignments', queryKey, enabled: !!employeeId });
+
+  return { routes: query.data ?? [], isLoading: query.isLoading };
+};
@@ -0,0 +1,94 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useStormEvents } from '@/hooks/useStormEvents';
+import {
+  DEFAULT_SERVICE_LEVEL_SETTINGS,
+  SERVICE_LEVEL_SETTING_KEY,
+  findCurrentStorm,
+  getServiceLevelStatus,
+  isFlaggedServiceLevel,
+  parseServiceLevelSettings,
+  type ServiceLevelSettings,
+} from '@/lib/serviceLevels';
+import type { Json } from '@/integrations/supabase/types';
+
+// Promised service hours per account priority
+export const useServiceLevelSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: settings = DEFAULT_SERVICE_LEVEL_SETTINGS, isLoading } = useQuery({
+    queryKey: ['serviceLevelSettings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', SERVICE_LEVEL_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parseServiceLevelSettings(data?.value);
+    },
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: async (next: ServiceLevelSettings) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: SERVICE_LEVEL_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['serviceLevelSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { settings, isLoading, saveSettings };
+};
+
+// Deadlines for the current storm. pg_cron evaluates them and raises the
+// manager notifications every minute; evaluating here too just keeps the
+// board current between runs.
+export const useCurrentServiceLevels = () => {
+  const { isStaff } = useAuth();
+  const { storms } = useStormEvents();
+  const { settings } = useServiceLevelSettings();
+  const storm = findCurrentStorm(storms, settings);
+
+  const { data: rows = [], dataUpdatedAt } = useQuery({
+    queryKey: ['stormServiceLevels', storm?.id],
+    queryFn: async () => {
+      const { error: evaluateError } = await supabase.rpc('evaluate_storm_service_levels', {
+        _storm_event_id: storm!.id,
+      });
+      if (evaluateError) throw evaluateError;
+
+      const { data, error } = await supabase
+        .from('storm_account_services')
+        .select('*, accounts(name, address)')
+        .eq('storm_event_id', storm!.id)
+        .order('deadline_at');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!storm && isStaff(),
+    refetchInterval: 60000,
+  });
+
+  const levels = useMemo(() => {
+    const now = new Date(dataUpdatedAt || Date.now());
+    return rows.map((row) => ({ ...row, status: getServiceLevelStatus(row, settings.warning_minutes, now) }));
+  }, [rows, settings.warning_minutes, dataUpdatedAt]);
+
+  const byAccountId = useMemo(() => new Map(levels.map((level) => [level.account_id, level])), [levels]);
+  const flagged = levels.filter((level) => isFlaggedServiceLevel(level.status));
+
+  return { storm, levels, flagged, byAccountId };
+};
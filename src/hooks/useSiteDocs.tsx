@@ -0,0 +1,151 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  SITE_PHOTO_BUCKET,
+  buildSitePhotoPath,
+  type SiteAccess,
+  type SiteAnnotation,
+  type SiteInstructions,
+} from '@/lib/siteDocs';
+import type { Json } from '@/integrations/supabase/types';
+
+type InstructionsInput = Omit<SiteInstructions, 'account_id' | 'created_at' | 'updated_at' | 'updated_by'>;
+type AccessInput = Omit<SiteAccess, 'account_id' | 'created_at' | 'updated_at' | 'updated_by'>;
+
+// Instructions, access codes and reference photos for one account. Access
+// codes are only requested by staff; the table's RLS hides them from
+// everyone else regardless.
+export const useSiteDocs = (accountId: string | null | undefined) => {
+  const { user, isStaff } = useAuth();
+  const queryClient = useQueryClient();
+  const staff = isStaff();
+
+  const { data: instructions = null, isLoading: instructionsLoading } = useQuery({
+    queryKey: ['siteInstructions', accountId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('account_site_instructions')
+        .select('*')
+        .eq('account_id', accountId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!accountId,
+  });
+
+  const { data: access = null } = useQuery({
+    queryKey: ['siteAccess', accountId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('account_site_access')
+        .select('*')
+        .eq('account_id', accountId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!accountId && staff,
+  });
+
+  const { data: photos = [], isLoading: photosLoading } = useQuery({
+    queryKey: ['sitePhotos', accountId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('account_site_photos')
+        .select('*')
+        .eq('account_id', accountId!)
+        .order('sort_order')
+        .order('created_at');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!accountId,
+  });
+
+  const saveInstructions = useMutation({
+    mutationFn: async (input: InstructionsInput) => {
+      const { error } = await supabase
+        .from('account_site_instructions')
+        .upsert({ ...input, account_id: accountId!, updated_by: user?.id }, { onConflict: 'account_id' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['siteInstructions', accountId] });
+    },
+  });
+
+  const saveAccess = useMutation({
+    mutationFn: async (input: AccessInput) => {
+      const { error } = await supabase
+        .from('account_site_access')
+        .upsert({ ...input, account_id: accountId!, updated_by: user?.id }, { onConflict: 'account_id' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['siteAccess', accountId] });
+    },
+  });
+
+  const addPhoto = useMutation({
+    mutationFn: async ({ file, caption }: { file: File; caption: string }) => {
+      const path = buildSitePhotoPath(accountId!, file);
+      const { error: uploadError } = await supabase.storage
+        .from(SITE_PHOTO_BUCKET)
+        .upload(path, file, { cacheControl: '3600', upsert: false });
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase.from('account_site_photos').insert({
+        account_id: accountId!,
+        storage_path: path,
+        caption: caption.trim() || null,
+        sort_order: photos.length,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sitePhotos', accountId] });
+    },
+  });
+
+  const updatePhoto = useMutation({
+    mutationFn: async ({ id, caption, annotations }: { id: string; caption: string; annotations: SiteAnnotation[] }) => {
+      const { error } = await supabase
+        .from('account_site_photos')
+        .update({ caption: caption.trim() || null, annotations: annotations as unknown as Json })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sitePhotos', accountId] });
+    },
+  });
+
+  const deletePhoto = useMutation({
+    mutationFn: async ({ id, storagePath }: { id: string; storagePath: string }) => {
+      const { error } = await supabase.from('account_site_photos').delete().eq('id', id);
+      if (error) throw error;
+
+      // The row is what drivers see; a leftover file is harmless
+      const { error: removeError } = await supabase.storage.from(SITE_PHOTO_BUCKET).remove([storagePath]);
+      if (removeError) console.error('Error removing site photo file:', removeError);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sitePhotos', accountId] });
+    },
+  });
+
+  return {
+    instructions,
+    access,
+    photos,
+    isLoading: instructionsLoading || photosLoading,
+    saveInstructions,
+    saveAccess,
+    addPhoto,
+    updatePhoto,
+    deletePhoto,
+  };
+};
@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+
+// Invalidate everything that shows a storm or is grouped by one; the database
+// re-links logs and shifts whenever a storm's window changes
+const STORM_QUERY_KEYS = ['stormEvents', 'stormSummary', 'stormServiceLevels', 'workLogsReport', 'shovelLogsReport', 'timeClockReport'];
+
+export const useStormEvents = () => {
+  const queryClient = useQueryClient();
+
+  const { data: storms = [], isLoading } = useQuery({
+    queryKey: ['stormEvents'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('storm_events')
+        .select('*')
+        .order('start_time', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => {
+    STORM_QUERY_KEYS.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+  };
+
+  const saveStorm = useMutation({
+    mutationFn: async ({ id, ...values }: TablesInsert<'storm_events'>) => {
+      if (id) {
+        const { error } = await supabase.from('storm_events').update(values).eq('id', id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('storm_events').insert(values);
+        if (error) throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteStorm = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('storm_events').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return { storms, isLoading, saveStorm, deleteStorm };
+};
@@ -0,0 +1,98 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DEFAULT_WEATHER_FORECAST_SETTINGS,
+  WEATHER_FORECAST_SETTING_KEY,
+  getForecastProvider,
+  hasForecastLocation,
+  parseWeatherForecastSettings,
+  toForecastRow,
+  type WeatherForecastSettings,
+} from '@/lib/weatherForecast';
+import type { Json } from '@/integrations/supabase/types';
+
+// Service-area location, forecast length and alert thresholds
+export const useWeatherForecastSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: settings = DEFAULT_WEATHER_FORECAST_SETTINGS, isLoading } = useQuery({
+    queryKey: ['weatherForecastSettings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', WEATHER_FORECAST_SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return parseWeatherForecastSettings(data?.value);
+    },
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: async (next: WeatherForecastSettings) => {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          { key: WEATHER_FORECAST_SETTING_KEY, value: next as unknown as Json, updated_by: user?.id },
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weatherForecastSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+
+  return { settings, isLoading, saveSettings };
+};
+
+// Stored forecasts from today onward, plus an import from the configured provider
+export const useWeatherForecasts = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { settings } = useWeatherForecastSettings();
+
+  const { data: forecasts = [], isLoading } = useQuery({
+    queryKey: ['weatherForecasts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('weather_forecasts')
+        .select('*')
+        .gte('forecast_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('forecast_date');
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const importForecast = useMutation({
+    mutationFn: async () => {
+      if (!hasForecastLocation(settings)) {
+        throw new Error('Set the service area location before importing a forecast');
+      }
+
+      const provider = getForecastProvider(settings.provider);
+      const days = await provider.fetchDailyForecast(settings, settings.days);
+      if (days.length === 0) throw new Error(`${provider.label} returned no forecast days`);
+
+      // Alerts are evaluated here; the database notifies staff about new ones
+      const rows = days.map((day) => toForecastRow(day, settings.thresholds, provider.id, user?.id));
+      const { error } = await supabase.from('weather_forecasts').upsert(rows, { onConflict: 'forecast_date' });
+      if (error) throw error;
+
+      return { count: rows.length, alertDays: rows.filter((row) => (row.alerts?.length ?? 0) > 0).length };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weatherForecasts'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+
+  return { forecasts, isLoading, importForecast };
+};
@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import {
+  WORK_PHOTO_BUCKET,
+  buildWorkPhotoPath,
+  pickCoverPhoto,
+  type CapturedWorkPhoto,
+  type WorkLogPhoto,
+} from '@/lib/workPhotos';
+
+type WorkLogKind = 'plow' | 'shovel';
+
+const logColumn = (kind: WorkLogKind) => (kind === 'plow' ? 'work_log_id' : 'shovel_work_log_id');
+const logTable = (kind: WorkLogKind) => (kind === 'plow' ? 'work_logs' : 'shovel_work_logs');
+
+// Before/during/after photos for one visit. The log's photo_url is kept
+// pointing at the cover photo as photos are added and removed.
+export const useWorkLogPhotos = (workLogId: string | null | undefined, kind: WorkLogKind) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['workLogPhotos', kind, workLogId];
+
+  const { data: photos = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('work_log_photos')
+        .select('*')
+        .eq(logColumn(kind), workLogId!)
+        .order('taken_at');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!workLogId,
+  });
+
+  const setCoverPhoto = async (path: string | null) => {
+    const { error } = await supabase.from(logTable(kind)).update({ photo_url: path }).eq('id', workLogId!);
+    if (error) throw error;
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['workLogs'] });
+  };
+
+  const addPhotos = useMutation({
+    mutationFn: async (captured: CapturedWorkPhoto[]) => {
+      const rows: TablesInsert<'work_log_photos'>[] = [];
+      for (const photo of captured) {
+        const path = buildWorkPhotoPath(kind, workLogId!, photo.id);
+        const { error: uploadError } = await supabase.storage
+          .from(WORK_PHOTO_BUCKET)
+          .upload(path, photo.blob, { cacheControl: '3600', contentType: photo.blob.type || undefined });
+        if (uploadError) throw uploadError;
+
+        rows.push({
+          id: photo.id,
+          ...(kind === 'plow' ? { work_log_id: workLogId! } : { shovel_work_log_id: workLogId! }),
+          storage_path: path,
+          stage: photo.stage,
+          taken_at: photo.takenAt,
+          latitude: photo.latitude,
+          longitude: photo.longitude,
+          accuracy: photo.accuracy,
+          location_source: photo.locationSource,
+          width: photo.width,
+          height: photo.height,
+          size_bytes: photo.blob.size,
+          uploaded_by: user?.id,
+        });
+      }
+
+      const { error } = await supabase.from('work_log_photos').insert(rows);
+      if (error) throw error;
+
+      if (photos.length === 0) {
+        const cover = pickCoverPhoto(captured);
+        await setCoverPhoto(cover ? buildWorkPhotoPath(kind, workLogId!, cover.id) : null);
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const deletePhoto = useMutation({
+    mutationFn: async (photo: WorkLogPhoto) => {
+      const { error } = await supabase.from('work_log_photos').delete().eq('id', photo.id);
+      if (error) throw error;
+
+      const { data: log } = await supabase
+        .from(logTable(kind))
+        .select('photo_url')
+        .eq('id', workLogId!)
+        .maybeSingle();
+      if (log?.photo_url === photo.storage_path) {
+        await setCoverPhoto(pickCoverPhoto(photos.filter((p) => p.id !== photo.id))?.storage_path ?? null);
+      }
+
+      // The row is what everyone sees; a leftover file is harmless
+      const { error: removeError } = await supabase.storage.from(WORK_PHOTO_BUCKET).remove([photo.storage_path]);
+      if (removeError) console.error('Error removing work photo file:', removeError);
+    },
+    onSuccess: invalidate,
+  });
+
+  return { photos, isLoading, addPhotos, deletePhoto };
+};
@@ -14,6 +14,345 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_contact_change_requests: {
+        Row: {
+          account_id: string
+          contact_email: string | null
+          contact_name: string | null
+          contact_phone: string | null
+          created_at: string
+          id: string
+          previous_contact_email: string | null
+          previous_contact_name: string | null
+          previous_contact_phone: string | null
+          requested_by: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          account_id: string
+          contact_email?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          id?: string
+          previous_contact_email?: string | null
+          previous_contact_name?: string | null
+          previous_contact_phone?: string | null
+          requested_by: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          account_id?: string
+          contact_email?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          id?: string
+          previous_contact_email?: string | null
+          previous_contact_name?: string | null
+          previous_contact_phone?: string | null
+          requested_by?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_contact_change_requests_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_contact_change_requests_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_contracts: {
+        Row: {
+          account_id: string
+          billing_model: string
+          created_at: string
+          created_by: string | null
+          depth_tiers: Json
+          effective_from: string
+          effective_to: string | null
+          id: string
+          minimum_charge: number | null
+          name: string
+          notes: string | null
+          per_push_rate: number | null
+          salt_per_unit: number | null
+          seasonal_fee: number | null
+          shovel_hourly_rate: number | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          billing_model?: string
+          created_at?: string
+          created_by?: string | null
+          depth_tiers?: Json
+          effective_from: string
+          effective_to?: string | null
+          id?: string
+          minimum_charge?: number | null
+          name: string
+          notes?: string | null
+          per_push_rate?: number | null
+          salt_per_unit?: number | null
+          seasonal_fee?: number | null
+          shovel_hourly_rate?: number | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          billing_model?: string
+          created_at?: string
+          created_by?: string | null
+          depth_tiers?: Json
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          minimum_charge?: number | null
+          name?: string
+          notes?: string | null
+          per_push_rate?: number | null
+          salt_per_unit?: number | null
+          seasonal_fee?: number | null
+          shovel_hourly_rate?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_contracts_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_contracts_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_site_access: {
+        Row: {
+          access_notes: string | null
+          account_id: string
+          alarm_code: string | null
+          created_at: string
+          gate_code: string | null
+          lockbox_code: string | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          access_notes?: string | null
+          account_id: string
+          alarm_code?: string | null
+          created_at?: string
+          gate_code?: string | null
+          lockbox_code?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          access_notes?: string | null
+          account_id?: string
+          alarm_code?: string | null
+          created_at?: string
+          gate_code?: string | null
+          lockbox_code?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_site_access_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_site_access_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_site_instructions: {
+        Row: {
+          account_id: string
+          contact_on_arrival: string | null
+          contact_on_arrival_phone: string | null
+          created_at: string
+          hazards: string | null
+          salt_allowed: boolean
+          sidewalks_included: boolean
+          special_instructions: string | null
+          stacking_instructions: string | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          account_id: string
+          contact_on_arrival?: string | null
+          contact_on_arrival_phone?: string | null
+          created_at?: string
+          hazards?: string | null
+          salt_allowed?: boolean
+          sidewalks_included?: boolean
+          special_instructions?: string | null
+          stacking_instructions?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          account_id?: string
+          contact_on_arrival?: string | null
+          contact_on_arrival_phone?: string | null
+          created_at?: string
+          hazards?: string | null
+          salt_allowed?: boolean
+          sidewalks_included?: boolean
+          special_instructions?: string | null
+          stacking_instructions?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_site_instructions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_site_instructions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_site_photos: {
+        Row: {
+          account_id: string
+          annotations: Json
+          caption: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          sort_order: number
+          storage_path: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          annotations?: Json
+          caption?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          sort_order?: number
+          storage_path: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          annotations?: Json
+          caption?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          sort_order?: number
+          storage_path?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_site_photos_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_site_photos_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_users: {
+        Row: {
+          account_id: string
+          added_by: string | null
+          created_at: string
+          id: string
+          notify_service_completed: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          notify_service_completed?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          notify_service_completed?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_users_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_users_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       accounts: {
         Row: {
           address: string
@@ -23,12 +362,19 @@ export type Database = {
           contact_name: string | null
           contact_phone: string | null
           created_at: string
+          geofence_exit_buffer_meters: number
+          geofence_radius_meters: number
           id: string
           latitude: number | null
+          location_source: string | null
+          location_updated_at: string | null
+          location_updated_by: string | null
           longitude: number | null
           name: string
           notes: string | null
+          organization_id: string | null
           priority: string | null
+          require_checkout_photo: boolean
           service_type: string | null
           state: string | null
           status: string | null
@@ -43,12 +389,19 @@ export type Database = {
           contact_name?: string | null
           contact_phone?: string | null
           created_at?: string
+          geofence_exit_buffer_meters?: number
+          geofence_radius_meters?: number
           id?: string
           latitude?: number | null
+          location_source?: string | null
+          location_updated_at?: string | null
+          location_updated_by?: string | null
           longitude?: number | null
           name: string
           notes?: string | null
+          organization_id?: string | null
           priority?: string | null
+          require_checkout_photo?: boolean
           service_type?: string | null
           state?: string | null
           status?: string | null
@@ -63,19 +416,34 @@ export type Database = {
           contact_name?: string | null
           contact_phone?: string | null
           created_at?: string
+          geofence_exit_buffer_meters?: number
+          geofence_radius_meters?: number
           id?: string
           latitude?: number | null
+          location_source?: string | null
+          location_updated_at?: string | null
+          location_updated_by?: string | null
           longitude?: number | null
           name?: string
           notes?: string | null
+          organization_id?: string | null
           priority?: string | null
+          require_checkout_photo?: boolean
           service_type?: string | null
           state?: string | null
           status?: string | null
           updated_at?: string
           zip?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "accounts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       audit_logs: {
         Row: {
@@ -139,10 +507,114 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string | null
-          entity_counts?: Json | null
-          file_size_bytes?: number | null
-          filename?: string
+          entity_counts?: Json | null
+          file_size_bytes?: number | null
+          filename?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      client_organization_members: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          id: string
+          notify_service_completed: boolean
+          organization_id: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          notify_service_completed?: boolean
+          organization_id: string
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          notify_service_completed?: boolean
+          organization_id?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_organizations: {
+        Row: {
+          billing_email: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          billing_email?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          billing_email?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      clock_in_zones: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          latitude: number
+          longitude: number
+          name: string
+          radius_meters: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          latitude: number
+          longitude: number
+          name: string
+          radius_meters?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
           id?: string
+          is_active?: boolean
+          latitude?: number
+          longitude?: number
+          name?: string
+          radius_meters?: number
         }
         Relationships: []
       }
@@ -155,6 +627,7 @@ export type Database = {
           hire_date: string | null
           id: string
           name: string
+          payroll_id: string | null
           phone: string | null
           role: string
           status: string
@@ -169,6 +642,7 @@ export type Database = {
           hire_date?: string | null
           id?: string
           name: string
+          payroll_id?: string | null
           phone?: string | null
           role?: string
           status?: string
@@ -183,6 +657,7 @@ export type Database = {
           hire_date?: string | null
           id?: string
           name?: string
+          payroll_id?: string | null
           phone?: string | null
           role?: string
           status?: string
@@ -199,6 +674,7 @@ export type Database = {
           last_maintenance_date: string | null
           license_plate: string | null
           maintenance_interval_days: number | null
+          maintenance_started_at: string | null
           make: string | null
           model: string | null
           name: string
@@ -218,6 +694,7 @@ export type Database = {
           last_maintenance_date?: string | null
           license_plate?: string | null
           maintenance_interval_days?: number | null
+          maintenance_started_at?: string | null
           make?: string | null
           model?: string | null
           name: string
@@ -237,6 +714,7 @@ export type Database = {
           last_maintenance_date?: string | null
           license_plate?: string | null
           maintenance_interval_days?: number | null
+          maintenance_started_at?: string | null
           make?: string | null
           model?: string | null
           name?: string
@@ -324,10 +802,15 @@ export type Database = {
           due_date: string
           id: string
           invoice_number: string
+          issued_date: string | null
           line_items: Json | null
           notes: string | null
           paid_date: string | null
+          period_end: string | null
+          period_start: string | null
           status: string
+          tax_amount: number
+          tax_rate: number
           updated_at: string
         }
         Insert: {
@@ -337,11 +820,16 @@ export type Database = {
           created_by?: string | null
           due_date: string
           id?: string
-          invoice_number: string
+          invoice_number?: string
+          issued_date?: string | null
           line_items?: Json | null
           notes?: string | null
           paid_date?: string | null
+          period_end?: string | null
+          period_start?: string | null
           status?: string
+          tax_amount?: number
+          tax_rate?: number
           updated_at?: string
         }
         Update: {
@@ -352,10 +840,15 @@ export type Database = {
           due_date?: string
           id?: string
           invoice_number?: string
+          issued_date?: string | null
           line_items?: Json | null
           notes?: string | null
           paid_date?: string | null
+          period_end?: string | null
+          period_start?: string | null
           status?: string
+          tax_amount?: number
+          tax_rate?: number
           updated_at?: string
         }
         Relationships: [
@@ -375,10 +868,62 @@ export type Database = {
           },
         ]
       }
+      location_pings: {
+        Row: {
+          accuracy: number | null
+          created_at: string
+          employee_id: string
+          id: string
+          latitude: number
+          longitude: number
+          recorded_at: string
+          speed: number | null
+          time_clock_id: string
+        }
+        Insert: {
+          accuracy?: number | null
+          created_at?: string
+          employee_id: string
+          id?: string
+          latitude: number
+          longitude: number
+          recorded_at?: string
+          speed?: number | null
+          time_clock_id: string
+        }
+        Update: {
+          accuracy?: number | null
+          created_at?: string
+          employee_id?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+          speed?: number | null
+          time_clock_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_pings_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_pings_time_clock_id_fkey"
+            columns: ["time_clock_id"]
+            isOneToOne: false
+            referencedRelation: "time_clock"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       maintenance_logs: {
         Row: {
           cost: number | null
           created_at: string
+          created_by: string | null
           description: string
           equipment_id: string
           id: string
@@ -387,10 +932,13 @@ export type Database = {
           notes: string | null
           performed_by: string | null
           performed_date: string
+          signed_off_at: string | null
+          signed_off_by: string | null
         }
         Insert: {
           cost?: number | null
           created_at?: string
+          created_by?: string | null
           description: string
           equipment_id: string
           id?: string
@@ -399,10 +947,13 @@ export type Database = {
           notes?: string | null
           performed_by?: string | null
           performed_date: string
+          signed_off_at?: string | null
+          signed_off_by?: string | null
         }
         Update: {
           cost?: number | null
           created_at?: string
+          created_by?: string | null
           description?: string
           equipment_id?: string
           id?: string
@@ -411,6 +962,8 @@ export type Database = {
           notes?: string | null
           performed_by?: string | null
           performed_date?: string
+          signed_off_at?: string | null
+          signed_off_by?: string | null
         }
         Relationships: [
           {
@@ -458,81 +1011,424 @@ export type Database = {
         }
         Relationships: []
       }
-      profiles: {
+      portal_invitations: {
+        Row: {
+          accepted_at: string | null
+          account_id: string | null
+          created_at: string
+          declined_at: string | null
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string | null
+          role: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          account_id?: string | null
+          created_at?: string
+          declined_at?: string | null
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string | null
+          role?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          account_id?: string | null
+          created_at?: string
+          declined_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string | null
+          role?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portal_invitations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "portal_invitations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "portal_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          display_name: string | null
+          email: string
+          id: string
+          is_super_admin: boolean
+          notification_preferences: Json | null
+          phone: string | null
+          share_location_on_shift: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          email: string
+          id?: string
+          is_super_admin?: boolean
+          notification_preferences?: Json | null
+          phone?: string | null
+          share_location_on_shift?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          email?: string
+          id?: string
+          is_super_admin?: boolean
+          notification_preferences?: Json | null
+          phone?: string | null
+          share_location_on_shift?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      proof_of_service_reports: {
+        Row: {
+          account_id: string
+          content_hash: string
+          created_at: string
+          generated_by: string | null
+          id: string
+          period_end: string
+          period_start: string
+          visit_count: number
+        }
+        Insert: {
+          account_id: string
+          content_hash: string
+          created_at?: string
+          generated_by?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          visit_count?: number
+        }
+        Update: {
+          account_id?: string
+          content_hash?: string
+          created_at?: string
+          generated_by?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          visit_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proof_of_service_reports_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proof_of_service_reports_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_sent_at: string | null
+          notification_types: string[]
+          p256dh: string
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_sent_at?: string | null
+          notification_types?: string[]
+          p256dh: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_sent_at?: string | null
+          notification_types?: string[]
+          p256dh?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      route_assignment_employees: {
+        Row: {
+          created_at: string
+          employee_id: string
+          id: string
+          route_assignment_id: string
+        }
+        Insert: {
+          created_at?: string
+          employee_id: string
+          id?: string
+          route_assignment_id: string
+        }
+        Update: {
+          created_at?: string
+          employee_id?: string
+          id?: string
+          route_assignment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_assignment_employees_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_assignment_employees_route_assignment_id_fkey"
+            columns: ["route_assignment_id"]
+            isOneToOne: false
+            referencedRelation: "route_assignments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      route_assignments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          equipment_id: string | null
+          id: string
+          notes: string | null
+          route_date: string
+          route_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          equipment_id?: string | null
+          id?: string
+          notes?: string | null
+          route_date: string
+          route_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          equipment_id?: string | null
+          id?: string
+          notes?: string | null
+          route_date?: string
+          route_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_assignments_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_assignments_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "routes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      route_stops: {
+        Row: {
+          account_id: string
+          created_at: string
+          id: string
+          route_id: string
+          stop_order: number
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          id?: string
+          route_id: string
+          stop_order: number
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          id?: string
+          route_id?: string
+          stop_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_stops_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_stops_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_stops_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "routes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      routes: {
         Row: {
-          avatar_url: string | null
           created_at: string
-          display_name: string | null
-          email: string
+          created_by: string | null
+          default_equipment_id: string | null
           id: string
-          is_super_admin: boolean
-          notification_preferences: Json | null
-          phone: string | null
+          is_active: boolean
+          name: string
+          notes: string | null
+          service_type: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          avatar_url?: string | null
           created_at?: string
-          display_name?: string | null
-          email: string
+          created_by?: string | null
+          default_equipment_id?: string | null
           id?: string
-          is_super_admin?: boolean
-          notification_preferences?: Json | null
-          phone?: string | null
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          service_type?: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          avatar_url?: string | null
           created_at?: string
-          display_name?: string | null
-          email?: string
+          created_by?: string | null
+          default_equipment_id?: string | null
           id?: string
-          is_super_admin?: boolean
-          notification_preferences?: Json | null
-          phone?: string | null
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          service_type?: string
           updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "routes_default_equipment_id_fkey"
+            columns: ["default_equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       service_requests: {
         Row: {
           account_id: string
+          assigned_to: string | null
           completed_at: string | null
           created_at: string
           description: string
           id: string
+          photo_url: string | null
           priority: string | null
           request_type: string
           requested_by: string | null
+          responded_at: string | null
           response: string | null
           status: string
           updated_at: string
         }
         Insert: {
           account_id: string
+          assigned_to?: string | null
           completed_at?: string | null
           created_at?: string
           description: string
           id?: string
+          photo_url?: string | null
           priority?: string | null
           request_type: string
           requested_by?: string | null
+          responded_at?: string | null
           response?: string | null
           status?: string
           updated_at?: string
         }
         Update: {
           account_id?: string
+          assigned_to?: string | null
           completed_at?: string | null
           created_at?: string
           description?: string
           id?: string
+          photo_url?: string | null
           priority?: string | null
           request_type?: string
           requested_by?: string | null
+          responded_at?: string | null
           response?: string | null
           status?: string
           updated_at?: string
@@ -552,6 +1448,13 @@ export type Database = {
             referencedRelation: "accounts_secure"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "service_requests_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
         ]
       }
       settings: {
@@ -635,6 +1538,7 @@ export type Database = {
           salt_used: number | null
           service_type: string
           snow_depth: number | null
+          storm_event_id: string | null
           temperature: number | null
           updated_at: string
           weather_description: string | null
@@ -654,6 +1558,7 @@ export type Database = {
           salt_used?: number | null
           service_type: string
           snow_depth?: number | null
+          storm_event_id?: string | null
           temperature?: number | null
           updated_at?: string
           weather_description?: string | null
@@ -673,6 +1578,7 @@ export type Database = {
           salt_used?: number | null
           service_type?: string
           snow_depth?: number | null
+          storm_event_id?: string | null
           temperature?: number | null
           updated_at?: string
           weather_description?: string | null
@@ -693,10 +1599,116 @@ export type Database = {
             referencedRelation: "accounts_secure"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shovel_work_logs_storm_event_id_fkey"
+            columns: ["storm_event_id"]
+            isOneToOne: false
+            referencedRelation: "storm_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      storm_account_services: {
+        Row: {
+          account_id: string
+          breach_notified_at: string | null
+          created_at: string
+          deadline_at: string
+          first_serviced_at: string | null
+          id: string
+          priority: string
+          storm_event_id: string
+          updated_at: string
+          warning_notified_at: string | null
+        }
+        Insert: {
+          account_id: string
+          breach_notified_at?: string | null
+          created_at?: string
+          deadline_at: string
+          first_serviced_at?: string | null
+          id?: string
+          priority: string
+          storm_event_id: string
+          updated_at?: string
+          warning_notified_at?: string | null
+        }
+        Update: {
+          account_id?: string
+          breach_notified_at?: string | null
+          created_at?: string
+          deadline_at?: string
+          first_serviced_at?: string | null
+          id?: string
+          priority?: string
+          storm_event_id?: string
+          updated_at?: string
+          warning_notified_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "storm_account_services_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "storm_account_services_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_secure"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "storm_account_services_storm_event_id_fkey"
+            columns: ["storm_event_id"]
+            isOneToOne: false
+            referencedRelation: "storm_events"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      storm_events: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_time: string | null
+          id: string
+          name: string
+          notes: string | null
+          start_time: string
+          total_snowfall: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_time?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          start_time: string
+          total_snowfall?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_time?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          start_time?: string
+          total_snowfall?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       time_clock: {
         Row: {
+          auto_closed: boolean
+          break_minutes: number
           clock_in_latitude: number | null
           clock_in_longitude: number | null
           clock_in_time: string
@@ -707,9 +1719,16 @@ export type Database = {
           duration_minutes: number | null
           employee_id: string
           id: string
+          missed_clock_out_at: string | null
           notes: string | null
+          review_required: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          storm_event_id: string | null
         }
         Insert: {
+          auto_closed?: boolean
+          break_minutes?: number
           clock_in_latitude?: number | null
           clock_in_longitude?: number | null
           clock_in_time: string
@@ -720,9 +1739,16 @@ export type Database = {
           duration_minutes?: number | null
           employee_id: string
           id?: string
+          missed_clock_out_at?: string | null
           notes?: string | null
+          review_required?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          storm_event_id?: string | null
         }
         Update: {
+          auto_closed?: boolean
+          break_minutes?: number
           clock_in_latitude?: number | null
           clock_in_longitude?: number | null
           clock_in_time?: string
@@ -733,7 +1759,12 @@ export type Database = {
           duration_minutes?: number | null
           employee_id?: string
           id?: string
+          missed_clock_out_at?: string | null
           notes?: string | null
+          review_required?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          storm_event_id?: string | null
         }
         Relationships: [
           {
@@ -743,6 +1774,98 @@ export type Database = {
             referencedRelation: "employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "time_clock_storm_event_id_fkey"
+            columns: ["storm_event_id"]
+            isOneToOne: false
+            referencedRelation: "storm_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      time_clock_breaks: {
+        Row: {
+          break_end: string | null
+          break_start: string
+          created_at: string
+          id: string
+          time_clock_id: string
+        }
+        Insert: {
+          break_end?: string | null
+          break_start?: string
+          created_at?: string
+          id?: string
+          time_clock_id: string
+        }
+        Update: {
+          break_end?: string | null
+          break_start?: string
+          created_at?: string
+          id?: string
+          time_clock_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_clock_breaks_time_clock_id_fkey"
+            columns: ["time_clock_id"]
+            isOneToOne: false
+            referencedRelation: "time_clock"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheet_approvals: {
+        Row: {
+          approved_at: string
+          approved_by: string | null
+          break_minutes: number
+          created_at: string
+          employee_id: string
+          id: string
+          overtime_minutes: number
+          period_end: string
+          period_start: string
+          regular_minutes: number
+          shift_count: number
+          storm_premiums: Json
+        }
+        Insert: {
+          approved_at?: string
+          approved_by?: string | null
+          break_minutes?: number
+          created_at?: string
+          employee_id: string
+          id?: string
+          overtime_minutes?: number
+          period_end: string
+          period_start: string
+          regular_minutes?: number
+          shift_count?: number
+          storm_premiums?: Json
+        }
+        Update: {
+          approved_at?: string
+          approved_by?: string | null
+          break_minutes?: number
+          created_at?: string
+          employee_id?: string
+          id?: string
+          overtime_minutes?: number
+          period_end?: string
+          period_start?: string
+          regular_minutes?: number
+          shift_count?: number
+          storm_premiums?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheet_approvals_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -768,43 +1891,52 @@ export type Database = {
       }
       weather_forecasts: {
         Row: {
+          alert_kinds: string[]
           alerts: string[] | null
           created_at: string
           created_by: string | null
           description: string | null
+          fetched_at: string | null
           forecast_date: string
           id: string
           snow_amount_max: number | null
           snow_amount_min: number | null
           snow_chance: number | null
+          source: string
           temperature_high: number | null
           temperature_low: number | null
           updated_at: string
         }
         Insert: {
+          alert_kinds?: string[]
           alerts?: string[] | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          fetched_at?: string | null
           forecast_date: string
           id?: string
           snow_amount_max?: number | null
           snow_amount_min?: number | null
           snow_chance?: number | null
+          source?: string
           temperature_high?: number | null
           temperature_low?: number | null
           updated_at?: string
         }
         Update: {
+          alert_kinds?: string[]
           alerts?: string[] | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          fetched_at?: string | null
           forecast_date?: string
           id?: string
           snow_amount_max?: number | null
           snow_amount_min?: number | null
           snow_chance?: number | null
+          source?: string
           temperature_high?: number | null
           temperature_low?: number | null
           updated_at?: string
@@ -883,6 +2015,75 @@ export type Database = {
           },
         ]
       }
+      work_log_photos: {
+        Row: {
+          accuracy: number | null
+          created_at: string
+          height: number | null
+          id: string
+          latitude: number | null
+          location_source: string | null
+          longitude: number | null
+          shovel_work_log_id: string | null
+          size_bytes: number | null
+          stage: string
+          storage_path: string
+          taken_at: string
+          uploaded_by: string | null
+          width: number | null
+          work_log_id: string | null
+        }
+        Insert: {
+          accuracy?: number | null
+          created_at?: string
+          height?: number | null
+          id?: string
+          latitude?: number | null
+          location_source?: string | null
+          longitude?: number | null
+          shovel_work_log_id?: string | null
+          size_bytes?: number | null
+          stage?: string
+          storage_path: string
+          taken_at?: string
+          uploaded_by?: string | null
+          width?: number | null
+          work_log_id?: string | null
+        }
+        Update: {
+          accuracy?: number | null
+          created_at?: string
+          height?: number | null
+          id?: string
+          latitude?: number | null
+          location_source?: string | null
+          longitude?: number | null
+          shovel_work_log_id?: string | null
+          size_bytes?: number | null
+          stage?: string
+          storage_path?: string
+          taken_at?: string
+          uploaded_by?: string | null
+          width?: number | null
+          work_log_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_log_photos_shovel_work_log_id_fkey"
+            columns: ["shovel_work_log_id"]
+            isOneToOne: false
+            referencedRelation: "shovel_work_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_log_photos_work_log_id_fkey"
+            columns: ["work_log_id"]
+            isOneToOne: false
+            referencedRelation: "work_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       work_logs: {
         Row: {
           account_id: string
@@ -898,6 +2099,7 @@ export type Database = {
           salt_used: number | null
           service_type: string
           snow_depth: number | null
+          storm_event_id: string | null
           temperature: number | null
           updated_at: string
           weather_description: string | null
@@ -917,6 +2119,7 @@ export type Database = {
           salt_used?: number | null
           service_type: string
           snow_depth?: number | null
+          storm_event_id?: string | null
           temperature?: number | null
           updated_at?: string
           weather_description?: string | null
@@ -936,6 +2139,7 @@ export type Database = {
           salt_used?: number | null
           service_type?: string
           snow_depth?: number | null
+          storm_event_id?: string | null
           temperature?: number | null
           updated_at?: string
           weather_description?: string | null
@@ -956,6 +2160,13 @@ export type Database = {
             referencedRelation: "accounts_secure"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "work_logs_storm_event_id_fkey"
+            columns: ["storm_event_id"]
+            isOneToOne: false
+            referencedRelation: "storm_events"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -1023,9 +2234,68 @@ export type Database = {
         }
         Relationships: []
       }
+      crew_latest_locations: {
+        Row: {
+          accuracy: number | null
+          employee_id: string | null
+          latitude: number | null
+          longitude: number | null
+          recorded_at: string | null
+          time_clock_id: string | null
+        }
+        Insert: {
+          accuracy?: number | null
+          employee_id?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          recorded_at?: string | null
+          time_clock_id?: string | null
+        }
+        Update: {
+          accuracy?: number | null
+          employee_id?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          recorded_at?: string | null
+          time_clock_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_pings_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_pings_time_clock_id_fkey"
+            columns: ["time_clock_id"]
+            isOneToOne: false
+            referencedRelation: "time_clock"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      add_account_user: { Args: { _account_id: string; _email: string }; Returns: undefined }
+      approve_timesheet: { Args: { _break_minutes: number; _employee_id: string; _overtime_minutes: number; _period_end: string; _period_start: string; _regular_minutes: number; _shift_count: number; _storm_premiums?: Json }; Returns: string }
+      can_manage_account: { Args: { _account_id: string; _user_id: string }; Returns: boolean }
+      can_view_account_billing: { Args: { _account_id: string; _user_id: string }; Returns: boolean }
+      clock_in: { Args: { _accuracy?: number; _acknowledged?: boolean; _latitude?: number; _longitude?: number }; Returns: Json }
+      delete_expired_location_pings: { Args: never; Returns: number }
+      distance_meters: { Args: { _lat1: number; _lat2: number; _lng1: number; _lng2: number }; Returns: number }
+      evaluate_missed_clock_outs: { Args: never; Returns: undefined }
+      evaluate_storm_service_levels: { Args: { _storm_event_id: string }; Returns: undefined }
+      find_storm_event: { Args: { _from: string; _to: string }; Returns: string }
+      generate_invoice_number: { Args: never; Returns: string }
+      get_account_organization_role: { Args: { _account_id: string; _user_id: string }; Returns: string }
+      get_account_users: { Args: { _account_id: string }; Returns: { user_id: string; email: string; display_name: string; added_at: string }[] }
+      get_client_accounts: { Args: never; Returns: { account_id: string; organization_id: string; organization_name: string; access_role: string }[] }
       get_employee_id: { Args: { _user_id: string }; Returns: string }
+      get_my_portal_invitations: { Args: never; Returns: { id: string; account_name: string; organization_name: string; role: string; invited_by_name: string; created_at: string; expires_at: string }[] }
+      get_organization_members: { Args: { _organization_id: string }; Returns: { user_id: string; email: string; display_name: string; role: string; added_at: string }[] }
+      get_proof_of_service: { Args: { _account_id: string; _from: string; _to: string }; Returns: Json }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1033,9 +2303,35 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_account_user: { Args: { _account_id: string; _user_id: string }; Returns: boolean }
       is_admin_or_manager: { Args: { _user_id: string }; Returns: boolean }
+      is_organization_member: { Args: { _organization_id: string; _user_id: string }; Returns: boolean }
+      is_organization_owner: { Args: { _organization_id: string; _user_id: string }; Returns: boolean }
       is_staff: { Args: { _user_id: string }; Returns: boolean }
       is_super_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_timesheet_locked: { Args: { _at: string; _employee_id: string }; Returns: boolean }
+      last_work_log_check_out: { Args: { _after: string; _employee_id: string }; Returns: string }
+      link_storm_event_records: { Args: { _storm_event_id: string }; Returns: undefined }
+      location_ping_retention_days: { Args: never; Returns: number }
+      proof_of_service_data: { Args: { _account_id: string; _from: string; _to: string }; Returns: Json }
+      purge_expired_location_pings: { Args: never; Returns: number }
+      refresh_equipment_maintenance_dates: { Args: { _equipment_id: string }; Returns: undefined }
+      register_proof_of_service: { Args: { _account_id: string; _from: string; _photo_hashes: Json; _to: string; _user_id: string }; Returns: Json }
+      remove_account_user: { Args: { _account_id: string; _user_id: string }; Returns: undefined }
+      remove_organization_member: { Args: { _organization_id: string; _user_id: string }; Returns: undefined }
+      reopen_timesheet: { Args: { _approval_id: string; _reason: string }; Returns: undefined }
+      resolve_missed_clock_out: { Args: { _clock_out_time: string; _time_clock_id: string }; Returns: undefined }
+      respond_to_portal_invitation: { Args: { _accept: boolean; _invitation_id: string }; Returns: undefined }
+      review_contact_change_request: { Args: { _note?: string; _request_id: string; _status: string }; Returns: undefined }
+      run_current_storm_service_level_evaluations: { Args: never; Returns: undefined }
+      run_missed_clock_out_evaluation: { Args: never; Returns: undefined }
+      run_storm_service_level_evaluation: { Args: { _storm_event_id: string }; Returns: undefined }
+      service_level_hours: { Args: { _priority: string }; Returns: number }
+      set_account_location_from_gps: { Args: { _account_id: string; _accuracy: number; _latitude: number; _longitude: number }; Returns: undefined }
+      set_account_notifications: { Args: { _account_id: string; _notify_service_completed: boolean }; Returns: undefined }
+      set_organization_member: { Args: { _email: string; _organization_id: string; _role: string }; Returns: string }
+      set_organization_notifications: { Args: { _notify_service_completed: boolean; _organization_id: string }; Returns: undefined }
+      set_route_stops: { Args: { _account_ids: string[]; _route_id: string }; Returns: undefined }
     }
     Enums: {
       app_role: "admin" | "manager" | "driver" | "shovel_crew" | "client"
@@ -0,0 +1,73 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type AccountUser = Tables<'account_users'>;
+export type ContactChangeRequest = Tables<'account_contact_change_requests'>;
+export type ContactChangeStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface ContactDetails {
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+}
+
+export const CONTACT_CHANGE_STATUS_LABELS: Record<ContactChangeStatus, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Not approved',
+  cancelled: 'Cancelled',
+};
+
+export const CONTACT_FIELD_LABELS: Record<keyof ContactDetails, string> = {
+  contact_name: 'Contact name',
+  contact_email: 'Contact email',
+  contact_phone: 'Contact phone',
+};
+
+export const CONTACT_FIELDS = Object.keys(CONTACT_FIELD_LABELS) as (keyof ContactDetails)[];
+
+// Blank inputs clear a field rather than storing empty strings
+export const normalizeContactDetails = (details: ContactDetails): ContactDetails => ({
+  contact_name: details.contact_name?.trim() || null,
+  contact_email: details.contact_email?.trim().toLowerCase() || null,
+  contact_phone: details.contact_phone?.trim() || null,
+});
+
+export const contactDetailsChanged = (current: ContactDetails, proposed: ContactDetails) =>
+  CONTACT_FIELDS.some((field) => (current[field] ?? null) !== (proposed[field] ?? null));
+
+// Fields a request changes, with old and new values, for review screens
+export const diffContactChange = (request: ContactChangeRequest) =>
+  CONTACT_FIELDS.flatMap((field) => {
+    const previous = request[`previous_${field}` as const] ?? null;
+    const next = request[field] ?? null;
+    return previous === next ? [] : [{ field, label: CONTACT_FIELD_LABELS[field], previous, next }];
+  });
+
+export type ClientOrganization = Tables<'client_organizations'>;
+export type OrganizationRole = 'owner' | 'billing' | 'viewer';
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  billing: 'Billing',
+  viewer: 'Viewer',
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Everything, including requests and managing users',
+  billing: 'Service history and invoices',
+  viewer: 'Service history and site information',
+};
+
+export const ORGANIZATION_ROLES = Object.keys(ORGANIZATION_ROLE_LABELS) as OrganizationRole[];
+
+// One property a portal login can open. Direct account users are treated as
+// owners of that account; the database applies the same rules.
+export interface ClientAccountAccess {
+  account: Tables<'accounts'>;
+  organizationId: string | null;
+  organizationName: string | null;
+  role: OrganizationRole;
+}
+
+export const canManageClientAccount = (role: OrganizationRole) => role === 'owner';
+export const canViewClientBilling = (role: OrganizationRole) => role === 'owner' || role === 'billing';
@@ -0,0 +1,70 @@
+import { formatDistance } from '@/hooks/useGeolocation';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { EmployeeCategory } from '@/lib/supabase-types';
+
+export type ClockInZone = Tables<'clock_in_zones'>;
+
+export type ClockInPolicyAction = 'allow' | 'warn' | 'block';
+
+export interface ClockInZoneSettings {
+  // Active accounts with coordinates also count as zones
+  include_accounts: boolean;
+  account_radius_meters: number;
+  // What happens when an employee clocks in outside every zone or without GPS
+  policies: Record<EmployeeCategory, ClockInPolicyAction>;
+}
+
+export const CLOCK_IN_ZONE_SETTING_KEY = 'clock_in_zones';
+
+export const CLOCK_IN_POLICY_LABELS: Record<ClockInPolicyAction, string> = {
+  allow: 'Allow (record only)',
+  warn: 'Warn, then allow',
+  block: 'Block',
+};
+
+export const DEFAULT_CLOCK_IN_ZONE_RADIUS = 150;
+
+// Keep in step with public.clock_in()
+export const DEFAULT_CLOCK_IN_ZONE_SETTINGS: ClockInZoneSettings = {
+  include_accounts: true,
+  account_radius_meters: 200,
+  policies: { plow: 'allow', shovel: 'allow' },
+};
+
+const isPolicyAction = (value: unknown): value is ClockInPolicyAction =>
+  value === 'allow' || value === 'warn' || value === 'block';
+
+export const parseClockInZoneSettings = (value: Json | null | undefined): ClockInZoneSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_CLOCK_IN_ZONE_SETTINGS;
+  const raw = value as Record<string, unknown>;
+  const policies = (raw.policies && typeof raw.policies === 'object' ? raw.policies : {}) as Record<string, unknown>;
+  const defaults = DEFAULT_CLOCK_IN_ZONE_SETTINGS;
+
+  return {
+    include_accounts: typeof raw.include_accounts === 'boolean' ? raw.include_accounts : defaults.include_accounts,
+    account_radius_meters:
+      typeof raw.account_radius_meters === 'number' && raw.account_radius_meters > 0
+        ? raw.account_radius_meters
+        : defaults.account_radius_meters,
+    policies: {
+      plow: isPolicyAction(policies.plow) ? policies.plow : defaults.policies.plow,
+      shovel: isPolicyAction(policies.shovel) ? policies.shovel : defaults.policies.shovel,
+    },
+  };
+};
+
+// What public.clock_in() returns
+export interface ClockInResult {
+  status: 'clocked_in' | 'warning' | 'blocked';
+  time_clock_id?: string;
+  reason?: 'outside_zone' | 'no_gps' | null;
+  zone_name?: string | null;
+  distance_meters?: number | null;
+}
+
+export const describeClockInException = (result: ClockInResult) =>
+  result.reason === 'no_gps'
+    ? 'Your location is unavailable.'
+    : `You are ${formatDistance(result.distance_meters ?? 0)} from the nearest clock-in zone${
+        result.zone_name ? ` (${result.zone_name})` : ''
+      }.`;
@@ -0,0 +1,32 @@
+import { differenceInMinutes } from 'date-fns';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface ClockOutPolicy {
+  // Hours a shift can stay open before it counts as a missed clock-out
+  max_shift_hours: number;
+  // Close missed shifts at the employee's last work log check-out
+  auto_close: boolean;
+}
+
+export const CLOCK_OUT_POLICY_SETTING_KEY = 'clock_out_policy';
+
+// Keep in step with public.evaluate_missed_clock_outs()
+export const DEFAULT_CLOCK_OUT_POLICY: ClockOutPolicy = {
+  max_shift_hours: 14,
+  auto_close: false,
+};
+
+export const parseClockOutPolicy = (value: Json | null | undefined): ClockOutPolicy => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_CLOCK_OUT_POLICY;
+  const raw = value as Record<string, unknown>;
+  const defaults = DEFAULT_CLOCK_OUT_POLICY;
+
+  return {
+    max_shift_hours:
+      typeof raw.max_shift_hours === 'number' && raw.max_shift_hours > 0 ? raw.max_shift_hours : defaults.max_shift_hours,
+    auto_close: typeof raw.auto_close === 'boolean' ? raw.auto_close : defaults.auto_close,
+  };
+};
+
+export const isShiftOverdue = (clockInTime: string, policy: ClockOutPolicy, now = new Date()) =>
+  differenceInMinutes(now, new Date(clockInTime)) > policy.max_shift_hours * 60;
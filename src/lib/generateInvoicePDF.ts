@@ -0,0 +1,243 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { zipSync } from 'fflate';
+import { format } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  INVOICE_STATUS_LABELS,
+  calculateInvoiceTotal,
+  formatCurrency,
+  parseLineItems,
+  type InvoiceLetterhead,
+} from '@/lib/invoicing';
+import type { InvoiceStatus } from '@/lib/supabase-types';
+
+export type InvoiceBillTo = Pick<
+  Tables<'accounts'>,
+  'name' | 'address' | 'city' | 'state' | 'zip' | 'contact_name' | 'contact_email' | 'contact_phone'
+>;
+
+export type InvoicePDFData = {
+  invoice: Tables<'invoices'>;
+  account: InvoiceBillTo | null;
+  letterhead: InvoiceLetterhead;
+};
+
+const formatDate = (date: string | null): string => {
+  if (!date) return '-';
+  // Plain dates are local calendar days, not UTC midnights
+  return format(new Date(date.length === 10 ? `${date}T00:00:00` : date), 'MMM d, yyyy');
+};
+
+export const billToLines = (account: InvoiceBillTo | null): string[] => {
+  if (!account) return ['Unknown account'];
+  const cityLine = [account.city, [account.state, account.zip].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return [
+    account.name,
+    account.contact_name ? `Attn: ${account.contact_name}` : null,
+    account.address,
+    cityLine || null,
+    account.contact_email,
+    account.contact_phone,
+  ].filter((line): line is string => !!line);
+};
+
+const addLetterhead = (doc: jsPDF, data: InvoicePDFData): number => {
+  const { invoice, letterhead } = data;
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // Company block
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(letterhead.companyName || 'WinterWatch Pro', 14, 20);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100);
+  const companyLines = [
+    ...letterhead.address.split('\n'),
+    [letterhead.phone, letterhead.email].filter(Boolean).join(' | '),
+  ].filter((line) => line.trim());
+  companyLines.forEach((line, i) => doc.text(line, 14, 27 + i * 4.5));
+  doc.setTextColor(0);
+
+  // Invoice block
+  doc.setFontSize(22);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(59, 130, 246);
+  doc.text('INVOICE', pageWidth - 14, 20, { align: 'right' });
+  doc.setTextColor(0);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const meta = [
+    `Invoice #: ${invoice.invoice_number}`,
+    `Issued: ${formatDate(invoice.issued_date || invoice.created_at)}`,
+    `Due: ${formatDate(invoice.due_date)}`,
+    `Status: ${INVOICE_STATUS_LABELS[invoice.status as InvoiceStatus] ?? invoice.status}`,
+  ];
+  meta.forEach((line, i) => doc.text(line, pageWidth - 14, 28 + i * 5, { align: 'right' }));
+
+  return Math.max(27 + companyLines.length * 4.5, 28 + meta.length * 5) + 6;
+};
+
+const addFooter = (doc: jsPDF, companyName: string): void => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageCount = doc.internal.pages.length - 1;
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(128);
+    doc.text(
+      `Page ${i} of ${pageCount} | ${companyName || 'WinterWatch Pro'}`,
+      pageWidth / 2,
+      doc.internal.pageSize.getHeight() - 10,
+      { align: 'center' }
+    );
+  }
+  doc.setTextColor(0);
+};
+
+export const generateInvoicePDF = (data: InvoicePDFData): jsPDF => {
+  const { invoice, account, letterhead } = data;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let yPos = addLetterhead(doc, data);
+
+  // Bill to / service period
+  doc.setDrawColor(220);
+  doc.line(14, yPos - 3, pageWidth - 14, yPos - 3);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill To', 14, yPos + 3);
+  if (invoice.period_start && invoice.period_end) {
+    doc.text('Service Period', pageWidth - 14, yPos + 3, { align: 'right' });
+  }
+
+  doc.setFont('helvetica', 'normal');
+  const billTo = billToLines(account);
+  billTo.forEach((line, i) => doc.text(line, 14, yPos + 9 + i * 5));
+  if (invoice.period_start && invoice.period_end) {
+    doc.text(
+      `${formatDate(invoice.period_start)} - ${formatDate(invoice.period_end)}`,
+      pageWidth - 14,
+      yPos + 9,
+      { align: 'right' }
+    );
+  }
+  yPos += 9 + billTo.length * 5 + 4;
+
+  // Line items
+  const lineItems = parseLineItems(invoice.line_items);
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Date', 'Description', 'Qty', 'Unit Price', 'Amount']],
+    body: lineItems.map((item) => [
+      item.service_date ? format(new Date(item.service_date), 'MM/dd/yy') : '',
+      item.description,
+      String(item.quantity),
+      formatCurrency(item.unit_price),
+      formatCurrency(item.amount),
+    ]),
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [59, 130, 246], textColor: 255 },
+    alternateRowStyles: { fillColor: [245, 247, 250] },
+    columnStyles: {
+      0: { cellWidth: 22 },
+      2: { halign: 'right', cellWidth: 16 },
+      3: { halign: 'right', cellWidth: 26 },
+      4: { halign: 'right', cellWidth: 28 },
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+
+  // Totals
+  const subtotal = calculateInvoiceTotal(lineItems);
+  const taxRate = Number(invoice.tax_rate) || 0;
+  const total = Number(invoice.amount);
+  const amountDue = invoice.status === 'paid' || invoice.status === 'cancelled' ? 0 : total;
+  const totals: [string, string][] = [
+    ['Subtotal', formatCurrency(subtotal)],
+    ...(taxRate > 0 ? [[`Tax (${taxRate}%)`, formatCurrency(Number(invoice.tax_amount) || 0)] as [string, string]] : []),
+    ['Total', formatCurrency(total)],
+    ['Amount Due', formatCurrency(amountDue)],
+  ];
+
+  if (yPos + totals.length * 6 > doc.internal.pageSize.getHeight() - 30) {
+    doc.addPage();
+    yPos = 20;
+  }
+
+  if (invoice.status === 'paid') {
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(34, 197, 94);
+    doc.text(`PAID${invoice.paid_date ? ` ${formatDate(invoice.paid_date)}` : ''}`, 14, yPos);
+    doc.setTextColor(0);
+  }
+
+  doc.setFontSize(10);
+  totals.forEach(([label, value], i) => {
+    const isLast = i === totals.length - 1;
+    doc.setFont('helvetica', isLast ? 'bold' : 'normal');
+    doc.text(label, pageWidth - 60, yPos + i * 6);
+    doc.text(value, pageWidth - 14, yPos + i * 6, { align: 'right' });
+  });
+  yPos += totals.length * 6 + 4;
+
+  // Notes and payment instructions
+  const sections: [string, string][] = [
+    ['Notes', invoice.notes || ''],
+    ['Payment Instructions', letterhead.paymentInstructions],
+  ];
+  sections
+    .filter(([, text]) => text.trim())
+    .forEach(([title, text]) => {
+      const lines = doc.splitTextToSize(text, pageWidth - 28) as string[];
+      if (yPos + 8 + lines.length * 5 > doc.internal.pageSize.getHeight() - 20) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text(title, 14, yPos);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.text(lines, 14, yPos + 5);
+      yPos += 8 + lines.length * 5;
+    });
+
+  addFooter(doc, letterhead.companyName);
+  return doc;
+};
+
+export const getInvoicePDFFilename = (invoice: Pick<Tables<'invoices'>, 'invoice_number'>) =>
+  `${invoice.invoice_number.replace(/[^\w-]+/g, '_')}.pdf`;
+
+export const downloadInvoicePDF = (data: InvoicePDFData): void => {
+  generateInvoicePDF(data).save(getInvoicePDFFilename(data.invoice));
+};
+
+// Render every invoice and bundle the PDFs into a single zip download
+export const downloadInvoicesZip = (invoices: InvoicePDFData[], filename: string): void => {
+  const files: Record<string, Uint8Array> = {};
+  invoices.forEach((data) => {
+    const pdf = generateInvoicePDF(data).output('arraybuffer');
+    files[getInvoicePDFFilename(data.invoice)] = new Uint8Array(pdf);
+  });
+
+  // PDFs are already compressed, so store them as-is
+  const zipped = zipSync(files, { level: 0 });
+  const blob = new Blob([zipped], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
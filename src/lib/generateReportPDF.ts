@@ -1,6 +1,8 @@
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
+import { formatCoordinates, formatPhotoCoordinates, type ProofOfServiceReport } from '@/lib/proofOfService';
+import { WORK_PHOTO_STAGE_LABELS } from '@/lib/workPhotos';
 
 type WorkEntry = {
   id: string;
@@ -36,6 +38,7 @@ type ReportFilters = {
   selectedEmployee: string;
   selectedServiceType: string;
   selectedEquipment: string;
+  selectedStorm?: string | null;
 };
 
 type ReportData = {
@@ -65,7 +68,7 @@ const formatTime = (dateString: string | null): string => {
   return format(new Date(dateString), 'HH:mm');
 };
 
-const addHeader = (doc: jsPDF, title: string, data: ReportData): number => {
+const addHeader = (doc: jsPDF, title: string, period: { dateFrom: Date; dateTo: Date }): number => {
   const pageWidth = doc.internal.pageSize.getWidth();
   
   // Title
@@ -77,7 +80,7 @@ const addHeader = (doc: jsPDF, title: string, data: ReportData): number => {
   doc.setFontSize(12);
   doc.setFont('helvetica', 'normal');
   doc.text(
-    `Report Period: ${format(data.filters.dateFrom, 'MMM d, yyyy')} - ${format(data.filters.dateTo, 'MMM d, yyyy')}`,
+    `Report Period: ${format(period.dateFrom, 'MMM d, yyyy')} - ${format(period.dateTo, 'MMM d, yyyy')}`,
     pageWidth / 2,
     30,
     { align: 'center' }
@@ -92,7 +95,8 @@ const addHeader = (doc: jsPDF, title: string, data: ReportData): number => {
   return 45;
 };
 
-const addFooter = (doc: jsPDF): void => {
+// An optional note is printed on every page above the page number
+const addFooter = (doc: jsPDF, note?: string): void => {
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageCount = doc.internal.pages.length - 1;
   for (let i = 1; i <= pageCount; i++) {
@@ -105,12 +109,17 @@ const addFooter = (doc: jsPDF): void => {
       doc.internal.pageSize.getHeight() - 10,
       { align: 'center' }
     );
+    if (note) {
+      doc.setFontSize(6);
+      doc.text(note, pageWidth / 2, doc.internal.pageSize.getHeight() - 14, { align: 'center' });
+    }
   }
+  doc.setTextColor(0);
 };
 
 export const generateWorkLogsPDF = (data: ReportData): jsPDF => {
   const doc = new jsPDF();
-  let yPos = addHeader(doc, 'Work Logs Report', data);
+  let yPos = addHeader(doc, 'Work Logs Report', data.filters);
   const pageWidth = doc.internal.pageSize.getWidth();
 
   // Summary Stats Box
@@ -176,7 +185,7 @@ export const generateWorkLogsPDF = (data: ReportData): jsPDF => {
 
 export const generateTimeClockPDF = (data: ReportData): jsPDF => {
   const doc = new jsPDF();
-  let yPos = addHeader(doc, 'Time Clock Report', data);
+  let yPos = addHeader(doc, 'Time Clock Report', data.filters);
 
   // Calculate total hours
   const totalMinutes = data.timeClockEntries.reduce((sum, entry) => sum + (entry.duration_minutes || 0), 0);
@@ -220,10 +229,11 @@ export const generateTimeClockPDF = (data: ReportData): jsPDF => {
 export const generateFullReportPDF = (data: ReportData): jsPDF => {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
-  let yPos = addHeader(doc, 'Full Service Report', data);
+  let yPos = addHeader(doc, 'Full Service Report', data.filters);
 
   // Active filters
   const activeFilters: string[] = [];
+  if (data.filters.selectedStorm) activeFilters.push(`Storm: ${data.filters.selectedStorm}`);
   if (data.filters.logType !== 'all') activeFilters.push(`Type: ${data.filters.logType}`);
   if (data.filters.selectedAccount !== 'all') activeFilters.push(`Account: ${data.filters.selectedAccount}`);
   if (data.filters.selectedEmployee !== 'all') activeFilters.push(`Employee: ${data.filters.selectedEmployee}`);
@@ -327,6 +337,183 @@ export const generateFullReportPDF = (data: ReportData): jsPDF => {
   return doc;
 };
 
+const formatTemperature = (temperature: number | null): string =>
+  temperature != null ? `${temperature}°F` : '-';
+
+// One page per property and period with every visit, its GPS fix, weather
+// and salt, then the visit photos. The registered fingerprint is printed on
+// every page so an altered copy can be spotted.
+export const generateProofOfServicePDF = (report: ProofOfServiceReport): jsPDF => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let yPos = addHeader(doc, 'Proof of Service', { dateFrom: report.periodStart, dateTo: report.periodEnd });
+
+  const { account, visits } = report;
+  const address = [account.address, account.city, account.state].filter(Boolean).join(', ') + (account.zip ? ` ${account.zip}` : '');
+
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text(account.name, 14, yPos);
+  yPos += 6;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(address, 14, yPos);
+  yPos += 5;
+  if (account.latitude != null && account.longitude != null) {
+    doc.text(`Property location: ${account.latitude.toFixed(5)}, ${account.longitude.toFixed(5)}`, 14, yPos);
+    yPos += 5;
+  }
+  yPos += 3;
+
+  // Summary Stats Box
+  const totalSalt = visits.reduce((sum, visit) => sum + (Number(visit.salt_used) || 0), 0);
+  const withGps = visits.filter((visit) => visit.check_in_location).length;
+  const photoCount = visits.reduce(
+    (sum, visit) => sum + (visit.photo ? 1 : 0) + visit.photos.filter((photo) => photo.image).length,
+    0
+  );
+  doc.setFillColor(240, 240, 240);
+  doc.roundedRect(14, yPos, pageWidth - 28, 20, 3, 3, 'F');
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  const statsY = yPos + 13;
+  const colWidth = (pageWidth - 28) / 4;
+  doc.text(`Visits: ${visits.length}`, 14 + colWidth * 0.5, statsY, { align: 'center' });
+  doc.text(`With GPS: ${withGps}`, 14 + colWidth * 1.5, statsY, { align: 'center' });
+  doc.text(`Photos: ${photoCount}`, 14 + colWidth * 2.5, statsY, { align: 'center' });
+  doc.text(`Salt: ${totalSalt}lb`, 14 + colWidth * 3.5, statsY, { align: 'center' });
+  yPos += 28;
+
+  doc.setFontSize(14);
+  doc.text(`Service Visits (${visits.length})`, 14, yPos);
+  yPos += 6;
+
+  if (visits.length > 0) {
+    autoTable(doc, {
+      startY: yPos,
+      head: [['#', 'Date', 'In', 'Out', 'Service', 'GPS at Check-In', 'Weather', 'Temp', 'Snow', 'Salt', 'Crew']],
+      body: visits.map((visit, index) => [
+        String(index + 1),
+        format(new Date(visit.check_in_time), 'MM/dd/yy'),
+        formatTime(visit.check_in_time),
+        formatTime(visit.check_out_time),
+        `${visit.log_type === 'plow' ? 'Plow' : 'Shovel'} - ${visit.service_type}`,
+        formatCoordinates(visit.check_in_location),
+        visit.weather_description || '-',
+        formatTemperature(visit.temperature),
+        visit.snow_depth != null ? `${visit.snow_depth}"` : '-',
+        visit.salt_used ? `${visit.salt_used}lb` : '-',
+        visit.crew.join(', ') || '-',
+      ]),
+      styles: { fontSize: 7, cellPadding: 1.5 },
+      headStyles: { fillColor: [59, 130, 246], textColor: 255 },
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+      margin: { left: 14, right: 14, bottom: 20 },
+      columnStyles: {
+        5: { cellWidth: 32 },
+        10: { cellWidth: 24 },
+      },
+    });
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 12;
+  } else {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text('No service visits were recorded for this property in the selected period.', 14, yPos + 10);
+    yPos += 20;
+  }
+
+  // Photos, two to a page, each captioned with its visit, stage and GPS fix
+  const photoEntries = visits.flatMap((visit, index) => {
+    const visitLocation = formatCoordinates(visit.check_out_location ?? visit.check_in_location);
+    return [
+      ...(visit.photo ? [{ visit, number: index + 1, stage: '', photo: visit.photo, location: visitLocation }] : []),
+      ...visit.photos
+        .filter((photo) => photo.image)
+        .map((photo) => ({
+          visit,
+          number: index + 1,
+          stage: ` - ${WORK_PHOTO_STAGE_LABELS[photo.stage] ?? photo.stage}`,
+          photo: photo.image!,
+          location: formatPhotoCoordinates(photo) ?? visitLocation,
+        })),
+    ];
+  });
+  if (photoEntries.length > 0) {
+    doc.addPage();
+    yPos = 20;
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Service Photos', 14, yPos);
+    yPos += 8;
+
+    const maxWidth = pageWidth - 28;
+    const maxHeight = (pageHeight - 60) / 2 - 14;
+    photoEntries.forEach(({ visit, number, stage, photo, location }) => {
+      const scale = Math.min(maxWidth / photo.width, maxHeight / photo.height);
+      const width = photo.width * scale;
+      const height = photo.height * scale;
+      if (yPos + height + 14 > pageHeight - 20) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`Visit #${number}${stage} - ${format(new Date(visit.check_in_time), 'MMM d, yyyy h:mm a')}`, 14, yPos);
+      doc.setFont('helvetica', 'normal');
+      doc.text(location, pageWidth - 14, yPos, { align: 'right' });
+      yPos += 3;
+      doc.addImage(photo.dataUrl, 'JPEG', 14, yPos, width, height);
+      yPos += height + 4;
+      doc.setFontSize(6);
+      doc.setTextColor(100);
+      doc.text(`Original file SHA-256: ${photo.sha256}`, 14, yPos);
+      doc.setTextColor(0);
+      yPos += 8;
+    });
+  }
+
+  // Verification block
+  if (yPos + 40 > pageHeight - 20) {
+    doc.addPage();
+    yPos = 20;
+  }
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Verification', 14, yPos);
+  yPos += 6;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Report ID: ${report.reportId}`, 14, yPos);
+  yPos += 5;
+  doc.text(`Issued: ${format(report.generatedAt, 'MMM d, yyyy h:mm:ss a')}`, 14, yPos);
+  yPos += 5;
+  doc.setFont('courier', 'normal');
+  doc.text(`SHA-256: ${report.contentHash}`, 14, yPos);
+  doc.setFont('helvetica', 'normal');
+  yPos += 6;
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  const explanation = doc.splitTextToSize(
+    'This fingerprint was computed by our server from the stored records and original photo files, and registered with the ' +
+      'report ID when the report was issued. It covers every visit record, GPS fix, weather reading and original photo above. ' +
+      'Regenerating the report for the same property and period produces the same fingerprint unless a record or photo has ' +
+      'changed since.',
+    pageWidth - 28
+  );
+  doc.text(explanation, 14, yPos);
+  doc.setTextColor(0);
+
+  addFooter(doc, `Report ${report.reportId} | SHA-256 ${report.contentHash}`);
+  return doc;
+};
+
+export const downloadProofOfServicePDF = (report: ProofOfServiceReport): void => {
+  const slug = report.account.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const filename = `proof-of-service_${slug}_${format(report.periodStart, 'yyyy-MM-dd')}_to_${format(report.periodEnd, 'yyyy-MM-dd')}.pdf`;
+  generateProofOfServicePDF(report).save(filename);
+};
+
 export const downloadReportPDF = (data: ReportData, type: ExportType = 'full'): void => {
   let doc: jsPDF;
   let prefix: string;
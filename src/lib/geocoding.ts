@@ -0,0 +1,194 @@
+import { calculateDistance } from '@/hooks/useGeolocation';
+
+export interface AddressQuery {
+  address: string;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  displayName: string;
+}
+
+// Anything that can turn an address into a point. Swap providers with
+// VITE_GEOCODER ('nominatim' or 'fixture') and VITE_GEOCODER_URL.
+export interface GeocodingProvider {
+  name: string;
+  // Minimum gap between requests; Nominatim's usage policy asks for 1/s
+  minIntervalMs: number;
+  geocode: (query: AddressQuery) => Promise<GeocodeResult | null>;
+}
+
+export const formatAddress = (query: AddressQuery) =>
+  [query.address, query.city, [query.state, query.zip].filter(Boolean).join(' ')]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(', ');
+
+const normalizeAddress = (query: AddressQuery) =>
+  formatAddress(query).toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Any Nominatim-compatible search endpoint (public Nominatim, a self-hosted
+// instance, or a proxy such as LocationIQ)
+export const createNominatimProvider = (
+  baseUrl = 'https://nominatim.openstreetmap.org',
+  email?: string
+): GeocodingProvider => ({
+  name: 'nominatim',
+  minIntervalMs: 1000,
+  geocode: async (query) => {
+    const params = new URLSearchParams({ format: 'jsonv2', limit: '1', q: formatAddress(query) });
+    if (email) params.set('email', email);
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/search?${params}`, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) throw new Error(`Geocoding failed (${response.status})`);
+
+    const results: { lat: string; lon: string; display_name: string }[] = await response.json();
+    if (results.length === 0) return null;
+    return {
+      latitude: parseFloat(results[0].lat),
+      longitude: parseFloat(results[0].lon),
+      displayName: results[0].display_name,
+    };
+  },
+});
+
+// Offline provider that answers from a fixed table, for tests and demos
+export const createFixtureProvider = (
+  fixtures: Record<string, { latitude: number; longitude: number }>
+): GeocodingProvider => {
+  const table = new Map(
+    Object.entries(fixtures).map(([address, point]) => [normalizeAddress({ address }), point])
+  );
+  return {
+    name: 'fixture',
+    minIntervalMs: 0,
+    geocode: async (query) => {
+      const key = normalizeAddress(query);
+      const point = table.get(key) ?? table.get(normalizeAddress({ address: query.address }));
+      return point ? { ...point, displayName: formatAddress(query) } : null;
+    },
+  };
+};
+
+export const GEOCODING_FIXTURES: Record<string, { latitude: number; longitude: number }> = {
+  '1 Main St, Springfield, IL 62701': { latitude: 39.8017, longitude: -89.6436 },
+  '100 State St, Madison, WI 53703': { latitude: 43.0747, longitude: -89.3871 },
+  '200 Snow Rd, Duluth, MN 55802': { latitude: 46.7867, longitude: -92.1005 },
+};
+
+let geocoder: GeocodingProvider | null = null;
+
+export const getGeocoder = (): GeocodingProvider => {
+  if (!geocoder) {
+    geocoder =
+      import.meta.env.VITE_GEOCODER === 'fixture'
+        ? createFixtureProvider(GEOCODING_FIXTURES)
+        : createNominatimProvider(import.meta.env.VITE_GEOCODER_URL || undefined, import.meta.env.VITE_GEOCODER_EMAIL);
+  }
+  return geocoder;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Geocode many addresses one after another at the provider's pace. Failures
+// come back as null so one bad row doesn't stop an import.
+export const geocodeMany = async (
+  queries: AddressQuery[],
+  onProgress?: (done: number, total: number) => void,
+  provider: GeocodingProvider = getGeocoder()
+): Promise<(GeocodeResult | null)[]> => {
+  const results: (GeocodeResult | null)[] = [];
+  for (let i = 0; i < queries.length; i++) {
+    if (i > 0 && provider.minIntervalMs > 0) await wait(provider.minIntervalMs);
+    try {
+      results.push(await provider.geocode(queries[i]));
+    } catch (error) {
+      console.error('Error geocoding address:', error);
+      results.push(null);
+    }
+    onProgress?.(i + 1, queries.length);
+  }
+  return results;
+};
+
+export type LocationIssue = 'missing' | 'out_of_range' | 'null_island' | 'low_precision' | 'outlier' | 'duplicate';
+
+export const LOCATION_ISSUE_LABELS: Record<LocationIssue, string> = {
+  missing: 'No coordinates',
+  out_of_range: 'Coordinates out of range',
+  null_island: 'Pinned at 0, 0',
+  low_precision: 'Too few decimal places',
+  outlier: 'Far from every other account',
+  duplicate: 'Same pin as another address',
+};
+
+interface LocatedAccount {
+  id: string;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Accounts this far from the middle of the service area are probably
+// geocoded to the wrong town
+const OUTLIER_DISTANCE_METERS = 100000;
+
+const decimals = (value: number) => (value.toString().split('.')[1] ?? '').length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Coordinate problems per account id; accounts with none are left out
+export const findLocationIssues = <T extends LocatedAccount>(accounts: T[]): Map<string, LocationIssue[]> => {
+  const issues = new Map<string, LocationIssue[]>();
+  const add = (id: string, issue: LocationIssue) => issues.set(id, [...(issues.get(id) ?? []), issue]);
+
+  const located = accounts.filter((account) => {
+    const { latitude, longitude } = account;
+    if (latitude === null || longitude === null) {
+      add(account.id, 'missing');
+      return false;
+    }
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      add(account.id, 'out_of_range');
+      return false;
+    }
+    if (Math.abs(latitude) < 0.01 && Math.abs(longitude) < 0.01) {
+      add(account.id, 'null_island');
+      return false;
+    }
+    // Under 3 decimals is only good to ~100 m, not enough for a geofence
+    if (decimals(latitude) < 3 || decimals(longitude) < 3) add(account.id, 'low_precision');
+    return true;
+  });
+
+  if (located.length >= 3) {
+    const centerLat = median(located.map((account) => account.latitude!));
+    const centerLon = median(located.map((account) => account.longitude!));
+    for (const account of located) {
+      if (calculateDistance(centerLat, centerLon, account.latitude!, account.longitude!) > OUTLIER_DISTANCE_METERS) {
+        add(account.id, 'outlier');
+      }
+    }
+  }
+
+  const byPoint = new Map<string, T[]>();
+  for (const account of located) {
+    const key = `${account.latitude!.toFixed(5)},${account.longitude!.toFixed(5)}`;
+    byPoint.set(key, [...(byPoint.get(key) ?? []), account]);
+  }
+  for (const group of byPoint.values()) {
+    const addresses = new Set(group.map((account) => account.address.trim().toLowerCase()));
+    if (addresses.size > 1) group.forEach((account) => add(account.id, 'duplicate'));
+  }
+
+  return issues;
+};
@@ -0,0 +1,120 @@
+import { calculateDistance } from '@/hooks/useGeolocation';
+import type { GPSPosition } from '@/lib/supabase-types';
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 100;
+export const DEFAULT_GEOFENCE_EXIT_BUFFER_METERS = 30;
+
+// Fixes worse than this are ignored entirely rather than risk a false event
+export const MAX_GEOFENCE_ACCURACY_METERS = 100;
+
+// How long a driver must stay inside a radius before an enter is confirmed
+export const GEOFENCE_ENTER_DWELL_MS = 15000;
+
+export interface GeofenceTarget {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius: number;
+  exitBuffer: number;
+}
+
+export interface GeofenceState {
+  insideAccountId: string | null;
+  candidateAccountId: string | null;
+  candidateSince: number | null;
+}
+
+export interface GeofenceTransition {
+  type: 'enter' | 'exit';
+  target: GeofenceTarget;
+  distance: number;
+  position: GPSPosition;
+}
+
+export const initialGeofenceState = (insideAccountId: string | null = null): GeofenceState => ({
+  insideAccountId,
+  candidateAccountId: null,
+  candidateSince: null,
+});
+
+type GeofenceAccount = {
+  id: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  geofence_radius_meters?: number | null;
+  geofence_exit_buffer_meters?: number | null;
+};
+
+export const toGeofenceTargets = (accounts: GeofenceAccount[]): GeofenceTarget[] =>
+  accounts
+    .filter((account) => account.latitude !== null && account.longitude !== null)
+    .map((account) => ({
+      id: account.id,
+      name: account.name,
+      latitude: account.latitude as number,
+      longitude: account.longitude as number,
+      radius: account.geofence_radius_meters ?? DEFAULT_GEOFENCE_RADIUS_METERS,
+      exitBuffer: account.geofence_exit_buffer_meters ?? DEFAULT_GEOFENCE_EXIT_BUFFER_METERS,
+    }));
+
+const distanceTo = (position: GPSPosition, target: GeofenceTarget) =>
+  calculateDistance(position.latitude, position.longitude, target.latitude, target.longitude);
+
+// Pure state machine for geofence enter/exit detection.
+// Enter requires the driver to stay within `radius` for the dwell period;
+// exit requires them to move beyond `radius + exitBuffer` (hysteresis).
+export const evaluateGeofence = (
+  state: GeofenceState,
+  position: GPSPosition,
+  targets: GeofenceTarget[],
+  now: number = Date.now()
+): { state: GeofenceState; transitions: GeofenceTransition[] } => {
+  if (position.accuracy > MAX_GEOFENCE_ACCURACY_METERS) {
+    return { state, transitions: [] };
+  }
+
+  const transitions: GeofenceTransition[] = [];
+  let next: GeofenceState = { ...state };
+
+  if (next.insideAccountId) {
+    const current = targets.find((t) => t.id === next.insideAccountId);
+    if (!current) {
+      next = initialGeofenceState();
+    } else {
+      const distance = distanceTo(position, current);
+      if (distance <= current.radius + current.exitBuffer) {
+        return { state: next, transitions };
+      }
+      transitions.push({ type: 'exit', target: current, distance, position });
+      next = initialGeofenceState();
+    }
+  }
+
+  let nearest: { target: GeofenceTarget; distance: number } | null = null;
+  for (const target of targets) {
+    const distance = distanceTo(position, target);
+    if (distance <= target.radius && (!nearest || distance < nearest.distance)) {
+      nearest = { target, distance };
+    }
+  }
+
+  if (!nearest) {
+    return { state: { ...next, candidateAccountId: null, candidateSince: null }, transitions };
+  }
+
+  if (next.candidateAccountId !== nearest.target.id || next.candidateSince === null) {
+    return {
+      state: { ...next, candidateAccountId: nearest.target.id, candidateSince: now },
+      transitions,
+    };
+  }
+
+  if (now - next.candidateSince >= GEOFENCE_ENTER_DWELL_MS) {
+    transitions.push({ type: 'enter', target: nearest.target, distance: nearest.distance, position });
+    return { state: initialGeofenceState(nearest.target.id), transitions };
+  }
+
+  return { state: next, transitions };
+};
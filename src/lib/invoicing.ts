@@ -0,0 +1,258 @@
+import { format, addDays } from 'date-fns';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { InvoiceStatus } from '@/lib/supabase-types';
+import { generateClientId } from '@/lib/offlineQueue';
+
+// Invoice building: turns an account's plow and shovel work logs into priced
+// line items. Line items keep a reference to the log they came from so the
+// same visit is never billed on two invoices.
+
+export type BillableService = 'plow' | 'salt' | 'shovel';
+export type RateBasis = 'per_visit' | 'per_hour';
+
+export interface ServiceRate {
+  basis: RateBasis;
+  rate: number;
+}
+
+export interface InvoicePricing {
+  plow: ServiceRate;
+  salt: ServiceRate;
+  shovel: ServiceRate;
+  // Charged per unit of salt_used on top of the salt application rate
+  saltPerUnit: number;
+  paymentTermsDays: number;
+  // Percentage applied to new invoices, e.g. 8.25
+  taxRate: number;
+}
+
+export const DEFAULT_INVOICE_PRICING: InvoicePricing = {
+  plow: { basis: 'per_visit', rate: 75 },
+  salt: { basis: 'per_visit', rate: 40 },
+  shovel: { basis: 'per_visit', rate: 50 },
+  saltPerUnit: 0,
+  paymentTermsDays: 30,
+  taxRate: 0,
+};
+
+export const INVOICE_PRICING_SETTING_KEY = 'invoice_pricing';
+
+// Company details printed on invoices; readable by clients (see settings RLS)
+export interface InvoiceLetterhead {
+  companyName: string;
+  address: string;
+  phone: string;
+  email: string;
+  paymentInstructions: string;
+}
+
+export const DEFAULT_INVOICE_LETTERHEAD: InvoiceLetterhead = {
+  companyName: 'WinterWatch Pro',
+  address: '',
+  phone: '',
+  email: '',
+  paymentInstructions: '',
+};
+
+export const INVOICE_LETTERHEAD_SETTING_KEY = 'invoice_letterhead';
+
+export interface InvoiceLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  service: BillableService | 'other';
+  service_date: string | null;
+  work_log_id: string | null;
+  shovel_work_log_id: string | null;
+  // Set on seasonal fee lines so a contract is only billed once
+  contract_id?: string | null;
+}
+
+export type BillableLogKind = 'plow' | 'shovel';
+
+export type BillableLog = Pick<
+  Tables<'work_logs'>,
+  'id' | 'service_type' | 'check_in_time' | 'check_out_time' | 'duration_minutes' | 'salt_used' | 'snow_depth'
+>;
+
+export const BILLABLE_LOG_COLUMNS = 'id, service_type, check_in_time, check_out_time, duration_minutes, salt_used, snow_depth';
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  paid: 'Paid',
+  overdue: 'Overdue',
+  cancelled: 'Cancelled',
+};
+
+// Allowed status changes; paid and cancelled invoices are final
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['paid', 'overdue', 'cancelled'],
+  overdue: ['paid', 'cancelled'],
+  paid: [],
+  cancelled: [],
+};
+
+export const canTransitionInvoice = (from: InvoiceStatus, to: InvoiceStatus) =>
+  INVOICE_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+
+export const SERVICE_LABELS: Record<BillableService, string> = {
+  plow: 'Plowing',
+  salt: 'Salting',
+  shovel: 'Shoveling',
+};
+
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const formatCurrency = (value: number) =>
+  `$${roundCurrency(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const createLineItem = (overrides: Partial<InvoiceLineItem> = {}): InvoiceLineItem => {
+  const { id, quantity = 1, unit_price = 0, ...rest } = overrides;
+  return {
+    description: '',
+    service: 'other',
+    service_date: null,
+    work_log_id: null,
+    shovel_work_log_id: null,
+    ...rest,
+    id: id || generateClientId(),
+    quantity,
+    unit_price,
+    amount: roundCurrency(quantity * unit_price),
+  };
+};
+
+// Services performed by a log: 'both' means plow+salt or shovel+salt
+export const servicesForLog = (kind: BillableLogKind, serviceType: string): BillableService[] => {
+  const primary: BillableService = kind === 'plow' ? 'plow' : 'shovel';
+  if (serviceType === 'both') return [primary, 'salt'];
+  if (serviceType === 'salt') return ['salt'];
+  return [primary];
+};
+
+export const logHours = (log: BillableLog) => {
+  const minutes = log.duration_minutes ?? (log.check_out_time
+    ? (new Date(log.check_out_time).getTime() - new Date(log.check_in_time).getTime()) / 60000
+    : 0);
+  // Bill in quarter hours, minimum one quarter
+  return Math.max(0.25, Math.ceil(Math.max(minutes, 0) / 15) / 4);
+};
+
+export const logSource = (kind: BillableLogKind, log: BillableLog) =>
+  kind === 'plow'
+    ? { work_log_id: log.id, shovel_work_log_id: null }
+    : { work_log_id: null, shovel_work_log_id: log.id };
+
+// Price a log with the company-wide default rates
+export const priceLogWithDefaults = (
+  kind: BillableLogKind,
+  log: BillableLog,
+  pricing: InvoicePricing
+): InvoiceLineItem[] => {
+  const serviceDate = log.check_in_time;
+  const dateLabel = format(new Date(serviceDate), 'MMM d, yyyy');
+  const source = logSource(kind, log);
+
+  const services = servicesForLog(kind, log.service_type);
+
+  const items = services.map((service) => {
+    const { basis, rate } = pricing[service];
+    const quantity = basis === 'per_hour' ? logHours(log) : 1;
+    return createLineItem({
+      description: `${SERVICE_LABELS[service]} – ${dateLabel}${basis === 'per_hour' ? ` (${quantity} hr)` : ''}`,
+      quantity,
+      unit_price: rate,
+      service,
+      service_date: serviceDate,
+      ...source,
+    });
+  });
+
+  if (services.includes('salt') && pricing.saltPerUnit > 0 && log.salt_used && log.salt_used > 0) {
+    items.push(createLineItem({
+      description: `Salt material – ${dateLabel}`,
+      quantity: log.salt_used,
+      unit_price: pricing.saltPerUnit,
+      service: 'salt',
+      service_date: serviceDate,
+      ...source,
+    }));
+  }
+
+  return items;
+};
+
+export type LogPricer = (kind: BillableLogKind, log: BillableLog) => InvoiceLineItem[];
+
+export const byServiceDate = (a: InvoiceLineItem, b: InvoiceLineItem) =>
+  (a.service_date ?? '').localeCompare(b.service_date ?? '');
+
+export const buildInvoiceLineItems = (
+  workLogs: BillableLog[],
+  shovelLogs: BillableLog[],
+  priceLog: LogPricer
+): InvoiceLineItem[] =>
+  [
+    ...workLogs.flatMap((log) => priceLog('plow', log)),
+    ...shovelLogs.flatMap((log) => priceLog('shovel', log)),
+  ].sort(byServiceDate);
+
+export const calculateInvoiceTotal = (items: InvoiceLineItem[]) =>
+  roundCurrency(items.reduce((sum, item) => sum + item.amount, 0));
+
+export const calculateInvoiceTotals = (items: InvoiceLineItem[], taxRate: number) => {
+  const subtotal = calculateInvoiceTotal(items);
+  const tax = roundCurrency(subtotal * (taxRate / 100));
+  return { subtotal, tax, total: roundCurrency(subtotal + tax) };
+};
+
+export const parseLineItems = (value: Json | null): InvoiceLineItem[] => {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown as Partial<InvoiceLineItem>[]).map((item) => createLineItem(item));
+};
+
+export const serializeLineItems = (items: InvoiceLineItem[]) => items as unknown as Json;
+
+// Work log and contract ids already billed on invoices that are still in effect
+export const collectBilledIds = (invoices: Pick<Tables<'invoices'>, 'status' | 'line_items'>[]) => {
+  const logIds = new Set<string>();
+  const contractIds = new Set<string>();
+  invoices
+    .filter((invoice) => invoice.status !== 'cancelled')
+    .forEach((invoice) => {
+      parseLineItems(invoice.line_items).forEach((item) => {
+        if (item.work_log_id) logIds.add(item.work_log_id);
+        if (item.shovel_work_log_id) logIds.add(item.shovel_work_log_id);
+        if (item.contract_id) contractIds.add(item.contract_id);
+      });
+    });
+  return { logIds, contractIds };
+};
+
+export const parseInvoicePricing = (value: Json | null | undefined): InvoicePricing => {
+  const stored = (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Partial<InvoicePricing>;
+  return {
+    plow: { ...DEFAULT_INVOICE_PRICING.plow, ...stored.plow },
+    salt: { ...DEFAULT_INVOICE_PRICING.salt, ...stored.salt },
+    shovel: { ...DEFAULT_INVOICE_PRICING.shovel, ...stored.shovel },
+    saltPerUnit: stored.saltPerUnit ?? DEFAULT_INVOICE_PRICING.saltPerUnit,
+    paymentTermsDays: stored.paymentTermsDays ?? DEFAULT_INVOICE_PRICING.paymentTermsDays,
+    taxRate: stored.taxRate ?? DEFAULT_INVOICE_PRICING.taxRate,
+  };
+};
+
+export const parseInvoiceLetterhead = (value: Json | null | undefined): InvoiceLetterhead => {
+  const stored = (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Partial<InvoiceLetterhead>;
+  return { ...DEFAULT_INVOICE_LETTERHEAD, ...stored };
+};
+
+export const defaultDueDate = (pricing: InvoicePricing, from: Date = new Date()) =>
+  format(addDays(from, pricing.paymentTermsDays), 'yyyy-MM-dd');
+
+// A sent invoice past its due date should be flagged even before someone marks it
+export const isPastDue = (invoice: Pick<Tables<'invoices'>, 'status' | 'due_date'>) =>
+  invoice.status === 'sent' && invoice.due_date < format(new Date(), 'yyyy-MM-dd');
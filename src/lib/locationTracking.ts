@@ -0,0 +1,139 @@
+import { differenceInMinutes } from 'date-fns';
+import { calculateDistance } from '@/hooks/useGeolocation';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { GPSPosition } from '@/lib/supabase-types';
+
+export type LocationPing = Tables<'location_pings'>;
+
+export interface LocationTrackingSettings {
+  // Minimum time between pings
+  interval_seconds: number;
+  // Skip a ping when the employee has moved less than this, except for the
+  // occasional heartbeat so idle time still shows in the replay
+  min_distance_meters: number;
+  // Pings older than this are deleted
+  retention_days: number;
+}
+
+export const LOCATION_TRACKING_SETTING_KEY = 'location_tracking';
+
+// Keep in step with public.location_ping_retention_days()
+export const DEFAULT_LOCATION_TRACKING_SETTINGS: LocationTrackingSettings = {
+  interval_seconds: 60,
+  min_distance_meters: 25,
+  retention_days: 30,
+};
+
+// Send a ping at least this many intervals apart even when standing still
+const HEARTBEAT_INTERVALS = 5;
+// Staying within this radius for this long counts as stopped
+const IDLE_RADIUS_METERS = 50;
+const IDLE_MIN_MINUTES = 5;
+
+export const parseLocationTrackingSettings = (value: Json | null | undefined): LocationTrackingSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_LOCATION_TRACKING_SETTINGS;
+  const raw = value as Record<string, unknown>;
+  const defaults = DEFAULT_LOCATION_TRACKING_SETTINGS;
+  const positive = (v: unknown, fallback: number) => (typeof v === 'number' && v > 0 ? v : fallback);
+
+  return {
+    interval_seconds: positive(raw.interval_seconds, defaults.interval_seconds),
+    min_distance_meters: positive(raw.min_distance_meters, defaults.min_distance_meters),
+    retention_days: positive(raw.retention_days, defaults.retention_days),
+  };
+};
+
+export const shouldRecordPing = (
+  last: GPSPosition | null,
+  next: GPSPosition,
+  settings: LocationTrackingSettings
+): boolean => {
+  if (!last) return true;
+  const elapsedSeconds = (next.timestamp - last.timestamp) / 1000;
+  if (elapsedSeconds < settings.interval_seconds) return false;
+  if (elapsedSeconds >= settings.interval_seconds * HEARTBEAT_INTERVALS) return true;
+  return calculateDistance(last.latitude, last.longitude, next.latitude, next.longitude) >= settings.min_distance_meters;
+};
+
+export interface TrailStop {
+  accountName: string;
+  checkIn: string;
+  checkOut: string | null;
+}
+
+export interface IdlePeriod {
+  latitude: number;
+  longitude: number;
+  start: string;
+  end: string;
+  minutes: number;
+}
+
+export interface TrailSummary {
+  distanceMeters: number;
+  // Stopped somewhere with no service logged
+  idlePeriods: IdlePeriod[];
+  idleMinutes: number;
+}
+
+const overlapsStop = (period: Pick<IdlePeriod, 'start' | 'end'>, stops: TrailStop[]) =>
+  stops.some((stop) => stop.checkIn < period.end && (stop.checkOut ?? period.end) > period.start);
+
+// Distance driven and unexplained stops along a shift's pings (oldest first)
+export const summarizeTrail = (
+  pings: Pick<LocationPing, 'latitude' | 'longitude' | 'recorded_at'>[],
+  stops: TrailStop[]
+): TrailSummary => {
+  let distanceMeters = 0;
+  for (let i = 1; i < pings.length; i++) {
+    distanceMeters += calculateDistance(pings[i - 1].latitude, pings[i - 1].longitude, pings[i].latitude, pings[i].longitude);
+  }
+
+  const idlePeriods: IdlePeriod[] = [];
+  let anchor = 0;
+  for (let i = 1; i <= pings.length; i++) {
+    const stillNear =
+      i < pings.length &&
+      calculateDistance(pings[anchor].latitude, pings[anchor].longitude, pings[i].latitude, pings[i].longitude) <=
+        IDLE_RADIUS_METERS;
+    if (stillNear) continue;
+
+    const last = pings[i - 1];
+    const minutes = differenceInMinutes(new Date(last.recorded_at), new Date(pings[anchor].recorded_at));
+    const period = {
+      latitude: pings[anchor].latitude,
+      longitude: pings[anchor].longitude,
+      start: pings[anchor].recorded_at,
+      end: last.recorded_at,
+      minutes,
+    };
+    if (minutes >= IDLE_MIN_MINUTES && !overlapsStop(period, stops)) idlePeriods.push(period);
+    anchor = i;
+  }
+
+  return {
+    distanceMeters,
+    idlePeriods,
+    idleMinutes: idlePeriods.reduce((sum, period) => sum + period.minutes, 0),
+  };
+};
+
+// Where the employee was at a moment, interpolated between the pings around it
+export const positionAt = (
+  pings: Pick<LocationPing, 'latitude' | 'longitude' | 'recorded_at'>[],
+  time: number
+): { latitude: number; longitude: number } | null => {
+  if (pings.length === 0) return null;
+  const times = pings.map((ping) => new Date(ping.recorded_at).getTime());
+  if (time <= times[0]) return pings[0];
+  for (let i = 1; i < pings.length; i++) {
+    if (time <= times[i]) {
+      const ratio = (time - times[i - 1]) / (times[i] - times[i - 1] || 1);
+      return {
+        latitude: pings[i - 1].latitude + (pings[i].latitude - pings[i - 1].latitude) * ratio,
+        longitude: pings[i - 1].longitude + (pings[i].longitude - pings[i - 1].longitude) * ratio,
+      };
+    }
+  }
+  return pings[pings.length - 1];
+};
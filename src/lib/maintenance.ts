@@ -0,0 +1,67 @@
+import { addDays, format } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import type { MaintenanceType } from '@/lib/supabase-types';
+
+export type MaintenanceLog = Tables<'maintenance_logs'>;
+
+export const DEFAULT_MAINTENANCE_INTERVAL_DAYS = 90;
+
+export const MAINTENANCE_TYPE_LABELS: Record<MaintenanceType, string> = {
+  routine: 'Routine',
+  repair: 'Repair',
+  inspection: 'Inspection',
+  other: 'Other',
+};
+
+// Plain dates are local calendar days, not UTC midnights
+export const parseLocalDate = (date: string): Date => new Date(`${date.slice(0, 10)}T00:00:00`);
+
+// Mirrors the roll-forward done by the sync_equipment_maintenance_dates trigger
+export const nextMaintenanceDate = (performedDate: string, intervalDays: number | null): string =>
+  format(addDays(parseLocalDate(performedDate), intervalDays ?? DEFAULT_MAINTENANCE_INTERVAL_DAYS), 'yyyy-MM-dd');
+
+export const isMaintenanceOverdue = (nextDate: string | null, today = new Date()): boolean => {
+  if (!nextDate) return false;
+  return parseLocalDate(nextDate) < parseLocalDate(format(today, 'yyyy-MM-dd'));
+};
+
+// Snow seasons run July 1 – June 30 and are labelled by their start year, e.g. "2025–26"
+export const seasonStartYear = (date: string): number => {
+  const day = parseLocalDate(date);
+  return day.getMonth() >= 6 ? day.getFullYear() : day.getFullYear() - 1;
+};
+
+export const formatSeason = (startYear: number): string =>
+  `${startYear}–${String((startYear + 1) % 100).padStart(2, '0')}`;
+
+export interface MaintenanceCostSummary {
+  total: number;
+  byEquipment: Record<string, number>;
+  bySeason: { season: number; label: string; total: number; count: number }[];
+}
+
+export const summarizeMaintenanceCosts = (
+  logs: Pick<MaintenanceLog, 'equipment_id' | 'performed_date' | 'cost'>[]
+): MaintenanceCostSummary => {
+  const byEquipment: Record<string, number> = {};
+  const seasons = new Map<number, { total: number; count: number }>();
+  let total = 0;
+
+  logs.forEach((log) => {
+    const cost = Number(log.cost) || 0;
+    total += cost;
+    byEquipment[log.equipment_id] = (byEquipment[log.equipment_id] || 0) + cost;
+
+    const season = seasonStartYear(log.performed_date);
+    const entry = seasons.get(season) || { total: 0, count: 0 };
+    seasons.set(season, { total: entry.total + cost, count: entry.count + 1 });
+  });
+
+  return {
+    total,
+    byEquipment,
+    bySeason: [...seasons.entries()]
+      .sort(([a], [b]) => b - a)
+      .map(([season, entry]) => ({ season, label: formatSeason(season), ...entry })),
+  };
+};
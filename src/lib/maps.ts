@@ -0,0 +1,62 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Tile server for the maps. Any XYZ tile URL works, so a self-hosted server
+// (e.g. tileserver-gl) can replace the public OpenStreetMap tiles.
+export interface MapTileSettings {
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+export const MAP_TILE_SETTING_KEY = 'map_tiles';
+
+export const DEFAULT_MAP_TILE_SETTINGS: MapTileSettings = {
+  url: import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19,
+};
+
+export const parseMapTileSettings = (value: Json | null | undefined): MapTileSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_MAP_TILE_SETTINGS;
+  const raw = value as Record<string, unknown>;
+  const defaults = DEFAULT_MAP_TILE_SETTINGS;
+
+  return {
+    url: typeof raw.url === 'string' && raw.url.includes('{z}') ? raw.url : defaults.url,
+    attribution: typeof raw.attribution === 'string' ? raw.attribution : defaults.attribution,
+    maxZoom: typeof raw.maxZoom === 'number' && raw.maxZoom > 0 ? raw.maxZoom : defaults.maxZoom,
+  };
+};
+
+// Where an account stands today, for pin colors
+export type AccountServiceStatus = 'serviced' | 'in_progress' | 'pending' | 'overdue';
+
+export const ACCOUNT_SERVICE_STATUS_LABELS: Record<AccountServiceStatus, string> = {
+  serviced: 'Serviced today',
+  in_progress: 'In progress',
+  pending: 'Not yet serviced',
+  overdue: 'Past deadline',
+};
+
+// Hex colors because Leaflet draws pins outside of Tailwind
+export const ACCOUNT_SERVICE_STATUS_COLORS: Record<AccountServiceStatus, string> = {
+  serviced: '#22c55e',
+  in_progress: '#0ea5e9',
+  pending: '#94a3b8',
+  overdue: '#ef4444',
+};
+
+// Combine today's plow and shovel logs into one status per account; an open
+// log (no check-out yet) wins over a finished one
+export const buildAccountServiceStatus = (
+  logs: { account_id: string; check_out_time: string | null }[],
+  overdueAccountIds: Set<string> = new Set()
+): Map<string, AccountServiceStatus> => {
+  const status = new Map<string, AccountServiceStatus>();
+  overdueAccountIds.forEach((accountId) => status.set(accountId, 'overdue'));
+  for (const log of logs) {
+    if (!log.check_out_time) status.set(log.account_id, 'in_progress');
+    else if (status.get(log.account_id) !== 'in_progress') status.set(log.account_id, 'serviced');
+  }
+  return status;
+};
@@ -0,0 +1,308 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import {
+  WORK_PHOTO_BUCKET,
+  buildWorkPhotoPath,
+  pickCoverPhoto,
+  type CapturedWorkPhoto,
+} from '@/lib/workPhotos';
+
+// IndexedDB-backed outbox for service logs recorded without a connection.
+// Every record carries a client-generated work log id so a replay that was
+// interrupted half way (e.g. log inserted, links not) can safely run again.
+
+const DB_NAME = 'winterwatch-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'serviceLogOutbox';
+
+export const OUTBOX_CHANGED_EVENT = 'winterwatch:outbox-changed';
+
+export type ServiceLogKind = 'plow' | 'shovel';
+
+export interface QueuedPhoto {
+  blob: Blob;
+  name: string;
+}
+
+export interface QueuedWorkPhoto extends CapturedWorkPhoto {
+  path: string;
+}
+
+export interface QueuedServiceLog {
+  id: string;
+  kind: ServiceLogKind;
+  queuedAt: string;
+  accountName: string | null;
+  workLog: TablesInsert<'work_logs'> | TablesInsert<'shovel_work_logs'>;
+  // Single photo on records queued before multi-photo capture
+  photo?: QueuedPhoto | null;
+  photos?: QueuedWorkPhoto[];
+  employeeIds: string[];
+  equipmentIds: string[];
+  geofenceEventIds?: string[];
+  attempts: number;
+  lastError: string | null;
+  // Rejected by the server (RLS, a missing row, a check); parked until the
+  // user retries or discards it so it doesn't hold up the rest
+  failed?: boolean;
+}
+
+export type NewServiceLog = Omit<
+  QueuedServiceLog,
+  'id' | 'queuedAt' | 'attempts' | 'lastError' | 'failed' | 'workLog' | 'photo' | 'photos'
+> & {
+  workLog: Omit<QueuedServiceLog['workLog'], 'id' | 'photo_url'>;
+  photos: CapturedWorkPhoto[];
+};
+
+export const generateClientId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  // Fallback for older WebViews without crypto.randomUUID
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+};
+
+// Build a full record with a stable id and deterministic photo paths
+export const createServiceLogRecord = (input: NewServiceLog): QueuedServiceLog => {
+  const id = generateClientId();
+  const photos = input.photos.map((photo) => ({ ...photo, path: buildWorkPhotoPath(input.kind, id, photo.id) }));
+
+  return {
+    ...input,
+    id,
+    photos,
+    queuedAt: new Date().toISOString(),
+    workLog: { ...input.workLog, id, photo_url: pickCoverPhoto(photos)?.path ?? null } as QueuedServiceLog['workLog'],
+    attempts: 0,
+    lastError: null,
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('queuedAt', 'queuedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyChanged = () => {
+  window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+};
+
+export const enqueueServiceLog = async (record: QueuedServiceLog): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(record));
+  notifyChanged();
+};
+
+export const getQueuedServiceLogs = async (): Promise<QueuedServiceLog[]> => {
+  const records = await withStore<QueuedServiceLog[]>('readonly', (store) =>
+    store.index('queuedAt').getAll()
+  );
+  return records ?? [];
+};
+
+export const removeServiceLog = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+  notifyChanged();
+};
+
+const updateServiceLog = async (record: QueuedServiceLog): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(record));
+  notifyChanged();
+};
+
+// Put a failed record back in line for the next flush
+export const retryServiceLog = async (id: string): Promise<void> => {
+  const record = await withStore<QueuedServiceLog | undefined>('readonly', (store) => store.get(id));
+  if (record) await updateServiceLog({ ...record, failed: false, lastError: null });
+};
+
+// Errors that mean "try again later" rather than "this record is bad"
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error !== null && 'message' in error
+      ? String((error as { message: unknown }).message)
+      : String(error);
+  return /failed to fetch|networkerror|load failed|network request failed|fetch failed/i.test(message);
+};
+
+const isDuplicateError = (error: { message?: string; statusCode?: string } | null): boolean =>
+  !!error && (error.statusCode === '409' || /already exists|duplicate/i.test(error.message || ''));
+
+// Write one service record to Supabase. Every step is idempotent, so a
+// record can be replayed after a partial failure without duplicating rows.
+export const syncServiceLog = async (record: QueuedServiceLog): Promise<void> => {
+  const uploads = record.photos?.map((photo) => ({ path: photo.path, blob: photo.blob })) ?? [];
+  if (record.photo && record.workLog.photo_url) {
+    uploads.push({ path: record.workLog.photo_url, blob: record.photo.blob });
+  }
+
+  for (const upload of uploads) {
+    const { error: uploadError } = await supabase.storage
+      .from(WORK_PHOTO_BUCKET)
+      .upload(upload.path, upload.blob, {
+        contentType: upload.blob.type || undefined,
+      });
+
+    if (uploadError && !isDuplicateError(uploadError as { message?: string; statusCode?: string })) {
+      throw uploadError;
+    }
+  }
+
+  if (record.kind === 'plow') {
+    const { error: workLogError } = await supabase
+      .from('work_logs')
+      .upsert(record.workLog as TablesInsert<'work_logs'>, { onConflict: 'id', ignoreDuplicates: true });
+    if (workLogError) throw workLogError;
+
+    if (record.employeeIds.length > 0) {
+      const { error } = await supabase
+        .from('work_log_employees')
+        .upsert(
+          record.employeeIds.map((employee_id) => ({ work_log_id: record.id, employee_id })),
+          { onConflict: 'work_log_id,employee_id', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    }
+
+    if (record.equipmentIds.length > 0) {
+      const { error } = await supabase
+        .from('work_log_equipment')
+        .upsert(
+          record.equipmentIds.map((equipment_id) => ({ work_log_id: record.id, equipment_id })),
+          { onConflict: 'work_log_id,equipment_id', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    }
+  } else {
+    const { error: workLogError } = await supabase
+      .from('shovel_work_logs')
+      .upsert(record.workLog as TablesInsert<'shovel_work_logs'>, { onConflict: 'id', ignoreDuplicates: true });
+    if (workLogError) throw workLogError;
+
+    if (record.employeeIds.length > 0) {
+      const { error } = await supabase
+        .from('shovel_work_log_employees')
+        .upsert(
+          record.employeeIds.map((employee_id) => ({ shovel_work_log_id: record.id, employee_id })),
+          { onConflict: 'shovel_work_log_id,employee_id', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    }
+  }
+
+  if (record.photos?.length) {
+    // Whoever replays the record uploads it; the session is read locally
+    const { data: { session } } = await supabase.auth.getSession();
+    const { error } = await supabase
+      .from('work_log_photos')
+      .upsert(
+        record.photos.map((photo) => ({
+          id: photo.id,
+          ...(record.kind === 'plow' ? { work_log_id: record.id } : { shovel_work_log_id: record.id }),
+          storage_path: photo.path,
+          stage: photo.stage,
+          taken_at: photo.takenAt,
+          latitude: photo.latitude,
+          longitude: photo.longitude,
+          accuracy: photo.accuracy,
+          location_source: photo.locationSource,
+          width: photo.width,
+          height: photo.height,
+          size_bytes: photo.blob.size,
+          uploaded_by: session?.user.id,
+        })),
+        { onConflict: 'id', ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  }
+
+  // Close the loop on geofence check_in/check_out events for this visit
+  if (record.geofenceEventIds?.length) {
+    const { error } = await supabase
+      .from('geofence_events')
+      .update(record.kind === 'plow' ? { work_log_id: record.id } : { shovel_work_log_id: record.id })
+      .in('id', record.geofenceEventIds);
+    if (error) throw error;
+  }
+};
+
+let flushInFlight: Promise<number> | null = null;
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+
+// Replay queued records oldest first. A network error stops the flush so
+// records are applied in the order they were captured once the connection
+// is back; anything else is parked as failed and the rest carry on.
+export const flushServiceLogOutbox = (): Promise<number> => {
+  if (flushInFlight) return flushInFlight;
+
+  flushInFlight = (async () => {
+    let synced = 0;
+    const records = await getQueuedServiceLogs();
+
+    for (const record of records) {
+      if (record.failed) continue;
+
+      try {
+        await syncServiceLog(record);
+        await removeServiceLog(record.id);
+        synced++;
+      } catch (error) {
+        console.error('Error syncing queued service log:', error);
+        const offline = isNetworkError(error);
+        await updateServiceLog({
+          ...record,
+          attempts: record.attempts + 1,
+          lastError: errorMessage(error),
+          failed: !offline,
+        });
+        if (offline) break;
+      }
+    }
+
+    return synced;
+  })().finally(() => {
+    flushInFlight = null;
+  });
+
+  return flushInFlight;
+};
@@ -0,0 +1,188 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type TimesheetApproval = Tables<'timesheet_approvals'>;
+export type TimeClockBreak = Tables<'time_clock_breaks'>;
+
+export type PayrollPeriodType = 'weekly' | 'biweekly';
+
+export interface PayrollSettings {
+  period_type: PayrollPeriodType;
+  // Any date a period starts on (yyyy-MM-dd); periods repeat from it
+  period_anchor: string;
+  // Paid hours in a day after which time is overtime; null for no daily rule
+  daily_overtime_hours: number | null;
+  // Paid hours in a workweek after which time is overtime; null for no weekly rule
+  weekly_overtime_hours: number | null;
+  // Company code payroll providers put on every import line (ADP Co Code)
+  company_code: string;
+  // Earnings code storm premium hours are exported under
+  storm_earning_code: string;
+}
+
+export const PAYROLL_SETTING_KEY = 'payroll';
+
+export const PAYROLL_PERIOD_LABELS: Record<PayrollPeriodType, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+};
+
+// Sunday-start weeks, matching the Time Clock page
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettings = {
+  period_type: 'weekly',
+  period_anchor: '2026-01-04',
+  daily_overtime_hours: null,
+  weekly_overtime_hours: 40,
+  company_code: '',
+  storm_earning_code: 'STORM',
+};
+
+const PERIOD_DAYS: Record<PayrollPeriodType, number> = { weekly: 7, biweekly: 14 };
+
+export const parsePayrollSettings = (value: Json | null | undefined): PayrollSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_PAYROLL_SETTINGS;
+  const raw = value as Record<string, unknown>;
+  const defaults = DEFAULT_PAYROLL_SETTINGS;
+  const text = (v: unknown, fallback: string) => (typeof v === 'string' ? v.trim() : fallback);
+  const threshold = (v: unknown, fallback: number | null) =>
+    v === null ? null : typeof v === 'number' && v > 0 ? v : fallback;
+
+  return {
+    period_type: raw.period_type === 'biweekly' || raw.period_type === 'weekly' ? raw.period_type : defaults.period_type,
+    period_anchor:
+      typeof raw.period_anchor === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.period_anchor)
+        ? raw.period_anchor
+        : defaults.period_anchor,
+    daily_overtime_hours: threshold(raw.daily_overtime_hours, defaults.daily_overtime_hours),
+    weekly_overtime_hours: threshold(raw.weekly_overtime_hours, defaults.weekly_overtime_hours),
+    company_code: text(raw.company_code, defaults.company_code),
+    storm_earning_code: text(raw.storm_earning_code, defaults.storm_earning_code) || defaults.storm_earning_code,
+  };
+};
+
+export interface PayrollPeriod {
+  // Local midnight; end is exclusive
+  start: Date;
+  end: Date;
+}
+
+export const getPayrollPeriod = (date: Date, settings: PayrollSettings): PayrollPeriod => {
+  const anchor = parseISO(settings.period_anchor);
+  const length = PERIOD_DAYS[settings.period_type];
+  const index = Math.floor(differenceInCalendarDays(date, anchor) / length);
+  const start = startOfDay(addDays(anchor, index * length));
+  return { start, end: addDays(start, length) };
+};
+
+export const shiftPayrollPeriod = (period: PayrollPeriod, settings: PayrollSettings, count: number): PayrollPeriod =>
+  getPayrollPeriod(addDays(period.start, count * PERIOD_DAYS[settings.period_type]), settings);
+
+export const formatPayrollPeriod = (period: PayrollPeriod) =>
+  `${format(period.start, 'MMM d')} - ${format(addDays(period.end, -1), 'MMM d, yyyy')}`;
+
+export interface TimesheetShift {
+  id: string;
+  clock_in_time: string;
+  clock_out_time: string | null;
+  duration_minutes: number | null;
+  break_minutes: number;
+}
+
+export interface TimesheetDay {
+  date: Date;
+  paid_minutes: number;
+  regular_minutes: number;
+  overtime_minutes: number;
+  break_minutes: number;
+}
+
+export interface Timesheet {
+  days: TimesheetDay[];
+  paid_minutes: number;
+  regular_minutes: number;
+  overtime_minutes: number;
+  break_minutes: number;
+  shift_count: number;
+  open_shift_count: number;
+}
+
+export const paidMinutes = (shift: Pick<TimesheetShift, 'duration_minutes' | 'break_minutes'>) =>
+  Math.max(0, (shift.duration_minutes ?? 0) - shift.break_minutes);
+
+// Split one employee's shifts in a period into regular and overtime time.
+// Shifts count toward the day they started on. Daily overtime is taken
+// first and doesn't also count toward the weekly threshold, so no minute is
+// ever paid as overtime twice. Workweeks start on the period start.
+export const calculateTimesheet = (
+  shifts: TimesheetShift[],
+  period: PayrollPeriod,
+  settings: PayrollSettings
+): Timesheet => {
+  const dayCount = differenceInCalendarDays(period.end, period.start);
+  const days: TimesheetDay[] = Array.from({ length: dayCount }, (_, i) => ({
+    date: addDays(period.start, i),
+    paid_minutes: 0,
+    regular_minutes: 0,
+    overtime_minutes: 0,
+    break_minutes: 0,
+  }));
+
+  const dailyLimit = settings.daily_overtime_hours !== null ? settings.daily_overtime_hours * 60 : Infinity;
+  const weeklyLimit = settings.weekly_overtime_hours !== null ? settings.weekly_overtime_hours * 60 : Infinity;
+  const weeklyRegular = new Map<number, number>();
+
+  const closed = shifts
+    .filter((shift) => shift.clock_out_time)
+    .sort((a, b) => a.clock_in_time.localeCompare(b.clock_in_time));
+
+  for (const shift of closed) {
+    const dayIndex = differenceInCalendarDays(new Date(shift.clock_in_time), period.start);
+    const day = days[dayIndex];
+    if (!day) continue;
+
+    const minutes = paidMinutes(shift);
+    const dailyOvertime = Math.max(0, day.paid_minutes + minutes - dailyLimit) - Math.max(0, day.paid_minutes - dailyLimit);
+    const remaining = minutes - dailyOvertime;
+
+    const week = Math.floor(dayIndex / 7);
+    const weekRegular = weeklyRegular.get(week) ?? 0;
+    const weeklyOvertime = Math.max(0, weekRegular + remaining - weeklyLimit) - Math.max(0, weekRegular - weeklyLimit);
+    weeklyRegular.set(week, weekRegular + remaining - weeklyOvertime);
+
+    day.paid_minutes += minutes;
+    day.regular_minutes += remaining - weeklyOvertime;
+    day.overtime_minutes += dailyOvertime + weeklyOvertime;
+    day.break_minutes += shift.break_minutes;
+  }
+
+  const sum = (key: keyof Omit<TimesheetDay, 'date'>) => days.reduce((total, day) => total + day[key], 0);
+
+  return {
+    days,
+    paid_minutes: sum('paid_minutes'),
+    regular_minutes: sum('regular_minutes'),
+    overtime_minutes: sum('overtime_minutes'),
+    break_minutes: sum('break_minutes'),
+    shift_count: closed.length,
+    open_shift_count: shifts.length - closed.length,
+  };
+};
+
+// Whether an approval covers the moment a shift started
+export const findApprovalFor = (
+  approvals: Pick<TimesheetApproval, 'id' | 'employee_id' | 'period_start' | 'period_end'>[],
+  employeeId: string,
+  at: string
+) => {
+  const time = new Date(at).getTime();
+  return (
+    approvals.find(
+      (approval) =>
+        approval.employee_id === employeeId &&
+        time >= new Date(approval.period_start).getTime() &&
+        time < new Date(approval.period_end).getTime()
+    ) ?? null
+  );
+};
+
+export const formatMinutesAsHours = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
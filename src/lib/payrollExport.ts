@@ -0,0 +1,183 @@
+import { addDays, format } from 'date-fns';
+import type { Json } from '@/integrations/supabase/types';
+import { paidMinutes, type PayrollPeriod, type PayrollSettings, type TimesheetShift } from '@/lib/payroll';
+
+export interface StormPremium {
+  storm_event_id: string;
+  storm_name: string;
+  minutes: number;
+}
+
+// One employee's approved time for a period, ready to map to an importer
+export interface PayrollExportEntry {
+  employee_name: string;
+  payroll_id: string | null;
+  regular_minutes: number;
+  overtime_minutes: number;
+  storms: StormPremium[];
+}
+
+export interface PayrollExportFile {
+  headers: string[];
+  rows: (string | number)[][];
+}
+
+// A column mapping for one payroll provider's import file
+export interface PayrollExportFormat {
+  label: string;
+  description: string;
+  build: (entries: PayrollExportEntry[], period: PayrollPeriod, settings: PayrollSettings) => PayrollExportFile;
+}
+
+export type PayrollExportFormatId = 'adp' | 'gusto' | 'quickbooks';
+
+// Paid time on shifts tagged to a storm, per storm. Storm hours are also in
+// the regular/overtime totals; the premium is paid on top of them.
+export const calculateStormPremiums = (
+  shifts: (TimesheetShift & { storm_event_id: string | null; storm_name: string | null })[]
+): StormPremium[] => {
+  const byStorm = new Map<string, StormPremium>();
+  for (const shift of shifts) {
+    if (!shift.storm_event_id || !shift.clock_out_time) continue;
+    const premium = byStorm.get(shift.storm_event_id) ?? {
+      storm_event_id: shift.storm_event_id,
+      storm_name: shift.storm_name ?? 'Storm',
+      minutes: 0,
+    };
+    premium.minutes += paidMinutes(shift);
+    byStorm.set(shift.storm_event_id, premium);
+  }
+  return Array.from(byStorm.values()).filter((premium) => premium.minutes > 0);
+};
+
+// The snapshot stored on timesheet_approvals.storm_premiums
+export const parseStormPremiums = (value: Json | null | undefined): StormPremium[] =>
+  Array.isArray(value)
+    ? value.flatMap((item) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+        const { storm_event_id, storm_name, minutes } = item as Record<string, unknown>;
+        if (typeof storm_event_id !== 'string' || typeof minutes !== 'number' || minutes <= 0) return [];
+        return [{ storm_event_id, storm_name: typeof storm_name === 'string' ? storm_name : 'Storm', minutes }];
+      })
+    : [];
+
+const hours = (minutes: number) => (minutes / 60).toFixed(2);
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+const lastDay = (period: PayrollPeriod) => day(addDays(period.end, -1));
+
+const splitName = (name: string) => {
+  const parts = name.trim().split(/\s+/);
+  const last = parts.length > 1 ? parts.pop()! : '';
+  return { first: parts.join(' '), last };
+};
+
+// ADP Workforce Now paydata import: one line per employee, plus a line per
+// storm carrying the premium as Hours 3
+const adp: PayrollExportFormat = {
+  label: 'ADP Workforce Now',
+  description: 'Paydata import with storm premium as Hours 3',
+  build: (entries, period, settings) => {
+    const batchId = `WW${format(period.start, 'yyyyMMdd')}`;
+    const rows: (string | number)[][] = [];
+    for (const entry of entries) {
+      const base = [settings.company_code, batchId, entry.payroll_id ?? '', entry.employee_name];
+      rows.push([...base, hours(entry.regular_minutes), hours(entry.overtime_minutes), '', '']);
+      for (const storm of entry.storms) {
+        rows.push([...base, '', '', settings.storm_earning_code, hours(storm.minutes)]);
+      }
+    }
+    return {
+      headers: ['Co Code', 'Batch ID', 'File #', 'Employee Name', 'Reg Hours', 'O/T Hours', 'Hours 3 Code', 'Hours 3 Amount'],
+      rows,
+    };
+  },
+};
+
+// Gusto hours import: one row per employee, a custom earning column per storm
+const gusto: PayrollExportFormat = {
+  label: 'Gusto',
+  description: 'Hours import with a column per storm',
+  build: (entries, period, settings) => {
+    const storms = new Map<string, string>();
+    entries.forEach((entry) => entry.storms.forEach((storm) => storms.set(storm.storm_event_id, storm.storm_name)));
+    const stormIds = Array.from(storms.keys());
+
+    return {
+      headers: [
+        'Employee ID',
+        'Last Name',
+        'First Name',
+        'Pay Period Start',
+        'Pay Period End',
+        'Regular Hours',
+        'Overtime Hours',
+        ...stormIds.map((id) => `${settings.storm_earning_code} Hours - ${storms.get(id)}`),
+      ],
+      rows: entries.map((entry) => {
+        const name = splitName(entry.employee_name);
+        return [
+          entry.payroll_id ?? '',
+          name.last,
+          name.first,
+          day(period.start),
+          lastDay(period),
+          hours(entry.regular_minutes),
+          hours(entry.overtime_minutes),
+          ...stormIds.map((id) => {
+            const storm = entry.storms.find((s) => s.storm_event_id === id);
+            return storm ? hours(storm.minutes) : '';
+          }),
+        ];
+      }),
+    };
+  },
+};
+
+// QuickBooks Payroll time import: one row per employee per pay item
+const quickbooks: PayrollExportFormat = {
+  label: 'QuickBooks Payroll',
+  description: 'A row per pay item, storm name in the memo',
+  build: (entries, period, settings) => {
+    const rows: (string | number)[][] = [];
+    for (const entry of entries) {
+      const base = [entry.employee_name, entry.payroll_id ?? '', day(period.start), lastDay(period)];
+      if (entry.regular_minutes > 0) rows.push([...base, 'Regular Pay', hours(entry.regular_minutes), '']);
+      if (entry.overtime_minutes > 0) rows.push([...base, 'Overtime Pay', hours(entry.overtime_minutes), '']);
+      for (const storm of entry.storms) {
+        rows.push([...base, settings.storm_earning_code, hours(storm.minutes), storm.storm_name]);
+      }
+    }
+    return {
+      headers: ['Employee', 'Employee ID', 'Pay Period Start', 'Pay Period End', 'Pay Item', 'Hours', 'Memo'],
+      rows,
+    };
+  },
+};
+
+export const PAYROLL_EXPORT_FORMATS: Record<PayrollExportFormatId, PayrollExportFormat> = {
+  adp,
+  gusto,
+  quickbooks,
+};
+
+const escapeCSV = (value: string | number) => {
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const downloadPayrollExport = (
+  formatId: PayrollExportFormatId,
+  entries: PayrollExportEntry[],
+  period: PayrollPeriod,
+  settings: PayrollSettings
+) => {
+  const file = PAYROLL_EXPORT_FORMATS[formatId].build(entries, period, settings);
+  const csv = [file.headers, ...file.rows].map((row) => row.map(escapeCSV).join(',')).join('\n');
+
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `payroll-${formatId}-${day(period.start)}-to-${lastDay(period)}.csv`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
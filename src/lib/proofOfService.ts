@@ -0,0 +1,186 @@
+import { supabase } from '@/integrations/supabase/client';
+import { WORK_PHOTO_BUCKET, type WorkPhotoLocationSource, type WorkPhotoStage } from '@/lib/workPhotos';
+
+export interface ProofOfServiceLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recorded_at: string;
+  // Geofence events are captured at the property; clock-in is the fallback
+  source: 'geofence' | 'time_clock';
+}
+
+export interface ProofOfServicePhoto {
+  dataUrl: string;
+  width: number;
+  height: number;
+  // Of the original file in storage, not the downscaled copy in the PDF
+  sha256: string;
+}
+
+// A before/during/after photo of a visit, in upload order
+export interface ProofOfServiceVisitPhoto {
+  id: string;
+  storage_path: string;
+  stage: WorkPhotoStage;
+  taken_at: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  location_source: WorkPhotoLocationSource | null;
+  image?: ProofOfServicePhoto | null;
+}
+
+export interface ProofOfServiceVisit {
+  id: string;
+  log_type: 'plow' | 'shovel';
+  service_type: string;
+  check_in_time: string;
+  check_out_time: string | null;
+  duration_minutes: number | null;
+  snow_depth: number | null;
+  salt_used: number | null;
+  temperature: number | null;
+  weather_description: string | null;
+  wind_speed: string | null;
+  photo_url: string | null;
+  photos: ProofOfServiceVisitPhoto[];
+  crew: string[];
+  check_in_location: ProofOfServiceLocation | null;
+  check_out_location: ProofOfServiceLocation | null;
+  // The cover photo, loaded only when it isn't also one of the visit's photos
+  photo?: ProofOfServicePhoto | null;
+}
+
+export interface ProofOfServiceAccount {
+  id: string;
+  name: string;
+  address: string;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface ProofOfServiceReport {
+  reportId: string;
+  account: ProofOfServiceAccount;
+  periodStart: Date;
+  periodEnd: Date;
+  visits: ProofOfServiceVisit[];
+  contentHash: string;
+  generatedAt: Date;
+}
+
+// What the register-proof-of-service edge function returns
+interface RegisteredProofOfService {
+  id: string;
+  content_hash: string;
+  created_at: string;
+  visit_count: number;
+}
+
+export const PROOF_OF_SERVICE_PHOTO_MAX_PX = 1024;
+
+export const sha256Hex = async (data: BufferSource | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Downscale to keep the PDF a sensible size; JPEG is what jsPDF embeds best
+const toReportImage = async (blob: Blob): Promise<Omit<ProofOfServicePhoto, 'sha256'>> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, PROOF_OF_SERVICE_PHOTO_MAX_PX / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return { dataUrl: canvas.toDataURL('image/jpeg', 0.8), width: canvas.width, height: canvas.height };
+};
+
+const loadVisitPhoto = async (path: string): Promise<ProofOfServicePhoto | null> => {
+  const { data, error } = await supabase.storage.from(WORK_PHOTO_BUCKET).download(path);
+  if (error || !data) {
+    console.error('Error downloading work photo for report:', error);
+    return null;
+  }
+  const [sha256, image] = await Promise.all([sha256Hex(await data.arrayBuffer()), toReportImage(data)]);
+  return { ...image, sha256 };
+};
+
+// Gather a report and have the server fingerprint and register it. Photos
+// download one at a time so a long season doesn't open dozens of requests at
+// once.
+export const buildProofOfServiceReport = async (
+  accountId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  onProgress?: (done: number, total: number) => void
+): Promise<ProofOfServiceReport> => {
+  const { data, error } = await supabase.rpc('get_proof_of_service', {
+    _account_id: accountId,
+    _from: periodStart.toISOString(),
+    _to: periodEnd.toISOString(),
+  });
+  if (error) throw error;
+
+  const payload = data as unknown as { account: ProofOfServiceAccount | null; visits: ProofOfServiceVisit[] };
+  if (!payload.account) throw new Error('Account not found');
+
+  const visits = payload.visits;
+  const coverOnly = visits.filter(
+    (visit) => visit.photo_url && !visit.photos.some((photo) => photo.storage_path === visit.photo_url)
+  );
+  const total = coverOnly.length + visits.reduce((sum, visit) => sum + visit.photos.length, 0);
+  let done = 0;
+  onProgress?.(done, total);
+  for (const visit of coverOnly) {
+    visit.photo = await loadVisitPhoto(visit.photo_url!);
+    onProgress?.(++done, total);
+  }
+  for (const photo of visits.flatMap((visit) => visit.photos)) {
+    photo.image = await loadVisitPhoto(photo.storage_path);
+    onProgress?.(++done, total);
+  }
+
+  // The fingerprint is computed from the database and the original photos in
+  // storage, never from what this browser sends
+  const { data: registered, error: registerError } = await supabase.functions.invoke('register-proof-of-service', {
+    body: {
+      account_id: accountId,
+      period_start: periodStart.toISOString(),
+      period_end: periodEnd.toISOString(),
+    },
+  });
+  if (registerError) throw new Error(registerError.message || 'Failed to register report');
+  if (registered?.error) throw new Error(registered.error);
+
+  const { id, content_hash, created_at } = registered as RegisteredProofOfService;
+
+  return {
+    reportId: id,
+    account: payload.account,
+    periodStart,
+    periodEnd,
+    visits,
+    contentHash: content_hash,
+    generatedAt: new Date(created_at),
+  };
+};
+
+export const formatCoordinates = (location: ProofOfServiceLocation | null): string => {
+  if (!location) return '-';
+  const accuracy = location.accuracy != null ? ` ±${Math.round(location.accuracy)}m` : '';
+  const source = location.source === 'time_clock' ? ' (clock-in)' : '';
+  return `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}${accuracy}${source}`;
+};
+
+export const formatPhotoCoordinates = (photo: ProofOfServiceVisitPhoto): string | null => {
+  if (photo.latitude == null || photo.longitude == null) return null;
+  const accuracy = photo.accuracy != null ? ` ±${Math.round(photo.accuracy)}m` : '';
+  const source = photo.location_source === 'exif' ? ' (photo)' : '';
+  return `${photo.latitude.toFixed(5)}, ${photo.longitude.toFixed(5)}${accuracy}${source}`;
+};
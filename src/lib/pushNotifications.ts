@@ -0,0 +1,45 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type PushCategory = 'service_scheduled' | 'urgent' | 'weather_alert' | 'general';
+
+// The send-push edge function files each notification under one of these
+export const PUSH_CATEGORY_LABELS: Record<PushCategory, { label: string; description: string }> = {
+  service_scheduled: { label: 'Service updates', description: 'Scheduled and completed services' },
+  urgent: { label: 'Urgent', description: 'Always delivered, even during quiet hours' },
+  weather_alert: { label: 'Weather alerts', description: 'Storm forecasts and activations' },
+  general: { label: 'General', description: 'Timesheets, reminders and everything else' },
+};
+
+export const PUSH_CATEGORIES = Object.keys(PUSH_CATEGORY_LABELS) as PushCategory[];
+
+export const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+export const isPushSupported = () =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window &&
+  !!VAPID_PUBLIC_KEY;
+
+// PushManager wants the VAPID key as raw bytes, not base64url
+export const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+export const getDeviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Drop this device's push subscription, both the row and the browser's own,
+// so nothing keeps arriving for whoever used it last
+export const removeDevicePushSubscription = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  const browserSubscription = await registration?.pushManager.getSubscription();
+  if (!browserSubscription) return;
+
+  const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', browserSubscription.endpoint);
+  if (error) throw error;
+
+  await browserSubscription.unsubscribe();
+};
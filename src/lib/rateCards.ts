@@ -0,0 +1,236 @@
+import { format } from 'date-fns';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { ContractBillingModel } from '@/lib/supabase-types';
+import {
+  SERVICE_LABELS,
+  createLineItem,
+  logHours,
+  logSource,
+  priceLogWithDefaults,
+  roundCurrency,
+  servicesForLog,
+  type BillableLog,
+  type BillableLogKind,
+  type InvoiceLineItem,
+  type InvoicePricing,
+} from '@/lib/invoicing';
+
+// Per-account rate cards. A contract covers a date window; fields left empty
+// fall back to the company-wide default pricing for that service.
+
+export type AccountContract = Tables<'account_contracts'>;
+
+export interface DepthTier {
+  min_inches: number;
+  max_inches: number | null;
+  rate: number;
+}
+
+export interface PricedLog {
+  items: InvoiceLineItem[];
+  total: number;
+  contract: AccountContract | null;
+  warnings: string[];
+}
+
+export const BILLING_MODEL_LABELS: Record<ContractBillingModel, string> = {
+  seasonal: 'Seasonal flat fee',
+  per_push: 'Per push',
+  per_inch: 'Per-inch tiers',
+};
+
+export const DEFAULT_DEPTH_TIERS: DepthTier[] = [
+  { min_inches: 2, max_inches: 4, rate: 0 },
+  { min_inches: 4, max_inches: 8, rate: 0 },
+  { min_inches: 8, max_inches: null, rate: 0 },
+];
+
+export const parseDepthTiers = (value: Json | null | undefined): DepthTier[] => {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown as Partial<DepthTier>[])
+    .map((tier) => ({
+      min_inches: Number(tier.min_inches) || 0,
+      max_inches: tier.max_inches === null || tier.max_inches === undefined ? null : Number(tier.max_inches),
+      rate: Number(tier.rate) || 0,
+    }))
+    .sort((a, b) => a.min_inches - b.min_inches);
+};
+
+export const formatDepthTier = (tier: DepthTier) =>
+  tier.max_inches === null ? `${tier.min_inches}"+` : `${tier.min_inches}–${tier.max_inches}"`;
+
+// Tiers are inclusive of their minimum and exclusive of their maximum
+export const findDepthTier = (tiers: DepthTier[], depth: number) =>
+  tiers.find((tier) => depth >= tier.min_inches && (tier.max_inches === null || depth < tier.max_inches)) ?? null;
+
+// Problems with a tier list that would make some depths unbillable
+export const validateDepthTiers = (tiers: DepthTier[]): string | null => {
+  if (tiers.length === 0) return 'Add at least one depth tier';
+  for (let i = 0; i < tiers.length; i++) {
+    const tier = tiers[i];
+    if (tier.max_inches !== null && tier.max_inches <= tier.min_inches) {
+      return `Tier ${formatDepthTier(tier)} ends before it starts`;
+    }
+    const next = tiers[i + 1];
+    if (next && tier.max_inches !== next.min_inches) {
+      return `Tiers ${formatDepthTier(tier)} and ${formatDepthTier(next)} must meet with no gap or overlap`;
+    }
+  }
+  return null;
+};
+
+const contractCovers = (contract: AccountContract, day: string) =>
+  contract.effective_from <= day && (!contract.effective_to || contract.effective_to >= day);
+
+export const findActiveContract = (contracts: AccountContract[], date: string | Date) => {
+  const day = format(new Date(date), 'yyyy-MM-dd');
+  return contracts.find((contract) => contractCovers(contract, day)) ?? null;
+};
+
+// Contracts whose window overlaps the given period (inclusive dates)
+export const contractsInPeriod = (contracts: AccountContract[], start: string, end: string) =>
+  contracts.filter((contract) => contract.effective_from <= end && (!contract.effective_to || contract.effective_to >= start));
+
+const plowLine = (
+  contract: AccountContract,
+  log: BillableLog,
+  warnings: string[]
+): Partial<InvoiceLineItem> & { covered?: boolean } => {
+  const model = contract.billing_model as ContractBillingModel;
+
+  if (model === 'seasonal') {
+    return { description: 'Plowing (seasonal contract)', unit_price: 0, covered: true };
+  }
+
+  if (model === 'per_inch') {
+    const tiers = parseDepthTiers(contract.depth_tiers);
+    if (tiers.length === 0) {
+      warnings.push('Contract has no depth tiers');
+      return { description: 'Plowing', unit_price: 0 };
+    }
+
+    if (log.snow_depth === null || log.snow_depth === undefined) {
+      warnings.push(`No snow depth recorded; priced at the lowest tier (${formatDepthTier(tiers[0])})`);
+      return { description: `Plowing ${formatDepthTier(tiers[0])}`, unit_price: tiers[0].rate };
+    }
+
+    const tier = findDepthTier(tiers, log.snow_depth);
+    if (!tier) {
+      return { description: `Plowing (${log.snow_depth}" below ${tiers[0].min_inches}" trigger)`, unit_price: 0 };
+    }
+    return { description: `Plowing ${formatDepthTier(tier)} (${log.snow_depth}")`, unit_price: tier.rate };
+  }
+
+  return { description: 'Plowing', unit_price: Number(contract.per_push_rate) || 0 };
+};
+
+// Price a single log under a contract
+export const priceLogWithContract = (
+  kind: BillableLogKind,
+  log: BillableLog,
+  contract: AccountContract,
+  pricing: InvoicePricing
+): PricedLog => {
+  const warnings: string[] = [];
+  const serviceDate = log.check_in_time;
+  const dateLabel = format(new Date(serviceDate), 'MMM d, yyyy');
+  const base = { service_date: serviceDate, ...logSource(kind, log) };
+  const items: InvoiceLineItem[] = [];
+  let coveredBySeason = true;
+
+  servicesForLog(kind, log.service_type).forEach((service) => {
+    if (service === 'plow') {
+      const { covered, ...line } = plowLine(contract, log, warnings);
+      if (!covered) coveredBySeason = false;
+      items.push(createLineItem({ ...base, ...line, service, description: `${line.description} – ${dateLabel}` }));
+      return;
+    }
+
+    coveredBySeason = false;
+
+    if (service === 'salt') {
+      if (contract.salt_per_unit === null) {
+        items.push(...priceLogWithDefaults(kind, { ...log, service_type: 'salt' }, pricing));
+        return;
+      }
+      if (!log.salt_used) warnings.push('No salt quantity recorded');
+      items.push(createLineItem({
+        ...base,
+        service,
+        description: `${SERVICE_LABELS.salt} – ${dateLabel} (${log.salt_used || 0} lbs)`,
+        quantity: log.salt_used || 0,
+        unit_price: Number(contract.salt_per_unit),
+      }));
+      return;
+    }
+
+    if (contract.shovel_hourly_rate === null) {
+      items.push(...priceLogWithDefaults(kind, { ...log, service_type: 'shovel' }, pricing));
+      return;
+    }
+    const hours = logHours(log);
+    items.push(createLineItem({
+      ...base,
+      service,
+      description: `${SERVICE_LABELS.shovel} – ${dateLabel} (${hours} hr)`,
+      quantity: hours,
+      unit_price: Number(contract.shovel_hourly_rate),
+    }));
+  });
+
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.amount, 0));
+  const minimum = Number(contract.minimum_charge) || 0;
+
+  // Visits fully covered by a seasonal fee are not raised to the minimum
+  if (!coveredBySeason && minimum > subtotal) {
+    items.push(createLineItem({
+      ...base,
+      service: 'other',
+      description: `Minimum charge adjustment – ${dateLabel}`,
+      unit_price: roundCurrency(minimum - subtotal),
+    }));
+  }
+
+  return {
+    items,
+    total: roundCurrency(items.reduce((sum, item) => sum + item.amount, 0)),
+    contract,
+    warnings,
+  };
+};
+
+// Price a log with whichever contract was in effect on the service date
+export const priceLog = (
+  kind: BillableLogKind,
+  log: BillableLog,
+  contracts: AccountContract[],
+  pricing: InvoicePricing
+): PricedLog => {
+  const contract = findActiveContract(contracts, log.check_in_time);
+  if (contract) return priceLogWithContract(kind, log, contract, pricing);
+
+  const items = priceLogWithDefaults(kind, log, pricing);
+  return {
+    items,
+    total: roundCurrency(items.reduce((sum, item) => sum + item.amount, 0)),
+    contract: null,
+    warnings: [],
+  };
+};
+
+// One line per seasonal contract in the period that has not been billed yet
+export const seasonalFeeLineItems = (
+  contracts: AccountContract[],
+  billedContractIds: Set<string>
+): InvoiceLineItem[] =>
+  contracts
+    .filter((contract) => contract.billing_model === 'seasonal' && !billedContractIds.has(contract.id))
+    .map((contract) =>
+      createLineItem({
+        description: `Seasonal contract – ${contract.name}`,
+        unit_price: Number(contract.seasonal_fee) || 0,
+        service: 'plow',
+        service_date: `${contract.effective_from}T00:00:00`,
+        contract_id: contract.id,
+      })
+    );
@@ -0,0 +1,341 @@
+import { calculateDistance } from '@/hooks/useGeolocation';
+import type { AccountPriority } from '@/lib/supabase-types';
+
+// Route optimisation for the route planner. Stops are split across trucks by
+// cheapest insertion, then each truck's order is improved with 2-opt and
+// Or-opt moves, with stops moved between trucks while that keeps helping.
+// Priority deadlines are soft time windows: arriving late is allowed but
+// costs minutes in the objective, weighted by priority.
+
+export interface SolverStop {
+  id: string;
+  latitude: number | null;
+  longitude: number | null;
+  priority: AccountPriority;
+  // Expected minutes on site
+  serviceMinutes: number;
+  // Minutes after departure the stop should be reached by
+  deadlineMinutes: number | null;
+}
+
+export interface SolverInput {
+  start: { latitude: number; longitude: number };
+  stops: SolverStop[];
+  vehicles: number;
+  // Average driving speed between stops
+  speedKmh?: number;
+  // Give up improving after this long and return the best order so far
+  timeLimitMs?: number;
+}
+
+export interface SolvedRoute {
+  stopIds: string[];
+  // Minutes after departure each stop is reached, in stop order; null when
+  // the stop has no coordinates
+  arrivalMinutes: (number | null)[];
+  lateStopIds: string[];
+  distanceMeters: number;
+  travelMinutes: number;
+  serviceMinutes: number;
+}
+
+export interface RouteSolution {
+  routes: SolvedRoute[];
+}
+
+interface RouteCost {
+  duration: number;
+  cost: number;
+}
+
+export const DEFAULT_SERVICE_MINUTES = 15;
+export const MAX_VEHICLES = 8;
+
+const DEFAULT_SPEED_KMH = 40;
+// Straight-line distance understates road distance
+const ROAD_FACTOR = 1.3;
+const DEFAULT_TIME_LIMIT_MS = 3000;
+
+// Cost of each minute late, per priority
+const LATE_WEIGHT: Record<AccountPriority, number> = { urgent: 8, high: 4, normal: 2, low: 1 };
+// Cost of each minute the longest truck runs, so work is shared between trucks
+const MAKESPAN_WEIGHT = 1;
+
+// Typical minutes on site per account: the median of past logged visits
+export const estimateServiceMinutes = (
+  logs: { account_id: string; duration_minutes: number | null }[]
+): Map<string, number> => {
+  const durations = new Map<string, number[]>();
+  for (const log of logs) {
+    if (!log.duration_minutes || log.duration_minutes <= 0) continue;
+    const list = durations.get(log.account_id) ?? [];
+    list.push(log.duration_minutes);
+    durations.set(log.account_id, list);
+  }
+
+  const estimates = new Map<string, number>();
+  durations.forEach((list, accountId) => {
+    const sorted = [...list].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    estimates.set(accountId, sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2);
+  });
+  return estimates;
+};
+
+export const solveRoutes = ({
+  start,
+  stops,
+  vehicles,
+  speedKmh = DEFAULT_SPEED_KMH,
+  timeLimitMs = DEFAULT_TIME_LIMIT_MS,
+}: SolverInput): RouteSolution => {
+  const vehicleCount = Math.max(1, Math.min(MAX_VEHICLES, Math.floor(vehicles)));
+  const stopDeadline = Date.now() + timeLimitMs;
+  const outOfTime = () => Date.now() > stopDeadline;
+
+  // Stops without coordinates can't be placed by distance; they go last
+  const located = stops.filter((stop) => stop.latitude !== null && stop.longitude !== null);
+  const unlocated = stops.filter((stop) => stop.latitude === null || stop.longitude === null);
+
+  // Node 0 is the starting point, node i + 1 is located[i]
+  const points = [start, ...located.map((stop) => ({ latitude: stop.latitude!, longitude: stop.longitude! }))];
+  const size = points.length;
+  const metersPerMinute = (speedKmh * 1000) / 60;
+  const meters = new Float64Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      const d =
+        calculateDistance(points[i].latitude, points[i].longitude, points[j].latitude, points[j].longitude) *
+        ROAD_FACTOR;
+      meters[i * size + j] = d;
+      meters[j * size + i] = d;
+    }
+  }
+  const travel = (from: number, to: number) => meters[from * size + to] / metersPerMinute;
+
+  const routes: number[][] = Array.from({ length: vehicleCount }, () => []);
+  // Per route and position: minutes when the truck leaves that stop, and the
+  // weighted lateness so far. Candidates are only re-timed from the first
+  // changed position.
+  const departures: number[][] = routes.map(() => []);
+  const lateness: number[][] = routes.map(() => []);
+  const costs: RouteCost[] = routes.map(() => ({ duration: 0, cost: 0 }));
+  const buffer = new Int32Array(located.length + 1);
+
+  // Minutes the truck is busy plus weighted lateness; routes are open and
+  // don't return to the start
+  const evaluate = (v: number, from: number, nodes: ArrayLike<number>, length: number): RouteCost => {
+    let time = from > 0 ? departures[v][from - 1] : 0;
+    let late = from > 0 ? lateness[v][from - 1] : 0;
+    let previous = from > 0 ? routes[v][from - 1] : 0;
+    for (let k = from; k < length; k++) {
+      const node = nodes[k];
+      const stop = located[node - 1];
+      time += travel(previous, node);
+      if (stop.deadlineMinutes !== null && time > stop.deadlineMinutes) {
+        late += (time - stop.deadlineMinutes) * LATE_WEIGHT[stop.priority];
+      }
+      time += stop.serviceMinutes;
+      previous = node;
+    }
+    return { duration: time, cost: time + late };
+  };
+
+  const commit = (v: number, route: number[]) => {
+    routes[v] = route;
+    departures[v] = [];
+    lateness[v] = [];
+    let time = 0;
+    let late = 0;
+    let previous = 0;
+    for (const node of route) {
+      const stop = located[node - 1];
+      time += travel(previous, node);
+      if (stop.deadlineMinutes !== null && time > stop.deadlineMinutes) {
+        late += (time - stop.deadlineMinutes) * LATE_WEIGHT[stop.priority];
+      }
+      time += stop.serviceMinutes;
+      departures[v].push(time);
+      lateness[v].push(late);
+      previous = node;
+    }
+    costs[v] = { duration: time, cost: time + late };
+  };
+
+  // Whole-plan cost with up to two routes swapped for candidates
+  const totalCost = (changedA = -1, costA?: RouteCost, changedB = -1, costB?: RouteCost) => {
+    let sum = 0;
+    let makespan = 0;
+    for (let v = 0; v < vehicleCount; v++) {
+      const c = v === changedA ? costA! : v === changedB ? costB! : costs[v];
+      sum += c.cost;
+      makespan = Math.max(makespan, c.duration);
+    }
+    return sum + MAKESPAN_WEIGHT * makespan;
+  };
+
+  // Fill the buffer with route v plus node inserted at position
+  const fillInsert = (v: number, node: number, position: number) => {
+    const route = routes[v];
+    for (let k = 0; k < position; k++) buffer[k] = route[k];
+    buffer[position] = node;
+    for (let k = position; k < route.length; k++) buffer[k + 1] = route[k];
+    return route.length + 1;
+  };
+
+  // Cheapest insertion, most urgent deadlines first
+  const insertionOrder = located
+    .map((stop, index) => ({ stop, node: index + 1 }))
+    .sort((a, b) => (a.stop.deadlineMinutes ?? Infinity) - (b.stop.deadlineMinutes ?? Infinity));
+
+  for (const { node } of insertionOrder) {
+    let best: { vehicle: number; position: number; value: number } | null = null;
+    for (let v = 0; v < vehicleCount; v++) {
+      for (let position = 0; position <= routes[v].length; position++) {
+        const length = fillInsert(v, node, position);
+        const value = totalCost(v, evaluate(v, position, buffer, length));
+        if (!best || value < best.value) best = { vehicle: v, position, value };
+      }
+    }
+    const route = [...routes[best!.vehicle]];
+    route.splice(best!.position, 0, node);
+    commit(best!.vehicle, route);
+  }
+
+  // Keep the buffered candidate for route v if the whole plan gets cheaper
+  const tryBuffer = (v: number, from: number, length: number) => {
+    const before = totalCost();
+    const after = totalCost(v, evaluate(v, from, buffer, length));
+    if (after + 1e-6 >= before) return false;
+    commit(v, Array.from(buffer.subarray(0, length)));
+    return true;
+  };
+
+  // 2-opt: reverse a run of stops
+  const twoOpt = (v: number) => {
+    let improved = false;
+    for (let i = 0; i < routes[v].length - 1 && !outOfTime(); i++) {
+      for (let j = i + 1; j < routes[v].length; j++) {
+        const route = routes[v];
+        for (let k = 0; k < route.length; k++) {
+          buffer[k] = k < i || k > j ? route[k] : route[i + j - k];
+        }
+        if (tryBuffer(v, i, route.length)) improved = true;
+      }
+    }
+    return improved;
+  };
+
+  // Or-opt: move a run of one to three stops elsewhere in the same route
+  const orOpt = (v: number) => {
+    let improved = false;
+    for (let length = 1; length <= 3; length++) {
+      for (let i = 0; i + length <= routes[v].length && !outOfTime(); i++) {
+        const route = routes[v];
+        const segment = route.slice(i, i + length);
+        const rest = [...route.slice(0, i), ...route.slice(i + length)];
+        for (let position = 0; position <= rest.length; position++) {
+          if (position === i) continue;
+          let k = 0;
+          for (let r = 0; r < position; r++) buffer[k++] = rest[r];
+          for (const node of segment) buffer[k++] = node;
+          for (let r = position; r < rest.length; r++) buffer[k++] = rest[r];
+          if (tryBuffer(v, Math.min(i, position), route.length)) {
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+    return improved;
+  };
+
+  // Move single stops to another truck
+  const relocate = () => {
+    let improved = false;
+    for (let from = 0; from < vehicleCount; from++) {
+      for (let i = 0; i < routes[from].length && !outOfTime(); i++) {
+        const node = routes[from][i];
+        const without = routes[from].filter((_, index) => index !== i);
+        const withoutCost = evaluate(from, i, without, without.length);
+        const before = totalCost();
+        let moved = false;
+
+        for (let to = 0; to < vehicleCount && !moved; to++) {
+          if (to === from) continue;
+          for (let position = 0; position <= routes[to].length; position++) {
+            const length = fillInsert(to, node, position);
+            const candidateCost = evaluate(to, position, buffer, length);
+            if (totalCost(from, withoutCost, to, candidateCost) + 1e-6 < before) {
+              commit(to, Array.from(buffer.subarray(0, length)));
+              commit(from, without);
+              moved = true;
+              break;
+            }
+          }
+        }
+
+        if (moved) {
+          improved = true;
+          i--;
+        }
+      }
+    }
+    return improved;
+  };
+
+  let improving = true;
+  while (improving && !outOfTime()) {
+    improving = false;
+    for (let v = 0; v < vehicleCount; v++) {
+      if (twoOpt(v)) improving = true;
+      if (orOpt(v)) improving = true;
+    }
+    if (vehicleCount > 1 && relocate()) improving = true;
+  }
+
+  const solved: SolvedRoute[] = routes.map((route) => {
+    let time = 0;
+    let travelMinutes = 0;
+    let distanceMeters = 0;
+    let serviceMinutes = 0;
+    let previous = 0;
+    const arrivalMinutes: (number | null)[] = [];
+    const lateStopIds: string[] = [];
+
+    for (const node of route) {
+      const stop = located[node - 1];
+      distanceMeters += meters[previous * size + node];
+      travelMinutes += travel(previous, node);
+      time += travel(previous, node);
+      arrivalMinutes.push(time);
+      if (stop.deadlineMinutes !== null && time > stop.deadlineMinutes) lateStopIds.push(stop.id);
+      time += stop.serviceMinutes;
+      serviceMinutes += stop.serviceMinutes;
+      previous = node;
+    }
+
+    return {
+      stopIds: route.map((node) => located[node - 1].id),
+      arrivalMinutes,
+      lateStopIds,
+      distanceMeters,
+      travelMinutes,
+      serviceMinutes,
+    };
+  });
+
+  // Hand stops without coordinates to whichever truck finishes first, most
+  // urgent first; their arrival time is unknown
+  const priorityOrder: Record<AccountPriority, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+  [...unlocated]
+    .sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority])
+    .forEach((stop) => {
+      const route = solved.reduce((a, b) => (b.travelMinutes + b.serviceMinutes < a.travelMinutes + a.serviceMinutes ? b : a));
+      route.stopIds.push(stop.id);
+      route.arrivalMinutes.push(null);
+      route.serviceMinutes += stop.serviceMinutes;
+    });
+
+  return { routes: solved.filter((route) => route.stopIds.length > 0) };
+};
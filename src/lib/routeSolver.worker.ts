@@ -0,0 +1,6 @@
+import { solveRoutes, type SolverInput } from '@/lib/routeSolver';
+
+// Runs the route solver off the main thread; one message in, one solution out
+self.onmessage = (event: MessageEvent<SolverInput>) => {
+  self.postMessage(solveRoutes(event.data));
+};
@@ -0,0 +1,69 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type SavedRoute = Tables<'routes'>;
+
+export type RouteServiceType = 'plowing' | 'shovel' | 'both';
+
+export const ROUTE_SERVICE_TYPE_LABELS: Record<RouteServiceType, string> = {
+  plowing: 'Plowing',
+  shovel: 'Shoveling',
+  both: 'Plow & Shovel',
+};
+
+export type RouteStopAccount = Pick<
+  Tables<'accounts'>,
+  'id' | 'name' | 'address' | 'city' | 'priority' | 'service_type' | 'latitude' | 'longitude'
+>;
+
+export type RouteWithStops = SavedRoute & {
+  equipment: { name: string } | null;
+  route_stops: { account_id: string; stop_order: number; accounts: RouteStopAccount | null }[];
+};
+
+export type RouteAssignmentWithDetails = Tables<'route_assignments'> & {
+  routes: RouteWithStops | null;
+  equipment: { name: string } | null;
+  route_assignment_employees: { employee_id: string; employees: { name: string } | null }[];
+};
+
+export interface RouteStopProgress {
+  accountId: string;
+  order: number;
+  account: RouteStopAccount | null;
+  // First check-in at the stop on the route date, from work_logs or shovel_work_logs
+  servicedAt: string | null;
+}
+
+export const ROUTE_SELECT = `
+  *,
+  equipment(name),
+  route_stops(account_id, stop_order, accounts(id, name, address, city, priority, service_type, latitude, longitude))
+`;
+
+export const sortedStops = (route: Pick<RouteWithStops, 'route_stops'>) =>
+  [...(route.route_stops ?? [])].sort((a, b) => a.stop_order - b.stop_order);
+
+export const buildStopProgress = (
+  route: Pick<RouteWithStops, 'route_stops'>,
+  logs: { account_id: string; check_in_time: string }[]
+): RouteStopProgress[] => {
+  const firstVisit = new Map<string, string>();
+  for (const log of logs) {
+    const existing = firstVisit.get(log.account_id);
+    if (!existing || log.check_in_time < existing) firstVisit.set(log.account_id, log.check_in_time);
+  }
+
+  return sortedStops(route).map((stop) => ({
+    accountId: stop.account_id,
+    order: stop.stop_order,
+    account: stop.accounts,
+    servicedAt: firstVisit.get(stop.account_id) ?? null,
+  }));
+};
+
+export const mapsDirectionsUrl = (account: Pick<RouteStopAccount, 'address' | 'city' | 'latitude' | 'longitude'>) => {
+  const destination = account.latitude && account.longitude
+    ? `${account.latitude},${account.longitude}`
+    : [account.address, account.city].filter(Boolean).join(', ');
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`;
+};
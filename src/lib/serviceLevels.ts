@@ -0,0 +1,107 @@
+import { differenceInMinutes } from 'date-fns';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { AccountPriority } from '@/lib/supabase-types';
+import type { StormEvent } from '@/lib/stormEvents';
+
+export type StormAccountService = Tables<'storm_account_services'>;
+
+export interface ServiceLevelSettings {
+  // Hours after a storm starts that each priority must be serviced within
+  hours: Record<AccountPriority, number>;
+  // How long before a deadline an unserviced account is flagged as at risk
+  warning_minutes: number;
+}
+
+export type ServiceLevelStatus = 'met' | 'late' | 'pending' | 'at_risk' | 'breached';
+
+export const SERVICE_LEVEL_SETTING_KEY = 'service_levels';
+
+export const ACCOUNT_PRIORITIES: AccountPriority[] = ['urgent', 'high', 'normal', 'low'];
+
+// Keep in step with public.service_level_hours()
+export const DEFAULT_SERVICE_LEVEL_SETTINGS: ServiceLevelSettings = {
+  hours: { urgent: 2, high: 4, normal: 8, low: 24 },
+  warning_minutes: 60,
+};
+
+export const SERVICE_LEVEL_STATUS_LABELS: Record<ServiceLevelStatus, string> = {
+  met: 'On Time',
+  late: 'Late',
+  pending: 'Pending',
+  at_risk: 'Due Soon',
+  breached: 'Overdue',
+};
+
+export const SERVICE_LEVEL_STATUS_CLASSES: Record<ServiceLevelStatus, string> = {
+  met: 'bg-success/20 text-success border-success/30',
+  late: 'bg-warning/20 text-warning border-warning/30',
+  pending: 'bg-muted text-muted-foreground',
+  at_risk: 'bg-warning/20 text-warning border-warning/30',
+  breached: 'bg-destructive/20 text-destructive border-destructive/30',
+};
+
+export const parseServiceLevelSettings = (value: Json | null | undefined): ServiceLevelSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_SERVICE_LEVEL_SETTINGS;
+  const raw = value as Record<string, unknown>;
+  const hours = (raw.hours && typeof raw.hours === 'object' ? raw.hours : {}) as Record<string, unknown>;
+  const defaults = DEFAULT_SERVICE_LEVEL_SETTINGS;
+  const positive = (v: unknown, fallback: number) => (typeof v === 'number' && v > 0 ? v : fallback);
+
+  return {
+    hours: {
+      urgent: positive(hours.urgent, defaults.hours.urgent),
+      high: positive(hours.high, defaults.hours.high),
+      normal: positive(hours.normal, defaults.hours.normal),
+      low: positive(hours.low, defaults.hours.low),
+    },
+    warning_minutes: positive(raw.warning_minutes, defaults.warning_minutes),
+  };
+};
+
+export const getServiceLevelStatus = (
+  row: Pick<StormAccountService, 'deadline_at' | 'first_serviced_at'>,
+  warningMinutes: number,
+  now = new Date()
+): ServiceLevelStatus => {
+  const deadline = new Date(row.deadline_at);
+  if (row.first_serviced_at) return new Date(row.first_serviced_at) <= deadline ? 'met' : 'late';
+  const remaining = differenceInMinutes(deadline, now);
+  if (remaining < 0) return 'breached';
+  if (remaining <= warningMinutes) return 'at_risk';
+  return 'pending';
+};
+
+export const isFlaggedServiceLevel = (status: ServiceLevelStatus) => status === 'at_risk' || status === 'breached';
+
+// Minutes from the start of the storm to the first visit
+export const minutesToService = (
+  row: Pick<StormAccountService, 'first_serviced_at'>,
+  storm: Pick<StormEvent, 'start_time'>
+): number | null =>
+  row.first_serviced_at ? Math.max(0, differenceInMinutes(new Date(row.first_serviced_at), new Date(storm.start_time))) : null;
+
+// "45m left", "2h 10m left" or "1h 5m over"
+export const formatDeadlineDistance = (deadlineAt: string, now = new Date()): string => {
+  const minutes = differenceInMinutes(new Date(deadlineAt), now);
+  const abs = Math.abs(minutes);
+  const text = abs >= 60 ? `${Math.floor(abs / 60)}h ${abs % 60}m` : `${abs}m`;
+  return minutes >= 0 ? `${text} left` : `${text} over`;
+};
+
+// The storm deadlines are measured against: the ongoing storm, otherwise the
+// latest one whose longest deadline has not yet passed
+export const findCurrentStorm = (
+  storms: StormEvent[],
+  settings: ServiceLevelSettings,
+  now = new Date()
+): StormEvent | null => {
+  const ongoing = storms.find((storm) => !storm.end_time);
+  if (ongoing) return ongoing;
+
+  const longest = Math.max(...Object.values(settings.hours));
+  return (
+    [...storms]
+      .sort((a, b) => b.start_time.localeCompare(a.start_time))
+      .find((storm) => differenceInMinutes(now, new Date(storm.start_time)) <= longest * 60) ?? null
+  );
+};
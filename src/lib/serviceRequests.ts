@@ -0,0 +1,71 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { AccountPriority, ServiceRequestStatus, ServiceRequestType } from '@/lib/supabase-types';
+
+export type ServiceRequest = Tables<'service_requests'>;
+
+export const SERVICE_REQUEST_PHOTO_BUCKET = 'service-request-photos';
+
+export const SERVICE_REQUEST_TYPE_LABELS: Record<ServiceRequestType, string> = {
+  new_service: 'New Service',
+  schedule_change: 'Schedule Change',
+  complaint: 'Complaint',
+  other: 'Other',
+};
+
+export const SERVICE_REQUEST_STATUS_LABELS: Record<ServiceRequestStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const SERVICE_REQUEST_PRIORITY_LABELS: Record<AccountPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export const SERVICE_REQUEST_STATUS_BADGE_CLASSES: Record<ServiceRequestStatus, string> = {
+  pending: 'bg-warning/10 text-warning border-warning/20',
+  in_progress: 'bg-info/10 text-info border-info/20',
+  completed: 'bg-success/10 text-success border-success/20',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+export const SERVICE_REQUEST_PRIORITY_BADGE_CLASSES: Record<AccountPriority, string> = {
+  low: 'bg-muted text-muted-foreground',
+  normal: 'bg-primary/10 text-primary border-primary/20',
+  high: 'bg-warning/10 text-warning border-warning/20',
+  urgent: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+// Closed requests can be reopened; everything else moves freely between open states
+export const SERVICE_REQUEST_STATUS_TRANSITIONS: Record<ServiceRequestStatus, ServiceRequestStatus[]> = {
+  pending: ['in_progress', 'completed', 'cancelled'],
+  in_progress: ['pending', 'completed', 'cancelled'],
+  completed: ['in_progress'],
+  cancelled: ['pending'],
+};
+
+export const canTransitionServiceRequest = (from: ServiceRequestStatus, to: ServiceRequestStatus): boolean =>
+  from === to || SERVICE_REQUEST_STATUS_TRANSITIONS[from]?.includes(to) === true;
+
+export const isOpenServiceRequest = (request: Pick<ServiceRequest, 'status'>): boolean =>
+  request.status === 'pending' || request.status === 'in_progress';
+
+// Urgent first, then oldest first so nothing waits behind newer requests
+const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+export const compareServiceRequests = (a: ServiceRequest, b: ServiceRequest): number => {
+  const openDiff = Number(isOpenServiceRequest(b)) - Number(isOpenServiceRequest(a));
+  if (openDiff !== 0) return openDiff;
+  const priorityDiff = (PRIORITY_RANK[a.priority ?? 'normal'] ?? 2) - (PRIORITY_RANK[b.priority ?? 'normal'] ?? 2);
+  if (priorityDiff !== 0) return priorityDiff;
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+};
+
+export const buildServiceRequestPhotoPath = (userId: string, file: File): string => {
+  const fileExt = file.name.split('.').pop() || 'jpg';
+  return `${userId}/${Date.now()}.${fileExt}`;
+};
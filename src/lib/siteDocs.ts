@@ -0,0 +1,102 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type SiteInstructions = Tables<'account_site_instructions'>;
+export type SiteAccess = Tables<'account_site_access'>;
+export type SitePhoto = Tables<'account_site_photos'>;
+
+export const SITE_PHOTO_BUCKET = 'account-site-photos';
+export const MAX_SITE_PHOTO_BYTES = 10 * 1024 * 1024;
+
+export type SiteAnnotationType = 'push_zone' | 'stacking' | 'hazard' | 'no_salt';
+export type SiteAnnotationShape = 'marker' | 'arrow' | 'area';
+
+export interface SitePoint {
+  // Fractions of the image width and height
+  x: number;
+  y: number;
+}
+
+export interface SiteAnnotation {
+  id: string;
+  type: SiteAnnotationType;
+  shape: SiteAnnotationShape;
+  points: SitePoint[];
+  label: string;
+}
+
+export const SITE_ANNOTATION_TYPE_LABELS: Record<SiteAnnotationType, string> = {
+  push_zone: 'Push zone',
+  stacking: 'Snow stacking',
+  hazard: 'Hazard',
+  no_salt: 'No salt',
+};
+
+// Hex colors because annotations are drawn in SVG over the photo
+export const SITE_ANNOTATION_TYPE_COLORS: Record<SiteAnnotationType, string> = {
+  push_zone: '#0ea5e9',
+  stacking: '#22c55e',
+  hazard: '#ef4444',
+  no_salt: '#f59e0b',
+};
+
+export const SITE_ANNOTATION_SHAPE_LABELS: Record<SiteAnnotationShape, string> = {
+  marker: 'Marker',
+  arrow: 'Arrow',
+  area: 'Area',
+};
+
+// Points each shape needs before it can be saved
+export const SITE_ANNOTATION_MIN_POINTS: Record<SiteAnnotationShape, number> = {
+  marker: 1,
+  arrow: 2,
+  area: 3,
+};
+
+const isType = (value: unknown): value is SiteAnnotationType =>
+  typeof value === 'string' && value in SITE_ANNOTATION_TYPE_LABELS;
+
+const isShape = (value: unknown): value is SiteAnnotationShape =>
+  typeof value === 'string' && value in SITE_ANNOTATION_SHAPE_LABELS;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Drop anything malformed rather than failing to show the photo
+export const parseSiteAnnotations = (value: Json | null | undefined): SiteAnnotation[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const raw = item as Record<string, unknown>;
+    if (!isType(raw.type) || !isShape(raw.shape) || !Array.isArray(raw.points)) return [];
+
+    const points = raw.points.flatMap((point) => {
+      const p = point as Record<string, unknown> | null;
+      return p && typeof p.x === 'number' && typeof p.y === 'number' ? [{ x: clamp(p.x), y: clamp(p.y) }] : [];
+    });
+    if (points.length < SITE_ANNOTATION_MIN_POINTS[raw.shape]) return [];
+
+    return [
+      {
+        id: typeof raw.id === 'string' ? raw.id : `annotation-${index}`,
+        type: raw.type,
+        shape: raw.shape,
+        points,
+        label: typeof raw.label === 'string' ? raw.label : '',
+      },
+    ];
+  });
+};
+
+export const buildSitePhotoPath = (accountId: string, file: File): string => {
+  const fileExt = file.name.split('.').pop() || 'jpg';
+  return `${accountId}/${Date.now()}.${fileExt}`;
+};
+
+// Whether there's anything worth showing a driver on arrival
+export const hasSiteInstructions = (instructions: SiteInstructions | null | undefined) =>
+  !!instructions &&
+  (!!instructions.contact_on_arrival ||
+    !!instructions.stacking_instructions ||
+    !!instructions.hazards ||
+    !!instructions.special_instructions ||
+    instructions.sidewalks_included ||
+    !instructions.salt_allowed);
@@ -0,0 +1,167 @@
+import { differenceInMinutes, format } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type StormEvent = Tables<'storm_events'>;
+
+export type StormWorkLog = Pick<
+  Tables<'work_logs'>,
+  'id' | 'account_id' | 'check_in_time' | 'check_out_time' | 'service_type' | 'salt_used' | 'snow_depth'
+> & {
+  accounts: { name: string } | null;
+  work_log_employees: { employees: { name: string } | null }[];
+  work_log_equipment: { equipment: { id: string; name: string } | null }[];
+};
+
+export type StormShovelLog = Pick<
+  Tables<'shovel_work_logs'>,
+  'id' | 'account_id' | 'check_in_time' | 'check_out_time' | 'service_type' | 'salt_used' | 'snow_depth'
+> & {
+  accounts: { name: string } | null;
+  shovel_work_log_employees: { employees: { name: string } | null }[];
+};
+
+export type StormShift = Pick<
+  Tables<'time_clock'>,
+  'id' | 'employee_id' | 'clock_in_time' | 'clock_out_time' | 'duration_minutes'
+> & {
+  employees: { name: string } | null;
+};
+
+export type StormAccount = Pick<Tables<'accounts'>, 'id' | 'name' | 'service_type' | 'status'>;
+
+export interface StormAccountSummary {
+  id: string;
+  name: string;
+  plowVisits: number;
+  shovelVisits: number;
+  lastServiced: string | null;
+  // Services the account is contracted for but did not get during the storm
+  missed: ('plow' | 'shovel')[];
+}
+
+export interface StormCrewSummary {
+  employeeId: string;
+  name: string;
+  shifts: number;
+  minutes: number;
+}
+
+export interface StormEquipmentSummary {
+  id: string;
+  name: string;
+  visits: number;
+}
+
+export interface StormSummary {
+  accounts: StormAccountSummary[];
+  serviced: StormAccountSummary[];
+  missed: StormAccountSummary[];
+  crew: StormCrewSummary[];
+  crewMinutes: number;
+  saltUsed: number;
+  equipment: StormEquipmentSummary[];
+}
+
+export const isStormOngoing = (storm: Pick<StormEvent, 'end_time'>) => !storm.end_time;
+
+// Open shifts count up to now so an ongoing storm shows hours so far
+export const shiftMinutes = (shift: StormShift, now = new Date()): number => {
+  if (shift.duration_minutes !== null) return shift.duration_minutes;
+  const end = shift.clock_out_time ? new Date(shift.clock_out_time) : now;
+  return Math.max(0, differenceInMinutes(end, new Date(shift.clock_in_time)));
+};
+
+const needsPlow = (account: StormAccount) => account.service_type !== 'shovel';
+const needsShovel = (account: StormAccount) => account.service_type === 'shovel' || account.service_type === 'both';
+
+export const summarizeStorm = ({
+  workLogs,
+  shovelLogs,
+  shifts,
+  accounts,
+}: {
+  workLogs: StormWorkLog[];
+  shovelLogs: StormShovelLog[];
+  shifts: StormShift[];
+  accounts: StormAccount[];
+}): StormSummary => {
+  const byAccount = new Map<string, StormAccountSummary>();
+  const entry = (id: string, name: string) => {
+    if (!byAccount.has(id)) {
+      byAccount.set(id, { id, name, plowVisits: 0, shovelVisits: 0, lastServiced: null, missed: [] });
+    }
+    return byAccount.get(id)!;
+  };
+  const touch = (summary: StormAccountSummary, time: string) => {
+    if (!summary.lastServiced || time > summary.lastServiced) summary.lastServiced = time;
+  };
+
+  for (const account of accounts) {
+    if (account.status === 'inactive') continue;
+    entry(account.id, account.name);
+  }
+
+  const equipment = new Map<string, StormEquipmentSummary>();
+  let saltUsed = 0;
+
+  for (const log of workLogs) {
+    const summary = entry(log.account_id, log.accounts?.name || 'Unknown');
+    summary.plowVisits += 1;
+    touch(summary, log.check_in_time);
+    saltUsed += Number(log.salt_used) || 0;
+
+    for (const { equipment: unit } of log.work_log_equipment ?? []) {
+      if (!unit) continue;
+      const existing = equipment.get(unit.id) ?? { id: unit.id, name: unit.name, visits: 0 };
+      existing.visits += 1;
+      equipment.set(unit.id, existing);
+    }
+  }
+
+  for (const log of shovelLogs) {
+    const summary = entry(log.account_id, log.accounts?.name || 'Unknown');
+    summary.shovelVisits += 1;
+    touch(summary, log.check_in_time);
+    saltUsed += Number(log.salt_used) || 0;
+  }
+
+  const accountsById = new Map(accounts.map((account) => [account.id, account]));
+  for (const summary of byAccount.values()) {
+    const account = accountsById.get(summary.id);
+    if (!account || account.status === 'inactive') continue;
+    if (needsPlow(account) && summary.plowVisits === 0) summary.missed.push('plow');
+    if (needsShovel(account) && summary.shovelVisits === 0) summary.missed.push('shovel');
+  }
+
+  const crew = new Map<string, StormCrewSummary>();
+  const now = new Date();
+  for (const shift of shifts) {
+    const existing = crew.get(shift.employee_id) ?? {
+      employeeId: shift.employee_id,
+      name: shift.employees?.name || 'Unknown',
+      shifts: 0,
+      minutes: 0,
+    };
+    existing.shifts += 1;
+    existing.minutes += shiftMinutes(shift, now);
+    crew.set(shift.employee_id, existing);
+  }
+
+  const accountList = [...byAccount.values()].sort((a, b) => a.name.localeCompare(b.name));
+  const crewList = [...crew.values()].sort((a, b) => b.minutes - a.minutes);
+
+  return {
+    accounts: accountList,
+    serviced: accountList.filter((a) => a.plowVisits + a.shovelVisits > 0),
+    missed: accountList.filter((a) => a.missed.length > 0),
+    crew: crewList,
+    crewMinutes: crewList.reduce((sum, c) => sum + c.minutes, 0),
+    saltUsed: Math.round(saltUsed * 10) / 10,
+    equipment: [...equipment.values()].sort((a, b) => b.visits - a.visits),
+  };
+};
+
+export const formatStormWindow = (storm: Pick<StormEvent, 'start_time' | 'end_time'>) => {
+  const start = format(new Date(storm.start_time), 'MMM d, h:mm a');
+  return `${start} – ${storm.end_time ? format(new Date(storm.end_time), 'MMM d, h:mm a') : 'ongoing'}`;
+};
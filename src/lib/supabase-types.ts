@@ -20,6 +20,7 @@ export type WorkLogServiceType = 'plow' | 'salt' | 'both';
 export type ShovelWorkLogServiceType = 'shovel' | 'salt' | 'both';
 
 export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+export type ContractBillingModel = 'seasonal' | 'per_push' | 'per_inch';
 
 export type ServiceRequestType = 'new_service' | 'schedule_change' | 'complaint' | 'other';
 export type ServiceRequestStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
@@ -40,6 +41,8 @@ export interface CheckInState {
   accountName: string | null;
   checkInTime: string | null;
   serviceType: WorkLogServiceType | ShovelWorkLogServiceType | null;
+  geofenceEventId?: string | null;
+  geofenceExitEventId?: string | null;
 }
 
 // GPS Position
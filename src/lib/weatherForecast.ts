@@ -0,0 +1,245 @@
+import { addDays, format } from 'date-fns';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export type WeatherForecast = Tables<'weather_forecasts'>;
+
+export interface ForecastLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// One day of forecast as returned by a provider, in °F and inches
+export interface DailyForecast {
+  date: string;
+  temperatureHigh: number | null;
+  temperatureLow: number | null;
+  snowChance: number | null;
+  snowAmountMin: number | null;
+  snowAmountMax: number | null;
+  description: string | null;
+}
+
+export interface ForecastProvider {
+  id: string;
+  label: string;
+  fetchDailyForecast: (location: ForecastLocation, days: number) => Promise<DailyForecast[]>;
+}
+
+export interface ForecastThresholds {
+  snowInches: number;
+  snowChance: number;
+  // Alert on hard freezes (refreeze / salt runs); null disables it
+  lowTemperature: number | null;
+}
+
+export interface WeatherForecastSettings extends ForecastLocation {
+  locationName: string;
+  days: number;
+  provider: string;
+  thresholds: ForecastThresholds;
+}
+
+export const WEATHER_FORECAST_SETTING_KEY = 'weather_forecast';
+
+export const DEFAULT_WEATHER_FORECAST_SETTINGS: WeatherForecastSettings = {
+  latitude: 0,
+  longitude: 0,
+  locationName: '',
+  days: 7,
+  provider: 'open-meteo',
+  thresholds: {
+    snowInches: 2,
+    snowChance: 50,
+    lowTemperature: null,
+  },
+};
+
+export const WEATHER_CODE_DESCRIPTIONS: Record<number, string> = {
+  0: 'Clear', 1: 'Mostly Clear', 2: 'Partly Cloudy', 3: 'Overcast',
+  45: 'Foggy', 48: 'Freezing Fog',
+  51: 'Light Drizzle', 53: 'Drizzle', 55: 'Heavy Drizzle',
+  56: 'Freezing Drizzle', 57: 'Heavy Freezing Drizzle',
+  61: 'Light Rain', 63: 'Rain', 65: 'Heavy Rain',
+  66: 'Freezing Rain', 67: 'Heavy Freezing Rain',
+  71: 'Light Snow', 73: 'Snow', 75: 'Heavy Snow', 77: 'Snow Grains',
+  80: 'Light Showers', 81: 'Showers', 82: 'Heavy Showers',
+  85: 'Light Snow Showers', 86: 'Heavy Snow Showers',
+  95: 'Thunderstorm', 96: 'Thunderstorm with Hail', 99: 'Heavy Thunderstorm',
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const numberOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// Open-Meteo suffixes daily variables with the model name when several models
+// are requested (e.g. snowfall_sum_gfs_seamless); gather one value per model
+const modelValues = (daily: Record<string, unknown[]>, variable: string, index: number): number[] =>
+  Object.keys(daily)
+    .filter((key) => key === variable || key.startsWith(`${variable}_`))
+    .map((key) => numberOrNull(daily[key]?.[index]))
+    .filter((value): value is number => value !== null);
+
+const OPEN_METEO_MODELS = ['gfs_seamless', 'ecmwf_ifs025', 'icon_seamless'];
+
+// The snowfall range is the spread between weather models
+export const openMeteoProvider: ForecastProvider = {
+  id: 'open-meteo',
+  label: 'Open-Meteo',
+  fetchDailyForecast: async ({ latitude, longitude }, days) => {
+    const params = new URLSearchParams({
+      latitude: String(latitude),
+      longitude: String(longitude),
+      daily: 'temperature_2m_max,temperature_2m_min,snowfall_sum,precipitation_probability_max,weather_code',
+      models: OPEN_METEO_MODELS.join(','),
+      temperature_unit: 'fahrenheit',
+      precipitation_unit: 'inch',
+      timezone: 'auto',
+      forecast_days: String(days),
+    });
+
+    const response = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
+    if (!response.ok) throw new Error(`Open-Meteo forecast failed (${response.status})`);
+
+    const data = await response.json();
+    const daily = (data.daily ?? {}) as Record<string, unknown[]>;
+    const dates = (daily.time ?? []) as string[];
+
+    return dates.map((date, i) => {
+      const highs = modelValues(daily, 'temperature_2m_max', i);
+      const lows = modelValues(daily, 'temperature_2m_min', i);
+      const snow = modelValues(daily, 'snowfall_sum', i);
+      const chances = modelValues(daily, 'precipitation_probability_max', i);
+      const codes = modelValues(daily, 'weather_code', i);
+      const average = (values: number[]) =>
+        values.length > 0 ? round1(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+      return {
+        date,
+        temperatureHigh: average(highs),
+        temperatureLow: average(lows),
+        // Precipitation odds only count as snow odds when some model expects snow
+        snowChance: chances.length > 0 && snow.some((v) => v > 0) ? Math.round(Math.max(...chances)) : 0,
+        snowAmountMin: snow.length > 0 ? round1(Math.min(...snow)) : null,
+        snowAmountMax: snow.length > 0 ? round1(Math.max(...snow)) : null,
+        description: codes.length > 0 ? WEATHER_CODE_DESCRIPTIONS[codes[0]] ?? null : null,
+      };
+    });
+  },
+};
+
+// Deterministic local forecast for development and tests; no network access
+export const stubForecastProvider: ForecastProvider = {
+  id: 'stub',
+  label: 'Local stub',
+  fetchDailyForecast: async (_location, days) => {
+    const pattern = [
+      { snow: [0, 0], chance: 0, high: 34, low: 22, description: 'Partly Cloudy' },
+      { snow: [1, 3], chance: 60, high: 30, low: 18, description: 'Light Snow' },
+      { snow: [4, 8], chance: 90, high: 27, low: 15, description: 'Heavy Snow' },
+      { snow: [0.5, 1], chance: 40, high: 25, low: 8, description: 'Light Snow Showers' },
+    ];
+    return Array.from({ length: days }, (_, i) => {
+      const day = pattern[i % pattern.length];
+      return {
+        date: format(addDays(new Date(), i), 'yyyy-MM-dd'),
+        temperatureHigh: day.high,
+        temperatureLow: day.low,
+        snowChance: day.chance,
+        snowAmountMin: day.snow[0],
+        snowAmountMax: day.snow[1],
+        description: day.description,
+      };
+    });
+  },
+};
+
+export const FORECAST_PROVIDERS: Record<string, ForecastProvider> = {
+  [openMeteoProvider.id]: openMeteoProvider,
+  [stubForecastProvider.id]: stubForecastProvider,
+};
+
+// VITE_WEATHER_PROVIDER overrides the saved provider, e.g. `stub` for local runs
+export const getForecastProvider = (id: string): ForecastProvider =>
+  FORECAST_PROVIDERS[import.meta.env.VITE_WEATHER_PROVIDER || id] ?? openMeteoProvider;
+
+export type ForecastAlertKind = 'snow' | 'freeze';
+
+// The kind is what staff are notified about; the message is display text and
+// changes whenever the amount or chance moves
+export interface ForecastAlert {
+  kind: ForecastAlertKind;
+  message: string;
+}
+
+export const evaluateForecastAlerts = (forecast: DailyForecast, thresholds: ForecastThresholds): ForecastAlert[] => {
+  const alerts: ForecastAlert[] = [];
+  const snowMax = forecast.snowAmountMax ?? 0;
+
+  if (snowMax >= thresholds.snowInches && (forecast.snowChance ?? 0) >= thresholds.snowChance) {
+    alerts.push({
+      kind: 'snow',
+      message: `Snow ${formatSnowRange(forecast.snowAmountMin, forecast.snowAmountMax)} (${forecast.snowChance}% chance)`,
+    });
+  }
+  if (
+    thresholds.lowTemperature !== null &&
+    forecast.temperatureLow !== null &&
+    forecast.temperatureLow <= thresholds.lowTemperature
+  ) {
+    alerts.push({ kind: 'freeze', message: `Low of ${Math.round(forecast.temperatureLow)}°F` });
+  }
+  return alerts;
+};
+
+export const toForecastRow = (
+  forecast: DailyForecast,
+  thresholds: ForecastThresholds,
+  providerId: string,
+  userId?: string
+): TablesInsert<'weather_forecasts'> => {
+  const alerts = evaluateForecastAlerts(forecast, thresholds);
+  return {
+    forecast_date: forecast.date,
+    temperature_high: forecast.temperatureHigh,
+    temperature_low: forecast.temperatureLow,
+    snow_chance: forecast.snowChance,
+    snow_amount_min: forecast.snowAmountMin,
+    snow_amount_max: forecast.snowAmountMax,
+    description: forecast.description,
+    alerts: alerts.map((alert) => alert.message),
+    alert_kinds: alerts.map((alert) => alert.kind),
+    source: providerId,
+    fetched_at: new Date().toISOString(),
+    created_by: userId,
+  };
+};
+
+export const formatSnowRange = (min: number | null, max: number | null): string => {
+  if (max === null || max === 0) return '0"';
+  if (min === null || min === max) return `${max}"`;
+  return `${min}–${max}"`;
+};
+
+export const parseWeatherForecastSettings = (value: Json | null | undefined): WeatherForecastSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_WEATHER_FORECAST_SETTINGS;
+  const raw = value as Record<string, unknown>;
+  const thresholds = (raw.thresholds && typeof raw.thresholds === 'object' ? raw.thresholds : {}) as Record<string, unknown>;
+  const defaults = DEFAULT_WEATHER_FORECAST_SETTINGS;
+
+  return {
+    latitude: numberOrNull(raw.latitude) ?? defaults.latitude,
+    longitude: numberOrNull(raw.longitude) ?? defaults.longitude,
+    locationName: typeof raw.locationName === 'string' ? raw.locationName : defaults.locationName,
+    days: Math.min(16, Math.max(1, numberOrNull(raw.days) ?? defaults.days)),
+    provider: typeof raw.provider === 'string' ? raw.provider : defaults.provider,
+    thresholds: {
+      snowInches: numberOrNull(thresholds.snowInches) ?? defaults.thresholds.snowInches,
+      snowChance: numberOrNull(thresholds.snowChance) ?? defaults.thresholds.snowChance,
+      lowTemperature: numberOrNull(thresholds.lowTemperature),
+    },
+  };
+};
+
+export const hasForecastLocation = (settings: ForecastLocation): boolean =>
+  !(settings.latitude === 0 && settings.longitude === 0);
@@ -0,0 +1,188 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { GPSPosition } from '@/lib/supabase-types';
+
+export type WorkLogPhoto = Tables<'work_log_photos'>;
+
+export type WorkPhotoStage = 'before' | 'during' | 'after';
+export type WorkPhotoLocationSource = 'exif' | 'device';
+
+export const WORK_PHOTO_BUCKET = 'work-photos';
+
+export const WORK_PHOTO_STAGE_LABELS: Record<WorkPhotoStage, string> = {
+  before: 'Before',
+  during: 'During',
+  after: 'After',
+};
+
+export const WORK_PHOTO_STAGES = Object.keys(WORK_PHOTO_STAGE_LABELS) as WorkPhotoStage[];
+
+// Long edge after compression. Plenty for a lot or sidewalk, and keeps a
+// phone photo to a few hundred KB on a weak cell connection.
+export const WORK_PHOTO_MAX_PX = 1600;
+const WORK_PHOTO_QUALITY = 0.8;
+
+// A photo processed on the device and ready to upload (or to queue offline)
+export interface CapturedWorkPhoto {
+  id: string;
+  blob: Blob;
+  stage: WorkPhotoStage;
+  takenAt: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  locationSource: WorkPhotoLocationSource | null;
+  width: number;
+  height: number;
+}
+
+interface ExifMetadata {
+  takenAt?: Date;
+  latitude?: number;
+  longitude?: number;
+}
+
+// EXIF date/times have no zone; cameras write the phone's local time
+const parseExifDate = (value: string): Date | undefined => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const date = new Date(y, mo - 1, d, h, mi, s);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const parseTiff = (view: DataView, start: number): ExifMetadata => {
+  const little = view.getUint16(start) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(start + offset, little);
+  const u32 = (offset: number) => view.getUint32(start + offset, little);
+
+  // tag -> offset of the entry's value field (relative to the TIFF header)
+  const readIfd = (offset: number) => {
+    const entries = new Map<number, { count: number; valueAt: number }>();
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      entries.set(u16(entry), { count: u32(entry + 4), valueAt: entry + 8 });
+    }
+    return entries;
+  };
+
+  const readAscii = (field: { count: number; valueAt: number }) => {
+    const at = field.count > 4 ? u32(field.valueAt) : field.valueAt;
+    let text = '';
+    for (let i = 0; i < field.count; i++) {
+      const code = view.getUint8(start + at + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  };
+
+  const readDegrees = (field: { count: number; valueAt: number }) => {
+    const at = u32(field.valueAt);
+    const [deg, min, sec] = [0, 1, 2].map((i) => {
+      const denominator = u32(at + i * 8 + 4);
+      return denominator ? u32(at + i * 8) / denominator : 0;
+    });
+    return deg + min / 60 + sec / 3600;
+  };
+
+  const metadata: ExifMetadata = {};
+  const ifd0 = readIfd(u32(4));
+
+  const exifPointer = ifd0.get(0x8769);
+  const exif = exifPointer ? readIfd(u32(exifPointer.valueAt)) : null;
+  const dateField = exif?.get(0x9003) ?? ifd0.get(0x0132);
+  if (dateField) metadata.takenAt = parseExifDate(readAscii(dateField));
+
+  const gpsPointer = ifd0.get(0x8825);
+  if (gpsPointer) {
+    const gps = readIfd(u32(gpsPointer.valueAt));
+    const latRef = gps.get(1);
+    const lat = gps.get(2);
+    const lngRef = gps.get(3);
+    const lng = gps.get(4);
+    if (latRef && lat && lngRef && lng) {
+      const latitude = readDegrees(lat) * (readAscii(latRef) === 'S' ? -1 : 1);
+      const longitude = readDegrees(lng) * (readAscii(lngRef) === 'W' ? -1 : 1);
+      // 0,0 is what some phones write when they had no fix
+      if (latitude !== 0 || longitude !== 0) {
+        metadata.latitude = latitude;
+        metadata.longitude = longitude;
+      }
+    }
+  }
+
+  return metadata;
+};
+
+// Read the capture time and GPS position from a JPEG's EXIF block. Only the
+// fields we store are parsed; anything unexpected yields no metadata.
+export const readExifMetadata = async (file: Blob): Promise<ExifMetadata> => {
+  try {
+    // The APP1 segment sits at the start of the file and is capped at 64KB
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+    let offset = 2;
+    while (offset + 10 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        return parseTiff(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch (error) {
+    console.error('Error reading photo EXIF data:', error);
+  }
+  return {};
+};
+
+// Resize to WORK_PHOTO_MAX_PX and re-encode as JPEG. Re-encoding also strips
+// the original EXIF block, which is why metadata is read beforehand.
+export const compressWorkPhoto = async (file: Blob): Promise<{ blob: Blob; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, WORK_PHOTO_MAX_PX / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', WORK_PHOTO_QUALITY));
+  if (!blob) throw new Error('Could not compress photo');
+  return { blob, width: canvas.width, height: canvas.height };
+};
+
+// Turn a picked or captured file into an upload-ready photo. EXIF wins for
+// time and place (the photo may have been taken earlier); otherwise the
+// device's current fix and the file's timestamp are used.
+export const prepareWorkPhoto = async (
+  file: File,
+  stage: WorkPhotoStage,
+  devicePosition: GPSPosition | null
+): Promise<CapturedWorkPhoto> => {
+  const [exif, compressed] = await Promise.all([readExifMetadata(file), compressWorkPhoto(file)]);
+  const hasExifLocation = exif.latitude !== undefined && exif.longitude !== undefined;
+
+  return {
+    id: crypto.randomUUID(),
+    blob: compressed.blob,
+    width: compressed.width,
+    height: compressed.height,
+    stage,
+    takenAt: (exif.takenAt ?? new Date(file.lastModified || Date.now())).toISOString(),
+    latitude: hasExifLocation ? exif.latitude! : devicePosition?.latitude ?? null,
+    longitude: hasExifLocation ? exif.longitude! : devicePosition?.longitude ?? null,
+    accuracy: hasExifLocation ? null : devicePosition?.accuracy ?? null,
+    locationSource: hasExifLocation ? 'exif' : devicePosition ? 'device' : null,
+  };
+};
+
+export const buildWorkPhotoPath = (kind: 'plow' | 'shovel', workLogId: string, photoId: string) =>
+  `${kind}/${workLogId}/${photoId}.jpg`;
+
+// The photo shown wherever a visit has a single image: the first "after"
+// shot, falling back to whatever was taken
+export const pickCoverPhoto = <T extends { stage: string }>(photos: T[]): T | null =>
+  photos.find((photo) => photo.stage === 'after') ?? photos[0] ?? null;
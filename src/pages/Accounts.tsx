@@ -4,10 +4,18 @@ import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { DataTable, StatusBadge, Column } from '@/components/management/DataTable';
 import { CSVImport } from '@/components/management/CSVImport';
+import { AccountContractsDialog } from '@/components/contracts/AccountContractsDialog';
+import { AccountSiteDocsDialog } from '@/components/siteDocs/AccountSiteDocsDialog';
+import { ServiceMap } from '@/components/map/ServiceMap';
+import { useAccountServiceStatus } from '@/hooks/useMapData';
+import { useAuth } from '@/hooks/useAuth';
+import { useGeolocation } from '@/hooks/useGeolocation';
+import { LocationQualityDialog } from '@/components/geocoding/LocationQualityDialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import {
   Dialog,
@@ -35,9 +43,11 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { MapPin, Building2, Phone, Mail, Upload } from 'lucide-react';
+import { MapPin, Building2, Phone, Mail, Upload, FileSignature, Search, Crosshair, Loader2, ClipboardList } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import type { AccountPriority, AccountStatus, ServiceType } from '@/lib/supabase-types';
+import { DEFAULT_GEOFENCE_RADIUS_METERS, DEFAULT_GEOFENCE_EXIT_BUFFER_METERS } from '@/lib/geofence';
+import { formatAddress, geocodeMany, getGeocoder } from '@/lib/geocoding';
 
 interface Account {
   id: string;
@@ -55,6 +65,10 @@ interface Account {
   notes: string | null;
   latitude: number | null;
   longitude: number | null;
+  geofence_radius_meters: number;
+  geofence_exit_buffer_meters: number;
+  location_source: string | null;
+  require_checkout_photo: boolean;
 }
 
 const defaultFormData = {
@@ -72,6 +86,10 @@ const defaultFormData = {
   notes: '',
   latitude: '' as string,
   longitude: '' as string,
+  location_source: null as string | null,
+  geofence_radius_meters: String(DEFAULT_GEOFENCE_RADIUS_METERS),
+  geofence_exit_buffer_meters: String(DEFAULT_GEOFENCE_EXIT_BUFFER_METERS),
+  require_checkout_photo: false,
 };
 
 const Accounts = () => {
@@ -80,7 +98,13 @@ const Accounts = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
+  const [contractsAccount, setContractsAccount] = useState<Account | null>(null);
+  const [siteDocsAccount, setSiteDocsAccount] = useState<Account | null>(null);
   const [formData, setFormData] = useState(defaultFormData);
+  const [isLocating, setIsLocating] = useState(false);
+  const serviceStatus = useAccountServiceStatus();
+  const { user } = useAuth();
+  const { getPosition } = useGeolocation();
 
   // Fetch accounts
   const { data: accounts = [], isLoading } = useQuery({
@@ -97,7 +121,7 @@ const Accounts = () => {
 
   // Create/Update mutation
   const saveMutation = useMutation({
-    mutationFn: async (data: { name: string; address: string; city: string; state: string; zip: string; contact_name: string; contact_phone: string; contact_email: string; service_type: ServiceType; priority: AccountPriority; status: AccountStatus; notes: string; latitude: number | null; longitude: number | null }) => {
+    mutationFn: async (data: { name: string; address: string; city: string; state: string; zip: string; contact_name: string; contact_phone: string; contact_email: string; service_type: ServiceType; priority: AccountPriority; status: AccountStatus; notes: string; latitude: number | null; longitude: number | null; location_source: string | null; location_updated_at?: string; location_updated_by?: string; geofence_radius_meters: number; geofence_exit_buffer_meters: number; require_checkout_photo: boolean }) => {
       if (selectedAccount) {
         const { error } = await supabase
           .from('accounts')
@@ -178,6 +202,10 @@ const Accounts = () => {
       notes: account.notes || '',
       latitude: account.latitude?.toString() || '',
       longitude: account.longitude?.toString() || '',
+      location_source: account.location_source,
+      geofence_radius_meters: String(account.geofence_radius_meters ?? DEFAULT_GEOFENCE_RADIUS_METERS),
+      geofence_exit_buffer_meters: String(account.geofence_exit_buffer_meters ?? DEFAULT_GEOFENCE_EXIT_BUFFER_METERS),
+      require_checkout_photo: account.require_checkout_photo,
     });
     setDialogOpen(true);
   };
@@ -187,20 +215,104 @@ const Accounts = () => {
     setDeleteDialogOpen(true);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Fill the pin from the address typed in the form
+  const lookUpAddress = async (data: typeof formData) => {
+    const result = await getGeocoder().geocode(data);
+    return result
+      ? { ...data, latitude: String(result.latitude), longitude: String(result.longitude), location_source: 'geocoded' }
+      : null;
+  };
+
+  const handleLookUpAddress = async () => {
+    setIsLocating(true);
+    try {
+      const located = await lookUpAddress(formData);
+      if (located) setFormData(located);
+      else toast({ title: 'Address not found', description: 'Check the address or set the pin by hand.', variant: 'destructive' });
+    } catch (error) {
+      toast({ title: 'Error looking up address', description: String(error), variant: 'destructive' });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    const fix = await getPosition();
+    if (!fix) {
+      toast({ title: 'Location unavailable', description: 'Allow location access and try again.', variant: 'destructive' });
+      return;
+    }
+    setFormData({ ...formData, latitude: String(fix.latitude), longitude: String(fix.longitude), location_source: 'gps' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    let data = formData;
+
+    // Geocode when there's no pin yet, or the address moved under a pin
+    // that came from the geocoder rather than from a person
+    const coordsEdited =
+      !selectedAccount ||
+      data.latitude !== (selectedAccount.latitude?.toString() || '') ||
+      data.longitude !== (selectedAccount.longitude?.toString() || '');
+    const addressChanged = !!selectedAccount && formatAddress(selectedAccount) !== formatAddress(data);
+    const pinFromMachine = !data.location_source || data.location_source === 'geocoded' || data.location_source === 'import';
+    if (data.address.trim() && (!data.latitude || !data.longitude || (addressChanged && !coordsEdited && pinFromMachine))) {
+      setIsLocating(true);
+      try {
+        const located = await lookUpAddress(data);
+        if (located) data = located;
+        else toast({ title: 'Address not found', description: 'Saved without a map pin.', variant: 'destructive' });
+      } catch (error) {
+        toast({ title: 'Error looking up address', description: String(error), variant: 'destructive' });
+      } finally {
+        setIsLocating(false);
+      }
+    }
+
+    const latitude = data.latitude ? parseFloat(data.latitude) : null;
+    const longitude = data.longitude ? parseFloat(data.longitude) : null;
+    const locationChanged = latitude !== (selectedAccount?.latitude ?? null) || longitude !== (selectedAccount?.longitude ?? null);
     const dataToSave = {
-      ...formData,
-      latitude: formData.latitude ? parseFloat(formData.latitude) : null,
-      longitude: formData.longitude ? parseFloat(formData.longitude) : null,
+      ...data,
+      latitude,
+      longitude,
+      location_source: latitude === null || longitude === null ? null : data.location_source ?? 'manual',
+      ...(locationChanged && { location_updated_at: new Date().toISOString(), location_updated_by: user?.id }),
+      geofence_radius_meters: parseInt(data.geofence_radius_meters) || DEFAULT_GEOFENCE_RADIUS_METERS,
+      geofence_exit_buffer_meters: parseInt(data.geofence_exit_buffer_meters) || 0,
     };
     saveMutation.mutate(dataToSave);
   };
 
+  // Geocode imported rows that came without coordinates
+  const geocodeImportRows = async (rows: Record<string, unknown>[], onProgress: (done: number, total: number) => void) => {
+    const missing = rows.filter((row) => row.address && (row.latitude == null || row.longitude == null));
+    const text = (value: unknown) => (value == null ? null : String(value));
+    const results = await geocodeMany(
+      missing.map((row) => ({ address: String(row.address), city: text(row.city), state: text(row.state), zip: text(row.zip) })),
+      onProgress
+    );
+    const located = new Map(missing.map((row, index) => [row, results[index]]));
+
+    return rows.map((row) => {
+      const result = located.get(row);
+      if (result) return { ...row, latitude: result.latitude, longitude: result.longitude, location_source: 'geocoded' };
+      if (row.latitude != null && row.longitude != null) return { ...row, location_source: 'import' };
+      return row;
+    });
+  };
+
   const handleCSVImport = async (data: Record<string, any>[]) => {
-    const { error } = await supabase.from('accounts').insert(data as any);
+    const now = new Date().toISOString();
+    const rows = data.map((row) => (row.location_source ? { ...row, location_updated_at: now, location_updated_by: user?.id } : row));
+    const { error } = await supabase.from('accounts').insert(rows as any);
     if (error) throw error;
     queryClient.invalidateQueries({ queryKey: ['accounts'] });
+    const unlocated = rows.filter((row) => row.latitude == null || row.longitude == null).length;
+    if (unlocated > 0) {
+      toast({ title: `${unlocated} imported accounts have no map pin`, description: 'Review them under Location Quality.' });
+    }
   };
 
   const csvColumns = [
@@ -298,6 +410,26 @@ const Accounts = () => {
       header: 'Status',
       render: (account) => <StatusBadge status={account.status || 'active'} />,
     },
+    {
+      key: 'contract',
+      header: 'Contract',
+      render: (account) => (
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => setContractsAccount(account)}>
+          <FileSignature className="h-4 w-4" />
+          Rates
+        </Button>
+      ),
+    },
+    {
+      key: 'site_docs',
+      header: 'Site',
+      render: (account) => (
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => setSiteDocsAccount(account)}>
+          <ClipboardList className="h-4 w-4" />
+          Docs
+        </Button>
+      ),
+    },
   ];
 
   // Stats
@@ -314,17 +446,22 @@ const Accounts = () => {
             <h1 className="text-3xl font-bold text-foreground">Accounts</h1>
             <p className="text-muted-foreground">Manage customer accounts and service locations</p>
           </div>
-          <CSVImport
-            tableName="Accounts"
-            columns={csvColumns}
-            onImport={handleCSVImport}
-            trigger={
-              <Button variant="outline">
-                <Upload className="h-4 w-4 mr-2" />
-                Import CSV
-              </Button>
-            }
-          />
+          <div className="flex gap-2">
+            <LocationQualityDialog accounts={accounts} onEdit={handleEdit} />
+            <CSVImport
+              tableName="Accounts"
+              columns={csvColumns}
+              onImport={handleCSVImport}
+              prepareRows={geocodeImportRows}
+              prepareLabel="Geocoding addresses"
+              trigger={
+                <Button variant="outline">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import CSV
+                </Button>
+              }
+            />
+          </div>
         </div>
 
         {/* Stats */}
@@ -355,6 +492,17 @@ const Accounts = () => {
           </Card>
         </div>
 
+        {/* Map */}
+        <ServiceMap
+          accounts={accounts}
+          statusByAccount={serviceStatus}
+          onAccountClick={(accountId) => {
+            const account = accounts.find((a) => a.id === accountId);
+            if (account) handleEdit(account);
+          }}
+          className="h-[360px]"
+        />
+
         {/* Data Table */}
         <Card className="glass">
           <CardContent className="p-6">
@@ -372,6 +520,18 @@ const Accounts = () => {
         </Card>
       </div>
 
+      <AccountContractsDialog
+        open={!!contractsAccount}
+        onOpenChange={(open) => !open && setContractsAccount(null)}
+        account={contractsAccount}
+      />
+
+      <AccountSiteDocsDialog
+        open={!!siteDocsAccount}
+        onOpenChange={(open) => !open && setSiteDocsAccount(null)}
+        account={siteDocsAccount}
+      />
+
       {/* Add/Edit Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -529,7 +689,7 @@ const Accounts = () => {
                   step="any"
                   placeholder="e.g. 41.8781"
                   value={formData.latitude}
-                  onChange={(e) => setFormData({ ...formData, latitude: e.target.value })}
+                  onChange={(e) => setFormData({ ...formData, latitude: e.target.value, location_source: 'manual' })}
                 />
               </div>
 
@@ -541,7 +701,59 @@ const Accounts = () => {
                   step="any"
                   placeholder="e.g. -87.6298"
                   value={formData.longitude}
-                  onChange={(e) => setFormData({ ...formData, longitude: e.target.value })}
+                  onChange={(e) => setFormData({ ...formData, longitude: e.target.value, location_source: 'manual' })}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2 md:col-span-2">
+                <Button type="button" variant="outline" size="sm" className="gap-2" onClick={handleLookUpAddress} disabled={isLocating || !formData.address.trim()}>
+                  {isLocating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                  Look Up Address
+                </Button>
+                <Button type="button" variant="outline" size="sm" className="gap-2" onClick={handleUseMyLocation}>
+                  <Crosshair className="h-4 w-4" />
+                  Use My Location
+                </Button>
+                <p className="text-xs text-muted-foreground self-center">
+                  Left blank, the pin is looked up from the address when you save.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="geofence_radius_meters">Geofence Radius (m)</Label>
+                <Input
+                  id="geofence_radius_meters"
+                  type="number"
+                  min="10"
+                  step="5"
+                  value={formData.geofence_radius_meters}
+                  onChange={(e) => setFormData({ ...formData, geofence_radius_meters: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Distance from the pin that counts as arriving</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="geofence_exit_buffer_meters">Exit Buffer (m)</Label>
+                <Input
+                  id="geofence_exit_buffer_meters"
+                  type="number"
+                  min="0"
+                  step="5"
+                  value={formData.geofence_exit_buffer_meters}
+                  onChange={(e) => setFormData({ ...formData, geofence_exit_buffer_meters: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Extra distance before leaving is recorded, to ignore GPS jitter</p>
+              </div>
+
+              <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-3 md:col-span-2">
+                <div className="space-y-0.5">
+                  <Label htmlFor="require_checkout_photo">Require Photo at Check-Out</Label>
+                  <p className="text-xs text-muted-foreground">Crews must attach at least one photo before logging a visit</p>
+                </div>
+                <Switch
+                  id="require_checkout_photo"
+                  checked={formData.require_checkout_photo}
+                  onCheckedChange={(checked) => setFormData({ ...formData, require_checkout_photo: checked })}
                 />
               </div>
             </div>
@@ -550,8 +762,8 @@ const Accounts = () => {
               <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={saveMutation.isPending}>
-                {saveMutation.isPending ? 'Saving...' : selectedAccount ? 'Update' : 'Create'}
+              <Button type="submit" disabled={saveMutation.isPending || isLocating}>
+                {saveMutation.isPending ? 'Saving...' : isLocating ? 'Locating...' : selectedAccount ? 'Update' : 'Create'}
               </Button>
             </DialogFooter>
           </form>
@@ -10,6 +10,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { InviteUserDialog } from '@/components/admin/InviteUserDialog';
 import { DataRetentionSettings } from '@/components/admin/DataRetentionSettings';
+import { ServiceLevelSettings } from '@/components/admin/ServiceLevelSettings';
+import { PayrollSettings } from '@/components/admin/PayrollSettings';
+import { ClockOutPolicySettings } from '@/components/admin/ClockOutPolicySettings';
+import { ClockInZoneSettings } from '@/components/admin/ClockInZoneSettings';
+import { MissedClockOutQueue } from '@/components/admin/MissedClockOutQueue';
+import { MapTileSettings } from '@/components/admin/MapTileSettings';
+import { CrewMap } from '@/components/map/CrewMap';
+import { LocationTrackingSettings } from '@/components/admin/LocationTrackingSettings';
+import { ShiftReplayDialog } from '@/components/tracking/ShiftReplayDialog';
+import { InvoiceManager } from '@/components/invoices/InvoiceManager';
+import { ServiceRequestQueue } from '@/components/serviceRequests/ServiceRequestQueue';
+import { ContactChangeQueue } from '@/components/clients/ContactChangeQueue';
+import { ClientOrganizationsManager } from '@/components/clients/ClientOrganizationsManager';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Switch } from '@/components/ui/switch';
@@ -59,6 +72,8 @@ import {
   MessageSquare,
   Timer,
   LogOut,
+  Navigation,
+  History,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
@@ -103,6 +118,7 @@ const Admin = () => {
   const queryClient = useQueryClient();
   
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [replayShiftId, setReplayShiftId] = useState<string | null>(null);
 
   // Fetch all users with roles
   const { data: usersWithRoles = [], isLoading: usersLoading } = useQuery({
@@ -169,7 +185,7 @@ const Admin = () => {
         supabase.from('equipment').select('id', { count: 'exact', head: true }),
         supabase.from('work_logs').select('id', { count: 'exact', head: true }).gte('created_at', today.toISOString()),
         supabase.from('notifications').select('id', { count: 'exact', head: true }).eq('is_read', false),
-        supabase.from('accounts').select('id', { count: 'exact', head: true }).not('client_user_id', 'is', null),
+        supabase.from('accounts').select('id, account_users!inner(id)', { count: 'exact', head: true }),
       ]);
 
       // Count admin/manager roles
@@ -207,6 +223,8 @@ const Admin = () => {
           )
         `)
         .is('clock_out_time', null)
+        // Shifts left open past the limit are listed in the review queue instead
+        .eq('review_required', false)
         .order('clock_in_time', { ascending: false });
       
       if (error) throw error;
@@ -468,6 +486,41 @@ const Admin = () => {
             </CardContent>
           </Card>
 
+          {/* Geofence Check-In Mode */}
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <Navigation className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <p className="font-medium">Geofence Check-In</p>
+                    <p className="text-sm text-muted-foreground">What happens when an on-shift employee arrives at an account</p>
+                  </div>
+                </div>
+                <Select
+                  value={getSetting('geofence_check_in_mode', 'prompt')}
+                  onValueChange={(value) =>
+                    updateSettingMutation.mutate(
+                      { key: 'geofence_check_in_mode', value },
+                      { onSuccess: () => queryClient.invalidateQueries({ queryKey: ['geofenceCheckInMode'] }) }
+                    )
+                  }
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    <SelectItem value="prompt">Prompt</SelectItem>
+                    <SelectItem value="auto">Automatic</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Data Backup */}
           <Card className="glass">
             <CardContent className="p-4">
@@ -549,6 +602,24 @@ const Admin = () => {
         {/* Data Retention Settings */}
         <DataRetentionSettings />
 
+        {/* Service Level Settings */}
+        <ServiceLevelSettings />
+
+        {/* Payroll Settings */}
+        <PayrollSettings />
+
+        {/* Missed Clock-Out Policy */}
+        <ClockOutPolicySettings />
+
+        {/* Clock-In Zones */}
+        <ClockInZoneSettings />
+
+        {/* Map Tile Settings */}
+        <MapTileSettings />
+
+        {/* Location Tracking Settings */}
+        <LocationTrackingSettings />
+
         {/* Stats Cards */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <Card className="glass">
@@ -650,6 +721,8 @@ const Admin = () => {
 
           {/* On Shift Tab */}
           <TabsContent value="onshift" className="space-y-4">
+            <MissedClockOutQueue />
+
             <Card className="glass">
               <CardHeader className="pb-3">
                 <div className="flex items-center gap-2">
@@ -695,6 +768,10 @@ const Admin = () => {
                             <Timer className="h-4 w-4 text-muted-foreground" />
                             <LiveTimer startTime={entry.clock_in_time} />
                           </div>
+                          <Button variant="outline" size="sm" className="gap-2" onClick={() => setReplayShiftId(entry.id)}>
+                            <History className="h-4 w-4" />
+                            Replay
+                          </Button>
                           <Button
                             variant="destructive"
                             size="sm"
@@ -716,6 +793,14 @@ const Admin = () => {
                 )}
               </CardContent>
             </Card>
+
+            <CrewMap />
+
+            <ShiftReplayDialog
+              open={!!replayShiftId}
+              onOpenChange={(open) => !open && setReplayShiftId(null)}
+              timeClockId={replayShiftId}
+            />
           </TabsContent>
 
           {/* Staff Tab */}
@@ -816,34 +901,21 @@ const Admin = () => {
             </Card>
           </TabsContent>
 
-          {/* Placeholder tabs */}
-          <TabsContent value="requests" className="space-y-4">
-            <Card className="glass">
-              <CardContent className="py-12 text-center text-muted-foreground">
-                <MessageSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p>Service requests will appear here</p>
-              </CardContent>
-            </Card>
+          <TabsContent value="invoices" className="space-y-4">
+            <InvoiceManager />
           </TabsContent>
 
-          <TabsContent value="invoices" className="space-y-4">
-            <Card className="glass">
-              <CardContent className="py-12 text-center text-muted-foreground">
-                <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p>Invoices will appear here</p>
-              </CardContent>
-            </Card>
+          <TabsContent value="requests" className="space-y-4">
+            <ServiceRequestQueue />
           </TabsContent>
 
           <TabsContent value="clients" className="space-y-4">
-            <Card className="glass">
-              <CardContent className="py-12 text-center text-muted-foreground">
-                <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p>Client accounts will appear here</p>
-              </CardContent>
-            </Card>
+            <ClientOrganizationsManager />
+            <ContactChangeQueue />
           </TabsContent>
 
+          {/* Placeholder tabs */}
+
           <TabsContent value="notifications" className="space-y-4">
             <Card className="glass">
               <CardContent className="py-12 text-center text-muted-foreground">
@@ -0,0 +1,114 @@
+import { useAuth } from '@/hooks/useAuth';
+import { useInvoiceLetterhead } from '@/hooks/useInvoicePricing';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { InvoiceDocument } from '@/components/invoices/InvoiceDocument';
+import { ArrowLeft, CloudSnow, Download, Loader2 } from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { downloadInvoicePDF } from '@/lib/generateInvoicePDF';
+
+const ClientInvoice = () => {
+  const { invoiceId } = useParams<{ invoiceId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { letterhead } = useInvoiceLetterhead();
+
+  // RLS limits clients to their own account's non-draft invoices
+  const { data: invoice, isLoading } = useQuery({
+    queryKey: ['clientInvoice', invoiceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoiceId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id && !!invoiceId,
+  });
+
+  const { data: account } = useQuery({
+    queryKey: ['clientInvoiceAccount', invoice?.account_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('name, address, city, state, zip, contact_name, contact_email, contact_phone')
+        .eq('id', invoice!.account_id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!invoice?.account_id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-dark flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="min-h-screen bg-gradient-dark flex items-center justify-center p-4">
+        <Card className="glass max-w-md w-full">
+          <CardHeader className="text-center">
+            <CloudSnow className="h-12 w-12 text-primary mx-auto mb-4" />
+            <CardTitle>Invoice Not Found</CardTitle>
+            <CardDescription>
+              This invoice does not exist or is not available to your account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate('/client-portal')} variant="outline" className="w-full">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Portal
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-dark">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-border bg-background/95 backdrop-blur">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/client-portal')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="font-bold text-foreground">Invoice {invoice.invoice_number}</h1>
+              <p className="text-xs text-muted-foreground">{account?.name}</p>
+            </div>
+          </div>
+          <Button
+            className="gap-2"
+            onClick={() => downloadInvoicePDF({ invoice, account: account ?? null, letterhead })}
+          >
+            <Download className="h-4 w-4" />
+            Download PDF
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-6 px-4 max-w-4xl">
+        <Card className="glass">
+          <CardContent className="p-6">
+            <InvoiceDocument invoice={invoice} account={account ?? null} letterhead={letterhead} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ClientInvoice;
@@ -1,11 +1,22 @@
+import { useMemo, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeInvalidation } from '@/hooks/useRealtimeInvalidation';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
+import { useClientAccounts } from '@/hooks/useClientAccount';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NewServiceRequestDialog } from '@/components/serviceRequests/NewServiceRequestDialog';
+import { ServiceRequestPhoto } from '@/components/serviceRequests/ServiceRequestPhoto';
+import { SiteInstructionsPanel } from '@/components/siteDocs/SiteInstructionsPanel';
+import { ClientAccountSettings } from '@/components/clients/ClientAccountSettings';
+import { PortalInvitations } from '@/components/clients/PortalInvitations';
+import { NotificationsDropdown } from '@/components/notifications/NotificationsDropdown';
+import { ProofOfServiceDialog } from '@/components/reports/ProofOfServiceDialog';
 import {
   CloudSnow,
   Clock,
@@ -14,89 +25,107 @@ import {
   CheckCircle2,
   Loader2,
   LogOut,
-  Bell,
   Calendar,
   DollarSign,
+  Building2,
+  ShieldCheck,
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
+import {
+  SERVICE_REQUEST_PRIORITY_BADGE_CLASSES,
+  SERVICE_REQUEST_PRIORITY_LABELS,
+  SERVICE_REQUEST_STATUS_BADGE_CLASSES,
+  SERVICE_REQUEST_STATUS_LABELS,
+  SERVICE_REQUEST_TYPE_LABELS,
+} from '@/lib/serviceRequests';
+import { ORGANIZATION_ROLE_LABELS, canManageClientAccount, canViewClientBilling } from '@/lib/clientAccounts';
+import type { AccountPriority, ServiceRequestStatus, ServiceRequestType } from '@/lib/supabase-types';
+
+const ALL_PROPERTIES = 'all';
 
 const ClientPortal = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
+  const [requestDialogOpen, setRequestDialogOpen] = useState(false);
+  const [proofDialogOpen, setProofDialogOpen] = useState(false);
 
-  // Fetch client's account
-  const { data: account, isLoading: accountLoading } = useQuery({
-    queryKey: ['clientAccount', user?.id],
-    queryFn: async () => {
-      if (!user?.id) return null;
-      
-      const { data, error } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('client_user_id', user.id)
-        .maybeSingle();
-      
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user?.id,
-  });
+  const { accounts: accessibleAccounts, isLoading: accountLoading } = useClientAccounts();
+  const [selectedAccountId, setSelectedAccountId] = useState(ALL_PROPERTIES);
+
+  // A single-property login never sees the "all properties" view
+  const selectedAccess =
+    accessibleAccounts.find((access) => access.account.id === selectedAccountId) ??
+    (accessibleAccounts.length === 1 ? accessibleAccounts[0] : null);
+  const account = selectedAccess?.account ?? null;
+  const scopedAccounts = selectedAccess ? [selectedAccess] : accessibleAccounts;
+  const scopeIds = scopedAccounts.map((access) => access.account.id);
+  const billingIds = scopedAccounts.filter((access) => canViewClientBilling(access.role)).map((access) => access.account.id);
+  // Memoized so the request dialog doesn't reset its form on every render
+  const requestAccounts = useMemo(
+    () =>
+      (selectedAccess ? [selectedAccess] : accessibleAccounts)
+        .filter((access) => canManageClientAccount(access.role))
+        .map((access) => ({ id: access.account.id, name: access.account.name })),
+    [selectedAccess, accessibleAccounts]
+  );
+  const proofAccounts = useMemo(
+    () => accessibleAccounts.map((access) => ({ id: access.account.id, name: access.account.name })),
+    [accessibleAccounts]
+  );
+  const accountNames: Record<string, string> = Object.fromEntries(
+    accessibleAccounts.map((access) => [access.account.id, access.account.name])
+  );
+  const organizationNames = [...new Set(accessibleAccounts.map((access) => access.organizationName).filter(Boolean))];
 
   // Fetch service history
   const { data: workLogs = [] } = useQuery({
-    queryKey: ['clientWorkLogs', account?.id],
+    queryKey: ['clientWorkLogs', scopeIds],
     queryFn: async () => {
-      if (!account?.id) return [];
-      
       const { data, error } = await supabase
         .from('work_logs')
         .select('*')
-        .eq('account_id', account.id)
+        .in('account_id', scopeIds)
         .order('check_in_time', { ascending: false })
-        .limit(50);
+        .limit(100);
       
       if (error) throw error;
       return data;
     },
-    enabled: !!account?.id,
+    enabled: scopeIds.length > 0,
   });
 
   // Fetch shovel logs
   const { data: shovelLogs = [] } = useQuery({
-    queryKey: ['clientShovelLogs', account?.id],
+    queryKey: ['clientShovelLogs', scopeIds],
     queryFn: async () => {
-      if (!account?.id) return [];
-      
       const { data, error } = await supabase
         .from('shovel_work_logs')
         .select('*')
-        .eq('account_id', account.id)
+        .in('account_id', scopeIds)
         .order('check_in_time', { ascending: false })
-        .limit(50);
+        .limit(100);
       
       if (error) throw error;
       return data;
     },
-    enabled: !!account?.id,
+    enabled: scopeIds.length > 0,
   });
 
-  // Fetch invoices
+  // Fetch invoices; viewers have no billing access
   const { data: invoices = [] } = useQuery({
-    queryKey: ['clientInvoices', account?.id],
+    queryKey: ['clientInvoices', billingIds],
     queryFn: async () => {
-      if (!account?.id) return [];
-      
       const { data, error } = await supabase
         .from('invoices')
         .select('*')
-        .eq('account_id', account.id)
+        .in('account_id', billingIds)
         .order('created_at', { ascending: false });
       
       if (error) throw error;
       return data;
     },
-    enabled: !!account?.id,
+    enabled: billingIds.length > 0,
   });
 
   // Fetch service requests
@@ -117,6 +146,14 @@ const ClientPortal = () => {
     enabled: !!user?.id,
   });
 
+  // Staff replies and status changes show up without a refresh
+  useRealtimeInvalidation({
+    table: 'service_requests',
+    queryKey: ['clientServiceRequests', user?.id],
+    filter: `requested_by=eq.${user?.id}`,
+    enabled: !!user?.id,
+  });
+
   const handleSignOut = async () => {
     await signOut();
     navigate('/');
@@ -125,6 +162,9 @@ const ClientPortal = () => {
   const allServices = [...workLogs, ...shovelLogs].sort(
     (a, b) => new Date(b.check_in_time).getTime() - new Date(a.check_in_time).getTime()
   );
+  const invoiceTotal = invoices
+    .filter((invoice) => invoice.status !== 'paid')
+    .reduce((sum, invoice) => sum + Number(invoice.amount), 0);
 
   if (accountLoading) {
     return (
@@ -134,9 +174,10 @@ const ClientPortal = () => {
     );
   }
 
-  if (!account) {
+  if (accessibleAccounts.length === 0) {
     return (
-      <div className="min-h-screen bg-gradient-dark flex items-center justify-center p-4">
+      <div className="min-h-screen bg-gradient-dark flex flex-col items-center justify-center gap-4 p-4">
+        <PortalInvitations className="max-w-md w-full" />
         <Card className="glass max-w-md w-full">
           <CardHeader className="text-center">
             <CloudSnow className="h-12 w-12 text-primary mx-auto mb-4" />
@@ -165,13 +206,13 @@ const ClientPortal = () => {
             <CloudSnow className="h-8 w-8 text-primary" />
             <div>
               <h1 className="font-bold text-foreground">Client Portal</h1>
-              <p className="text-xs text-muted-foreground">{account.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {account?.name ?? `${organizationNames[0] ?? 'All properties'} · ${accessibleAccounts.length} properties`}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="ghost" size="icon">
-              <Bell className="h-5 w-5" />
-            </Button>
+            <NotificationsDropdown />
             <Button variant="ghost" size="icon" onClick={handleSignOut}>
               <LogOut className="h-5 w-5" />
             </Button>
@@ -180,6 +221,27 @@ const ClientPortal = () => {
       </header>
 
       <main className="container py-6 px-4 max-w-4xl">
+        <PortalInvitations className="mb-4" />
+
+        {accessibleAccounts.length > 1 && (
+          <div className="mb-4 flex items-center gap-2">
+            <Building2 className="h-4 w-4 text-muted-foreground shrink-0" />
+            <Select value={selectedAccess?.account.id ?? ALL_PROPERTIES} onValueChange={setSelectedAccountId}>
+              <SelectTrigger className="w-full sm:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROPERTIES}>All properties ({accessibleAccounts.length})</SelectItem>
+                {accessibleAccounts.map((access) => (
+                  <SelectItem key={access.account.id} value={access.account.id}>
+                    {access.account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Status Cards */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
           <Card className="glass">
@@ -235,20 +297,27 @@ const ClientPortal = () => {
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="services" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="services">Services</TabsTrigger>
             <TabsTrigger value="invoices">Invoices</TabsTrigger>
             <TabsTrigger value="requests">Requests</TabsTrigger>
             <TabsTrigger value="account">Account</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
           </TabsList>
 
           <TabsContent value="services">
             <Card className="glass">
-              <CardHeader>
-                <CardTitle>Service History</CardTitle>
-                <CardDescription>
-                  Recent snow removal services at your property
-                </CardDescription>
+              <CardHeader className="flex flex-row items-center justify-between gap-2">
+                <div>
+                  <CardTitle>Service History</CardTitle>
+                  <CardDescription>
+                    {account ? 'Recent snow removal services at your property' : 'Recent snow removal services across all your properties'}
+                  </CardDescription>
+                </div>
+                <Button variant="outline" className="shrink-0" onClick={() => setProofDialogOpen(true)}>
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Proof of Service
+                </Button>
               </CardHeader>
               <CardContent>
                 <ScrollArea className="h-[400px]">
@@ -271,6 +340,9 @@ const ClientPortal = () => {
                               <p className="font-medium">
                                 {format(new Date(service.check_in_time), 'MMM d, yyyy')}
                               </p>
+                              {!account && (
+                                <p className="text-sm">{accountNames[service.account_id]}</p>
+                              )}
                               <p className="text-sm text-muted-foreground">
                                 {format(new Date(service.check_in_time), 'h:mm a')} - 
                                 {service.check_out_time && format(new Date(service.check_out_time), ' h:mm a')}
@@ -300,20 +372,29 @@ const ClientPortal = () => {
             <Card className="glass">
               <CardHeader>
                 <CardTitle>Invoices</CardTitle>
-                <CardDescription>View and download your invoices</CardDescription>
+                <CardDescription>
+                  View and download your invoices
+                  {invoiceTotal > 0 && ` · $${invoiceTotal.toFixed(2)} outstanding`}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <ScrollArea className="h-[400px]">
-                  {invoices.length === 0 ? (
+                  {billingIds.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      Invoices are only shown to owners and billing contacts.
+                    </p>
+                  ) : invoices.length === 0 ? (
                     <p className="text-center text-muted-foreground py-8">
                       No invoices yet.
                     </p>
                   ) : (
                     <div className="space-y-3">
                       {invoices.map((invoice: any) => (
-                        <div
+                        <button
                           key={invoice.id}
-                          className="flex items-center justify-between p-4 rounded-lg bg-accent/50"
+                          type="button"
+                          onClick={() => navigate(`/client-portal/invoices/${invoice.id}`)}
+                          className="w-full text-left flex items-center justify-between p-4 rounded-lg bg-accent/50 hover:bg-accent transition-colors"
                         >
                           <div className="flex items-center gap-3">
                             <div className="p-2 rounded-lg bg-warning/10">
@@ -321,8 +402,11 @@ const ClientPortal = () => {
                             </div>
                             <div>
                               <p className="font-medium">{invoice.invoice_number}</p>
+                              {!account && (
+                                <p className="text-sm">{accountNames[invoice.account_id]}</p>
+                              )}
                               <p className="text-sm text-muted-foreground">
-                                Due: {format(new Date(invoice.due_date), 'MMM d, yyyy')}
+                                Due: {format(new Date(`${invoice.due_date}T00:00:00`), 'MMM d, yyyy')}
                               </p>
                             </div>
                           </div>
@@ -338,7 +422,7 @@ const ClientPortal = () => {
                               {invoice.status}
                             </Badge>
                           </div>
-                        </div>
+                        </button>
                       ))}
                     </div>
                   )}
@@ -354,10 +438,12 @@ const ClientPortal = () => {
                   <CardTitle>Service Requests</CardTitle>
                   <CardDescription>Submit and track service requests</CardDescription>
                 </div>
-                <Button>
-                  <MessageSquare className="h-4 w-4 mr-2" />
-                  New Request
-                </Button>
+                {requestAccounts.length > 0 && (
+                  <Button onClick={() => setRequestDialogOpen(true)}>
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    New Request
+                  </Button>
+                )}
               </CardHeader>
               <CardContent>
                 <ScrollArea className="h-[400px]">
@@ -367,29 +453,59 @@ const ClientPortal = () => {
                     </p>
                   ) : (
                     <div className="space-y-3">
-                      {serviceRequests.map((request: any) => (
+                      {serviceRequests.map((request) => (
                         <div
                           key={request.id}
-                          className="p-4 rounded-lg bg-accent/50"
+                          className="p-4 rounded-lg bg-accent/50 space-y-3"
                         >
-                          <div className="flex items-center justify-between mb-2">
-                            <Badge variant="outline" className="capitalize">
-                              {request.request_type.replace('_', ' ')}
-                            </Badge>
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                              {accessibleAccounts.length > 1 && (
+                                <span className="text-sm font-medium">{accountNames[request.account_id]}</span>
+                              )}
+                              <Badge variant="outline">
+                                {SERVICE_REQUEST_TYPE_LABELS[request.request_type as ServiceRequestType] ?? request.request_type}
+                              </Badge>
+                              {request.priority && request.priority !== 'normal' && (
+                                <Badge
+                                  variant="outline"
+                                  className={SERVICE_REQUEST_PRIORITY_BADGE_CLASSES[request.priority as AccountPriority]}
+                                >
+                                  {SERVICE_REQUEST_PRIORITY_LABELS[request.priority as AccountPriority]}
+                                </Badge>
+                              )}
+                            </div>
                             <Badge
-                              variant={
-                                request.status === 'completed' ? 'default' :
-                                request.status === 'pending' ? 'outline' : 'secondary'
-                              }
-                              className="capitalize"
+                              variant="outline"
+                              className={SERVICE_REQUEST_STATUS_BADGE_CLASSES[request.status as ServiceRequestStatus]}
                             >
-                              {request.status}
+                              {SERVICE_REQUEST_STATUS_LABELS[request.status as ServiceRequestStatus] ?? request.status}
                             </Badge>
                           </div>
-                          <p className="text-sm">{request.description}</p>
-                          <p className="text-xs text-muted-foreground mt-2">
-                            {format(new Date(request.created_at), 'MMM d, yyyy h:mm a')}
-                          </p>
+                          <div>
+                            <p className="text-sm whitespace-pre-line">{request.description}</p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {format(new Date(request.created_at), 'MMM d, yyyy h:mm a')}
+                            </p>
+                          </div>
+                          {request.photo_url && <ServiceRequestPhoto path={request.photo_url} />}
+                          {request.response && (
+                            <div className="ml-4 p-3 rounded-lg bg-primary/10 border border-primary/20">
+                              <p className="text-xs font-medium text-primary mb-1">Response from our team</p>
+                              <p className="text-sm whitespace-pre-line">{request.response}</p>
+                              {request.responded_at && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  {format(new Date(request.responded_at), 'MMM d, yyyy h:mm a')}
+                                </p>
+                              )}
+                            </div>
+                          )}
+                          {request.completed_at && (
+                            <p className="text-xs text-success flex items-center gap-1">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Completed {format(new Date(request.completed_at), 'MMM d, yyyy h:mm a')}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -400,48 +516,116 @@ const ClientPortal = () => {
           </TabsContent>
 
           <TabsContent value="account">
-            <Card className="glass">
-              <CardHeader>
-                <CardTitle>Account Details</CardTitle>
-                <CardDescription>Your property information</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <Label className="text-muted-foreground">Property Name</Label>
-                  <p className="font-medium">{account.name}</p>
-                </div>
-                <div>
-                  <Label className="text-muted-foreground">Address</Label>
-                  <p className="font-medium">
-                    {account.address}
-                    {account.city && `, ${account.city}`}
-                    {account.state && `, ${account.state}`}
-                    {account.zip && ` ${account.zip}`}
-                  </p>
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label className="text-muted-foreground">Contact Name</Label>
-                    <p className="font-medium">{account.contact_name || '-'}</p>
-                  </div>
-                  <div>
-                    <Label className="text-muted-foreground">Contact Phone</Label>
-                    <p className="font-medium">{account.contact_phone || '-'}</p>
+            {account ? (
+              <>
+                <Card className="glass">
+                  <CardHeader>
+                    <CardTitle>Account Details</CardTitle>
+                    <CardDescription>Your property information</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <Label className="text-muted-foreground">Property Name</Label>
+                      <p className="font-medium">{account.name}</p>
+                    </div>
+                    <div>
+                      <Label className="text-muted-foreground">Address</Label>
+                      <p className="font-medium">
+                        {account.address}
+                        {account.city && `, ${account.city}`}
+                        {account.state && `, ${account.state}`}
+                        {account.zip && ` ${account.zip}`}
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label className="text-muted-foreground">Contact Name</Label>
+                        <p className="font-medium">{account.contact_name || '-'}</p>
+                      </div>
+                      <div>
+                        <Label className="text-muted-foreground">Contact Phone</Label>
+                        <p className="font-medium">{account.contact_phone || '-'}</p>
+                      </div>
+                    </div>
+                    <div>
+                      <Label className="text-muted-foreground">Service Type</Label>
+                      <Badge className={`capitalize mt-1 ${
+                        account.service_type === 'salt' 
+                          ? 'bg-success text-success-foreground' 
+                          : 'bg-primary text-primary-foreground'
+                      }`}>{account.service_type}</Badge>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="glass mt-4">
+                  <CardHeader>
+                    <CardTitle>Site Instructions</CardTitle>
+                    <CardDescription>What our crews follow at your property. Contact us to change anything.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <SiteInstructionsPanel accountId={account.id} emptyMessage="No site instructions on file yet." />
+                  </CardContent>
+                </Card>
+              </>
+            ) : (
+              <Card className="glass">
+                <CardHeader>
+                  <CardTitle>Properties</CardTitle>
+                  <CardDescription>Every property you can view. Open one to see its details and settings.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y divide-border">
+                    {accessibleAccounts.map((access) => (
+                      <div key={access.account.id} className="flex items-center justify-between gap-3 py-3">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{access.account.name}</p>
+                          <p className="text-sm text-muted-foreground truncate">
+                            {access.account.address}
+                            {access.account.city && `, ${access.account.city}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Badge variant="outline">{ORGANIZATION_ROLE_LABELS[access.role]}</Badge>
+                          <Button size="sm" variant="outline" onClick={() => setSelectedAccountId(access.account.id)}>
+                            Open
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                </div>
-                <div>
-                  <Label className="text-muted-foreground">Service Type</Label>
-                  <Badge className={`capitalize mt-1 ${
-                    account.service_type === 'salt' 
-                      ? 'bg-success text-success-foreground' 
-                      : 'bg-primary text-primary-foreground'
-                  }`}>{account.service_type}</Badge>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="settings">
+            {selectedAccess ? (
+              <ClientAccountSettings access={selectedAccess} />
+            ) : (
+              <Card className="glass">
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <Building2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>Choose a property above to manage its settings</p>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         </Tabs>
       </main>
+
+      <NewServiceRequestDialog
+        open={requestDialogOpen}
+        onOpenChange={setRequestDialogOpen}
+        accounts={requestAccounts}
+      />
+
+      <ProofOfServiceDialog
+        open={proofDialogOpen}
+        onOpenChange={setProofDialogOpen}
+        accounts={proofAccounts}
+        defaultAccountId={account?.id}
+      />
     </div>
   );
 };
@@ -1,10 +1,14 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useCheckInState } from '@/hooks/useCheckInState';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { useGeofence, useGeofenceMode } from '@/hooks/useGeofence';
 import { useGeolocation, calculateDistance, formatDistance } from '@/hooks/useGeolocation';
+import { useClockIn } from '@/hooks/useClockInZones';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { ServiceLevelAlerts } from '@/components/storms/ServiceLevelAlerts';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,6 +17,9 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { SetPinFromGpsButton } from '@/components/geocoding/SetPinFromGpsButton';
+import { SiteInstructionsPanel } from '@/components/siteDocs/SiteInstructionsPanel';
+import { WorkPhotoCapture } from '@/components/worklog/WorkPhotoCapture';
 
 import {
   Clock,
@@ -25,11 +32,13 @@ import {
   Truck,
   CheckCircle,
   CheckCircle2,
-  Camera,
-  Image as ImageIcon,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import type { AccountWithDistance } from '@/lib/supabase-types';
+import { createServiceLogRecord } from '@/lib/offlineQueue';
+import type { CapturedWorkPhoto } from '@/lib/workPhotos';
+import { WEATHER_CODE_DESCRIPTIONS } from '@/lib/weatherForecast';
 import { format, startOfWeek, endOfWeek } from 'date-fns';
 import { Link } from 'react-router-dom';
 
@@ -37,7 +46,9 @@ const Dashboard = () => {
   const { user, employeeId } = useAuth();
   const queryClient = useQueryClient();
   const checkInState = useCheckInState('plow');
-  const { position, loading: gpsLoading, getPosition } = useGeolocation();
+  const { submitServiceLog } = useOfflineQueue();
+  const { position, loading: gpsLoading, getPosition, startWatching, stopWatching } = useGeolocation();
+  const { clockIn } = useClockIn();
   const { toast } = useToast();
   const gpsInitialized = useRef(false);
 
@@ -48,7 +59,6 @@ const Dashboard = () => {
       getPosition();
     }
   }, [getPosition]);
-  const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [elapsedTime, setElapsedTime] = useState('0:00:00');
   const [shiftElapsedTime, setShiftElapsedTime] = useState('0:00:00');
@@ -64,8 +74,7 @@ const Dashboard = () => {
   const [selectedEmployees, setSelectedEmployees] = useState<string[]>([]);
   const [currentTemp, setCurrentTemp] = useState<number | null>(null);
   const [weatherLoading, setWeatherLoading] = useState(false);
-  const [photoFile, setPhotoFile] = useState<File | null>(null);
-  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<CapturedWorkPhoto[]>([]);
 
   // Update elapsed time every second when checked in to a job
   useEffect(() => {
@@ -99,19 +108,7 @@ const Dashboard = () => {
         setWindSpeed(Math.round(current.wind_speed_10m).toString());
         
         const weatherCode = current.weather_code;
-        const weatherDescriptions: Record<number, string> = {
-          0: 'Clear', 1: 'Mostly Clear', 2: 'Partly Cloudy', 3: 'Overcast',
-          45: 'Foggy', 48: 'Freezing Fog',
-          51: 'Light Drizzle', 53: 'Drizzle', 55: 'Heavy Drizzle',
-          56: 'Freezing Drizzle', 57: 'Heavy Freezing Drizzle',
-          61: 'Light Rain', 63: 'Rain', 65: 'Heavy Rain',
-          66: 'Freezing Rain', 67: 'Heavy Freezing Rain',
-          71: 'Light Snow', 73: 'Snow', 75: 'Heavy Snow', 77: 'Snow Grains',
-          80: 'Light Showers', 81: 'Showers', 82: 'Heavy Showers',
-          85: 'Light Snow Showers', 86: 'Heavy Snow Showers',
-          95: 'Thunderstorm', 96: 'Thunderstorm with Hail', 99: 'Heavy Thunderstorm',
-        };
-        setWeatherDescription(weatherDescriptions[weatherCode] || 'Unknown');
+        setWeatherDescription(WEATHER_CODE_DESCRIPTIONS[weatherCode] || 'Unknown');
       } catch (error) {
         console.error('Error fetching weather:', error);
       } finally {
@@ -128,7 +125,7 @@ const Dashboard = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('accounts')
-        .select('id, name, address, latitude, longitude, service_type')
+        .select('id, name, address, latitude, longitude, service_type, geofence_radius_meters, geofence_exit_buffer_meters, require_checkout_photo')
         .eq('status', 'active')
         .in('service_type', ['plowing', 'both']);
       
@@ -266,8 +263,8 @@ const Dashboard = () => {
     queryFn: async () => {
       let query = supabase
         .from('equipment')
-        .select('id, name, service_capability')
-        .eq('status', 'active');
+        .select('id, name, service_capability, status')
+        .in('status', ['active', 'maintenance']);
       
       // For salt or both service types, only show equipment that can salt
       if (serviceType === 'salt' || serviceType === 'both') {
@@ -280,6 +277,16 @@ const Dashboard = () => {
     },
   });
 
+  // Drop anything that went into the shop while it was selected
+  useEffect(() => {
+    const available = selectedEquipment.filter((eqId) =>
+      equipment.some((eq) => eq.id === eqId && eq.status !== 'maintenance')
+    );
+    if (available.length !== selectedEquipment.length) {
+      setSelectedEquipment(available);
+    }
+  }, [equipment, selectedEquipment]);
+
   // Clear selected equipment when service type changes and equipment no longer valid
   useEffect(() => {
     if (serviceType === 'salt' || serviceType === 'both') {
@@ -326,6 +333,7 @@ const Dashboard = () => {
     return a.distance - b.distance;
   });
 
+  const selectedAccountDetails = accounts.find((account) => account.id === selectedAccount);
   const nearestAccount = sortedAccounts[0];
 
   // Auto-select nearest account when GPS position updates
@@ -345,7 +353,66 @@ const Dashboard = () => {
     }
   }, [activeShift, employeeId, employees, selectedEmployees.length]);
 
-  // Form validation - all fields required except notes and photo
+  // Geofencing: watch position while on shift and detect arrivals/departures
+  const geofenceMode = useGeofenceMode();
+  const geofenceEnabled = !!activeShift && geofenceMode !== 'off';
+
+  useEffect(() => {
+    if (geofenceEnabled) {
+      startWatching();
+    } else {
+      stopWatching();
+    }
+  }, [geofenceEnabled, startWatching, stopWatching]);
+
+  useGeofence({
+    enabled: geofenceEnabled,
+    position,
+    accounts,
+    employeeId,
+    initialAccountId: checkInState.isCheckedIn ? checkInState.accountId : null,
+    onEnter: ({ target }, eventId) => {
+      if (checkInState.isCheckedIn) return;
+
+      if (geofenceMode === 'auto') {
+        checkInState.checkIn(target.id, target.name, serviceType, eventId);
+        setSelectedAccount(target.id);
+        toast({
+          title: 'Checked in automatically',
+          description: `Arrived at ${target.name}`,
+        });
+        return;
+      }
+
+      setSelectedAccount(target.id);
+      toast({
+        title: `Arrived at ${target.name}`,
+        description: 'Check in to start the service timer.',
+        action: (
+          <ToastAction
+            altText="Check in"
+            onClick={() => checkInState.checkIn(target.id, target.name, serviceType, eventId)}
+          >
+            Check In
+          </ToastAction>
+        ),
+      });
+    },
+    onExit: ({ target }, eventId) => {
+      if (!checkInState.isCheckedIn || checkInState.accountId !== target.id) return;
+
+      if (eventId) checkInState.recordGeofenceExit(eventId);
+      toast({
+        title: `Left ${target.name}`,
+        description: 'Log the service to check out.',
+      });
+    },
+  });
+
+  // Some accounts need photographic proof before the crew can check out
+  const photoRequired = !!accounts.find((a) => a.id === checkInState.accountId)?.require_checkout_photo;
+
+  // Form validation - all fields required except notes and photo (unless the account requires one)
   // Salt Used is optional for "plow" only, Snow Depth is optional for "salt" only
   const isFormValid = 
     selectedAccount &&
@@ -356,7 +423,8 @@ const Dashboard = () => {
     (serviceType === 'plow' || saltUsed.trim() !== '') &&
     temperature.trim() !== '' &&
     weatherDescription.trim() !== '' &&
-    windSpeed.trim() !== '';
+    windSpeed.trim() !== '' &&
+    (!photoRequired || photos.length > 0);
 
   const handleCheckIn = async () => {
     if (!selectedAccount) {
@@ -387,16 +455,6 @@ const Dashboard = () => {
     }
   };
 
-  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setPhotoFile(file);
-      const reader = new FileReader();
-      reader.onload = () => setPhotoPreview(reader.result as string);
-      reader.readAsDataURL(file);
-    }
-  };
-
   const handleLogService = async () => {
     if (!checkInState.isCheckedIn || !checkInState.accountId) {
       return;
@@ -407,21 +465,11 @@ const Dashboard = () => {
       const checkInTime = new Date(checkInState.checkInTime!);
       const durationMinutes = Math.round((checkOutTime.getTime() - checkInTime.getTime()) / 60000);
 
-      let photoUrl: string | null = null;
-      if (photoFile) {
-        const fileName = `plow/${Date.now()}-${photoFile.name}`;
-        const { error: uploadError } = await supabase.storage
-          .from('work-photos')
-          .upload(fileName, photoFile);
-        
-        if (!uploadError) {
-          photoUrl = fileName;
-        }
-      }
-
-      const { data: workLog, error: workLogError } = await supabase
-        .from('work_logs')
-        .insert({
+      // Capture the whole service record up front so it can be replayed offline
+      const record = createServiceLogRecord({
+        kind: 'plow',
+        accountName: checkInState.accountName,
+        workLog: {
           account_id: checkInState.accountId,
           service_type: serviceType,
           check_in_time: checkInState.checkInTime,
@@ -432,40 +480,24 @@ const Dashboard = () => {
           temperature: temperature ? parseFloat(temperature) : null,
           weather_description: weatherDescription || null,
           wind_speed: windSpeed || null,
-          photo_url: photoUrl,
           notes: notes || null,
+          geofence_event_id: checkInState.geofenceEventId || null,
           created_by: user?.id,
-        })
-        .select()
-        .single();
-
-      if (workLogError) throw workLogError;
-
-      // Link employees to work log
-      if (workLog) {
-        const employeesToLink = selectedEmployees.length > 0 ? selectedEmployees : (employeeId ? [employeeId] : []);
-        for (const empId of employeesToLink) {
-          await supabase
-            .from('work_log_employees')
-            .insert({
-              work_log_id: workLog.id,
-              employee_id: empId,
-            });
-        }
-      }
+        },
+        photos,
+        employeeIds: selectedEmployees.length > 0 ? selectedEmployees : (employeeId ? [employeeId] : []),
+        geofenceEventIds: [checkInState.geofenceEventId, checkInState.geofenceExitEventId].filter(Boolean) as string[],
+        equipmentIds: selectedEquipment,
+      });
 
-      // Link selected equipment to work log
-      if (selectedEquipment.length > 0 && workLog) {
-        for (const eqId of selectedEquipment) {
-          await supabase
-            .from('work_log_equipment')
-            .insert({
-              work_log_id: workLog.id,
-              equipment_id: eqId,
-            });
-        }
+      const result = await submitServiceLog(record);
+      if (result === 'queued') {
+        toast({
+          title: 'Saved offline',
+          description: 'No connection. This service will sync automatically when you are back online.',
+        });
       }
-      queryClient.invalidateQueries({ queryKey: ['recentActivity'] });
+
       checkInState.checkOut();
       setSelectedAccount('');
       setServiceType('plow');
@@ -477,8 +509,7 @@ const Dashboard = () => {
       setNotes('');
       setSelectedEquipment([]);
       setSelectedEmployees([]);
-      setPhotoFile(null);
-      setPhotoPreview(null);
+      setPhotos([]);
     } catch (error) {
       console.error('Error logging service:', error);
       toast({
@@ -499,29 +530,11 @@ const Dashboard = () => {
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('time_clock')
-        .insert({
-          employee_id: employeeId,
-          clock_in_time: new Date().toISOString(),
-          clock_in_latitude: position?.latitude || null,
-          clock_in_longitude: position?.longitude || null,
-        });
-
-      if (error) throw error;
-
+    if (await clockIn(position)) {
       toast({
         title: 'Shift started!',
         description: 'You are now clocked in.',
       });
-    } catch (error) {
-      console.error('Error starting shift:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to start shift. Please try again.',
-        variant: 'destructive',
-      });
     }
   };
 
@@ -710,6 +723,8 @@ const Dashboard = () => {
           </div>
         </div>
 
+        <ServiceLevelAlerts />
+
         {/* Two Column Layout */}
         <div className="grid lg:grid-cols-2 gap-6">
           {/* Quick Log Entry */}
@@ -763,6 +778,20 @@ const Dashboard = () => {
                   </ScrollArea>
                 </SelectContent>
               </Select>
+              {selectedAccountDetails && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {selectedAccountDetails.latitude === null || selectedAccountDetails.longitude === null
+                      ? 'No pin on file for this property'
+                      : 'Pin in the wrong place?'}
+                  </span>
+                  <SetPinFromGpsButton
+                    accountId={selectedAccountDetails.id}
+                    accountName={selectedAccountDetails.name}
+                    position={position}
+                  />
+                </div>
+              )}
             </div>
 
             {/* Check In Button / Timer Display */}
@@ -796,6 +825,11 @@ const Dashboard = () => {
               </div>
             )}
 
+            {/* Site docs for the property being serviced, or about to be */}
+            {(checkInState.accountId || selectedAccount) && (
+              <SiteInstructionsPanel accountId={checkInState.accountId || selectedAccount} />
+            )}
+
             {/* Service Type */}
             <div className="space-y-2">
               <Label className="text-sm font-medium text-foreground">Service Type</Label>
@@ -847,7 +881,8 @@ const Dashboard = () => {
                   </SelectTrigger>
                   <SelectContent className="bg-card border-border z-50">
                     {equipment.map((eq) => (
-                      <SelectItem key={eq.id} value={eq.id}>
+                      // Units in maintenance stay blocked until their work is signed off
+                      <SelectItem key={eq.id} value={eq.id} disabled={eq.status === 'maintenance'}>
                         <div className="flex items-center gap-2">
                           {selectedEquipment.includes(eq.id) && (
                             <CheckCircle2 className="h-3 w-3 text-primary" />
@@ -865,6 +900,11 @@ const Dashboard = () => {
                           >
                             {eq.service_capability === 'both' ? 'Plow+Salt' : eq.service_capability === 'salter' ? 'Salter' : 'Plow'}
                           </Badge>
+                          {eq.status === 'maintenance' && (
+                            <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 border-warning text-warning">
+                              In Shop
+                            </Badge>
+                          )}
                         </div>
                       </SelectItem>
                     ))}
@@ -1013,49 +1053,13 @@ const Dashboard = () => {
               />
             </div>
 
-            {/* Photo Upload */}
-            <div className="space-y-2">
-              <Label className="text-sm font-medium text-foreground">Photo (Optional)</Label>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*"
-                onChange={handlePhotoSelect}
-                className="hidden"
-              />
-              {photoPreview ? (
-                <div className="relative">
-                  <img src={photoPreview} alt="Preview" className="w-full h-32 object-cover rounded-lg" />
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    className="absolute top-2 right-2"
-                    onClick={() => { setPhotoFile(null); setPhotoPreview(null); }}
-                  >
-                    Remove
-                  </Button>
-                </div>
-              ) : (
-                <div className="grid grid-cols-2 gap-3">
-                  <Button
-                    variant="outline"
-                    className="h-11 bg-muted/30"
-                    onClick={() => fileInputRef.current?.click()}
-                  >
-                    <ImageIcon className="h-4 w-4 mr-2" />
-                    Choose from gallery
-                  </Button>
-                  <Button
-                    variant="outline"
-                    className="h-11 bg-muted/30"
-                    onClick={() => fileInputRef.current?.click()}
-                  >
-                    <Camera className="h-4 w-4 mr-2" />
-                    Take photo
-                  </Button>
-                </div>
-              )}
-            </div>
+            {/* Photos */}
+            <WorkPhotoCapture
+              photos={photos}
+              onChange={setPhotos}
+              position={position}
+              required={photoRequired}
+            />
 
             {/* Submit Button */}
             <Button
@@ -1084,7 +1088,7 @@ const Dashboard = () => {
             </Button>
             {checkInState.isCheckedIn && !isFormValid && (
               <p className="text-xs text-center text-destructive">
-                Please fill in all required fields (Equipment, Employees, Snow Depth, Salt Used, Weather info)
+                Please fill in all required fields (Equipment, Employees, Snow Depth, Salt Used, Weather info{photoRequired ? ', Photo' : ''})
               </p>
             )}
           </div>
@@ -79,6 +79,7 @@ interface Employee {
   category: string;
   status: string;
   hire_date: string | null;
+  payroll_id: string | null;
   user_id: string | null;
 }
 
@@ -106,6 +107,7 @@ const defaultFormData = {
   category: 'plow' as EmployeeCategory,
   status: 'active' as EmployeeStatus,
   hire_date: '',
+  payroll_id: '',
   user_id: '' as string,
 };
 
@@ -256,6 +258,7 @@ const Employees = () => {
         category: data.category,
         status: data.status,
         hire_date: data.hire_date || null,
+        payroll_id: data.payroll_id.trim() || null,
         user_id: data.user_id || null,
       };
 
@@ -332,6 +335,7 @@ const Employees = () => {
       category: employee.category as EmployeeCategory,
       status: employee.status as EmployeeStatus,
       hire_date: employee.hire_date || '',
+      payroll_id: employee.payroll_id || '',
       user_id: employee.user_id || '',
     });
     setDialogOpen(true);
@@ -367,6 +371,7 @@ const Employees = () => {
     { key: 'category', label: 'Category' },
     { key: 'status', label: 'Status' },
     { key: 'hire_date', label: 'Hire Date' },
+    { key: 'payroll_id', label: 'Payroll ID' },
   ];
 
   const columns: Column<Employee>[] = [
@@ -707,6 +712,17 @@ const Employees = () => {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="payroll_id">Payroll ID</Label>
+              <Input
+                id="payroll_id"
+                value={formData.payroll_id}
+                onChange={(e) => setFormData({ ...formData, payroll_id: e.target.value })}
+                placeholder="Employee ID or file number in your payroll system"
+                className="h-12"
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="user_id">Assign to User</Label>
               <Select
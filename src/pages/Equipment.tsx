@@ -4,6 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { DataTable, StatusBadge, Column } from '@/components/management/DataTable';
 import { CSVImport } from '@/components/management/CSVImport';
+import { MaintenanceHistorySheet } from '@/components/equipment/MaintenanceHistorySheet';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -35,9 +36,18 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { Truck, Wrench, Upload } from 'lucide-react';
+import { Truck, Wrench, Upload, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
+import { formatCurrency } from '@/lib/invoicing';
+import {
+  DEFAULT_MAINTENANCE_INTERVAL_DAYS,
+  formatSeason,
+  isMaintenanceOverdue,
+  parseLocalDate,
+  seasonStartYear,
+  summarizeMaintenanceCosts,
+} from '@/lib/maintenance';
 import type { EquipmentType, EquipmentCategory, EquipmentStatus, EquipmentServiceCapability } from '@/lib/supabase-types';
 
 interface Equipment {
@@ -80,6 +90,7 @@ const defaultFormData = {
   category: 'operational' as EquipmentCategory,
   service_capability: 'both' as EquipmentServiceCapability,
   status: 'active' as EquipmentStatus,
+  maintenance_interval_days: String(DEFAULT_MAINTENANCE_INTERVAL_DAYS),
   notes: '',
 };
 
@@ -90,6 +101,7 @@ const Equipment = () => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedEquipment, setSelectedEquipment] = useState<Equipment | null>(null);
   const [formData, setFormData] = useState(defaultFormData);
+  const [maintenanceEquipmentId, setMaintenanceEquipmentId] = useState<string | null>(null);
 
   // Fetch equipment
   const { data: equipment = [], isLoading } = useQuery({
@@ -104,12 +116,29 @@ const Equipment = () => {
     },
   });
 
+  // Costs only, for the per-unit and per-season totals
+  const { data: maintenanceCosts = [] } = useQuery({
+    queryKey: ['maintenanceLogs', 'costs'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('maintenance_logs')
+        .select('equipment_id, performed_date, cost');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const costs = summarizeMaintenanceCosts(maintenanceCosts);
+
   // Create/Update mutation
   const saveMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       const payload = {
         ...data,
         year: data.year ? parseInt(data.year) : null,
+        maintenance_interval_days: data.maintenance_interval_days
+          ? parseInt(data.maintenance_interval_days)
+          : DEFAULT_MAINTENANCE_INTERVAL_DAYS,
       };
 
       if (selectedEquipment) {
@@ -118,6 +147,14 @@ const Equipment = () => {
           .update(payload)
           .eq('id', selectedEquipment.id);
         if (error) throw error;
+
+        // A new interval moves the next due date of the latest maintenance entry
+        if (payload.maintenance_interval_days !== selectedEquipment.maintenance_interval_days) {
+          const { error: refreshError } = await supabase.rpc('refresh_equipment_maintenance_dates', {
+            _equipment_id: selectedEquipment.id,
+          });
+          if (refreshError) throw refreshError;
+        }
       } else {
         const { error } = await supabase.from('equipment').insert(payload);
         if (error) throw error;
@@ -188,6 +225,7 @@ const Equipment = () => {
       category: item.category as EquipmentCategory,
       service_capability: item.service_capability as EquipmentServiceCapability,
       status: item.status as EquipmentStatus,
+      maintenance_interval_days: String(item.maintenance_interval_days ?? DEFAULT_MAINTENANCE_INTERVAL_DAYS),
       notes: item.notes || '',
     });
     setDialogOpen(true);
@@ -282,19 +320,43 @@ const Equipment = () => {
       key: 'next_maintenance_date',
       header: 'Maintenance',
       render: (item) => {
-        if (!item.next_maintenance_date) return <span className="text-muted-foreground">-</span>;
-        const dueDate = new Date(item.next_maintenance_date);
-        const isOverdue = dueDate < new Date();
+        const isOverdue = isMaintenanceOverdue(item.next_maintenance_date);
         return (
-          <div className="flex items-center gap-1">
-            <Wrench className={`h-3 w-3 ${isOverdue ? 'text-destructive' : 'text-muted-foreground'}`} />
-            <span className={isOverdue ? 'text-destructive' : ''}>
-              {format(dueDate, 'MMM d, yyyy')}
-            </span>
+          <div className="flex items-center gap-2">
+            {item.next_maintenance_date ? (
+              <div className="flex items-center gap-1">
+                <Wrench className={`h-3 w-3 ${isOverdue ? 'text-destructive' : 'text-muted-foreground'}`} />
+                <span className={isOverdue ? 'text-destructive' : ''}>
+                  {format(parseLocalDate(item.next_maintenance_date), 'MMM d, yyyy')}
+                </span>
+              </div>
+            ) : (
+              <span className="text-muted-foreground">-</span>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Maintenance history"
+              onClick={(e) => {
+                e.stopPropagation();
+                setMaintenanceEquipmentId(item.id);
+              }}
+            >
+              <History className="h-4 w-4" />
+            </Button>
           </div>
         );
       },
     },
+    {
+      key: 'maintenance_cost',
+      header: 'Maint. Cost',
+      hideOnMobile: true,
+      render: (item) => (
+        <span className="text-sm">{formatCurrency(costs.byEquipment[item.id] || 0)}</span>
+      ),
+    },
     {
       key: 'status',
       header: 'Status',
@@ -305,10 +367,10 @@ const Equipment = () => {
   // Stats
   const activeCount = equipment.filter((e) => e.status === 'active').length;
   const maintenanceCount = equipment.filter((e) => e.status === 'maintenance').length;
-  const overdueCount = equipment.filter((e) => {
-    if (!e.next_maintenance_date) return false;
-    return new Date(e.next_maintenance_date) < new Date();
-  }).length;
+  const overdueCount = equipment.filter((e) => isMaintenanceOverdue(e.next_maintenance_date)).length;
+  const currentSeason = seasonStartYear(format(new Date(), 'yyyy-MM-dd'));
+  const currentSeasonCost = costs.bySeason.find((season) => season.season === currentSeason)?.total || 0;
+  const maintenanceEquipment = equipment.find((e) => e.id === maintenanceEquipmentId) ?? null;
 
   return (
     <AppLayout>
@@ -360,6 +422,27 @@ const Equipment = () => {
           </Card>
         </div>
 
+        {/* Maintenance cost by season */}
+        <Card className="glass">
+          <CardContent className="p-4 flex flex-wrap items-center gap-x-8 gap-y-2">
+            <div>
+              <div className="text-2xl font-bold">{formatCurrency(currentSeasonCost)}</div>
+              <div className="text-xs text-muted-foreground">
+                Maintenance Cost ({formatSeason(currentSeason)} season)
+              </div>
+            </div>
+            {costs.bySeason
+              .filter((season) => season.season !== currentSeason)
+              .slice(0, 3)
+              .map((season) => (
+                <div key={season.season}>
+                  <div className="text-lg font-semibold">{formatCurrency(season.total)}</div>
+                  <div className="text-xs text-muted-foreground">{season.label} season</div>
+                </div>
+              ))}
+          </CardContent>
+        </Card>
+
         {/* Data Table */}
         <Card className="glass">
           <CardContent className="p-6">
@@ -507,6 +590,8 @@ const Equipment = () => {
                 <Select
                   value={formData.status}
                   onValueChange={(value) => setFormData({ ...formData, status: value as EquipmentStatus })}
+                  // Only a signed-off maintenance entry returns a unit to service
+                  disabled={selectedEquipment?.status === 'maintenance'}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -517,6 +602,22 @@ const Equipment = () => {
                     <SelectItem value="maintenance">Maintenance</SelectItem>
                   </SelectContent>
                 </Select>
+                {selectedEquipment?.status === 'maintenance' && (
+                  <p className="text-xs text-muted-foreground">
+                    Sign off the work in its maintenance history to return it to service.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="maintenance_interval_days">Maintenance Interval (days)</Label>
+                <Input
+                  id="maintenance_interval_days"
+                  type="number"
+                  min="1"
+                  value={formData.maintenance_interval_days}
+                  onChange={(e) => setFormData({ ...formData, maintenance_interval_days: e.target.value })}
+                />
               </div>
 
               <div className="space-y-2 md:col-span-2">
@@ -542,6 +643,12 @@ const Equipment = () => {
         </DialogContent>
       </Dialog>
 
+      <MaintenanceHistorySheet
+        open={!!maintenanceEquipment}
+        onOpenChange={(open) => !open && setMaintenanceEquipmentId(null)}
+        equipment={maintenanceEquipment}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
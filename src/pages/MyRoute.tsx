@@ -0,0 +1,130 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useMyRoute } from '@/hooks/useRoutes';
+import { useAuth } from '@/hooks/useAuth';
+import { CheckCircle, ExternalLink, Loader2, MapPin, Navigation, Truck, Users } from 'lucide-react';
+import { ROUTE_SERVICE_TYPE_LABELS, mapsDirectionsUrl, type RouteServiceType } from '@/lib/routes';
+
+const MyRoute = () => {
+  const { employeeCategory } = useAuth();
+  const { routes, isLoading } = useMyRoute();
+  const logPath = employeeCategory === 'shovel' ? '/shovel-crew' : '/dashboard';
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">My Route</h1>
+            <p className="text-muted-foreground">{format(new Date(), 'EEEE, MMMM d')}</p>
+          </div>
+          <Button asChild>
+            <Link to={logPath}>Log Service</Link>
+          </Button>
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {!isLoading && routes.length === 0 && (
+          <Card className="glass">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No route assigned to you today
+            </CardContent>
+          </Card>
+        )}
+
+        {routes.map(({ assignment, stops }) => {
+          const serviced = stops.filter((stop) => stop.servicedAt).length;
+          const nextStop = stops.find((stop) => !stop.servicedAt);
+
+          return (
+            <Card key={assignment.id} className="glass">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg">{assignment.routes?.name}</CardTitle>
+                    <CardDescription className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        {assignment.route_assignment_employees.map((e) => e.employees?.name).filter(Boolean).join(', ')}
+                      </span>
+                      {assignment.equipment && (
+                        <span className="flex items-center gap-1">
+                          <Truck className="h-3 w-3" />
+                          {assignment.equipment.name}
+                        </span>
+                      )}
+                    </CardDescription>
+                  </div>
+                  {assignment.routes && (
+                    <Badge variant="secondary">
+                      {ROUTE_SERVICE_TYPE_LABELS[assignment.routes.service_type as RouteServiceType]}
+                    </Badge>
+                  )}
+                </div>
+                <div className="space-y-1 pt-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Progress</span>
+                    <span className="font-medium">{serviced} / {stops.length} stops</span>
+                  </div>
+                  <Progress value={stops.length ? (serviced / stops.length) * 100 : 0} />
+                </div>
+                {assignment.notes && <p className="text-sm text-muted-foreground pt-2">{assignment.notes}</p>}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {stops.map((stop, index) => (
+                  <div
+                    key={stop.accountId}
+                    className={`flex items-center gap-3 p-3 rounded-lg ${
+                      stop === nextStop ? 'bg-primary/10 border border-primary/30' : 'bg-muted/50'
+                    }`}
+                  >
+                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center text-sm font-bold">
+                      {stop.servicedAt ? <CheckCircle className="h-4 w-4 text-success" /> : index + 1}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className={`font-medium truncate ${stop.servicedAt ? 'text-muted-foreground line-through' : ''}`}>
+                        {stop.account?.name ?? 'Unknown account'}
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate flex items-center gap-1">
+                        <MapPin className="h-3 w-3 flex-shrink-0" />
+                        {stop.account?.address}
+                      </p>
+                    </div>
+                    {stop.servicedAt ? (
+                      <Badge className="bg-success/20 text-success border-success/30">
+                        {format(new Date(stop.servicedAt), 'h:mm a')}
+                      </Badge>
+                    ) : (
+                      stop.account && (
+                        <Button size="sm" variant={stop === nextStop ? 'default' : 'outline'} asChild>
+                          <a href={mapsDirectionsUrl(stop.account)} target="_blank" rel="noopener noreferrer">
+                            <Navigation className="h-3 w-3 mr-1" />
+                            Go
+                            <ExternalLink className="h-3 w-3 ml-1" />
+                          </a>
+                        </Button>
+                      )
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default MyRoute;
@@ -11,6 +11,8 @@ import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, User, Mail, Phone, Shield, Calendar, Save, ArrowLeft } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { LocationSharingCard } from '@/components/tracking/LocationSharingCard';
+import { PushNotificationSettings } from '@/components/notifications/PushNotificationSettings';
 import { format } from 'date-fns';
 
 interface ProfileData {
@@ -25,7 +27,7 @@ interface ProfileData {
 }
 
 const Profile = () => {
-  const { user, roles } = useAuth();
+  const { user, roles, isStaff } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
@@ -250,6 +252,10 @@ const Profile = () => {
         </CardContent>
       </Card>
 
+      <PushNotificationSettings />
+
+      {isStaff() && <LocationSharingCard />}
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
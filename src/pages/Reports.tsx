@@ -1,4 +1,5 @@
 import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -49,6 +50,7 @@ import {
   MapPin,
   Pencil,
   Trash2,
+  Lock,
   FileText,
   Image,
   Plus,
@@ -59,6 +61,7 @@ import {
   FileSpreadsheet,
   CheckSquare,
   StickyNote,
+  ShieldCheck,
 } from 'lucide-react';
 import { format, startOfMonth, endOfMonth } from 'date-fns';
 import { cn } from '@/lib/utils';
@@ -68,8 +71,12 @@ import { EditShiftDialog } from '@/components/reports/EditShiftDialog';
 import { EditWorkLogDialog, type EditableWorkEntry } from '@/components/reports/EditWorkLogDialog';
 import { ZapierSettingsDialog } from '@/components/reports/ZapierSettingsDialog';
 import { BulkEditDialog } from '@/components/reports/BulkEditDialog';
+import { useTimesheetApprovals } from '@/hooks/usePayroll';
+import { findApprovalFor } from '@/lib/payroll';
+import { ProofOfServiceDialog } from '@/components/reports/ProofOfServiceDialog';
 import { downloadReportPDF, printReportPDF, generateFullReportPDF, generateWorkLogsPDF, generateTimeClockPDF } from '@/lib/generateReportPDF';
 import { useToast } from '@/hooks/use-toast';
+import { useStormEvents } from '@/hooks/useStormEvents';
 import { CSVImport } from '@/components/management/CSVImport';
 
 type DateRange = {
@@ -139,6 +146,7 @@ const Reports = () => {
   const [showZapierSettings, setShowZapierSettings] = useState(false);
   const [isSendingToZapier, setIsSendingToZapier] = useState(false);
   const [showBulkEditDialog, setShowBulkEditDialog] = useState(false);
+  const [showProofOfServiceDialog, setShowProofOfServiceDialog] = useState(false);
   const [bulkEditType, setBulkEditType] = useState<'work_logs' | 'time_clock' | 'shovel_work_logs'>('work_logs');
   const [shiftsExpanded, setShiftsExpanded] = useState(true);
   
@@ -155,6 +163,10 @@ const Reports = () => {
   const [selectedEquipment, setSelectedEquipment] = useState<string>('all');
   const [minSnowDepth, setMinSnowDepth] = useState<string>('');
   const [minSaltUsed, setMinSaltUsed] = useState<string>('');
+  const [selectedStorm, setSelectedStorm] = useState<string>('all');
+
+  const { storms } = useStormEvents();
+  const activeStorm = storms.find(storm => storm.id === selectedStorm) ?? null;
 
   // Fetch Zapier webhook URL from settings
   const { data: zapierWebhookUrl = '' } = useQuery({
@@ -227,19 +239,25 @@ const Reports = () => {
   });
 
   // Fetch work logs with details
+  // A selected storm replaces the date range with the storm's own logs and shifts
   const { data: workLogs } = useQuery({
-    queryKey: ['workLogsReport', dateRange],
+    queryKey: ['workLogsReport', dateRange, selectedStorm],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('work_logs')
         .select(`
           *,
           accounts(name),
           work_log_employees(employees(name)),
           work_log_equipment(equipment(name))
-        `)
-        .gte('check_in_time', dateRange.from.toISOString())
-        .lte('check_in_time', dateRange.to.toISOString())
+        `);
+      query = selectedStorm !== 'all'
+        ? query.eq('storm_event_id', selectedStorm)
+        : query
+            .gte('check_in_time', dateRange.from.toISOString())
+            .lte('check_in_time', dateRange.to.toISOString());
+
+      const { data, error } = await query
         .order('check_in_time', { ascending: false })
         .limit(200);
 
@@ -250,17 +268,22 @@ const Reports = () => {
 
   // Fetch shovel logs with details
   const { data: shovelLogs } = useQuery({
-    queryKey: ['shovelLogsReport', dateRange],
+    queryKey: ['shovelLogsReport', dateRange, selectedStorm],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('shovel_work_logs')
         .select(`
           *,
           accounts(name),
           shovel_work_log_employees(employees(name))
-        `)
-        .gte('check_in_time', dateRange.from.toISOString())
-        .lte('check_in_time', dateRange.to.toISOString())
+        `);
+      query = selectedStorm !== 'all'
+        ? query.eq('storm_event_id', selectedStorm)
+        : query
+            .gte('check_in_time', dateRange.from.toISOString())
+            .lte('check_in_time', dateRange.to.toISOString());
+
+      const { data, error } = await query
         .order('check_in_time', { ascending: false })
         .limit(200);
 
@@ -271,13 +294,18 @@ const Reports = () => {
 
   // Fetch time clock entries (daily shifts)
   const { data: timeClockEntries } = useQuery({
-    queryKey: ['timeClockReport', dateRange],
+    queryKey: ['timeClockReport', dateRange, selectedStorm],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('time_clock')
-        .select('*, employees(name)')
-        .gte('clock_in_time', dateRange.from.toISOString())
-        .lte('clock_in_time', dateRange.to.toISOString())
+        .select('*, employees(name)');
+      query = selectedStorm !== 'all'
+        ? query.eq('storm_event_id', selectedStorm)
+        : query
+            .gte('clock_in_time', dateRange.from.toISOString())
+            .lte('clock_in_time', dateRange.to.toISOString());
+
+      const { data, error } = await query
         .not('clock_out_time', 'is', null)
         .order('clock_in_time', { ascending: false })
         .limit(200);
@@ -287,6 +315,14 @@ const Reports = () => {
     },
   });
 
+  // Shifts on an approved timesheet are frozen; show them as locked
+  const shiftRange = useMemo(() => {
+    if (!timeClockEntries?.length) return null;
+    const times = timeClockEntries.map((entry) => new Date(entry.clock_in_time).getTime());
+    return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times) + 1) };
+  }, [timeClockEntries]);
+  const { data: shiftApprovals = [] } = useTimesheetApprovals(shiftRange);
+
   // Apply filters to work logs
   const filteredWorkLogs = useMemo(() => {
     if (!workLogs) return [];
@@ -376,14 +412,16 @@ const Reports = () => {
     setSelectedEquipment('all');
     setMinSnowDepth('');
     setMinSaltUsed('');
+    setSelectedStorm('all');
   };
 
   const getReportData = () => ({
     workEntries: allWorkEntries,
     timeClockEntries: timeClockEntries || [],
     filters: {
-      dateFrom: dateRange.from,
-      dateTo: dateRange.to,
+      dateFrom: activeStorm ? new Date(activeStorm.start_time) : dateRange.from,
+      dateTo: activeStorm ? new Date(activeStorm.end_time ?? Date.now()) : dateRange.to,
+      selectedStorm: activeStorm?.name ?? null,
       logType,
       selectedAccount,
       selectedEmployee,
@@ -954,6 +992,10 @@ const Reports = () => {
                   <Clock className="h-4 w-4 mr-2" />
                   Time Clock (PDF)
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowProofOfServiceDialog(true)}>
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Proof of Service (PDF)
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={exportWorkLogsCSV}>
                   <FileSpreadsheet className="h-4 w-4 mr-2" />
@@ -963,6 +1005,12 @@ const Reports = () => {
                   <FileSpreadsheet className="h-4 w-4 mr-2" />
                   Daily Shifts (CSV)
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to="/timesheets">
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Payroll by Pay Period...
+                  </Link>
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
             <DropdownMenu>
@@ -1072,13 +1120,31 @@ const Reports = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-3 sm:space-y-4">
+            {/* Storm */}
+            <div className="space-y-1.5">
+              <Label className="text-muted-foreground text-xs">Storm</Label>
+              <Select value={selectedStorm} onValueChange={setSelectedStorm}>
+                <SelectTrigger className="h-9 text-xs sm:text-sm">
+                  <SelectValue placeholder="All Storms" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Storms (use dates)</SelectItem>
+                  {storms.map(storm => (
+                    <SelectItem key={storm.id} value={storm.id}>
+                      {storm.name} ({format(new Date(storm.start_time), 'MM/dd/yy')})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Date Range Row */}
             <div className="grid grid-cols-2 gap-2 sm:gap-4">
               <div className="space-y-1.5">
                 <Label className="text-muted-foreground text-xs">From Date</Label>
                 <Popover>
                   <PopoverTrigger asChild>
-                    <Button variant="outline" size="sm" className="w-full justify-start text-left font-normal text-xs sm:text-sm">
+                    <Button variant="outline" size="sm" className="w-full justify-start text-left font-normal text-xs sm:text-sm" disabled={!!activeStorm}>
                       <CalendarIcon className="mr-1.5 h-3.5 w-3.5" />
                       {format(dateRange.from, 'MM/dd/yy')}
                     </Button>
@@ -1096,7 +1162,7 @@ const Reports = () => {
                 <Label className="text-muted-foreground text-xs">To Date</Label>
                 <Popover>
                   <PopoverTrigger asChild>
-                    <Button variant="outline" size="sm" className="w-full justify-start text-left font-normal text-xs sm:text-sm">
+                    <Button variant="outline" size="sm" className="w-full justify-start text-left font-normal text-xs sm:text-sm" disabled={!!activeStorm}>
                       <CalendarIcon className="mr-1.5 h-3.5 w-3.5" />
                       {format(dateRange.to, 'MM/dd/yy')}
                     </Button>
@@ -1349,24 +1415,35 @@ const Reports = () => {
                               )}
                             </TableCell>
                             <TableCell>
-                              <div className="flex items-center gap-1">
-                                <Button 
-                                  variant="ghost" 
-                                  size="icon" 
-                                  className="h-7 w-7"
-                                  onClick={() => handleEditShift(entry)}
-                                >
-                                  <Pencil className="h-3.5 w-3.5" />
-                                </Button>
-                                <Button 
-                                  variant="ghost" 
-                                  size="icon" 
-                                  className="h-7 w-7 text-destructive"
-                                  onClick={() => handleDeleteShift(entry.id)}
-                                >
-                                  <Trash2 className="h-3.5 w-3.5" />
-                                </Button>
-                              </div>
+                              {findApprovalFor(shiftApprovals, entry.employee_id, entry.clock_in_time) ? (
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <span className="flex h-7 w-7 items-center justify-center text-muted-foreground">
+                                      <Lock className="h-3.5 w-3.5" />
+                                    </span>
+                                  </TooltipTrigger>
+                                  <TooltipContent side="top">On an approved timesheet</TooltipContent>
+                                </Tooltip>
+                              ) : (
+                                <div className="flex items-center gap-1">
+                                  <Button 
+                                    variant="ghost" 
+                                    size="icon" 
+                                    className="h-7 w-7"
+                                    onClick={() => handleEditShift(entry)}
+                                  >
+                                    <Pencil className="h-3.5 w-3.5" />
+                                  </Button>
+                                  <Button 
+                                    variant="ghost" 
+                                    size="icon" 
+                                    className="h-7 w-7 text-destructive"
+                                    onClick={() => handleDeleteShift(entry.id)}
+                                  >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                  </Button>
+                                </div>
+                              )}
                             </TableCell>
                           </TableRow>
                         ))}
@@ -1589,6 +1666,13 @@ const Reports = () => {
       {/* Dialogs */}
       <AddWorkEntryDialog open={showAddEntryDialog} onOpenChange={setShowAddEntryDialog} />
       <AddShiftDialog open={showAddShiftDialog} onOpenChange={setShowAddShiftDialog} />
+      <ProofOfServiceDialog
+        open={showProofOfServiceDialog}
+        onOpenChange={setShowProofOfServiceDialog}
+        accounts={accounts || []}
+        defaultAccountId={accounts?.find((account) => account.name === selectedAccount)?.id}
+        defaultRange={dateRange}
+      />
       <EditShiftDialog 
         open={showEditShiftDialog} 
         onOpenChange={setShowEditShiftDialog} 
@@ -1,9 +1,17 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useGeolocation, calculateDistance, formatDistance } from '@/hooks/useGeolocation';
+import { useCurrentServiceLevels, useServiceLevelSettings } from '@/hooks/useServiceLevels';
+import { useRouteSolver } from '@/hooks/useRouteSolver';
+import { useAccountServiceStatus } from '@/hooks/useMapData';
+import { useToast } from '@/hooks/use-toast';
+import { useRoutes } from '@/hooks/useRoutes';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { ServiceLevelAlerts } from '@/components/storms/ServiceLevelAlerts';
+import { RouteEditorDialog } from '@/components/routes/RouteEditorDialog';
+import { ServiceMap, type MapPoint } from '@/components/map/ServiceMap';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -25,8 +33,25 @@ import {
   GripVertical,
   Snowflake,
   Loader2,
+  Save,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  SERVICE_LEVEL_STATUS_CLASSES,
+  SERVICE_LEVEL_STATUS_LABELS,
+  formatDeadlineDistance,
+  isFlaggedServiceLevel,
+} from '@/lib/serviceLevels';
+import { sortedStops } from '@/lib/routes';
+import {
+  DEFAULT_SERVICE_MINUTES,
+  MAX_VEHICLES,
+  estimateServiceMinutes,
+  type SolvedRoute,
+  type SolverStop,
+} from '@/lib/routeSolver';
+import type { AccountPriority } from '@/lib/supabase-types';
+import { addMinutes, differenceInMinutes, format, subDays } from 'date-fns';
 
 interface RouteStop {
   id: string;
@@ -39,15 +64,30 @@ interface RouteStop {
   longitude: number | null;
   completed: boolean;
   order: number;
+  // Estimated minutes after departure, from the solver
+  etaMinutes?: number | null;
+  late?: boolean;
 }
 
 const RoutePlanner = () => {
+  const { isAdminOrManager } = useAuth();
   const { position, loading: gpsLoading, getPosition } = useGeolocation();
   const [selectedServiceType, setSelectedServiceType] = useState<string>('all');
   const [selectedPriority, setSelectedPriority] = useState<string>('all');
-  const [routeStops, setRouteStops] = useState<RouteStop[]>([]);
+  const [vehicleCount, setVehicleCount] = useState('1');
+  const [vehicleRoutes, setVehicleRoutes] = useState<RouteStop[][]>([]);
+  const [solvedRoutes, setSolvedRoutes] = useState<SolvedRoute[]>([]);
+  const [selectedVehicle, setSelectedVehicle] = useState(0);
+  const [solveStartedAt, setSolveStartedAt] = useState<Date | null>(null);
   const [isRouteActive, setIsRouteActive] = useState(false);
   const [completedStops, setCompletedStops] = useState<Set<string>>(new Set());
+  const { byAccountId: serviceLevels } = useCurrentServiceLevels();
+  const { settings: serviceLevelSettings } = useServiceLevelSettings();
+  const { solve, isSolving, cancel: cancelSolve } = useRouteSolver();
+  const serviceStatus = useAccountServiceStatus();
+  const { toast } = useToast();
+  const { routes: savedRoutes } = useRoutes();
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
 
   // Fetch accounts using secure view (masks contact info for non-admin/manager roles)
   const { data: accounts = [], isLoading: accountsLoading } = useQuery({
@@ -81,6 +121,54 @@ const RoutePlanner = () => {
     refetchInterval: 30000,
   });
 
+  // Typical time on site per account, from the last year of plow and shovel logs
+  const { data: serviceMinutes = new Map<string, number>() } = useQuery({
+    queryKey: ['accountServiceMinutes'],
+    queryFn: async () => {
+      const since = subDays(new Date(), 365).toISOString();
+      const [workLogs, shovelLogs] = await Promise.all([
+        supabase
+          .from('work_logs')
+          .select('account_id, duration_minutes')
+          .not('duration_minutes', 'is', null)
+          .gte('check_in_time', since),
+        supabase
+          .from('shovel_work_logs')
+          .select('account_id, duration_minutes')
+          .not('duration_minutes', 'is', null)
+          .gte('check_in_time', since),
+      ]);
+      if (workLogs.error) throw workLogs.error;
+      if (shovelLogs.error) throw shovelLogs.error;
+      return estimateServiceMinutes([...workLogs.data, ...shovelLogs.data]);
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const toRouteStop = useCallback((account: (typeof accounts)[number], order: number): RouteStop => {
+    let distance: number | null = null;
+    if (position && account.latitude && account.longitude) {
+      distance = calculateDistance(
+        position.latitude,
+        position.longitude,
+        account.latitude,
+        account.longitude
+      );
+    }
+    return {
+      id: account.id,
+      name: account.name,
+      address: account.address,
+      priority: account.priority || 'normal',
+      serviceType: account.service_type || 'both',
+      distance,
+      latitude: account.latitude,
+      longitude: account.longitude,
+      completed: todayLogs.includes(account.id),
+      order,
+    };
+  }, [position, todayLogs]);
+
   // Calculate distances and prepare stops
   const availableStops = useMemo(() => {
     return accounts
@@ -93,34 +181,12 @@ const RoutePlanner = () => {
         }
         return true;
       })
-      .map((account, index) => {
-        let distance: number | null = null;
-        if (position && account.latitude && account.longitude) {
-          distance = calculateDistance(
-            position.latitude,
-            position.longitude,
-            account.latitude,
-            account.longitude
-          );
-        }
-        return {
-          id: account.id,
-          name: account.name,
-          address: account.address,
-          priority: account.priority || 'normal',
-          serviceType: account.service_type || 'both',
-          distance,
-          latitude: account.latitude,
-          longitude: account.longitude,
-          completed: todayLogs.includes(account.id),
-          order: index,
-        };
-      })
+      .map((account, index) => toRouteStop(account, index))
       .sort((a, b) => {
-        // Priority sorting: high > normal > low
-        const priorityOrder = { high: 0, normal: 1, low: 2 };
-        const aPriority = priorityOrder[a.priority as keyof typeof priorityOrder] ?? 1;
-        const bPriority = priorityOrder[b.priority as keyof typeof priorityOrder] ?? 1;
+        // Priority sorting: urgent > high > normal > low
+        const priorityOrder = { urgent: 0, high: 1, normal: 2, low: 3 };
+        const aPriority = priorityOrder[a.priority as keyof typeof priorityOrder] ?? 2;
+        const bPriority = priorityOrder[b.priority as keyof typeof priorityOrder] ?? 2;
         
         if (aPriority !== bPriority) return aPriority - bPriority;
         
@@ -130,58 +196,63 @@ const RoutePlanner = () => {
         }
         return 0;
       });
-  }, [accounts, position, selectedServiceType, selectedPriority, todayLogs]);
+  }, [accounts, selectedServiceType, selectedPriority, toRouteStop]);
 
-  // Optimize route using nearest neighbor algorithm
-  const optimizeRoute = () => {
+  // Split the open stops across the trucks and order each truck's stops,
+  // aiming to reach every stop by its priority deadline
+  const optimizeRoute = async () => {
     if (!position || availableStops.length === 0) return;
 
-    const unvisited = [...availableStops.filter(s => !s.completed)];
-    const optimized: RouteStop[] = [];
-    let currentLat = position.latitude;
-    let currentLng = position.longitude;
-
-    // High priority stops first
-    const highPriority = unvisited.filter(s => s.priority === 'high');
-    const others = unvisited.filter(s => s.priority !== 'high');
-
-    // Sort high priority by distance
-    const sortByDistance = (stops: RouteStop[], lat: number, lng: number) => {
-      return [...stops].sort((a, b) => {
-        if (!a.latitude || !a.longitude) return 1;
-        if (!b.latitude || !b.longitude) return -1;
-        const distA = calculateDistance(lat, lng, a.latitude, a.longitude);
-        const distB = calculateDistance(lat, lng, b.latitude, b.longitude);
-        return distA - distB;
+    const now = new Date();
+    const stops: SolverStop[] = availableStops
+      .filter((stop) => !stop.completed)
+      .map((stop) => {
+        const priority = (stop.priority as AccountPriority) in serviceLevelSettings.hours
+          ? (stop.priority as AccountPriority)
+          : 'normal';
+        // The current storm's deadline when there is one, otherwise the
+        // promised hours for the priority counted from now
+        const level = serviceLevels.get(stop.id);
+        const deadlineMinutes = level && !level.first_serviced_at
+          ? differenceInMinutes(new Date(level.deadline_at), now)
+          : serviceLevelSettings.hours[priority] * 60;
+        return {
+          id: stop.id,
+          latitude: stop.latitude,
+          longitude: stop.longitude,
+          priority,
+          serviceMinutes: serviceMinutes.get(stop.id) ?? DEFAULT_SERVICE_MINUTES,
+          deadlineMinutes,
+        };
       });
-    };
 
-    // Add high priority stops first, sorted by distance
-    const sortedHigh = sortByDistance(highPriority, currentLat, currentLng);
-    for (const stop of sortedHigh) {
-      optimized.push({ ...stop, order: optimized.length });
-      if (stop.latitude && stop.longitude) {
-        currentLat = stop.latitude;
-        currentLng = stop.longitude;
-      }
-    }
+    try {
+      const solution = await solve({
+        start: { latitude: position.latitude, longitude: position.longitude },
+        stops,
+        vehicles: Number(vehicleCount),
+      });
 
-    // Then add remaining stops using nearest neighbor
-    let remaining = [...others];
-    while (remaining.length > 0) {
-      const sorted = sortByDistance(remaining, currentLat, currentLng);
-      const nearest = sorted[0];
-      optimized.push({ ...nearest, order: optimized.length });
-      
-      if (nearest.latitude && nearest.longitude) {
-        currentLat = nearest.latitude;
-        currentLng = nearest.longitude;
-      }
-      remaining = remaining.filter(s => s.id !== nearest.id);
+      const stopsById = new Map(availableStops.map((stop) => [stop.id, stop]));
+      setVehicleRoutes(
+        solution.routes.map((route) =>
+          route.stopIds.map((id, index) => ({
+            ...stopsById.get(id)!,
+            order: index,
+            etaMinutes: route.arrivalMinutes[index],
+            late: route.lateStopIds.includes(id),
+          }))
+        )
+      );
+      setSolvedRoutes(solution.routes);
+      setSolveStartedAt(now);
+      setSelectedVehicle(0);
+      setIsRouteActive(true);
+    } catch (error) {
+      // A newer solve replaced this one
+      if (error instanceof Error && error.message === 'Route solving was cancelled') return;
+      toast({ title: 'Error optimizing route', description: String(error), variant: 'destructive' });
     }
-
-    setRouteStops(optimized);
-    setIsRouteActive(true);
   };
 
   const handleStopComplete = (stopId: string) => {
@@ -196,12 +267,35 @@ const RoutePlanner = () => {
     });
   };
 
+  // Follow a saved route's stop order instead of optimizing
+  const loadSavedRoute = (routeId: string) => {
+    const route = savedRoutes.find((r) => r.id === routeId);
+    if (!route) return;
+
+    const accountsById = new Map(accounts.map((account) => [account.id, account]));
+    const stops = sortedStops(route)
+      .map((stop) => accountsById.get(stop.account_id))
+      .filter(Boolean)
+      .map((account, index) => toRouteStop(account, index));
+
+    setVehicleRoutes([stops]);
+    setSolvedRoutes([]);
+    setSelectedVehicle(0);
+    setIsRouteActive(true);
+    setCompletedStops(new Set());
+  };
+
   const resetRoute = () => {
-    setRouteStops([]);
+    cancelSolve();
+    setVehicleRoutes([]);
+    setSolvedRoutes([]);
     setIsRouteActive(false);
     setCompletedStops(new Set());
   };
 
+  const routeStops = useMemo(() => vehicleRoutes[selectedVehicle] ?? [], [vehicleRoutes, selectedVehicle]);
+  const solvedRoute = solvedRoutes[selectedVehicle] ?? null;
+
   const totalDistance = useMemo(() => {
     if (routeStops.length === 0 || !position) return null;
     
@@ -221,6 +315,8 @@ const RoutePlanner = () => {
 
   const getPriorityBadge = (priority: string) => {
     switch (priority) {
+      case 'urgent':
+        return <Badge variant="destructive" className="gap-1"><AlertTriangle className="h-3 w-3" /> Urgent</Badge>;
       case 'high':
         return <Badge variant="destructive" className="gap-1"><AlertTriangle className="h-3 w-3" /> High</Badge>;
       case 'low':
@@ -230,8 +326,23 @@ const RoutePlanner = () => {
     }
   };
 
+  const mapRoute = useMemo(
+    () =>
+      routeStops
+        .filter((stop) => stop.latitude !== null && stop.longitude !== null)
+        .map((stop): MapPoint => ({ latitude: stop.latitude!, longitude: stop.longitude! })),
+    [routeStops]
+  );
+  const saveDialogAccountIds = useMemo(() => routeStops.map((stop) => stop.id), [routeStops]);
   const stopsToDisplay = isRouteActive ? routeStops : availableStops;
+  const mapStart = useMemo(
+    () => (position ? { latitude: position.latitude, longitude: position.longitude } : null),
+    [position]
+  );
   const incompleteStops = stopsToDisplay.filter(s => !s.completed && !completedStops.has(s.id));
+  const estimatedMinutes = solvedRoute
+    ? solvedRoute.travelMinutes + solvedRoute.serviceMinutes
+    : incompleteStops.reduce((sum, stop) => sum + (serviceMinutes.get(stop.id) ?? DEFAULT_SERVICE_MINUTES), 0);
   const completedStopsCount = stopsToDisplay.filter(s => s.completed || completedStops.has(s.id)).length;
 
   return (
@@ -312,7 +423,7 @@ const RoutePlanner = () => {
                 </div>
                 <div>
                   <p className="text-2xl font-bold">
-                    {incompleteStops.length > 0 ? `~${Math.round(incompleteStops.length * 15)}` : '0'}
+                    {incompleteStops.length > 0 ? `~${Math.round(estimatedMinutes)}` : '0'}
                   </p>
                   <p className="text-xs text-muted-foreground">Est. Minutes</p>
                 </div>
@@ -321,6 +432,16 @@ const RoutePlanner = () => {
           </Card>
         </div>
 
+        <ServiceLevelAlerts />
+
+        <ServiceMap
+          accounts={stopsToDisplay}
+          statusByAccount={serviceStatus}
+          route={isRouteActive ? mapRoute : undefined}
+          start={mapStart}
+          className="h-[360px]"
+        />
+
         <div className="grid lg:grid-cols-3 gap-6">
           {/* Filters & Controls */}
           <Card className="glass lg:col-span-1">
@@ -355,6 +476,7 @@ const RoutePlanner = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Priorities</SelectItem>
+                    <SelectItem value="urgent">Urgent</SelectItem>
                     <SelectItem value="high">High Priority</SelectItem>
                     <SelectItem value="normal">Normal</SelectItem>
                     <SelectItem value="low">Low Priority</SelectItem>
@@ -362,15 +484,35 @@ const RoutePlanner = () => {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label>Trucks</Label>
+                <Select value={vehicleCount} onValueChange={setVehicleCount} disabled={isRouteActive}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_VEHICLES }, (_, i) => String(i + 1)).map((count) => (
+                      <SelectItem key={count} value={count}>
+                        {count === '1' ? '1 truck' : `Split across ${count} trucks`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="pt-4 space-y-2">
                 {!isRouteActive ? (
                   <Button 
                     onClick={optimizeRoute} 
                     className="w-full"
-                    disabled={!position || availableStops.length === 0}
+                    disabled={!position || availableStops.length === 0 || isSolving}
                   >
-                    <Play className="h-4 w-4 mr-2" />
-                    Optimize Route
+                    {isSolving ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="h-4 w-4 mr-2" />
+                    )}
+                    {isSolving ? 'Optimizing...' : 'Optimize Route'}
                   </Button>
                 ) : (
                   <Button onClick={resetRoute} variant="outline" className="w-full">
@@ -378,8 +520,50 @@ const RoutePlanner = () => {
                     Reset Route
                   </Button>
                 )}
+                {isRouteActive && isAdminOrManager() && (
+                  <Button onClick={() => setSaveDialogOpen(true)} variant="outline" className="w-full">
+                    <Save className="h-4 w-4 mr-2" />
+                    Save as Route
+                  </Button>
+                )}
               </div>
 
+              {!isRouteActive && savedRoutes.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Load Saved Route</Label>
+                  <Select value="" onValueChange={loadSavedRoute}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a route" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedRoutes.filter((route) => route.is_active).map((route) => (
+                        <SelectItem key={route.id} value={route.id}>
+                          {route.name} ({route.route_stops.length} stops)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {isRouteActive && vehicleRoutes.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Truck</Label>
+                  <Select value={String(selectedVehicle)} onValueChange={(value) => setSelectedVehicle(Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vehicleRoutes.map((stops, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          Truck {index + 1} ({stops.length} stops)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {isRouteActive && (
                 <div className="p-4 rounded-lg bg-success/10 border border-success/20">
                   <div className="flex items-center gap-2 text-success mb-2">
@@ -387,8 +571,13 @@ const RoutePlanner = () => {
                     <span className="font-medium">Route Optimized</span>
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    {routeStops.length} stops organized by priority and distance
+                    {routeStops.length} stops in route order
                   </p>
+                  {solvedRoute && solvedRoute.lateStopIds.length > 0 && (
+                    <p className="text-sm text-warning mt-1">
+                      {solvedRoute.lateStopIds.length} stops expected after their deadline
+                    </p>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -422,6 +611,7 @@ const RoutePlanner = () => {
                   <div className="space-y-2">
                     {stopsToDisplay.map((stop, index) => {
                       const isCompleted = stop.completed || completedStops.has(stop.id);
+                      const serviceLevel = serviceLevels.get(stop.id);
                       const isNext = isRouteActive && !isCompleted && index === stopsToDisplay.findIndex(s => !s.completed && !completedStops.has(s.id));
                       
                       return (
@@ -469,11 +659,22 @@ const RoutePlanner = () => {
                               </div>
                               <div className="flex flex-col items-end gap-1">
                                 {getPriorityBadge(stop.priority)}
+                                {serviceLevel && !isCompleted && isFlaggedServiceLevel(serviceLevel.status) && (
+                                  <Badge variant="outline" className={SERVICE_LEVEL_STATUS_CLASSES[serviceLevel.status]}>
+                                    {SERVICE_LEVEL_STATUS_LABELS[serviceLevel.status]} • {formatDeadlineDistance(serviceLevel.deadline_at)}
+                                  </Badge>
+                                )}
                                 {stop.distance !== null && (
                                   <span className="text-xs text-muted-foreground">
                                     {formatDistance(stop.distance)}
                                   </span>
                                 )}
+                                {isRouteActive && !isCompleted && solveStartedAt && stop.etaMinutes != null && (
+                                  <span className={cn('text-xs', stop.late ? 'text-warning' : 'text-muted-foreground')}>
+                                    ETA {format(addMinutes(solveStartedAt, stop.etaMinutes), 'h:mm a')}
+                                    {stop.late && ' (late)'}
+                                  </span>
+                                )}
                               </div>
                             </div>
                             
@@ -519,6 +720,13 @@ const RoutePlanner = () => {
           </Card>
         </div>
       </div>
+
+      <RouteEditorDialog
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        route={null}
+        initialAccountIds={saveDialogAccountIds}
+      />
     </AppLayout>
   );
 };
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { DataTable, Column } from '@/components/management/DataTable';
+import { RouteEditorDialog } from '@/components/routes/RouteEditorDialog';
+import { RouteAssignmentDialog } from '@/components/routes/RouteAssignmentDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useRoutes, useRouteAssignments } from '@/hooks/useRoutes';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarDays, Loader2, Plus, Route, Trash2, Truck, Users } from 'lucide-react';
+import {
+  ROUTE_SERVICE_TYPE_LABELS,
+  type RouteAssignmentWithDetails,
+  type RouteServiceType,
+  type RouteWithStops,
+} from '@/lib/routes';
+
+const Routes = () => {
+  const { toast } = useToast();
+  const { routes, isLoading, deleteRoute } = useRoutes();
+  const [routeDate, setRouteDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const { assignments, isLoading: assignmentsLoading, deleteAssignment } = useRouteAssignments(routeDate);
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [selectedRoute, setSelectedRoute] = useState<RouteWithStops | null>(null);
+  const [assignOpen, setAssignOpen] = useState(false);
+
+  const handleAdd = () => {
+    setSelectedRoute(null);
+    setEditorOpen(true);
+  };
+
+  const handleEdit = (route: RouteWithStops) => {
+    setSelectedRoute(route);
+    setEditorOpen(true);
+  };
+
+  const handleDelete = (route: RouteWithStops) => {
+    if (!confirm(`Delete ${route.name}? Its assignments are removed too.`)) return;
+    deleteRoute.mutate(route.id, {
+      onSuccess: () => toast({ title: 'Route deleted' }),
+      onError: (error) => {
+        toast({ title: 'Error deleting route', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  const handleDeleteAssignment = (assignment: RouteAssignmentWithDetails) => {
+    if (!confirm(`Remove ${assignment.routes?.name ?? 'this route'} from ${routeDate}?`)) return;
+    deleteAssignment.mutate(assignment.id, {
+      onSuccess: () => toast({ title: 'Assignment removed' }),
+      onError: (error) => {
+        toast({ title: 'Error removing assignment', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  const columns: Column<RouteWithStops>[] = [
+    {
+      key: 'name',
+      header: 'Route',
+      render: (route) => <span className="font-medium">{route.name}</span>,
+    },
+    {
+      key: 'service_type',
+      header: 'Service',
+      render: (route) => (
+        <Badge variant="secondary">{ROUTE_SERVICE_TYPE_LABELS[route.service_type as RouteServiceType]}</Badge>
+      ),
+    },
+    {
+      key: 'route_stops',
+      header: 'Stops',
+      render: (route) => route.route_stops.length,
+    },
+    {
+      key: 'equipment.name',
+      header: 'Default Truck',
+      hideOnMobile: true,
+      render: (route) => route.equipment?.name ?? '-',
+    },
+  ];
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Routes</h1>
+          <p className="text-muted-foreground">Save routes and assign them to crews by date</p>
+        </div>
+
+        <Tabs defaultValue="routes" className="space-y-4">
+          <TabsList className="glass flex-wrap h-auto gap-1 p-1">
+            <TabsTrigger value="routes" className="gap-2 text-xs sm:text-sm">
+              <Route className="h-4 w-4" />
+              Saved Routes
+            </TabsTrigger>
+            <TabsTrigger value="assignments" className="gap-2 text-xs sm:text-sm">
+              <CalendarDays className="h-4 w-4" />
+              Assignments
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="routes">
+            <Card className="glass">
+              <CardContent className="p-6">
+                <DataTable
+                  title="Routes"
+                  data={routes}
+                  columns={columns}
+                  isLoading={isLoading}
+                  onAdd={handleAdd}
+                  onEdit={handleEdit}
+                  onDelete={handleDelete}
+                  searchPlaceholder="Search routes..."
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="assignments">
+            <Card className="glass">
+              <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+                <CardTitle className="text-lg">Crew Assignments</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    value={routeDate}
+                    className="w-40"
+                    onChange={(e) => e.target.value && setRouteDate(e.target.value)}
+                  />
+                  <Button onClick={() => setAssignOpen(true)} disabled={routes.length === 0}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Assign
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {assignmentsLoading && (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+                {!assignmentsLoading && assignments.length === 0 && (
+                  <p className="text-center text-muted-foreground py-8">No routes assigned for this date</p>
+                )}
+                {assignments.map((assignment) => (
+                  <div
+                    key={assignment.id}
+                    className="flex items-start justify-between gap-4 p-3 rounded-lg bg-muted/50"
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{assignment.routes?.name ?? 'Deleted route'}</span>
+                        <Badge variant="outline">{assignment.routes?.route_stops.length ?? 0} stops</Badge>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Users className="h-3 w-3" />
+                          {assignment.route_assignment_employees.map((e) => e.employees?.name).filter(Boolean).join(', ') || 'No crew'}
+                        </span>
+                        {assignment.equipment && (
+                          <span className="flex items-center gap-1">
+                            <Truck className="h-3 w-3" />
+                            {assignment.equipment.name}
+                          </span>
+                        )}
+                      </div>
+                      {assignment.notes && <p className="text-sm text-muted-foreground">{assignment.notes}</p>}
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-destructive shrink-0"
+                      onClick={() => handleDeleteAssignment(assignment)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <RouteEditorDialog open={editorOpen} onOpenChange={setEditorOpen} route={selectedRoute} />
+      <RouteAssignmentDialog open={assignOpen} onOpenChange={setAssignOpen} routeDate={routeDate} routes={routes} />
+    </AppLayout>
+  );
+};
+
+export default Routes;
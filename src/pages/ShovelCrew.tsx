@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useCheckInState } from '@/hooks/useCheckInState';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { useGeofence, useGeofenceMode } from '@/hooks/useGeofence';
 import { useGeolocation, calculateDistance, formatDistance } from '@/hooks/useGeolocation';
+import { useClockIn } from '@/hooks/useClockInZones';
 import { supabase } from '@/integrations/supabase/client';
 import { Navigation } from 'lucide-react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
@@ -13,6 +16,9 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { SetPinFromGpsButton } from '@/components/geocoding/SetPinFromGpsButton';
+import { SiteInstructionsPanel } from '@/components/siteDocs/SiteInstructionsPanel';
+import { WorkPhotoCapture } from '@/components/worklog/WorkPhotoCapture';
 import { Checkbox } from '@/components/ui/checkbox';
 import {
   Clock,
@@ -21,12 +27,13 @@ import {
   MapPin,
   Snowflake,
   Users,
-  Image as ImageIcon,
-  Camera,
   CheckCircle2,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import type { AccountWithDistance } from '@/lib/supabase-types';
+import { createServiceLogRecord } from '@/lib/offlineQueue';
+import type { CapturedWorkPhoto } from '@/lib/workPhotos';
 import { format } from 'date-fns';
 import { Link } from 'react-router-dom';
 
@@ -34,9 +41,10 @@ const ShovelCrewDashboard = () => {
   const { user, employeeId } = useAuth();
   const queryClient = useQueryClient();
   const checkInState = useCheckInState('shovel');
-  const { position, getPosition } = useGeolocation();
+  const { submitServiceLog } = useOfflineQueue();
+  const { position, getPosition, startWatching, stopWatching } = useGeolocation();
+  const { clockIn } = useClockIn();
   const { toast } = useToast();
-  const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [elapsedTime, setElapsedTime] = useState('0:00:00');
   const [selectedAccount, setSelectedAccount] = useState<string>('');
@@ -48,8 +56,7 @@ const ShovelCrewDashboard = () => {
   const [weatherDescription, setWeatherDescription] = useState('');
   const [windSpeed, setWindSpeed] = useState('');
   const [notes, setNotes] = useState('');
-  const [photoFile, setPhotoFile] = useState<File | null>(null);
-  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<CapturedWorkPhoto[]>([]);
 
   // Auto-trigger GPS on page load
   useEffect(() => {
@@ -112,7 +119,7 @@ const ShovelCrewDashboard = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('accounts')
-        .select('id, name, address, latitude, longitude, service_type')
+        .select('id, name, address, latitude, longitude, service_type, geofence_radius_meters, geofence_exit_buffer_meters, require_checkout_photo')
         .eq('status', 'active')
         .in('service_type', ['shovel', 'both']);
       
@@ -222,6 +229,8 @@ const ShovelCrewDashboard = () => {
     return a.distance - b.distance;
   });
 
+  const selectedAccountDetails = accounts.find((account) => account.id === selectedAccount);
+
   // Get nearest account
   const nearestAccount = sortedAccounts.length > 0 && sortedAccounts[0].distance !== null 
     ? sortedAccounts[0] 
@@ -234,7 +243,66 @@ const ShovelCrewDashboard = () => {
     }
   }, [nearestAccount, selectedAccount, position]);
 
-  // Form validation - all fields required except notes and photo
+  // Geofencing: watch position while on shift and detect arrivals/departures
+  const geofenceMode = useGeofenceMode();
+  const geofenceEnabled = !!activeShift && geofenceMode !== 'off';
+
+  useEffect(() => {
+    if (geofenceEnabled) {
+      startWatching();
+    } else {
+      stopWatching();
+    }
+  }, [geofenceEnabled, startWatching, stopWatching]);
+
+  useGeofence({
+    enabled: geofenceEnabled,
+    position,
+    accounts,
+    employeeId,
+    initialAccountId: checkInState.isCheckedIn ? checkInState.accountId : null,
+    onEnter: ({ target }, eventId) => {
+      if (checkInState.isCheckedIn) return;
+
+      if (geofenceMode === 'auto') {
+        checkInState.checkIn(target.id, target.name, serviceType, eventId);
+        setSelectedAccount(target.id);
+        toast({
+          title: 'Checked in automatically',
+          description: `Arrived at ${target.name}`,
+        });
+        return;
+      }
+
+      setSelectedAccount(target.id);
+      toast({
+        title: `Arrived at ${target.name}`,
+        description: 'Check in to start the service timer.',
+        action: (
+          <ToastAction
+            altText="Check in"
+            onClick={() => checkInState.checkIn(target.id, target.name, serviceType, eventId)}
+          >
+            Check In
+          </ToastAction>
+        ),
+      });
+    },
+    onExit: ({ target }, eventId) => {
+      if (!checkInState.isCheckedIn || checkInState.accountId !== target.id) return;
+
+      if (eventId) checkInState.recordGeofenceExit(eventId);
+      toast({
+        title: `Left ${target.name}`,
+        description: 'Log the service to check out.',
+      });
+    },
+  });
+
+  // Some accounts need photographic proof before the crew can check out
+  const photoRequired = !!accounts.find((a) => a.id === checkInState.accountId)?.require_checkout_photo;
+
+  // Form validation - all fields required except notes and photo (unless the account requires one)
   // Salt Used is optional for "shovel" only, Snow Depth is optional for "salt" only
   const isFormValid = 
     selectedAccount &&
@@ -244,7 +312,8 @@ const ShovelCrewDashboard = () => {
     (serviceType === 'shovel' || saltUsed.trim() !== '') &&
     temperature.trim() !== '' &&
     weatherDescription.trim() !== '' &&
-    windSpeed.trim() !== '';
+    windSpeed.trim() !== '' &&
+    (!photoRequired || photos.length > 0);
 
   const handleStartShift = async () => {
     if (!employeeId) {
@@ -256,30 +325,11 @@ const ShovelCrewDashboard = () => {
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('time_clock')
-        .insert({
-          employee_id: employeeId,
-          clock_in_time: new Date().toISOString(),
-          clock_in_latitude: position?.latitude || null,
-          clock_in_longitude: position?.longitude || null,
-        });
-
-      if (error) throw error;
-
-      queryClient.invalidateQueries({ queryKey: ['activeShift'] });
+    if (await clockIn(position)) {
       toast({
         title: 'Shift started!',
         description: 'Your daily shift has begun.',
       });
-    } catch (error) {
-      console.error('Error starting shift:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to start shift.',
-        variant: 'destructive',
-      });
     }
   };
 
@@ -312,16 +362,6 @@ const ShovelCrewDashboard = () => {
     }
   };
 
-  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setPhotoFile(file);
-      const reader = new FileReader();
-      reader.onload = () => setPhotoPreview(reader.result as string);
-      reader.readAsDataURL(file);
-    }
-  };
-
   const handleLogService = async () => {
     if (!checkInState.isCheckedIn || !checkInState.accountId) {
       return;
@@ -332,22 +372,11 @@ const ShovelCrewDashboard = () => {
       const checkInTime = new Date(checkInState.checkInTime!);
       const durationMinutes = Math.round((checkOutTime.getTime() - checkInTime.getTime()) / 60000);
 
-      let photoUrl: string | null = null;
-      if (photoFile) {
-        const fileName = `shovel/${Date.now()}-${photoFile.name}`;
-        const { error: uploadError } = await supabase.storage
-          .from('work-photos')
-          .upload(fileName, photoFile);
-        
-        if (!uploadError) {
-          // Store the file path, not a URL - signed URLs are generated when viewing
-          photoUrl = fileName;
-        }
-      }
-
-      const { data: workLog, error: workLogError } = await supabase
-        .from('shovel_work_logs')
-        .insert({
+      // Capture the whole service record up front so it can be replayed offline
+      const record = createServiceLogRecord({
+        kind: 'shovel',
+        accountName: checkInState.accountName,
+        workLog: {
           account_id: checkInState.accountId,
           service_type: serviceType,
           check_in_time: checkInState.checkInTime,
@@ -358,36 +387,26 @@ const ShovelCrewDashboard = () => {
           temperature: temperature ? parseFloat(temperature) : null,
           weather_description: weatherDescription || null,
           wind_speed: windSpeed || null,
-          photo_url: photoUrl,
           notes: notes || null,
+          geofence_event_id: checkInState.geofenceEventId || null,
           created_by: user?.id,
-        })
-        .select()
-        .single();
-
-      if (workLogError) throw workLogError;
-
-      // Link employees to work log
-      if (workLog) {
-        const employeesToLink = selectedEmployees.length > 0 ? selectedEmployees : (employeeId ? [employeeId] : []);
-        for (const empId of employeesToLink) {
-          await supabase
-            .from('shovel_work_log_employees')
-            .insert({
-              shovel_work_log_id: workLog.id,
-              employee_id: empId,
-            });
-        }
-      }
+        },
+        photos,
+        employeeIds: selectedEmployees.length > 0 ? selectedEmployees : (employeeId ? [employeeId] : []),
+        geofenceEventIds: [checkInState.geofenceEventId, checkInState.geofenceExitEventId].filter(Boolean) as string[],
+        equipmentIds: [],
+      });
+
+      const result = await submitServiceLog(record);
 
       toast({
-        title: 'Service logged!',
-        description: `Completed in ${durationMinutes} minutes.`,
+        title: result === 'queued' ? 'Saved offline' : 'Service logged!',
+        description: result === 'queued'
+          ? 'No connection. This service will sync automatically when you are back online.'
+          : `Completed in ${durationMinutes} minutes.`,
       });
 
       // Reset form
-      queryClient.invalidateQueries({ queryKey: ['todayShovelStats'] });
-      queryClient.invalidateQueries({ queryKey: ['recentShovelActivity'] });
       checkInState.checkOut();
       setSelectedAccount('');
       setSelectedEmployees([]);
@@ -395,8 +414,7 @@ const ShovelCrewDashboard = () => {
       setSnowDepth('');
       setSaltUsed('');
       setNotes('');
-      setPhotoFile(null);
-      setPhotoPreview(null);
+      setPhotos([]);
     } catch (error) {
       console.error('Error logging service:', error);
       toast({
@@ -573,6 +591,20 @@ const ShovelCrewDashboard = () => {
                     </ScrollArea>
                   </SelectContent>
                 </Select>
+                {selectedAccountDetails && (
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {selectedAccountDetails.latitude === null || selectedAccountDetails.longitude === null
+                        ? 'No pin on file for this property'
+                        : 'Pin in the wrong place?'}
+                    </span>
+                    <SetPinFromGpsButton
+                      accountId={selectedAccountDetails.id}
+                      accountName={selectedAccountDetails.name}
+                      position={position}
+                    />
+                  </div>
+                )}
               </div>
 
               {/* Check In Button */}
@@ -606,6 +638,11 @@ const ShovelCrewDashboard = () => {
                 </div>
               )}
 
+              {/* Site docs for the property being serviced, or about to be */}
+              {(checkInState.accountId || selectedAccount) && (
+                <SiteInstructionsPanel accountId={checkInState.accountId || selectedAccount} />
+              )}
+
               {/* Service Type */}
               <div className="space-y-2">
                 <Label className="text-sm">Service Type</Label>
@@ -763,49 +800,13 @@ const ShovelCrewDashboard = () => {
                 />
               </div>
 
-              {/* Photo */}
-              <div className="space-y-2">
-                <Label className="text-sm">Photo (Optional)</Label>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/*"
-                  onChange={handlePhotoSelect}
-                  className="hidden"
-                />
-                {photoPreview ? (
-                  <div className="relative">
-                    <img src={photoPreview} alt="Preview" className="w-full h-32 object-cover rounded-lg" />
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      className="absolute top-2 right-2"
-                      onClick={() => { setPhotoFile(null); setPhotoPreview(null); }}
-                    >
-                      Remove
-                    </Button>
-                  </div>
-                ) : (
-                  <div className="grid grid-cols-2 gap-3">
-                    <Button
-                      variant="outline"
-                      className="h-11 bg-muted/30"
-                      onClick={() => fileInputRef.current?.click()}
-                    >
-                      <ImageIcon className="h-4 w-4 mr-2" />
-                      Choose from gallery
-                    </Button>
-                    <Button
-                      variant="outline"
-                      className="h-11 bg-muted/30"
-                      onClick={() => fileInputRef.current?.click()}
-                    >
-                      <Camera className="h-4 w-4 mr-2" />
-                      Take photo
-                    </Button>
-                  </div>
-                )}
-              </div>
+              {/* Photos */}
+              <WorkPhotoCapture
+                photos={photos}
+                onChange={setPhotos}
+                position={position}
+                required={photoRequired}
+              />
 
               {/* Submit Button */}
               <Button
@@ -834,7 +835,7 @@ const ShovelCrewDashboard = () => {
               </Button>
               {checkInState.isCheckedIn && !isFormValid && (
                 <p className="text-xs text-center text-destructive">
-                  Please fill in all required fields (Team Members, Snow Depth, Salt Used, Weather info)
+                  Please fill in all required fields (Team Members, Snow Depth, Salt Used, Weather info{photoRequired ? ', Photo' : ''})
                 </p>
               )}
             </div>
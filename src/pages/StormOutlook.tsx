@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useWeatherForecasts, useWeatherForecastSettings } from '@/hooks/useWeatherForecasts';
+import { useToast } from '@/hooks/use-toast';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ForecastSettingsDialog } from '@/components/weather/ForecastSettingsDialog';
+import {
+  AlertTriangle,
+  CloudSnow,
+  Download,
+  Loader2,
+  Settings,
+  Snowflake,
+  Thermometer,
+} from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { formatSnowRange, hasForecastLocation } from '@/lib/weatherForecast';
+
+const parseDay = (date: string) => new Date(`${date}T00:00:00`);
+
+const StormOutlook = () => {
+  const { isAdminOrManager } = useAuth();
+  const { toast } = useToast();
+  const { settings } = useWeatherForecastSettings();
+  const { forecasts, isLoading, importForecast } = useWeatherForecasts();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const canImport = isAdminOrManager();
+  const alertDays = forecasts.filter((forecast) => (forecast.alerts?.length ?? 0) > 0);
+  const totalSnowMax = forecasts.reduce((sum, forecast) => sum + (Number(forecast.snow_amount_max) || 0), 0);
+  const nextSnowDay = forecasts.find((forecast) => (Number(forecast.snow_amount_max) || 0) > 0);
+  const lastFetched = forecasts
+    .map((forecast) => forecast.fetched_at)
+    .filter((value): value is string => !!value)
+    .sort()
+    .pop();
+
+  const handleImport = () => {
+    importForecast.mutate(undefined, {
+      onSuccess: ({ count, alertDays: alerts }) => {
+        toast({
+          title: 'Forecast imported',
+          description: `${count} days updated${alerts > 0 ? `, ${alerts} with alerts` : ''}`,
+        });
+      },
+      onError: (error) => {
+        toast({ title: 'Error importing forecast', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Storm Outlook</h1>
+            <p className="text-muted-foreground">
+              {settings.locationName || 'Service area'} forecast
+              {lastFetched && ` • updated ${formatDistanceToNow(new Date(lastFetched), { addSuffix: true })}`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => setSettingsOpen(true)}>
+              <Settings className="h-4 w-4" />
+              Settings
+            </Button>
+            {canImport && (
+              <Button
+                className="gap-2"
+                onClick={handleImport}
+                disabled={importForecast.isPending || !hasForecastLocation(settings)}
+              >
+                {importForecast.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                Import Forecast
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {!hasForecastLocation(settings) && (
+          <Card className="glass border-warning/30">
+            <CardContent className="p-4 flex items-center gap-3 text-sm">
+              <AlertTriangle className="h-5 w-5 text-warning shrink-0" />
+              <p>Set the service area location in Settings before importing a forecast.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold text-destructive">{alertDays.length}</div>
+              <div className="text-xs text-muted-foreground">Alert Days</div>
+            </CardContent>
+          </Card>
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">{Math.round(totalSnowMax * 10) / 10}"</div>
+              <div className="text-xs text-muted-foreground">Snow Possible ({forecasts.length} days)</div>
+            </CardContent>
+          </Card>
+          <Card className="glass col-span-2 md:col-span-1">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">
+                {nextSnowDay ? format(parseDay(nextSnowDay.forecast_date), 'EEE M/d') : '-'}
+              </div>
+              <div className="text-xs text-muted-foreground">Next Snow</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Daily forecast */}
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle className="text-base font-medium">Daily Forecast</CardTitle>
+            <CardDescription>
+              Alerts at {settings.thresholds.snowInches}"+ with {settings.thresholds.snowChance}%+ chance
+              {settings.thresholds.lowTemperature !== null && `, or lows at ${settings.thresholds.lowTemperature}°F and below`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : forecasts.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <CloudSnow className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No forecast imported yet</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {forecasts.map((forecast) => {
+                  const alerts = forecast.alerts ?? [];
+                  const snowMax = Number(forecast.snow_amount_max) || 0;
+
+                  return (
+                    <div
+                      key={forecast.id}
+                      className={cn(
+                        'flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg',
+                        alerts.length > 0 ? 'bg-destructive/10 border border-destructive/20' : 'bg-muted/30'
+                      )}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className="w-16">
+                          <p className="font-medium">{format(parseDay(forecast.forecast_date), 'EEE')}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(parseDay(forecast.forecast_date), 'MMM d')}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm">{forecast.description || '-'}</p>
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Thermometer className="h-3 w-3" />
+                            {forecast.temperature_high !== null ? Math.round(Number(forecast.temperature_high)) : '-'}° /{' '}
+                            {forecast.temperature_low !== null ? Math.round(Number(forecast.temperature_low)) : '-'}°
+                          </p>
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2 sm:justify-end">
+                        {snowMax > 0 && (
+                          <Badge variant="outline" className="gap-1">
+                            <Snowflake className="h-3 w-3" />
+                            {formatSnowRange(
+                              forecast.snow_amount_min !== null ? Number(forecast.snow_amount_min) : null,
+                              snowMax
+                            )}
+                          </Badge>
+                        )}
+                        {forecast.snow_chance !== null && forecast.snow_chance > 0 && (
+                          <Badge variant="secondary">{forecast.snow_chance}%</Badge>
+                        )}
+                        {alerts.map((alert) => (
+                          <Badge key={alert} variant="destructive" className="gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            {alert}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ForecastSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+    </AppLayout>
+  );
+};
+
+export default StormOutlook;
@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useServiceLevelSettings } from '@/hooks/useServiceLevels';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { StormEventDialog } from '@/components/storms/StormEventDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, ArrowLeft, CloudSnow, Loader2, Pencil, Truck, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  formatStormWindow,
+  isStormOngoing,
+  summarizeStorm,
+  type StormShift,
+  type StormShovelLog,
+  type StormWorkLog,
+} from '@/lib/stormEvents';
+import {
+  SERVICE_LEVEL_STATUS_CLASSES,
+  SERVICE_LEVEL_STATUS_LABELS,
+  getServiceLevelStatus,
+  minutesToService,
+} from '@/lib/serviceLevels';
+
+const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const StormSummary = () => {
+  const { stormId } = useParams<{ stormId: string }>();
+  const [editOpen, setEditOpen] = useState(false);
+  const { settings: serviceLevelSettings } = useServiceLevelSettings();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['stormSummary', stormId],
+    queryFn: async () => {
+      const [storm, workLogs, shovelLogs, shifts, accounts, serviceLevels] = await Promise.all([
+        supabase.from('storm_events').select('*').eq('id', stormId!).maybeSingle(),
+        supabase
+          .from('work_logs')
+          .select(`
+            id, account_id, check_in_time, check_out_time, service_type, salt_used, snow_depth,
+            accounts(name),
+            work_log_employees(employees(name)),
+            work_log_equipment(equipment(id, name))
+          `)
+          .eq('storm_event_id', stormId!),
+        supabase
+          .from('shovel_work_logs')
+          .select(`
+            id, account_id, check_in_time, check_out_time, service_type, salt_used, snow_depth,
+            accounts(name),
+            shovel_work_log_employees(employees(name))
+          `)
+          .eq('storm_event_id', stormId!),
+        supabase
+          .from('time_clock')
+          .select('id, employee_id, clock_in_time, clock_out_time, duration_minutes, employees(name)')
+          .eq('storm_event_id', stormId!),
+        supabase.from('accounts').select('id, name, service_type, status').order('name'),
+        supabase.from('storm_account_services').select('*').eq('storm_event_id', stormId!),
+      ]);
+
+      for (const result of [storm, workLogs, shovelLogs, shifts, accounts, serviceLevels]) {
+        if (result.error) throw result.error;
+      }
+
+      return {
+        storm: storm.data,
+        summary: summarizeStorm({
+          workLogs: workLogs.data as StormWorkLog[],
+          shovelLogs: shovelLogs.data as StormShovelLog[],
+          shifts: shifts.data as StormShift[],
+          accounts: accounts.data,
+        }),
+        visits: workLogs.data.length + shovelLogs.data.length,
+        serviceLevels: new Map(serviceLevels.data.map((level) => [level.account_id, level])),
+      };
+    },
+    enabled: !!stormId,
+  });
+
+  if (isLoading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (!data?.storm) {
+    return (
+      <AppLayout>
+        <div className="text-center py-16 text-muted-foreground">
+          <CloudSnow className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>Storm not found</p>
+          <Button variant="link" asChild>
+            <Link to="/storms">Back to storms</Link>
+          </Button>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const { storm, summary, visits, serviceLevels } = data;
+
+  // Time from storm start to first visit, against the account's deadline
+  const renderServiceLevel = (accountId: string) => {
+    const level = serviceLevels.get(accountId);
+    if (!level) return <span className="text-muted-foreground">-</span>;
+    const status = getServiceLevelStatus(level, serviceLevelSettings.warning_minutes);
+    const minutes = minutesToService(level, storm);
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-sm">{minutes !== null ? formatDuration(minutes) : '-'}</span>
+        <Badge variant="outline" className={SERVICE_LEVEL_STATUS_CLASSES[status]}>
+          {SERVICE_LEVEL_STATUS_LABELS[status]}
+        </Badge>
+      </div>
+    );
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-start gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/storms">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-3xl font-bold text-foreground">{storm.name}</h1>
+                {isStormOngoing(storm) && (
+                  <Badge className="bg-warning/20 text-warning border-warning/30">Ongoing</Badge>
+                )}
+              </div>
+              <p className="text-muted-foreground">{formatStormWindow(storm)}</p>
+            </div>
+          </div>
+          <Button variant="outline" className="gap-2" onClick={() => setEditOpen(true)}>
+            <Pencil className="h-4 w-4" />
+            Edit Storm
+          </Button>
+        </div>
+
+        {storm.notes && (
+          <Card className="glass">
+            <CardContent className="p-4 text-sm whitespace-pre-wrap">{storm.notes}</CardContent>
+          </Card>
+        )}
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">{storm.total_snowfall !== null ? `${storm.total_snowfall}"` : '-'}</div>
+              <div className="text-xs text-muted-foreground">Snowfall</div>
+            </CardContent>
+          </Card>
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold text-success">{summary.serviced.length}</div>
+              <div className="text-xs text-muted-foreground">Accounts Serviced ({visits} visits)</div>
+            </CardContent>
+          </Card>
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold text-destructive">{summary.missed.length}</div>
+              <div className="text-xs text-muted-foreground">Accounts Missed</div>
+            </CardContent>
+          </Card>
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">{formatDuration(summary.crewMinutes)}</div>
+              <div className="text-xs text-muted-foreground">Crew Hours</div>
+            </CardContent>
+          </Card>
+          <Card className="glass col-span-2 md:col-span-1">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">{summary.saltUsed}</div>
+              <div className="text-xs text-muted-foreground">Salt Used</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Missed accounts */}
+        {summary.missed.length > 0 && (
+          <Card className="glass border-destructive/30">
+            <CardHeader>
+              <CardTitle className="text-base font-medium flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                Missed Accounts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0 flex flex-wrap gap-2">
+              {summary.missed.map((account) => (
+                <Badge key={account.id} variant="outline" className="gap-1">
+                  {account.name}
+                  <span className="text-muted-foreground">({account.missed.join(' & ')})</span>
+                </Badge>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Accounts */}
+          <Card className="glass lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base font-medium">Accounts</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Plow</TableHead>
+                    <TableHead className="text-right">Shovel</TableHead>
+                    <TableHead>Last Serviced</TableHead>
+                    <TableHead>Time to Service</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.accounts.map((account) => (
+                    <TableRow key={account.id}>
+                      <TableCell className="font-medium">
+                        {account.name}
+                        {account.missed.length > 0 && (
+                          <Badge variant="destructive" className="ml-2 text-xs">Missed</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{account.plowVisits}</TableCell>
+                      <TableCell className="text-right">{account.shovelVisits}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {account.lastServiced ? format(new Date(account.lastServiced), 'MMM d, h:mm a') : '-'}
+                      </TableCell>
+                      <TableCell>{renderServiceLevel(account.id)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {/* Crew */}
+            <Card className="glass">
+              <CardHeader>
+                <CardTitle className="text-base font-medium flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Crew Hours
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-2">
+                {summary.crew.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No shifts during this storm</p>
+                ) : (
+                  summary.crew.map((member) => (
+                    <div key={member.employeeId} className="flex items-center justify-between text-sm">
+                      <span>
+                        {member.name}
+                        <span className="text-muted-foreground"> • {member.shifts} shift{member.shifts === 1 ? '' : 's'}</span>
+                      </span>
+                      <span className="font-medium">{formatDuration(member.minutes)}</span>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Equipment */}
+            <Card className="glass">
+              <CardHeader>
+                <CardTitle className="text-base font-medium flex items-center gap-2">
+                  <Truck className="h-4 w-4" />
+                  Equipment Used
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-2">
+                {summary.equipment.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No equipment logged</p>
+                ) : (
+                  summary.equipment.map((unit) => (
+                    <div key={unit.id} className="flex items-center justify-between text-sm">
+                      <span>{unit.name}</span>
+                      <span className="text-muted-foreground">{unit.visits} visit{unit.visits === 1 ? '' : 's'}</span>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <StormEventDialog open={editOpen} onOpenChange={setEditOpen} storm={storm} />
+    </AppLayout>
+  );
+};
+
+export default StormSummary;
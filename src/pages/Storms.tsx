@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { DataTable, Column } from '@/components/management/DataTable';
+import { StormEventDialog } from '@/components/storms/StormEventDialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useStormEvents } from '@/hooks/useStormEvents';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { formatSeason, seasonStartYear } from '@/lib/maintenance';
+import { formatStormWindow, isStormOngoing, type StormEvent } from '@/lib/stormEvents';
+
+const Storms = () => {
+  const { toast } = useToast();
+  const { storms, isLoading, deleteStorm } = useStormEvents();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedStorm, setSelectedStorm] = useState<StormEvent | null>(null);
+
+  const ongoing = storms.filter(isStormOngoing);
+  const currentSeason = seasonStartYear(format(new Date(), 'yyyy-MM-dd'));
+  const seasonSnowfall = storms
+    .filter((storm) => seasonStartYear(format(new Date(storm.start_time), 'yyyy-MM-dd')) === currentSeason)
+    .reduce((sum, storm) => sum + (Number(storm.total_snowfall) || 0), 0);
+
+  const handleAdd = () => {
+    setSelectedStorm(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (storm: StormEvent) => {
+    setSelectedStorm(storm);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (storm: StormEvent) => {
+    if (!confirm(`Delete ${storm.name}? Its work logs and shifts are kept but no longer grouped.`)) return;
+    deleteStorm.mutate(storm.id, {
+      onSuccess: () => toast({ title: 'Storm deleted' }),
+      onError: (error) => {
+        toast({ title: 'Error deleting storm', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  const columns: Column<StormEvent>[] = [
+    {
+      key: 'name',
+      header: 'Storm',
+      render: (storm) => (
+        <Link to={`/storms/${storm.id}`} className="font-medium text-primary hover:underline">
+          {storm.name}
+        </Link>
+      ),
+    },
+    {
+      key: 'start_time',
+      header: 'Window',
+      render: (storm) => <span className="text-sm">{formatStormWindow(storm)}</span>,
+    },
+    {
+      key: 'total_snowfall',
+      header: 'Snowfall',
+      render: (storm) => (storm.total_snowfall !== null ? `${storm.total_snowfall}"` : '-'),
+    },
+    {
+      key: 'end_time',
+      header: 'Status',
+      hideOnMobile: true,
+      render: (storm) =>
+        isStormOngoing(storm) ? (
+          <Badge className="bg-warning/20 text-warning border-warning/30">Ongoing</Badge>
+        ) : (
+          <Badge variant="secondary">Ended</Badge>
+        ),
+    },
+  ];
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Storms</h1>
+          <p className="text-muted-foreground">Group work logs and shifts by snowfall</p>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">{storms.length}</div>
+              <div className="text-xs text-muted-foreground">Total Storms</div>
+            </CardContent>
+          </Card>
+          <Card className="glass">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold text-warning">{ongoing.length}</div>
+              <div className="text-xs text-muted-foreground">Ongoing</div>
+            </CardContent>
+          </Card>
+          <Card className="glass col-span-2 md:col-span-1">
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">{Math.round(seasonSnowfall * 10) / 10}"</div>
+              <div className="text-xs text-muted-foreground">Snowfall ({formatSeason(currentSeason)} season)</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="glass">
+          <CardContent className="p-6">
+            <DataTable
+              title="Storms"
+              data={storms}
+              columns={columns}
+              isLoading={isLoading}
+              onAdd={handleAdd}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              searchPlaceholder="Search storms..."
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <StormEventDialog open={dialogOpen} onOpenChange={setDialogOpen} storm={selectedStorm} />
+    </AppLayout>
+  );
+};
+
+export default Storms;
@@ -1,8 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useGeolocation } from '@/hooks/useGeolocation';
+import { usePayrollSettings, useShiftBreaks, useTimesheetApprovals } from '@/hooks/usePayroll';
+import { useClockOutPolicy } from '@/hooks/useMissedClockOuts';
+import { useClockIn } from '@/hooks/useClockInZones';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -33,9 +36,14 @@ import {
   Calendar,
   Timer,
   TrendingUp,
+  Coffee,
+  Lock,
+  AlertTriangle,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { format, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay, differenceInMinutes } from 'date-fns';
+import { format, addDays, eachDayOfInterval, isSameDay, differenceInMinutes } from 'date-fns';
+import { calculateTimesheet, formatPayrollPeriod, getPayrollPeriod } from '@/lib/payroll';
+import { isShiftOverdue } from '@/lib/clockOutPolicy';
 
 interface TimeClockEntry {
   id: string;
@@ -48,6 +56,7 @@ interface TimeClockEntry {
   clock_out_latitude: number | null;
   clock_out_longitude: number | null;
   notes: string | null;
+  break_minutes: number;
 }
 
 const TimeClock = () => {
@@ -60,11 +69,17 @@ const TimeClock = () => {
   const [notes, setNotes] = useState('');
   const [elapsedTime, setElapsedTime] = useState('0:00:00');
 
-  // Get current week dates
+  // Current payroll period
   const today = new Date();
-  const weekStart = startOfWeek(today, { weekStartsOn: 0 });
-  const weekEnd = endOfWeek(today, { weekStartsOn: 0 });
-  const weekDays = eachDayOfInterval({ start: weekStart, end: weekEnd });
+  const { settings: payrollSettings } = usePayrollSettings();
+  const todayKey = format(today, 'yyyy-MM-dd');
+  const period = useMemo(
+    () => getPayrollPeriod(new Date(`${todayKey}T00:00:00`), payrollSettings),
+    [todayKey, payrollSettings]
+  );
+  const weekDays = eachDayOfInterval({ start: period.start, end: addDays(period.end, -1) });
+  const { data: approvals = [] } = useTimesheetApprovals(period);
+  const approval = approvals.find((a) => a.employee_id === employeeId) ?? null;
 
   // Fetch active shift
   const { data: activeShift, isLoading: activeShiftLoading } = useQuery({
@@ -84,17 +99,21 @@ const TimeClock = () => {
     refetchInterval: 5000,
   });
 
-  // Fetch weekly entries
+  const { openBreak, startBreak, endBreak } = useShiftBreaks(activeShift?.id);
+  const { policy: clockOutPolicy } = useClockOutPolicy();
+  const shiftOverdue = !!activeShift && isShiftOverdue(activeShift.clock_in_time, clockOutPolicy);
+
+  // Fetch entries for the current payroll period
   const { data: weeklyEntries = [] } = useQuery({
-    queryKey: ['weeklyTimeClock', employeeId, weekStart.toISOString()],
+    queryKey: ['weeklyTimeClock', employeeId, period.start.toISOString()],
     queryFn: async () => {
       if (!employeeId) return [];
       const { data, error } = await supabase
         .from('time_clock')
         .select('*')
         .eq('employee_id', employeeId)
-        .gte('clock_in_time', weekStart.toISOString())
-        .lte('clock_in_time', weekEnd.toISOString())
+        .gte('clock_in_time', period.start.toISOString())
+        .lt('clock_in_time', period.end.toISOString())
         .order('clock_in_time', { ascending: false });
       if (error) throw error;
       return data as TimeClockEntry[];
@@ -124,41 +143,16 @@ const TimeClock = () => {
     return () => clearInterval(interval);
   }, [activeShift]);
 
-  // Clock in mutation
-  const clockInMutation = useMutation({
-    mutationFn: async () => {
-      if (!employeeId) throw new Error('Employee not found');
-      
-      const { error } = await supabase.from('time_clock').insert({
-        employee_id: employeeId,
-        clock_in_time: new Date().toISOString(),
-        clock_in_latitude: position?.latitude || null,
-        clock_in_longitude: position?.longitude || null,
-      });
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['activeShift'] });
-      queryClient.invalidateQueries({ queryKey: ['weeklyTimeClock'] });
-      toast({
-        title: 'Clocked In',
-        description: `Shift started at ${format(new Date(), 'h:mm a')}`,
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: 'Error',
-        description: error.message,
-        variant: 'destructive',
-      });
-    },
-  });
+  const { clockIn, isPending: clockInPending } = useClockIn();
 
   // Clock out mutation
   const clockOutMutation = useMutation({
     mutationFn: async () => {
       if (!activeShift) throw new Error('No active shift');
-      
+
+      // A break still running ends with the shift
+      if (openBreak) await endBreak.mutateAsync();
+
       const clockOutTime = new Date();
       const clockInTime = new Date(activeShift.clock_in_time);
       const durationMinutes = differenceInMinutes(clockOutTime, clockInTime);
@@ -195,8 +189,13 @@ const TimeClock = () => {
   });
 
   const handleClockIn = async () => {
-    await getPosition();
-    clockInMutation.mutate();
+    const current = await getPosition();
+    if (await clockIn(current)) {
+      toast({
+        title: 'Clocked In',
+        description: `Shift started at ${format(new Date(), 'h:mm a')}`,
+      });
+    }
   };
 
   const handleClockOut = () => {
@@ -208,18 +207,19 @@ const TimeClock = () => {
     clockOutMutation.mutate();
   };
 
-  // Calculate daily hours
-  const getDayHours = (day: Date): number => {
-    return weeklyEntries
-      .filter((entry) => isSameDay(new Date(entry.clock_in_time), day))
-      .reduce((sum, entry) => sum + (entry.duration_minutes || 0), 0);
+  const handleToggleBreak = () => {
+    const mutation = openBreak ? endBreak : startBreak;
+    mutation.mutate(undefined, {
+      onSuccess: () => toast({ title: openBreak ? 'Break ended' : 'Break started' }),
+      onError: (error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+    });
   };
 
-  // Calculate weekly total
-  const weeklyTotalMinutes = weeklyEntries.reduce(
-    (sum, entry) => sum + (entry.duration_minutes || 0),
-    0
-  );
+  // Regular and overtime split for the period; breaks are unpaid
+  const timesheet = calculateTimesheet(weeklyEntries, period, payrollSettings);
+
+  const getDayHours = (day: Date): number =>
+    timesheet.days.find((d) => isSameDay(d.date, day))?.paid_minutes ?? 0;
 
   const formatHours = (minutes: number): string => {
     const hours = Math.floor(minutes / 60);
@@ -252,27 +252,61 @@ const TimeClock = () => {
           <CardContent>
             {activeShift ? (
               <div className="space-y-4">
+                {shiftOverdue && (
+                  <div className="flex items-start gap-2 rounded-lg border border-warning/40 bg-warning/10 p-3 text-sm">
+                    <AlertTriangle className="h-4 w-4 text-warning mt-0.5 shrink-0" />
+                    <span>
+                      This shift has been open for over {clockOutPolicy.max_shift_hours} hours. If you forgot to clock
+                      out, clock out now; a manager will review the shift.
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between">
                   <div>
-                    <Badge variant="default" className="bg-success mb-2">
-                      <div className="w-2 h-2 rounded-full bg-white animate-pulse mr-2" />
-                      On Shift
-                    </Badge>
+                    {openBreak ? (
+                      <Badge variant="secondary" className="mb-2">
+                        <Coffee className="h-3 w-3 mr-2" />
+                        On Break since {format(new Date(openBreak.break_start), 'h:mm a')}
+                      </Badge>
+                    ) : (
+                      <Badge variant="default" className="bg-success mb-2">
+                        <div className="w-2 h-2 rounded-full bg-white animate-pulse mr-2" />
+                        On Shift
+                      </Badge>
+                    )}
                     <div className="text-4xl font-mono font-bold text-success">
                       {elapsedTime}
                     </div>
                   </div>
-                  <Button
-                    variant="destructive"
-                    size="lg"
-                    onClick={handleClockOut}
-                    disabled={clockOutMutation.isPending}
-                    className="h-16 px-8"
-                  >
-                    <Square className="h-5 w-5 mr-2" />
-                    Clock Out
-                  </Button>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Button
+                      variant="outline"
+                      size="lg"
+                      onClick={handleToggleBreak}
+                      disabled={startBreak.isPending || endBreak.isPending}
+                      className="h-16 px-6"
+                    >
+                      <Coffee className="h-5 w-5 mr-2" />
+                      {openBreak ? 'End Break' : 'Start Break'}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="lg"
+                      onClick={handleClockOut}
+                      disabled={clockOutMutation.isPending}
+                      className="h-16 px-8"
+                    >
+                      <Square className="h-5 w-5 mr-2" />
+                      Clock Out
+                    </Button>
+                  </div>
                 </div>
+                {activeShift.break_minutes > 0 && (
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <Coffee className="h-3 w-3" />
+                    {formatHours(activeShift.break_minutes)} unpaid break so far
+                  </div>
+                )}
                 {activeShift.clock_in_latitude && (
                   <div className="flex items-center gap-1 text-sm text-muted-foreground">
                     <MapPin className="h-3 w-3" />
@@ -285,11 +319,11 @@ const TimeClock = () => {
                 <Button
                   size="lg"
                   onClick={handleClockIn}
-                  disabled={clockInMutation.isPending || gpsLoading || !employeeId}
+                  disabled={clockInPending || gpsLoading || !employeeId}
                   className="w-full h-16 text-lg"
                 >
                   <Play className="h-5 w-5 mr-2" />
-                  {clockInMutation.isPending ? 'Clocking In...' : 'Clock In'}
+                  {clockInPending ? 'Clocking In...' : 'Clock In'}
                 </Button>
                 {position && (
                   <div className="flex items-center gap-1 text-sm text-muted-foreground">
@@ -307,30 +341,48 @@ const TimeClock = () => {
           </CardContent>
         </Card>
 
-        {/* Weekly Summary */}
+        {/* Pay Period Summary */}
         <div className="grid md:grid-cols-2 gap-6">
           {/* Stats */}
           <Card className="glass">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <TrendingUp className="h-5 w-5" />
-                Weekly Summary
+                Pay Period Summary
               </CardTitle>
-              <CardDescription>
-                {format(weekStart, 'MMM d')} - {format(weekEnd, 'MMM d, yyyy')}
+              <CardDescription className="flex items-center gap-2">
+                {formatPayrollPeriod(period)}
+                {approval && (
+                  <Badge variant="outline" className="gap-1 border-success/40 text-success">
+                    <Lock className="h-3 w-3" />
+                    Approved
+                  </Badge>
+                )}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-2 gap-4">
                 <div className="text-center p-4 rounded-lg bg-muted/50">
                   <div className="text-3xl font-bold text-primary">
-                    {formatHours(weeklyTotalMinutes)}
+                    {formatHours(timesheet.regular_minutes)}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Regular</div>
+                </div>
+                <div className="text-center p-4 rounded-lg bg-muted/50">
+                  <div className={`text-3xl font-bold ${timesheet.overtime_minutes > 0 ? 'text-warning' : ''}`}>
+                    {formatHours(timesheet.overtime_minutes)}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Overtime</div>
+                </div>
+                <div className="text-center p-4 rounded-lg bg-muted/50">
+                  <div className="text-3xl font-bold">
+                    {formatHours(timesheet.break_minutes)}
                   </div>
-                  <div className="text-sm text-muted-foreground">Total Hours</div>
+                  <div className="text-sm text-muted-foreground">Unpaid Breaks</div>
                 </div>
                 <div className="text-center p-4 rounded-lg bg-muted/50">
                   <div className="text-3xl font-bold">
-                    {weeklyEntries.filter((e) => e.duration_minutes).length}
+                    {timesheet.shift_count}
                   </div>
                   <div className="text-sm text-muted-foreground">Shifts</div>
                 </div>
@@ -389,14 +441,15 @@ const TimeClock = () => {
                     <TableHead>Clock In</TableHead>
                     <TableHead>Clock Out</TableHead>
                     <TableHead>Duration</TableHead>
+                    <TableHead>Breaks</TableHead>
                     <TableHead>Notes</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {weeklyEntries.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
-                        No entries this week
+                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        No entries this pay period
                       </TableCell>
                     </TableRow>
                   ) : (
@@ -432,6 +485,9 @@ const TimeClock = () => {
                             '-'
                           )}
                         </TableCell>
+                        <TableCell className="font-mono text-muted-foreground">
+                          {entry.break_minutes > 0 ? formatHours(entry.break_minutes) : '-'}
+                        </TableCell>
                         <TableCell className="max-w-[200px] truncate">
                           {entry.notes || '-'}
                         </TableCell>
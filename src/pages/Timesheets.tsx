@@ -0,0 +1,323 @@
+import { Fragment, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { ReopenTimesheetDialog } from '@/components/payroll/ReopenTimesheetDialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePayrollSettings, useTimesheets, type EmployeeTimesheet } from '@/hooks/usePayroll';
+import { useRealtimeInvalidation } from '@/hooks/useRealtimeInvalidation';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronLeft, ChevronRight, ClipboardCheck, Download, Loader2, Lock, Unlock } from 'lucide-react';
+import {
+  PAYROLL_PERIOD_LABELS,
+  formatMinutesAsHours,
+  formatPayrollPeriod,
+  getPayrollPeriod,
+  shiftPayrollPeriod,
+} from '@/lib/payroll';
+import { PAYROLL_EXPORT_FORMATS, type PayrollExportFormatId } from '@/lib/payrollExport';
+
+const Timesheets = () => {
+  const { toast } = useToast();
+  const { settings } = usePayrollSettings();
+  // Periods back from the current one
+  const [offset, setOffset] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [reopening, setReopening] = useState<EmployeeTimesheet | null>(null);
+  const [approvingAll, setApprovingAll] = useState(false);
+
+  const period = useMemo(
+    () => shiftPayrollPeriod(getPayrollPeriod(new Date(), settings), settings, offset),
+    [settings, offset]
+  );
+  const { timesheets, isLoading, approveTimesheet, reopenTimesheet, exportPayroll } = useTimesheets(period, settings);
+
+  useRealtimeInvalidation({ table: 'timesheet_approvals', queryKey: ['timesheetApprovals'] });
+
+  const pending = timesheets.filter(
+    (t) => !t.approval && t.open_shift_count === 0 && t.review_shift_count === 0 && t.shift_count > 0
+  );
+  const openShiftCount = timesheets.reduce((sum, t) => sum + t.open_shift_count, 0);
+  const approvedCount = timesheets.filter((t) => t.approval).length;
+  const totals = timesheets.reduce(
+    (sum, t) => ({ regular: sum.regular + t.regular_minutes, overtime: sum.overtime + t.overtime_minutes }),
+    { regular: 0, overtime: 0 }
+  );
+
+  const handleApprove = (timesheet: EmployeeTimesheet) => {
+    approveTimesheet.mutate(timesheet, {
+      onSuccess: () => toast({ title: 'Timesheet approved', description: `${timesheet.employee_name}'s shifts are now locked.` }),
+      onError: (error) => {
+        toast({ title: 'Error approving timesheet', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  // One at a time so a failure stops the run with a clear message
+  const handleApproveAll = async () => {
+    if (!confirm(`Approve and lock ${pending.length} timesheets for ${formatPayrollPeriod(period)}?`)) return;
+    setApprovingAll(true);
+    try {
+      for (const timesheet of pending) {
+        await approveTimesheet.mutateAsync(timesheet);
+      }
+      toast({ title: `${pending.length} timesheets approved` });
+    } catch (error) {
+      toast({ title: 'Error approving timesheets', description: String(error), variant: 'destructive' });
+    } finally {
+      setApprovingAll(false);
+    }
+  };
+
+  const handleExport = (formatId: PayrollExportFormatId) => {
+    const unapproved = timesheets.filter((t) => !t.approval).length;
+    const missingIds = timesheets.filter((t) => t.approval && !t.payroll_id).length;
+    const notes = [
+      unapproved > 0 && `${unapproved} timesheet${unapproved === 1 ? ' is' : 's are'} not approved and will be left out.`,
+      missingIds > 0 && `${missingIds} employee${missingIds === 1 ? ' has' : 's have'} no payroll ID.`,
+    ].filter(Boolean);
+    if (notes.length > 0 && !confirm(`${notes.join(' ')} Export anyway?`)) return;
+
+    exportPayroll.mutate(formatId, {
+      onSuccess: (count) =>
+        toast({ title: 'Payroll exported', description: `${count} timesheets for ${PAYROLL_EXPORT_FORMATS[formatId].label}.` }),
+      onError: (error) => {
+        toast({ title: 'Payroll not exported', description: String(error), variant: 'destructive' });
+      },
+    });
+  };
+
+  const handleReopen = async (reason: string) => {
+    if (!reopening?.approval) return;
+    try {
+      await reopenTimesheet.mutateAsync({ approvalId: reopening.approval.id, reason });
+      toast({ title: 'Timesheet reopened' });
+    } catch (error) {
+      toast({ title: 'Error reopening timesheet', description: String(error), variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Timesheets</h1>
+            <p className="text-muted-foreground">
+              {PAYROLL_PERIOD_LABELS[settings.period_type]} pay periods. Approving a timesheet locks its shifts.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setOffset(offset - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="min-w-[180px] text-center text-sm font-medium">{formatPayrollPeriod(period)}</span>
+            <Button variant="outline" size="icon" onClick={() => setOffset(offset + 1)} disabled={offset >= 0}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Card className="glass">
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                Employee Timesheets
+              </CardTitle>
+              <CardDescription>
+                {formatMinutesAsHours(totals.regular)} regular, {formatMinutesAsHours(totals.overtime)} overtime
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {pending.length > 0 && (
+                <Button onClick={handleApproveAll} disabled={approvingAll}>
+                  {approvingAll ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+                  Approve {pending.length} Ready
+                </Button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={approvedCount === 0 || exportPayroll.isPending}>
+                    {exportPayroll.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    Export Payroll
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+                    {openShiftCount > 0
+                      ? `Close ${openShiftCount} open shift${openShiftCount === 1 ? '' : 's'} to export`
+                      : `${approvedCount} approved timesheet${approvedCount === 1 ? '' : 's'}`}
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {(Object.keys(PAYROLL_EXPORT_FORMATS) as PayrollExportFormatId[]).map((formatId) => (
+                    <DropdownMenuItem key={formatId} disabled={openShiftCount > 0} onClick={() => handleExport(formatId)}>
+                      <div>
+                        <p>{PAYROLL_EXPORT_FORMATS[formatId].label}</p>
+                        <p className="text-xs text-muted-foreground">{PAYROLL_EXPORT_FORMATS[formatId].description}</p>
+                      </div>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="rounded-md border border-border overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>Employee</TableHead>
+                      <TableHead className="text-right">Shifts</TableHead>
+                      <TableHead className="text-right">Regular</TableHead>
+                      <TableHead className="text-right">Overtime</TableHead>
+                      <TableHead className="text-right hidden md:table-cell">Storm Premium</TableHead>
+                      <TableHead className="text-right hidden sm:table-cell">Breaks</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {timesheets.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                          No shifts in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      timesheets.map((timesheet) => (
+                        <Fragment key={timesheet.employee_id}>
+                          <TableRow>
+                            <TableCell>
+                              <button
+                                className="flex items-center gap-1 font-medium"
+                                onClick={() => setExpanded(expanded === timesheet.employee_id ? null : timesheet.employee_id)}
+                              >
+                                <ChevronDown
+                                  className={`h-4 w-4 transition-transform ${expanded === timesheet.employee_id ? '' : '-rotate-90'}`}
+                                />
+                                {timesheet.employee_name}
+                              </button>
+                            </TableCell>
+                            <TableCell className="text-right">{timesheet.shift_count}</TableCell>
+                            <TableCell className="text-right font-mono">{formatMinutesAsHours(timesheet.regular_minutes)}</TableCell>
+                            <TableCell className={`text-right font-mono ${timesheet.overtime_minutes > 0 ? 'text-warning' : ''}`}>
+                              {formatMinutesAsHours(timesheet.overtime_minutes)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono hidden md:table-cell">
+                              {formatMinutesAsHours(timesheet.storms.reduce((sum, storm) => sum + storm.minutes, 0))}
+                            </TableCell>
+                            <TableCell className="text-right font-mono text-muted-foreground hidden sm:table-cell">
+                              {formatMinutesAsHours(timesheet.break_minutes)}
+                            </TableCell>
+                            <TableCell>
+                              {timesheet.approval ? (
+                                <Badge variant="outline" className="gap-1 border-success/40 text-success">
+                                  <CheckCircle2 className="h-3 w-3" />
+                                  Approved {format(new Date(timesheet.approval.approved_at), 'MMM d')}
+                                </Badge>
+                              ) : timesheet.open_shift_count > 0 ? (
+                                <Badge variant="outline" className="gap-1 border-warning/40 text-warning">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {timesheet.open_shift_count} open shift{timesheet.open_shift_count === 1 ? '' : 's'}
+                                </Badge>
+                              ) : timesheet.review_shift_count > 0 ? (
+                                <Badge variant="outline" className="gap-1 border-warning/40 text-warning">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {timesheet.review_shift_count} to review
+                                </Badge>
+                              ) : (
+                                <Badge variant="secondary">Pending</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {timesheet.approval ? (
+                                <Button variant="ghost" size="sm" onClick={() => setReopening(timesheet)}>
+                                  <Unlock className="h-3.5 w-3.5 mr-1" />
+                                  Reopen
+                                </Button>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleApprove(timesheet)}
+                                  disabled={
+                                    timesheet.open_shift_count > 0 ||
+                                    timesheet.review_shift_count > 0 ||
+                                    approveTimesheet.isPending ||
+                                    approvingAll
+                                  }
+                                >
+                                  <Lock className="h-3.5 w-3.5 mr-1" />
+                                  Approve
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                          {expanded === timesheet.employee_id && (
+                            <TableRow className="bg-muted/20 hover:bg-muted/20">
+                              <TableCell colSpan={8}>
+                                <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+                                  {timesheet.days.map((day) => (
+                                    <div key={day.date.toISOString()} className="rounded-md border border-border p-2 text-xs">
+                                      <p className="font-medium">{format(day.date, 'EEE MMM d')}</p>
+                                      {day.paid_minutes > 0 ? (
+                                        <>
+                                          <p className="font-mono">{formatMinutesAsHours(day.regular_minutes)} reg</p>
+                                          {day.overtime_minutes > 0 && (
+                                            <p className="font-mono text-warning">{formatMinutesAsHours(day.overtime_minutes)} OT</p>
+                                          )}
+                                          {day.break_minutes > 0 && (
+                                            <p className="font-mono text-muted-foreground">{formatMinutesAsHours(day.break_minutes)} break</p>
+                                          )}
+                                        </>
+                                      ) : (
+                                        <p className="text-muted-foreground">-</p>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ReopenTimesheetDialog
+        open={!!reopening}
+        onOpenChange={(open) => !open && setReopening(null)}
+        employeeName={reopening?.employee_name ?? ''}
+        onConfirm={handleReopen}
+      />
+    </AppLayout>
+  );
+};
+
+export default Timesheets;
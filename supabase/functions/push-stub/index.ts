@@ -0,0 +1,33 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+
+// Stands in for a browser push service when testing send-push locally. It is
+// not deployed; serve it with a local env file that turns it on:
+//   echo "PUSH_STUB_ENABLED=true" >> supabase/functions/.env.local
+//   echo "PUSH_STUB_URL=http://host.docker.internal:54321/functions/v1/push-stub" >> supabase/functions/.env.local
+//   supabase functions serve --no-verify-jwt --env-file supabase/functions/.env.local
+// Logs each push it receives and answers 201 like a real push service.
+// Subscriptions whose endpoint ends in /gone get 410 so expiry can be tested.
+
+serve(async (req: Request): Promise<Response> => {
+  // Anywhere the flag isn't set, behave as if the function doesn't exist
+  if (Deno.env.get("PUSH_STUB_ENABLED") !== "true") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const endpoint = req.headers.get("x-push-endpoint") ?? "";
+  const body = new Uint8Array(await req.arrayBuffer());
+
+  console.log("Push received:", {
+    endpoint,
+    ttl: req.headers.get("TTL"),
+    urgency: req.headers.get("Urgency"),
+    encoding: req.headers.get("Content-Encoding"),
+    vapid: req.headers.get("Authorization")?.startsWith("vapid ") ?? false,
+    bytes: body.length,
+  });
+
+  if (endpoint.endsWith("/gone")) {
+    return new Response("Subscription expired", { status: 410 });
+  }
+  return new Response(null, { status: 201 });
+});
@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface RegisterRequest {
+  account_id: string;
+  period_start: string;
+  period_end: string;
+}
+
+interface ReportVisit {
+  photo_url: string | null;
+  photos?: { storage_path: string }[];
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const sha256Hex = async (data: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Fingerprints and registers a proof-of-service report. The visit records
+// are rebuilt by register_proof_of_service() and the original photos are read
+// from storage here, so the caller only ever gets back the id and hash.
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return jsonResponse({ error: "Unauthorized" }, 401);
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) return jsonResponse({ error: "Unauthorized" }, 401);
+
+    const { account_id, period_start, period_end }: RegisterRequest = await req.json();
+
+    // Read the visits as the caller so their account access applies
+    const asUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: report, error: reportError } = await asUser.rpc("get_proof_of_service", {
+      _account_id: account_id,
+      _from: period_start,
+      _to: period_end,
+    });
+    if (reportError) return jsonResponse({ error: reportError.message }, 403);
+
+    // The cover photo and every before/during/after photo of each visit
+    const visits = (report?.visits ?? []) as ReportVisit[];
+    const photoPaths = new Set(
+      visits.flatMap((visit) => [visit.photo_url, ...(visit.photos ?? []).map((photo) => photo.storage_path)])
+        .filter((path): path is string => !!path),
+    );
+
+    // One at a time so a long season doesn't open dozens of downloads at once
+    const photoHashes: Record<string, string> = {};
+    for (const path of photoPaths) {
+      const { data: photo, error: photoError } = await supabase.storage.from("work-photos").download(path);
+      if (photoError || !photo) {
+        console.error("Error downloading work photo for report:", photoError);
+        continue;
+      }
+      photoHashes[path] = await sha256Hex(await photo.arrayBuffer());
+    }
+
+    const { data: registered, error: registerError } = await supabase.rpc("register_proof_of_service", {
+      _user_id: user.id,
+      _account_id: account_id,
+      _from: period_start,
+      _to: period_end,
+      _photo_hashes: photoHashes,
+    });
+    if (registerError) return jsonResponse({ error: registerError.message }, 400);
+
+    return jsonResponse(registered);
+  } catch (error: unknown) {
+    console.error("Error in register-proof-of-service function:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+};
+
+serve(handler);
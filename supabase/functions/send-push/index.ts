@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+
+// Called by the dispatch_push_notification trigger with { notification_id }.
+// Delivers the notification to each of the user's devices that wants its
+// type and isn't in quiet hours.
+//
+// Secrets:
+//   PUSH_WEBHOOK_SECRET  shared with the trigger (Vault: push_webhook_secret)
+//   VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY  from `npx web-push generate-vapid-keys`
+//   VAPID_SUBJECT        mailto: or https: contact for the push services
+//   PUSH_STUB_URL        optional; sends every push to this URL instead of the
+//                        browser's push service, e.g. a locally served
+//                        push-stub; never set in production
+
+type PushCategory = "service_scheduled" | "urgent" | "weather_alert" | "general";
+
+interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  notification_types: string[];
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Keep in step with PUSH_CATEGORY_LABELS in src/lib/pushNotifications.ts
+const getPushCategory = (type: string, priority: string): PushCategory => {
+  if (type === "urgent" || priority === "urgent") return "urgent";
+  if (type === "weather_alert") return "weather_alert";
+  if (type.startsWith("service_")) return "service_scheduled";
+  return "general";
+};
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Quiet hours may wrap midnight, e.g. 22:00 to 06:00
+const inQuietHours = (subscription: PushSubscriptionRow, now: Date) => {
+  if (!subscription.quiet_hours_start || !subscription.quiet_hours_end) return false;
+
+  let local: string;
+  try {
+    local = new Intl.DateTimeFormat("en-GB", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+      timeZone: subscription.timezone,
+    }).format(now);
+  } catch {
+    local = now.toISOString().slice(11, 16);
+  }
+
+  const current = minutesOf(local);
+  const start = minutesOf(subscription.quiet_hours_start);
+  const end = minutesOf(subscription.quiet_hours_end);
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  const secret = Deno.env.get("PUSH_WEBHOOK_SECRET");
+  if (!secret || req.headers.get("x-push-secret") !== secret) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const stubUrl = Deno.env.get("PUSH_STUB_URL");
+
+    webpush.setVapidDetails(
+      Deno.env.get("VAPID_SUBJECT") ?? "mailto:admin@example.com",
+      Deno.env.get("VAPID_PUBLIC_KEY")!,
+      Deno.env.get("VAPID_PRIVATE_KEY")!
+    );
+
+    const { notification_id } = await req.json();
+    const { data: notification, error: notificationError } = await supabase
+      .from("notifications")
+      .select("id, user_id, title, message, type, priority, metadata")
+      .eq("id", notification_id)
+      .maybeSingle();
+
+    if (notificationError) throw notificationError;
+    if (!notification) return jsonResponse({ error: "Notification not found" }, 404);
+
+    const { data: subscriptions, error: subscriptionError } = await supabase
+      .from("push_subscriptions")
+      .select("id, endpoint, p256dh, auth, notification_types, quiet_hours_start, quiet_hours_end, timezone")
+      .eq("user_id", notification.user_id);
+
+    if (subscriptionError) throw subscriptionError;
+
+    const category = getPushCategory(notification.type, notification.priority);
+    const now = new Date();
+    const targets = (subscriptions as PushSubscriptionRow[]).filter(
+      (subscription) =>
+        subscription.notification_types.includes(category) &&
+        (category === "urgent" || !inQuietHours(subscription, now))
+    );
+
+    const payload = JSON.stringify({
+      id: notification.id,
+      title: notification.title,
+      body: notification.message,
+      type: notification.type,
+      priority: notification.priority,
+      url: notification.metadata?.url ?? "/",
+    });
+
+    const sent: string[] = [];
+    const expired: string[] = [];
+    const failed: { id: string; status: number }[] = [];
+
+    for (const subscription of targets) {
+      const details = webpush.generateRequestDetails(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { TTL: category === "urgent" ? 60 * 60 : 60 * 60 * 12, urgency: category === "urgent" ? "high" : "normal" }
+      );
+
+      const response = await fetch(stubUrl || details.endpoint, {
+        method: details.method,
+        headers: stubUrl ? { ...details.headers, "x-push-endpoint": details.endpoint } : details.headers,
+        body: details.body,
+      });
+      await response.body?.cancel();
+
+      if (response.ok) {
+        sent.push(subscription.id);
+      } else if (response.status === 404 || response.status === 410) {
+        // The browser unsubscribed or the subscription expired
+        expired.push(subscription.id);
+      } else {
+        failed.push({ id: subscription.id, status: response.status });
+      }
+    }
+
+    if (sent.length > 0) {
+      await supabase.from("push_subscriptions").update({ last_sent_at: now.toISOString() }).in("id", sent);
+    }
+    if (expired.length > 0) {
+      await supabase.from("push_subscriptions").delete().in("id", expired);
+    }
+
+    if (failed.length > 0) console.error("Push delivery failed:", failed);
+
+    return jsonResponse({
+      category,
+      sent: sent.length,
+      skipped: (subscriptions?.length ?? 0) - targets.length,
+      expired: expired.length,
+      failed,
+    });
+  } catch (error: unknown) {
+    console.error("Error in send-push function:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+};
+
+serve(handler);
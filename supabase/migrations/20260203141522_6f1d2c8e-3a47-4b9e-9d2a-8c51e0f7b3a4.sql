@@ -0,0 +1,18 @@
+-- Per-account geofence settings for automatic check-in/check-out
+-- geofence_radius_meters: distance from the account pin that counts as "on site"
+-- geofence_exit_buffer_meters: extra distance required before an exit is recorded,
+-- so GPS jitter near the boundary does not flap between check_in and check_out
+ALTER TABLE public.accounts
+  ADD COLUMN IF NOT EXISTS geofence_radius_meters INTEGER NOT NULL DEFAULT 100,
+  ADD COLUMN IF NOT EXISTS geofence_exit_buffer_meters INTEGER NOT NULL DEFAULT 30;
+
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_geofence_radius_positive CHECK (geofence_radius_meters > 0),
+  ADD CONSTRAINT accounts_geofence_exit_buffer_non_negative CHECK (geofence_exit_buffer_meters >= 0);
+
+-- Geofence events are looked up per employee in time order
+CREATE INDEX IF NOT EXISTS idx_geofence_events_employee_timestamp
+  ON public.geofence_events (employee_id, timestamp DESC);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_events_work_log_id
+  ON public.geofence_events (work_log_id);
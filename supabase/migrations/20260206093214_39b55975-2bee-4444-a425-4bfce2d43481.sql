@@ -0,0 +1,44 @@
+-- Invoice builder: billing period, issue date and server-side invoice numbering
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS period_start DATE,
+  ADD COLUMN IF NOT EXISTS period_end DATE,
+  ADD COLUMN IF NOT EXISTS issued_date DATE;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_status_check
+    CHECK (status IN ('draft', 'sent', 'paid', 'overdue', 'cancelled')),
+  ADD CONSTRAINT invoices_period_check
+    CHECK (period_start IS NULL OR period_end IS NULL OR period_start <= period_end);
+
+-- Sequential, gap-tolerant invoice numbers: INV-2026-01001
+CREATE SEQUENCE IF NOT EXISTS public.invoice_number_seq START WITH 1001;
+
+CREATE OR REPLACE FUNCTION public.generate_invoice_number()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'INV-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.invoice_number_seq')::text, 5, '0')
+$$;
+
+ALTER TABLE public.invoices
+  ALTER COLUMN invoice_number SET DEFAULT public.generate_invoice_number();
+
+CREATE INDEX IF NOT EXISTS idx_invoices_account_id ON public.invoices (account_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON public.invoices (status);
+
+-- Drafts are internal until they are sent
+DROP POLICY IF EXISTS "Clients can view their account invoices" ON public.invoices;
+
+CREATE POLICY "Clients can view their account invoices" ON public.invoices
+    FOR SELECT USING (
+        status <> 'draft'
+        AND EXISTS (
+            SELECT 1 FROM public.accounts
+            WHERE id = invoices.account_id
+            AND client_user_id = auth.uid()
+        )
+    );
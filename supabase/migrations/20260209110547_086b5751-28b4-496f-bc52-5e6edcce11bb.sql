@@ -0,0 +1,69 @@
+-- Per-account pricing contracts (rate cards)
+-- billing_model:
+--   seasonal  - flat seasonal_fee covers all plowing in the contract window
+--   per_push  - per_push_rate for every plow visit
+--   per_inch  - depth_tiers priced by the visit's snow_depth,
+--               e.g. [{"min_inches":2,"max_inches":4,"rate":85}, {"min_inches":8,"max_inches":null,"rate":160}]
+-- Salt is billed per unit of salt_used, shoveling per hour, and every billed
+-- visit is raised to minimum_charge.
+CREATE TABLE public.account_contracts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    billing_model TEXT NOT NULL DEFAULT 'per_push',
+    seasonal_fee DECIMAL(10,2),
+    per_push_rate DECIMAL(10,2),
+    depth_tiers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    salt_per_unit DECIMAL(10,2),
+    shovel_hourly_rate DECIMAL(10,2),
+    minimum_charge DECIMAL(10,2),
+    effective_from DATE NOT NULL,
+    effective_to DATE,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT account_contracts_billing_model_check
+      CHECK (billing_model IN ('seasonal', 'per_push', 'per_inch')),
+    CONSTRAINT account_contracts_effective_range_check
+      CHECK (effective_to IS NULL OR effective_from <= effective_to),
+    CONSTRAINT account_contracts_depth_tiers_array_check
+      CHECK (jsonb_typeof(depth_tiers) = 'array')
+);
+
+CREATE INDEX idx_account_contracts_account_effective
+  ON public.account_contracts (account_id, effective_from DESC);
+
+ALTER TABLE public.account_contracts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin/Manager can view account contracts" ON public.account_contracts
+    FOR SELECT USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Admin/Manager can manage account contracts" ON public.account_contracts
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE TRIGGER update_account_contracts_updated_at BEFORE UPDATE ON public.account_contracts
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An account can only have one contract in effect on any given day
+CREATE OR REPLACE FUNCTION public.check_account_contract_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.account_contracts c
+    WHERE c.account_id = NEW.account_id
+      AND c.id <> NEW.id
+      AND daterange(c.effective_from, c.effective_to, '[]')
+          && daterange(NEW.effective_from, NEW.effective_to, '[]')
+  ) THEN
+    RAISE EXCEPTION 'Contract dates overlap an existing contract for this account';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_account_contract_overlap BEFORE INSERT OR UPDATE ON public.account_contracts
+    FOR EACH ROW EXECUTE FUNCTION public.check_account_contract_overlap();
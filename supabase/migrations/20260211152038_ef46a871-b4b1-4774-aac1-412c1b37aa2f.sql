@@ -0,0 +1,14 @@
+-- Invoice PDF support: tax on invoices and a client-readable letterhead setting
+
+-- tax_rate is a percentage (e.g. 8.25); amount remains the grand total including tax
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_tax_rate_check CHECK (tax_rate >= 0 AND tax_rate <= 100);
+
+-- Clients render their own invoices, so they need the company letterhead and
+-- payment instructions. Every other setting stays staff-only.
+CREATE POLICY "Authenticated users can view invoice letterhead" ON public.settings
+    FOR SELECT USING (key = 'invoice_letterhead' AND auth.uid() IS NOT NULL);
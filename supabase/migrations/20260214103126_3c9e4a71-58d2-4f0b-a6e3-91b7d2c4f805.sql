@@ -0,0 +1,122 @@
+-- Service request workflow: client submissions with photos, staff triage and
+-- live status updates
+
+ALTER TABLE public.service_requests
+  ADD COLUMN IF NOT EXISTS photo_url TEXT,
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS responded_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.service_requests
+  ALTER COLUMN requested_by SET DEFAULT auth.uid();
+
+ALTER TABLE public.service_requests
+  ADD CONSTRAINT service_requests_request_type_check
+    CHECK (request_type IN ('new_service', 'schedule_change', 'complaint', 'other')),
+  ADD CONSTRAINT service_requests_status_check
+    CHECK (status IN ('pending', 'in_progress', 'completed', 'cancelled')),
+  ADD CONSTRAINT service_requests_priority_check
+    CHECK (priority IN ('low', 'normal', 'high', 'urgent'));
+
+CREATE INDEX IF NOT EXISTS idx_service_requests_status_created
+  ON public.service_requests (status, created_at DESC);
+
+-- Clients may only open new, untriaged requests as themselves
+DROP POLICY IF EXISTS "Clients can create service requests" ON public.service_requests;
+CREATE POLICY "Clients can create service requests" ON public.service_requests
+    FOR INSERT WITH CHECK (
+        auth.uid() IS NOT NULL AND
+        requested_by = auth.uid() AND
+        status = 'pending' AND
+        response IS NULL AND
+        assigned_to IS NULL AND
+        EXISTS (
+            SELECT 1 FROM public.accounts
+            WHERE id = service_requests.account_id
+            AND client_user_id = auth.uid()
+        )
+    );
+
+-- completed_at follows the status; responded_at tracks the latest staff reply
+CREATE OR REPLACE FUNCTION public.set_service_request_timestamps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed' THEN
+      NEW.completed_at := COALESCE(NEW.completed_at, now());
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  IF NEW.response IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.response IS DISTINCT FROM OLD.response) THEN
+    NEW.responded_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_service_request_timestamps BEFORE INSERT OR UPDATE ON public.service_requests
+    FOR EACH ROW EXECUTE FUNCTION public.set_service_request_timestamps();
+
+-- Let admins and managers know when a client opens a request
+CREATE OR REPLACE FUNCTION public.notify_new_service_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_name TEXT;
+BEGIN
+  SELECT name INTO _account_name FROM public.accounts WHERE id = NEW.account_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT DISTINCT ur.user_id,
+         'New service request',
+         COALESCE(_account_name, 'A client') || ': ' || left(NEW.description, 140),
+         CASE WHEN NEW.priority = 'urgent' THEN 'urgent' ELSE 'general' END,
+         CASE NEW.priority WHEN 'normal' THEN 'medium' ELSE COALESCE(NEW.priority, 'medium') END,
+         jsonb_build_object('service_request_id', NEW.id, 'account_id', NEW.account_id)
+  FROM public.user_roles ur
+  WHERE ur.role IN ('admin', 'manager');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_service_request AFTER INSERT ON public.service_requests
+    FOR EACH ROW EXECUTE FUNCTION public.notify_new_service_request();
+
+-- Private bucket for request photos, stored under <client user id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('service-request-photos', 'service-request-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Clients can upload service request photos" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'service-request-photos' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Clients can view their service request photos" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'service-request-photos' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Admin/Manager can view service request photos" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'service-request-photos' AND
+  public.is_admin_or_manager(auth.uid())
+);
+
+-- Stream inserts and updates to the client portal and the triage queue
+ALTER PUBLICATION supabase_realtime ADD TABLE public.service_requests;
@@ -0,0 +1,73 @@
+-- Equipment maintenance history: who logged/signed off each entry, and keep
+-- the equipment's maintenance dates in step with its log
+
+ALTER TABLE public.maintenance_logs
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  ADD COLUMN IF NOT EXISTS signed_off_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS signed_off_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.maintenance_logs
+  ADD CONSTRAINT maintenance_logs_maintenance_type_check
+    CHECK (maintenance_type IN ('routine', 'repair', 'inspection', 'other')),
+  ADD CONSTRAINT maintenance_logs_cost_check
+    CHECK (cost IS NULL OR cost >= 0),
+  ADD CONSTRAINT maintenance_logs_next_due_check
+    CHECK (next_due_date IS NULL OR next_due_date >= performed_date);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_logs_equipment_performed
+  ON public.maintenance_logs (equipment_id, performed_date DESC);
+
+-- last_maintenance_date is the most recent entry; next_maintenance_date is that
+-- entry's next_due_date, or maintenance_interval_days after it
+CREATE OR REPLACE FUNCTION public.refresh_equipment_maintenance_dates(_equipment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _latest RECORD;
+BEGIN
+  SELECT ml.performed_date, ml.next_due_date INTO _latest
+  FROM public.maintenance_logs ml
+  WHERE ml.equipment_id = _equipment_id
+  ORDER BY ml.performed_date DESC, ml.created_at DESC
+  LIMIT 1;
+
+  UPDATE public.equipment e
+  SET last_maintenance_date = _latest.performed_date,
+      next_maintenance_date = CASE
+        WHEN _latest.performed_date IS NULL THEN NULL
+        ELSE COALESCE(
+          _latest.next_due_date,
+          _latest.performed_date + COALESCE(e.maintenance_interval_days, 90)
+        )
+      END
+  WHERE e.id = _equipment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_equipment_maintenance_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_equipment_maintenance_dates(OLD.equipment_id);
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.refresh_equipment_maintenance_dates(NEW.equipment_id);
+  -- A log moved to another unit also changes the unit it came from
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.equipment_id <> NEW.equipment_id THEN
+      PERFORM public.refresh_equipment_maintenance_dates(OLD.equipment_id);
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_equipment_maintenance_dates
+  AFTER INSERT OR UPDATE OR DELETE ON public.maintenance_logs
+  FOR EACH ROW EXECUTE FUNCTION public.sync_equipment_maintenance_dates();
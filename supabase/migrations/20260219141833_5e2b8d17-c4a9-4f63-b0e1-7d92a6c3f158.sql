@@ -0,0 +1,55 @@
+-- Imported multi-day forecasts for the service area, one row per day, with
+-- weather_alert notifications when a day crosses the configured thresholds
+
+ALTER TABLE public.weather_forecasts
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual',
+  ADD COLUMN IF NOT EXISTS fetched_at TIMESTAMP WITH TIME ZONE;
+
+-- Keep only the newest row per day so imports can upsert on forecast_date
+DELETE FROM public.weather_forecasts wf
+USING public.weather_forecasts newer
+WHERE wf.forecast_date = newer.forecast_date
+  AND (wf.updated_at, wf.id) < (newer.updated_at, newer.id);
+
+ALTER TABLE public.weather_forecasts
+  ADD CONSTRAINT weather_forecasts_forecast_date_key UNIQUE (forecast_date),
+  ADD CONSTRAINT weather_forecasts_snow_chance_check
+    CHECK (snow_chance IS NULL OR (snow_chance >= 0 AND snow_chance <= 100)),
+  ADD CONSTRAINT weather_forecasts_snow_amount_check
+    CHECK (snow_amount_min IS NULL OR snow_amount_max IS NULL OR snow_amount_min <= snow_amount_max);
+
+-- alerts are computed by the importer from the thresholds in settings; staff
+-- are notified whenever a day gains an alert it did not have before
+CREATE OR REPLACE FUNCTION public.notify_weather_forecast_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _new_alerts TEXT[];
+BEGIN
+  SELECT COALESCE(array_agg(a), '{}') INTO _new_alerts
+  FROM unnest(COALESCE(NEW.alerts, '{}')) AS a
+  WHERE TG_OP = 'INSERT' OR NOT (a = ANY (COALESCE(OLD.alerts, '{}')));
+
+  IF array_length(_new_alerts, 1) IS NULL OR NEW.forecast_date < CURRENT_DATE THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT DISTINCT ur.user_id,
+         'Weather alert for ' || to_char(NEW.forecast_date, 'Dy Mon FMDD'),
+         array_to_string(_new_alerts, '; '),
+         'weather_alert',
+         'high',
+         jsonb_build_object('forecast_id', NEW.id, 'forecast_date', NEW.forecast_date)
+  FROM public.user_roles ur
+  WHERE ur.role IN ('admin', 'manager', 'driver', 'shovel_crew');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_weather_forecast_alerts AFTER INSERT OR UPDATE OF alerts ON public.weather_forecasts
+    FOR EACH ROW EXECUTE FUNCTION public.notify_weather_forecast_alerts();
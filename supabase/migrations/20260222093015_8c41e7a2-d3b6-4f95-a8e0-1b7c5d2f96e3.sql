@@ -0,0 +1,170 @@
+-- Storm events: one row per snowfall that billing, payroll and client
+-- reporting are grouped by. end_time is NULL while the storm is ongoing.
+CREATE TABLE public.storm_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_time TIMESTAMP WITH TIME ZONE,
+    total_snowfall DECIMAL(5,1),
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT storm_events_time_range_check
+      CHECK (end_time IS NULL OR start_time < end_time),
+    CONSTRAINT storm_events_total_snowfall_check
+      CHECK (total_snowfall IS NULL OR total_snowfall >= 0)
+);
+
+CREATE INDEX idx_storm_events_start_time ON public.storm_events (start_time DESC);
+
+ALTER TABLE public.storm_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view storm events" ON public.storm_events
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admin/Manager can manage storm events" ON public.storm_events
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE TRIGGER update_storm_events_updated_at BEFORE UPDATE ON public.storm_events
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Storms cannot overlap, so every log or shift belongs to at most one storm
+CREATE OR REPLACE FUNCTION public.check_storm_event_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.storm_events s
+    WHERE s.id <> NEW.id
+      AND tstzrange(s.start_time, s.end_time, '[]') && tstzrange(NEW.start_time, NEW.end_time, '[]')
+  ) THEN
+    RAISE EXCEPTION 'Storm dates overlap an existing storm';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_storm_event_overlap BEFORE INSERT OR UPDATE ON public.storm_events
+    FOR EACH ROW EXECUTE FUNCTION public.check_storm_event_overlap();
+
+ALTER TABLE public.work_logs
+  ADD COLUMN IF NOT EXISTS storm_event_id UUID REFERENCES public.storm_events(id) ON DELETE SET NULL;
+ALTER TABLE public.shovel_work_logs
+  ADD COLUMN IF NOT EXISTS storm_event_id UUID REFERENCES public.storm_events(id) ON DELETE SET NULL;
+ALTER TABLE public.time_clock
+  ADD COLUMN IF NOT EXISTS storm_event_id UUID REFERENCES public.storm_events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_work_logs_storm_event ON public.work_logs (storm_event_id);
+CREATE INDEX IF NOT EXISTS idx_shovel_work_logs_storm_event ON public.shovel_work_logs (storm_event_id);
+CREATE INDEX IF NOT EXISTS idx_time_clock_storm_event ON public.time_clock (storm_event_id);
+
+-- The storm whose window overlaps [_from, _to]; _to NULL means still open
+CREATE OR REPLACE FUNCTION public.find_storm_event(_from TIMESTAMP WITH TIME ZONE, _to TIMESTAMP WITH TIME ZONE)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.id
+  FROM public.storm_events s
+  WHERE tstzrange(s.start_time, s.end_time, '[]') && tstzrange(_from, _to, '[]')
+  ORDER BY s.start_time DESC
+  LIMIT 1
+$$;
+
+-- Work logs belong to the storm their check-in falls in
+CREATE OR REPLACE FUNCTION public.assign_work_log_storm_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- An explicit storm on insert (e.g. a backfilled entry) is kept as-is
+  IF TG_OP = 'INSERT' AND NEW.storm_event_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  NEW.storm_event_id := public.find_storm_event(NEW.check_in_time, NEW.check_in_time);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_work_log_storm_event BEFORE INSERT OR UPDATE OF check_in_time ON public.work_logs
+    FOR EACH ROW EXECUTE FUNCTION public.assign_work_log_storm_event();
+
+CREATE TRIGGER assign_shovel_work_log_storm_event BEFORE INSERT OR UPDATE OF check_in_time ON public.shovel_work_logs
+    FOR EACH ROW EXECUTE FUNCTION public.assign_work_log_storm_event();
+
+-- Shifts belong to the storm they overlap, so crews that clock in ahead of
+-- the first flakes still count toward it
+CREATE OR REPLACE FUNCTION public.assign_time_clock_storm_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.storm_event_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  NEW.storm_event_id := public.find_storm_event(NEW.clock_in_time, NEW.clock_out_time);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_time_clock_storm_event BEFORE INSERT OR UPDATE OF clock_in_time, clock_out_time ON public.time_clock
+    FOR EACH ROW EXECUTE FUNCTION public.assign_time_clock_storm_event();
+
+-- Re-link logs and shifts when a storm is created or its window changes.
+-- Runs as definer because managers cannot update other employees' shifts.
+CREATE OR REPLACE FUNCTION public.link_storm_event_records(_storm_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window TSTZRANGE;
+BEGIN
+  SELECT tstzrange(s.start_time, s.end_time, '[]') INTO _window
+  FROM public.storm_events s
+  WHERE s.id = _storm_event_id;
+
+  IF _window IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.work_logs SET storm_event_id = NULL
+  WHERE storm_event_id = _storm_event_id AND NOT (_window @> check_in_time);
+  UPDATE public.work_logs SET storm_event_id = _storm_event_id
+  WHERE storm_event_id IS NULL AND _window @> check_in_time;
+
+  UPDATE public.shovel_work_logs SET storm_event_id = NULL
+  WHERE storm_event_id = _storm_event_id AND NOT (_window @> check_in_time);
+  UPDATE public.shovel_work_logs SET storm_event_id = _storm_event_id
+  WHERE storm_event_id IS NULL AND _window @> check_in_time;
+
+  UPDATE public.time_clock SET storm_event_id = NULL
+  WHERE storm_event_id = _storm_event_id
+    AND NOT (_window && tstzrange(clock_in_time, clock_out_time, '[]'));
+  UPDATE public.time_clock SET storm_event_id = _storm_event_id
+  WHERE storm_event_id IS NULL
+    AND _window && tstzrange(clock_in_time, clock_out_time, '[]');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_storm_event_records()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.link_storm_event_records(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_storm_event_records
+  AFTER INSERT OR UPDATE OF start_time, end_time ON public.storm_events
+  FOR EACH ROW EXECUTE FUNCTION public.sync_storm_event_records();
@@ -0,0 +1,184 @@
+-- Service-level tracking per storm: each active account gets a deadline of
+-- storm start + the hours promised for its priority, the time it was first
+-- serviced, and when managers were warned about it. Rows are kept after the
+-- storm as the account's time-to-service history.
+--
+-- Promised hours live in settings under 'service_levels', e.g.
+--   {"hours": {"urgent": 2, "high": 4, "normal": 8, "low": 24}, "warning_minutes": 60}
+CREATE TABLE public.storm_account_services (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    storm_event_id UUID REFERENCES public.storm_events(id) ON DELETE CASCADE NOT NULL,
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+    priority TEXT NOT NULL,
+    deadline_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    first_serviced_at TIMESTAMP WITH TIME ZONE,
+    warning_notified_at TIMESTAMP WITH TIME ZONE,
+    breach_notified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT storm_account_services_storm_account_key UNIQUE (storm_event_id, account_id),
+    CONSTRAINT storm_account_services_priority_check
+      CHECK (priority IN ('low', 'normal', 'high', 'urgent'))
+);
+
+CREATE INDEX idx_storm_account_services_account
+  ON public.storm_account_services (account_id, deadline_at DESC);
+
+ALTER TABLE public.storm_account_services ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the functions below, never directly by clients
+CREATE POLICY "Staff can view storm account services" ON public.storm_account_services
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE TRIGGER update_storm_account_services_updated_at BEFORE UPDATE ON public.storm_account_services
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.service_level_hours(_priority TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT (s.value -> 'hours' ->> COALESCE(_priority, 'normal'))::NUMERIC
+     FROM public.settings s WHERE s.key = 'service_levels'),
+    CASE COALESCE(_priority, 'normal')
+      WHEN 'urgent' THEN 2
+      WHEN 'high' THEN 4
+      WHEN 'low' THEN 24
+      ELSE 8
+    END
+  )
+$$;
+
+-- Brings a storm's rows up to date and raises 'urgent' notifications for
+-- admins and managers, once per account as its deadline approaches and once
+-- when it passes. There is no scheduler, so staff clients call this while
+-- the dashboard or route planner is open.
+CREATE OR REPLACE FUNCTION public.evaluate_storm_service_levels(_storm_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _storm public.storm_events%ROWTYPE;
+  _warning_minutes INTEGER;
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can evaluate service levels';
+  END IF;
+
+  SELECT * INTO _storm FROM public.storm_events WHERE id = _storm_event_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE((s.value ->> 'warning_minutes')::INTEGER, 60) INTO _warning_minutes
+  FROM public.settings s WHERE s.key = 'service_levels';
+  _warning_minutes := COALESCE(_warning_minutes, 60);
+
+  -- Priority and deadline are fixed when the account first joins the storm
+  INSERT INTO public.storm_account_services (storm_event_id, account_id, priority, deadline_at)
+  SELECT _storm.id,
+         a.id,
+         COALESCE(a.priority, 'normal'),
+         _storm.start_time + public.service_level_hours(a.priority) * INTERVAL '1 hour'
+  FROM public.accounts a
+  WHERE COALESCE(a.status, 'active') = 'active'
+  ON CONFLICT (storm_event_id, account_id) DO NOTHING;
+
+  UPDATE public.storm_account_services sas
+  SET first_serviced_at = serviced.first_at
+  FROM (
+    SELECT account_id, MIN(check_in_time) AS first_at
+    FROM (
+      SELECT account_id, check_in_time FROM public.work_logs WHERE storm_event_id = _storm.id
+      UNION ALL
+      SELECT account_id, check_in_time FROM public.shovel_work_logs WHERE storm_event_id = _storm.id
+    ) logs
+    GROUP BY account_id
+  ) serviced
+  WHERE sas.storm_event_id = _storm.id
+    AND sas.account_id = serviced.account_id
+    AND sas.first_serviced_at IS DISTINCT FROM serviced.first_at;
+
+  WITH due AS (
+    UPDATE public.storm_account_services sas
+    SET warning_notified_at = now()
+    FROM public.accounts a
+    WHERE sas.storm_event_id = _storm.id
+      AND a.id = sas.account_id
+      AND sas.first_serviced_at IS NULL
+      AND sas.warning_notified_at IS NULL
+      AND sas.breach_notified_at IS NULL
+      AND now() >= sas.deadline_at - make_interval(mins => _warning_minutes)
+      AND now() < sas.deadline_at
+    RETURNING sas.id, sas.account_id, sas.priority, a.name
+  )
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT managers.user_id,
+         'Service deadline approaching: ' || due.name,
+         due.name || ' (' || due.priority || ' priority) has not been serviced for ' || _storm.name
+           || ' and is due within ' || _warning_minutes || ' minutes',
+         'urgent',
+         'high',
+         jsonb_build_object('storm_event_id', _storm.id, 'account_id', due.account_id, 'service_level_id', due.id)
+  FROM due
+  CROSS JOIN (
+    SELECT DISTINCT user_id FROM public.user_roles WHERE role IN ('admin', 'manager')
+  ) managers;
+
+  WITH due AS (
+    UPDATE public.storm_account_services sas
+    SET breach_notified_at = now()
+    FROM public.accounts a
+    WHERE sas.storm_event_id = _storm.id
+      AND a.id = sas.account_id
+      AND sas.first_serviced_at IS NULL
+      AND sas.breach_notified_at IS NULL
+      AND now() >= sas.deadline_at
+    RETURNING sas.id, sas.account_id, sas.priority, a.name
+  )
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT managers.user_id,
+         'Service deadline missed: ' || due.name,
+         due.name || ' (' || due.priority || ' priority) is past its service deadline for ' || _storm.name,
+         'urgent',
+         'urgent',
+         jsonb_build_object('storm_event_id', _storm.id, 'account_id', due.account_id, 'service_level_id', due.id)
+  FROM due
+  CROSS JOIN (
+    SELECT DISTINCT user_id FROM public.user_roles WHERE role IN ('admin', 'manager')
+  ) managers;
+END;
+$$;
+
+-- Record the first service as soon as a log lands in a storm, so history is
+-- kept even when nobody has the dashboard open
+CREATE OR REPLACE FUNCTION public.record_storm_account_service()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.storm_event_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.storm_account_services
+  SET first_serviced_at = LEAST(COALESCE(first_serviced_at, NEW.check_in_time), NEW.check_in_time)
+  WHERE storm_event_id = NEW.storm_event_id
+    AND account_id = NEW.account_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_work_log_storm_service
+  AFTER INSERT OR UPDATE OF storm_event_id, check_in_time ON public.work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.record_storm_account_service();
+
+CREATE TRIGGER record_shovel_work_log_storm_service
+  AFTER INSERT OR UPDATE OF storm_event_id, check_in_time ON public.shovel_work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.record_storm_account_service();
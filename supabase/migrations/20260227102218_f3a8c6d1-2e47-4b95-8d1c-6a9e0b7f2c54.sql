@@ -0,0 +1,105 @@
+-- Saved routes: an ordered list of accounts with a service type and default
+-- truck, handed to crews for a given date through route_assignments.
+-- Stop progress is not stored; it comes from the work logs on that date.
+CREATE TABLE public.routes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    service_type TEXT NOT NULL DEFAULT 'both',
+    default_equipment_id UUID REFERENCES public.equipment(id) ON DELETE SET NULL,
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT routes_service_type_check CHECK (service_type IN ('plowing', 'shovel', 'both'))
+);
+
+CREATE TABLE public.route_stops (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    route_id UUID REFERENCES public.routes(id) ON DELETE CASCADE NOT NULL,
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+    stop_order INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (route_id, account_id)
+);
+
+CREATE INDEX idx_route_stops_route_order ON public.route_stops (route_id, stop_order);
+
+CREATE TABLE public.route_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    route_id UUID REFERENCES public.routes(id) ON DELETE CASCADE NOT NULL,
+    route_date DATE NOT NULL,
+    equipment_id UUID REFERENCES public.equipment(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_route_assignments_date ON public.route_assignments (route_date);
+
+CREATE TABLE public.route_assignment_employees (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    route_assignment_id UUID REFERENCES public.route_assignments(id) ON DELETE CASCADE NOT NULL,
+    employee_id UUID REFERENCES public.employees(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (route_assignment_id, employee_id)
+);
+
+CREATE INDEX idx_route_assignment_employees_employee
+  ON public.route_assignment_employees (employee_id);
+
+ALTER TABLE public.routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.route_stops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.route_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.route_assignment_employees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view routes" ON public.routes
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admin/Manager can manage routes" ON public.routes
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Staff can view route stops" ON public.route_stops
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admin/Manager can manage route stops" ON public.route_stops
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Staff can view route assignments" ON public.route_assignments
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admin/Manager can manage route assignments" ON public.route_assignments
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Staff can view route assignment employees" ON public.route_assignment_employees
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admin/Manager can manage route assignment employees" ON public.route_assignment_employees
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE TRIGGER update_routes_updated_at BEFORE UPDATE ON public.routes
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_route_assignments_updated_at BEFORE UPDATE ON public.route_assignments
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Replace a route's stops in one statement so reordering is atomic
+CREATE OR REPLACE FUNCTION public.set_route_stops(_route_id UUID, _account_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.route_stops WHERE route_id = _route_id;
+
+  INSERT INTO public.route_stops (route_id, account_id, stop_order)
+  SELECT _route_id, stop.account_id, stop.position - 1
+  FROM unnest(_account_ids) WITH ORDINALITY AS stop(account_id, position);
+END;
+$$;
+
+-- Crews see stops tick off as soon as anyone logs them
+ALTER PUBLICATION supabase_realtime ADD TABLE public.work_logs;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.shovel_work_logs;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.route_assignments;
@@ -0,0 +1,117 @@
+-- Crew breadcrumbs: employees who opt in send their position every so often
+-- while they have an open time_clock row. Managers watch the latest point
+-- live and replay a whole shift afterwards.
+--
+-- Ping interval and retention live in settings under 'location_tracking', e.g.
+--   {"interval_seconds": 60, "min_distance_meters": 25, "retention_days": 30}
+ALTER TABLE public.profiles
+  ADD COLUMN share_location_on_shift BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.location_pings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    time_clock_id UUID REFERENCES public.time_clock(id) ON DELETE CASCADE NOT NULL,
+    employee_id UUID REFERENCES public.employees(id) ON DELETE CASCADE NOT NULL,
+    latitude DOUBLE PRECISION NOT NULL,
+    longitude DOUBLE PRECISION NOT NULL,
+    accuracy DOUBLE PRECISION,
+    speed DOUBLE PRECISION,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_location_pings_shift ON public.location_pings (time_clock_id, recorded_at);
+CREATE INDEX idx_location_pings_recorded_at ON public.location_pings (recorded_at);
+
+ALTER TABLE public.location_pings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin/Manager can view location pings" ON public.location_pings
+    FOR SELECT USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Employees can view their own location pings" ON public.location_pings
+    FOR SELECT USING (employee_id = public.get_employee_id(auth.uid()));
+
+-- Only the employee themselves, only on their own open shift, and only when
+-- they have opted in
+CREATE POLICY "Employees can record pings on their open shift" ON public.location_pings
+    FOR INSERT WITH CHECK (
+        employee_id = public.get_employee_id(auth.uid())
+        AND EXISTS (
+            SELECT 1 FROM public.time_clock tc
+            WHERE tc.id = time_clock_id
+              AND tc.employee_id = location_pings.employee_id
+              AND tc.clock_out_time IS NULL
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.user_id = auth.uid() AND p.share_location_on_shift
+        )
+    );
+
+CREATE POLICY "Admin can delete location pings" ON public.location_pings
+    FOR DELETE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.location_ping_retention_days()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT (s.value ->> 'retention_days')::INTEGER
+     FROM public.settings s WHERE s.key = 'location_tracking'),
+    30
+  )
+$$;
+
+-- Drops pings past the retention period. Runs after each batch of inserts so
+-- the table stays bounded without a scheduler; admins can also call it.
+CREATE OR REPLACE FUNCTION public.purge_expired_location_pings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted INTEGER;
+BEGIN
+  DELETE FROM public.location_pings
+  WHERE recorded_at < now() - make_interval(days => public.location_ping_retention_days());
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+  RETURN _deleted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.purge_expired_location_pings_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.purge_expired_location_pings();
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER purge_expired_location_pings
+    AFTER INSERT ON public.location_pings
+    FOR EACH STATEMENT EXECUTE FUNCTION public.purge_expired_location_pings_trigger();
+
+-- Latest point per open shift, for the live crew map
+CREATE VIEW public.crew_latest_locations
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (lp.time_clock_id)
+  lp.time_clock_id,
+  lp.employee_id,
+  lp.latitude,
+  lp.longitude,
+  lp.accuracy,
+  lp.recorded_at
+FROM public.location_pings lp
+JOIN public.time_clock tc ON tc.id = lp.time_clock_id
+WHERE tc.clock_out_time IS NULL
+ORDER BY lp.time_clock_id, lp.recorded_at DESC;
+
+GRANT SELECT ON public.crew_latest_locations TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.location_pings;
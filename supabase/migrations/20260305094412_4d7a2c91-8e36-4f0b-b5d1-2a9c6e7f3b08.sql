@@ -0,0 +1,73 @@
+-- Where each account's pin came from, so the data-quality view can tell a
+-- typed-in or geocoded point from one a driver set on site
+ALTER TABLE public.accounts
+  ADD COLUMN location_source TEXT CHECK (location_source IN ('manual', 'geocoded', 'import', 'gps')),
+  ADD COLUMN location_updated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN location_updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE public.accounts
+SET location_source = 'manual', location_updated_at = updated_at
+WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- Drivers can't edit accounts, but they can move a pin to where they are
+-- standing. Every move is written to the audit log with the old point.
+CREATE OR REPLACE FUNCTION public.set_account_location_from_gps(
+  _account_id UUID,
+  _latitude DOUBLE PRECISION,
+  _longitude DOUBLE PRECISION,
+  _accuracy DOUBLE PRECISION
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old RECORD;
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can set account locations';
+  END IF;
+
+  IF _latitude NOT BETWEEN -90 AND 90 OR _longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Coordinates are out of range';
+  END IF;
+
+  IF _accuracy IS NULL OR _accuracy > 100 THEN
+    RAISE EXCEPTION 'GPS fix is not accurate enough to set a pin (% m)', COALESCE(round(_accuracy)::TEXT, 'unknown');
+  END IF;
+
+  SELECT latitude, longitude, location_source INTO _old
+  FROM public.accounts WHERE id = _account_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  UPDATE public.accounts
+  SET latitude = _latitude,
+      longitude = _longitude,
+      location_source = 'gps',
+      location_updated_at = now(),
+      location_updated_by = auth.uid()
+  WHERE id = _account_id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (
+    auth.uid(),
+    'update',
+    'accounts',
+    _account_id,
+    'info',
+    jsonb_build_object(
+      'change', 'location_from_gps',
+      'old_latitude', _old.latitude,
+      'old_longitude', _old.longitude,
+      'old_source', _old.location_source,
+      'latitude', _latitude,
+      'longitude', _longitude,
+      'accuracy', _accuracy
+    )
+  );
+END;
+$$;
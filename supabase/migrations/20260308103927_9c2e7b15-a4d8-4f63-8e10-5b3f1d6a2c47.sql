@@ -0,0 +1,131 @@
+-- Site documentation for drivers arriving at an account: structured
+-- instructions, access codes, and reference photos annotated with push
+-- zones, stacking areas, hazards and no-salt zones.
+
+-- Instructions the client may see for their own property
+CREATE TABLE public.account_site_instructions (
+    account_id UUID PRIMARY KEY REFERENCES public.accounts(id) ON DELETE CASCADE,
+    contact_on_arrival TEXT,
+    contact_on_arrival_phone TEXT,
+    sidewalks_included BOOLEAN NOT NULL DEFAULT false,
+    salt_allowed BOOLEAN NOT NULL DEFAULT true,
+    stacking_instructions TEXT,
+    hazards TEXT,
+    special_instructions TEXT,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Access codes live in their own table so clients (and anyone else outside
+-- staff) can't read them even by selecting the table directly
+CREATE TABLE public.account_site_access (
+    account_id UUID PRIMARY KEY REFERENCES public.accounts(id) ON DELETE CASCADE,
+    gate_code TEXT,
+    lockbox_code TEXT,
+    alarm_code TEXT,
+    access_notes TEXT,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- annotations: [{"id", "type": push_zone|stacking|hazard|no_salt,
+--   "shape": marker|arrow|area, "points": [{"x", "y"}], "label"}]
+-- with x/y as fractions of the image size so they survive resizing
+CREATE TABLE public.account_site_photos (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+    storage_path TEXT NOT NULL,
+    caption TEXT,
+    annotations JSONB NOT NULL DEFAULT '[]'::jsonb,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_account_site_photos_account ON public.account_site_photos (account_id, sort_order);
+
+ALTER TABLE public.account_site_instructions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_site_access ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_site_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view site instructions" ON public.account_site_instructions
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Clients can view their own site instructions" ON public.account_site_instructions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.accounts a
+            WHERE a.id = account_id AND a.client_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admin/Manager can manage site instructions" ON public.account_site_instructions
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Staff can view site access" ON public.account_site_access
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admin/Manager can manage site access" ON public.account_site_access
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Staff can view site photos" ON public.account_site_photos
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Clients can view their own site photos" ON public.account_site_photos
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.accounts a
+            WHERE a.id = account_id AND a.client_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admin/Manager can manage site photos" ON public.account_site_photos
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE TRIGGER update_account_site_instructions_updated_at BEFORE UPDATE ON public.account_site_instructions
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_account_site_access_updated_at BEFORE UPDATE ON public.account_site_access
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_account_site_photos_updated_at BEFORE UPDATE ON public.account_site_photos
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Private bucket for site photos, stored under <account id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('account-site-photos', 'account-site-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Staff can view account site photos" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'account-site-photos' AND
+  public.is_staff(auth.uid())
+);
+
+CREATE POLICY "Clients can view their account site photos" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'account-site-photos' AND
+  EXISTS (
+    SELECT 1 FROM public.accounts a
+    WHERE a.id::text = (storage.foldername(name))[1] AND a.client_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admin/Manager can upload account site photos" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'account-site-photos' AND
+  public.is_admin_or_manager(auth.uid())
+);
+
+CREATE POLICY "Admin/Manager can delete account site photos" ON storage.objects
+FOR DELETE TO authenticated
+USING (
+  bucket_id = 'account-site-photos' AND
+  public.is_admin_or_manager(auth.uid())
+);
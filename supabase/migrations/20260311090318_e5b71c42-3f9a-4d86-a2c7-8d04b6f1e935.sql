@@ -0,0 +1,428 @@
+-- Client self-service: several portal users per account, contact changes
+-- that staff approve, and opt-in "service completed" notifications.
+
+-- Portal users per account. accounts.client_user_id is kept as the primary
+-- contact's login and mirrored into this table; access checks use this table.
+CREATE TABLE public.account_users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    notify_service_completed BOOLEAN NOT NULL DEFAULT false,
+    added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (account_id, user_id)
+);
+
+CREATE INDEX idx_account_users_user ON public.account_users (user_id);
+
+INSERT INTO public.account_users (account_id, user_id)
+SELECT id, client_user_id FROM public.accounts WHERE client_user_id IS NOT NULL
+ON CONFLICT (account_id, user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.is_account_user(_user_id UUID, _account_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.account_users
+    WHERE user_id = _user_id AND account_id = _account_id
+  )
+$$;
+
+-- Setting client_user_id from the Accounts page still grants access, and
+-- replacing it revokes the previous login as it did before
+CREATE OR REPLACE FUNCTION public.sync_account_client_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.client_user_id IS NOT NULL
+     AND OLD.client_user_id IS DISTINCT FROM NEW.client_user_id THEN
+    DELETE FROM public.account_users
+    WHERE account_id = NEW.id AND user_id = OLD.client_user_id;
+  END IF;
+
+  IF NEW.client_user_id IS NOT NULL THEN
+    INSERT INTO public.account_users (account_id, user_id)
+    VALUES (NEW.id, NEW.client_user_id)
+    ON CONFLICT (account_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_account_client_user AFTER INSERT OR UPDATE OF client_user_id ON public.accounts
+    FOR EACH ROW EXECUTE FUNCTION public.sync_account_client_user();
+
+ALTER TABLE public.account_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin/Manager can manage account users" ON public.account_users
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Clients can view users on their accounts" ON public.account_users
+    FOR SELECT USING (public.is_account_user(auth.uid(), account_id));
+
+CREATE TRIGGER update_account_users_updated_at BEFORE UPDATE ON public.account_users
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Names and emails of the people sharing an account, which profiles RLS
+-- would otherwise hide from clients
+CREATE OR REPLACE FUNCTION public.get_account_users(_account_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, display_name TEXT, added_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT au.user_id, p.email, p.display_name, au.created_at
+  FROM public.account_users au
+  LEFT JOIN public.profiles p ON p.user_id = au.user_id
+  WHERE au.account_id = _account_id
+    AND (public.is_account_user(auth.uid(), _account_id) OR public.is_admin_or_manager(auth.uid()))
+  ORDER BY au.created_at
+$$;
+
+-- Clients never write account_users directly: adding and removing people
+-- goes through the functions below so it is checked and audited, and this
+-- one only touches the caller's own notification choice
+CREATE OR REPLACE FUNCTION public.set_account_notifications(_account_id UUID, _notify_service_completed BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.account_users
+  SET notify_service_completed = _notify_service_completed
+  WHERE account_id = _account_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+END;
+$$;
+
+-- Give another registered client login access to an account
+CREATE OR REPLACE FUNCTION public.add_account_user(_account_id UUID, _email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+BEGIN
+  IF NOT (public.is_account_user(auth.uid(), _account_id) OR public.is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+
+  SELECT user_id INTO _user_id FROM public.profiles WHERE lower(email) = lower(trim(_email));
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No portal login found for %. Ask them to sign up first.', _email;
+  END IF;
+
+  IF public.is_staff(_user_id) THEN
+    RAISE EXCEPTION 'Staff logins cannot be added to a client account';
+  END IF;
+
+  INSERT INTO public.account_users (account_id, user_id, added_by)
+  VALUES (_account_id, _user_id, auth.uid())
+  ON CONFLICT (account_id, user_id) DO NOTHING;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, 'client')
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'create', 'account_users', _account_id, 'info',
+          jsonb_build_object('added_user_id', _user_id, 'email', _email));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_account_user(_account_id UUID, _user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.is_account_user(auth.uid(), _account_id) OR public.is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+
+  IF NOT public.is_admin_or_manager(auth.uid())
+     AND (SELECT count(*) FROM public.account_users WHERE account_id = _account_id) <= 1 THEN
+    RAISE EXCEPTION 'An account needs at least one portal user';
+  END IF;
+
+  DELETE FROM public.account_users WHERE account_id = _account_id AND user_id = _user_id;
+
+  UPDATE public.accounts SET client_user_id = NULL
+  WHERE id = _account_id AND client_user_id = _user_id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'delete', 'account_users', _account_id, 'info',
+          jsonb_build_object('removed_user_id', _user_id));
+END;
+$$;
+
+-- Point every client policy at account_users instead of client_user_id
+DROP POLICY IF EXISTS "Clients can view their own account" ON public.accounts;
+CREATE POLICY "Clients can view their own account" ON public.accounts
+    FOR SELECT USING (public.is_account_user(auth.uid(), id));
+
+DROP POLICY IF EXISTS "Clients can view their account work logs" ON public.work_logs;
+CREATE POLICY "Clients can view their account work logs" ON public.work_logs
+    FOR SELECT USING (auth.uid() IS NOT NULL AND public.is_account_user(auth.uid(), account_id));
+
+DROP POLICY IF EXISTS "Clients can view their account shovel work logs" ON public.shovel_work_logs;
+CREATE POLICY "Clients can view their account shovel work logs" ON public.shovel_work_logs
+    FOR SELECT USING (auth.uid() IS NOT NULL AND public.is_account_user(auth.uid(), account_id));
+
+DROP POLICY IF EXISTS "Clients can view their account invoices" ON public.invoices;
+CREATE POLICY "Clients can view their account invoices" ON public.invoices
+    FOR SELECT USING (status <> 'draft' AND public.is_account_user(auth.uid(), account_id));
+
+DROP POLICY IF EXISTS "Clients can create service requests" ON public.service_requests;
+CREATE POLICY "Clients can create service requests" ON public.service_requests
+    FOR INSERT WITH CHECK (
+        auth.uid() IS NOT NULL AND
+        requested_by = auth.uid() AND
+        status = 'pending' AND
+        response IS NULL AND
+        assigned_to IS NULL AND
+        public.is_account_user(auth.uid(), account_id)
+    );
+
+DROP POLICY IF EXISTS "Clients can view their own site instructions" ON public.account_site_instructions;
+CREATE POLICY "Clients can view their own site instructions" ON public.account_site_instructions
+    FOR SELECT USING (public.is_account_user(auth.uid(), account_id));
+
+DROP POLICY IF EXISTS "Clients can view their own site photos" ON public.account_site_photos;
+CREATE POLICY "Clients can view their own site photos" ON public.account_site_photos
+    FOR SELECT USING (public.is_account_user(auth.uid(), account_id));
+
+DROP POLICY IF EXISTS "Clients can view their account site photos" ON storage.objects;
+CREATE POLICY "Clients can view their account site photos" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'account-site-photos' AND
+  public.is_account_user(auth.uid(), ((storage.foldername(name))[1])::UUID)
+);
+
+DROP POLICY IF EXISTS "Clients can view their photos" ON storage.objects;
+CREATE POLICY "Clients can view their photos" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'work-photos' AND
+  (
+    EXISTS (
+      SELECT 1 FROM public.work_logs wl
+      WHERE wl.photo_url = name
+      AND public.is_account_user(auth.uid(), wl.account_id)
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM public.shovel_work_logs swl
+      WHERE swl.photo_url = name
+      AND public.is_account_user(auth.uid(), swl.account_id)
+    )
+  )
+);
+
+-- Contact detail changes proposed by clients, applied once staff approve
+CREATE TABLE public.account_contact_change_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    contact_name TEXT,
+    contact_email TEXT,
+    contact_phone TEXT,
+    previous_contact_name TEXT,
+    previous_contact_email TEXT,
+    previous_contact_phone TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open request per account keeps review simple
+CREATE UNIQUE INDEX idx_account_contact_change_requests_pending
+    ON public.account_contact_change_requests (account_id) WHERE status = 'pending';
+
+ALTER TABLE public.account_contact_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin/Manager can view contact change requests" ON public.account_contact_change_requests
+    FOR SELECT USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Clients can view their account contact change requests" ON public.account_contact_change_requests
+    FOR SELECT USING (public.is_account_user(auth.uid(), account_id));
+
+CREATE POLICY "Clients can request contact changes" ON public.account_contact_change_requests
+    FOR INSERT WITH CHECK (
+        requested_by = auth.uid() AND
+        status = 'pending' AND
+        reviewed_by IS NULL AND
+        public.is_account_user(auth.uid(), account_id)
+    );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.account_contact_change_requests;
+
+-- Snapshot the current details and tell admins/managers
+CREATE OR REPLACE FUNCTION public.prepare_contact_change_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account RECORD;
+BEGIN
+  SELECT name, contact_name, contact_email, contact_phone INTO _account
+  FROM public.accounts WHERE id = NEW.account_id;
+
+  NEW.previous_contact_name := _account.contact_name;
+  NEW.previous_contact_email := _account.contact_email;
+  NEW.previous_contact_phone := _account.contact_phone;
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT DISTINCT ur.user_id,
+         'Contact change requested',
+         COALESCE(_account.name, 'A client') || ' asked to update their contact details',
+         'general',
+         'medium',
+         jsonb_build_object('contact_change_request_id', NEW.id, 'account_id', NEW.account_id)
+  FROM public.user_roles ur
+  WHERE ur.role IN ('admin', 'manager');
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'create', 'account_contact_change_requests', NEW.account_id, 'info',
+          jsonb_build_object('request_id', NEW.id, 'contact_name', NEW.contact_name,
+                             'contact_email', NEW.contact_email, 'contact_phone', NEW.contact_phone));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_contact_change_request BEFORE INSERT ON public.account_contact_change_requests
+    FOR EACH ROW EXECUTE FUNCTION public.prepare_contact_change_request();
+
+-- Approve (apply to the account) or reject a pending request; clients may
+-- cancel their own. Every outcome is audited.
+CREATE OR REPLACE FUNCTION public.review_contact_change_request(_request_id UUID, _status TEXT, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request RECORD;
+BEGIN
+  SELECT * INTO _request FROM public.account_contact_change_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND OR _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request is no longer pending';
+  END IF;
+
+  IF _status = 'cancelled' THEN
+    IF _request.requested_by <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the requester can cancel a request';
+    END IF;
+  ELSIF _status IN ('approved', 'rejected') THEN
+    IF NOT public.is_admin_or_manager(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins and managers can review contact changes';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown status %', _status;
+  END IF;
+
+  UPDATE public.account_contact_change_requests
+  SET status = _status, reviewed_by = auth.uid(), reviewed_at = now(), review_note = _note
+  WHERE id = _request_id;
+
+  IF _status = 'approved' THEN
+    UPDATE public.accounts
+    SET contact_name = _request.contact_name,
+        contact_email = _request.contact_email,
+        contact_phone = _request.contact_phone
+    WHERE id = _request.account_id;
+  END IF;
+
+  IF _status <> 'cancelled' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+    VALUES (
+      _request.requested_by,
+      CASE WHEN _status = 'approved' THEN 'Contact details updated' ELSE 'Contact change not approved' END,
+      COALESCE(_note, CASE WHEN _status = 'approved'
+        THEN 'Your new contact details are now on file.'
+        ELSE 'Please contact us about your requested change.' END),
+      'general',
+      'medium',
+      jsonb_build_object('contact_change_request_id', _request_id, 'account_id', _request.account_id)
+    );
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'update', 'account_contact_change_requests', _request.account_id, 'info',
+          jsonb_build_object(
+            'request_id', _request_id,
+            'status', _status,
+            'note', _note,
+            'previous', jsonb_build_object('contact_name', _request.previous_contact_name,
+                                           'contact_email', _request.previous_contact_email,
+                                           'contact_phone', _request.previous_contact_phone),
+            'requested', jsonb_build_object('contact_name', _request.contact_name,
+                                            'contact_email', _request.contact_email,
+                                            'contact_phone', _request.contact_phone)));
+END;
+$$;
+
+-- Tell opted-in portal users when a visit is finished, with the log's photo
+CREATE OR REPLACE FUNCTION public.notify_service_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_name TEXT;
+  _service TEXT := CASE WHEN TG_TABLE_NAME = 'shovel_work_logs' THEN 'Shoveling' ELSE 'Plowing' END;
+BEGIN
+  IF NEW.check_out_time IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.check_out_time IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _account_name FROM public.accounts WHERE id = NEW.account_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT au.user_id,
+         'Service completed',
+         _service || ' finished at ' || COALESCE(_account_name, 'your property') || '.',
+         'service_completed',
+         'low',
+         jsonb_build_object(
+           'account_id', NEW.account_id,
+           'log_id', NEW.id,
+           'log_table', TG_TABLE_NAME,
+           'photo_url', NEW.photo_url
+         )
+  FROM public.account_users au
+  WHERE au.account_id = NEW.account_id AND au.notify_service_completed;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_service_completed AFTER INSERT OR UPDATE OF check_out_time ON public.work_logs
+    FOR EACH ROW EXECUTE FUNCTION public.notify_service_completed();
+
+CREATE TRIGGER notify_service_completed AFTER INSERT OR UPDATE OF check_out_time ON public.shovel_work_logs
+    FOR EACH ROW EXECUTE FUNCTION public.notify_service_completed();
@@ -0,0 +1,439 @@
+-- Client organizations: a property manager owns many accounts and has many
+-- portal users, each with an owner, billing or viewer role.
+--   owner   - everything, including requests and managing users
+--   billing - service history and invoices
+--   viewer  - service history and site information only
+-- Direct account_users keep full access to their one account.
+
+CREATE TABLE public.client_organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    billing_email TEXT,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.accounts
+    ADD COLUMN organization_id UUID REFERENCES public.client_organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_accounts_organization ON public.accounts (organization_id);
+
+CREATE TABLE public.client_organization_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.client_organizations(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'billing', 'viewer')),
+    notify_service_completed BOOLEAN NOT NULL DEFAULT false,
+    added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (organization_id, user_id)
+);
+
+CREATE INDEX idx_client_organization_members_user ON public.client_organization_members (user_id);
+
+CREATE TRIGGER update_client_organizations_updated_at BEFORE UPDATE ON public.client_organizations
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_client_organization_members_updated_at BEFORE UPDATE ON public.client_organization_members
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The caller's role in the organization that owns an account, if any
+CREATE OR REPLACE FUNCTION public.get_account_organization_role(_user_id UUID, _account_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.role
+  FROM public.accounts a
+  JOIN public.client_organization_members m ON m.organization_id = a.organization_id
+  WHERE a.id = _account_id AND m.user_id = _user_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_owner(_user_id UUID, _organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.client_organization_members
+    WHERE user_id = _user_id AND organization_id = _organization_id AND role = 'owner'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_member(_user_id UUID, _organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.client_organization_members
+    WHERE user_id = _user_id AND organization_id = _organization_id
+  )
+$$;
+
+-- Read access: every client policy already goes through this, so widening
+-- it lets organization members see their properties
+CREATE OR REPLACE FUNCTION public.is_account_user(_user_id UUID, _account_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.account_users
+    WHERE user_id = _user_id AND account_id = _account_id
+  ) OR public.get_account_organization_role(_user_id, _account_id) IS NOT NULL
+$$;
+
+-- Requests, contact changes and portal users
+CREATE OR REPLACE FUNCTION public.can_manage_account(_user_id UUID, _account_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.account_users
+    WHERE user_id = _user_id AND account_id = _account_id
+  ) OR public.get_account_organization_role(_user_id, _account_id) = 'owner'
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_account_billing(_user_id UUID, _account_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.account_users
+    WHERE user_id = _user_id AND account_id = _account_id
+  ) OR public.get_account_organization_role(_user_id, _account_id) IN ('owner', 'billing')
+$$;
+
+ALTER TABLE public.client_organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.client_organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin/Manager can manage client organizations" ON public.client_organizations
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Staff can view client organizations" ON public.client_organizations
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Members can view their organization" ON public.client_organizations
+    FOR SELECT USING (public.is_organization_member(auth.uid(), id));
+
+CREATE POLICY "Admin/Manager can manage organization members" ON public.client_organization_members
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Members can view their organization members" ON public.client_organization_members
+    FOR SELECT USING (public.is_organization_member(auth.uid(), organization_id));
+
+-- Tighten the policies where a viewer should not reach
+DROP POLICY IF EXISTS "Clients can view their account invoices" ON public.invoices;
+CREATE POLICY "Clients can view their account invoices" ON public.invoices
+    FOR SELECT USING (status <> 'draft' AND public.can_view_account_billing(auth.uid(), account_id));
+
+DROP POLICY IF EXISTS "Clients can create service requests" ON public.service_requests;
+CREATE POLICY "Clients can create service requests" ON public.service_requests
+    FOR INSERT WITH CHECK (
+        auth.uid() IS NOT NULL AND
+        requested_by = auth.uid() AND
+        status = 'pending' AND
+        response IS NULL AND
+        assigned_to IS NULL AND
+        public.can_manage_account(auth.uid(), account_id)
+    );
+
+DROP POLICY IF EXISTS "Clients can request contact changes" ON public.account_contact_change_requests;
+CREATE POLICY "Clients can request contact changes" ON public.account_contact_change_requests
+    FOR INSERT WITH CHECK (
+        requested_by = auth.uid() AND
+        status = 'pending' AND
+        reviewed_by IS NULL AND
+        public.can_manage_account(auth.uid(), account_id)
+    );
+
+-- Everything the caller can open in the portal, with the strongest access
+-- they have to each: direct account users count as owners of that account
+CREATE OR REPLACE FUNCTION public.get_client_accounts()
+RETURNS TABLE (account_id UUID, organization_id UUID, organization_name TEXT, access_role TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (access.account_id)
+         access.account_id, a.organization_id, o.name, access.role
+  FROM (
+    SELECT au.account_id, 'owner'::TEXT AS role, 0 AS rank
+    FROM public.account_users au
+    WHERE au.user_id = auth.uid()
+    UNION ALL
+    SELECT a2.id, m.role,
+           CASE m.role WHEN 'owner' THEN 0 WHEN 'billing' THEN 1 ELSE 2 END
+    FROM public.client_organization_members m
+    JOIN public.accounts a2 ON a2.organization_id = m.organization_id
+    WHERE m.user_id = auth.uid()
+  ) access
+  JOIN public.accounts a ON a.id = access.account_id
+  LEFT JOIN public.client_organizations o ON o.id = a.organization_id
+  ORDER BY access.account_id, access.rank
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_organization_members(_organization_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, display_name TEXT, role TEXT, added_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, p.email, p.display_name, m.role, m.created_at
+  FROM public.client_organization_members m
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.organization_id = _organization_id
+    AND (public.is_organization_member(auth.uid(), _organization_id) OR public.is_admin_or_manager(auth.uid()))
+  ORDER BY m.created_at
+$$;
+
+-- Add or re-role a member. Owners manage their own organization; staff
+-- manage any.
+CREATE OR REPLACE FUNCTION public.set_organization_member(_organization_id UUID, _email TEXT, _role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _previous_role TEXT;
+BEGIN
+  IF NOT (public.is_organization_owner(auth.uid(), _organization_id) OR public.is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'Only organization owners can manage users';
+  END IF;
+
+  IF _role NOT IN ('owner', 'billing', 'viewer') THEN
+    RAISE EXCEPTION 'Unknown role %', _role;
+  END IF;
+
+  SELECT user_id INTO _user_id FROM public.profiles WHERE lower(email) = lower(trim(_email));
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No portal login found for %. Ask them to sign up first.', _email;
+  END IF;
+
+  IF public.is_staff(_user_id) THEN
+    RAISE EXCEPTION 'Staff logins cannot be added to a client organization';
+  END IF;
+
+  SELECT role INTO _previous_role FROM public.client_organization_members
+  WHERE organization_id = _organization_id AND user_id = _user_id;
+
+  IF _previous_role = 'owner' AND _role <> 'owner'
+     AND (SELECT count(*) FROM public.client_organization_members
+          WHERE organization_id = _organization_id AND role = 'owner') <= 1 THEN
+    RAISE EXCEPTION 'An organization needs at least one owner';
+  END IF;
+
+  INSERT INTO public.client_organization_members (organization_id, user_id, role, added_by)
+  VALUES (_organization_id, _user_id, _role, auth.uid())
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, 'client')
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), CASE WHEN _previous_role IS NULL THEN 'create' ELSE 'update' END,
+          'client_organization_members', _organization_id, 'info',
+          jsonb_build_object('member_user_id', _user_id, 'email', _email,
+                             'role', _role, 'previous_role', _previous_role));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_organization_member(_organization_id UUID, _user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _role TEXT;
+BEGIN
+  IF NOT (public.is_organization_owner(auth.uid(), _organization_id) OR public.is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'Only organization owners can manage users';
+  END IF;
+
+  SELECT role INTO _role FROM public.client_organization_members
+  WHERE organization_id = _organization_id AND user_id = _user_id;
+
+  IF _role = 'owner' AND NOT public.is_admin_or_manager(auth.uid())
+     AND (SELECT count(*) FROM public.client_organization_members
+          WHERE organization_id = _organization_id AND role = 'owner') <= 1 THEN
+    RAISE EXCEPTION 'An organization needs at least one owner';
+  END IF;
+
+  DELETE FROM public.client_organization_members
+  WHERE organization_id = _organization_id AND user_id = _user_id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'delete', 'client_organization_members', _organization_id, 'info',
+          jsonb_build_object('member_user_id', _user_id, 'role', _role));
+END;
+$$;
+
+-- Per-account user management follows the owner rule too
+CREATE OR REPLACE FUNCTION public.add_account_user(_account_id UUID, _email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+BEGIN
+  IF NOT (public.can_manage_account(auth.uid(), _account_id) OR public.is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+
+  SELECT user_id INTO _user_id FROM public.profiles WHERE lower(email) = lower(trim(_email));
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No portal login found for %. Ask them to sign up first.', _email;
+  END IF;
+
+  IF public.is_staff(_user_id) THEN
+    RAISE EXCEPTION 'Staff logins cannot be added to a client account';
+  END IF;
+
+  INSERT INTO public.account_users (account_id, user_id, added_by)
+  VALUES (_account_id, _user_id, auth.uid())
+  ON CONFLICT (account_id, user_id) DO NOTHING;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, 'client')
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'create', 'account_users', _account_id, 'info',
+          jsonb_build_object('added_user_id', _user_id, 'email', _email));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_account_user(_account_id UUID, _user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_organization UUID;
+BEGIN
+  IF NOT (public.can_manage_account(auth.uid(), _account_id) OR public.is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+
+  SELECT organization_id INTO _account_organization FROM public.accounts WHERE id = _account_id;
+
+  -- Organization-owned accounts stay reachable through the organization
+  IF NOT public.is_admin_or_manager(auth.uid())
+     AND _account_organization IS NULL
+     AND (SELECT count(*) FROM public.account_users WHERE account_id = _account_id) <= 1 THEN
+    RAISE EXCEPTION 'An account needs at least one portal user';
+  END IF;
+
+  DELETE FROM public.account_users WHERE account_id = _account_id AND user_id = _user_id;
+
+  UPDATE public.accounts SET client_user_id = NULL
+  WHERE id = _account_id AND client_user_id = _user_id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'delete', 'account_users', _account_id, 'info',
+          jsonb_build_object('removed_user_id', _user_id));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_account_users(_account_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, display_name TEXT, added_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT au.user_id, p.email, p.display_name, au.created_at
+  FROM public.account_users au
+  LEFT JOIN public.profiles p ON p.user_id = au.user_id
+  WHERE au.account_id = _account_id
+    AND (public.can_manage_account(auth.uid(), _account_id) OR public.is_admin_or_manager(auth.uid()))
+  ORDER BY au.created_at
+$$;
+
+-- Organization members choose notifications once for every property
+CREATE OR REPLACE FUNCTION public.set_organization_notifications(_organization_id UUID, _notify_service_completed BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.client_organization_members
+  SET notify_service_completed = _notify_service_completed
+  WHERE organization_id = _organization_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this organization';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_service_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account RECORD;
+  _service TEXT := CASE WHEN TG_TABLE_NAME = 'shovel_work_logs' THEN 'Shoveling' ELSE 'Plowing' END;
+BEGIN
+  IF NEW.check_out_time IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.check_out_time IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, organization_id INTO _account FROM public.accounts WHERE id = NEW.account_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT recipients.user_id,
+         'Service completed',
+         _service || ' finished at ' || COALESCE(_account.name, 'your property') || '.',
+         'service_completed',
+         'low',
+         jsonb_build_object(
+           'account_id', NEW.account_id,
+           'log_id', NEW.id,
+           'log_table', TG_TABLE_NAME,
+           'photo_url', NEW.photo_url
+         )
+  FROM (
+    SELECT au.user_id FROM public.account_users au
+    WHERE au.account_id = NEW.account_id AND au.notify_service_completed
+    UNION
+    SELECT m.user_id FROM public.client_organization_members m
+    WHERE m.organization_id = _account.organization_id AND m.notify_service_completed
+  ) recipients;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,123 @@
+-- Proof-of-service reports for clients and insurers. Visits, GPS and weather
+-- are gathered server-side so clients don't need access to geofence or time
+-- clock data, and every generated report's fingerprint is registered here.
+
+-- Everything a proof-of-service report prints for one account and period.
+-- GPS comes from the visit's geofence events, falling back to the crew's
+-- clock-in position for the shift that covered the visit.
+CREATE OR REPLACE FUNCTION public.get_proof_of_service(_account_id UUID, _from TIMESTAMP WITH TIME ZONE, _to TIMESTAMP WITH TIME ZONE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _visits JSONB;
+BEGIN
+  IF NOT (public.is_staff(auth.uid()) OR public.is_account_user(auth.uid(), _account_id)) THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+
+  WITH logs AS (
+    SELECT 'plow'::TEXT AS log_type, wl.id, wl.service_type, wl.check_in_time, wl.check_out_time,
+           wl.duration_minutes, wl.snow_depth, wl.salt_used, wl.temperature, wl.weather_description,
+           wl.wind_speed, wl.photo_url, wl.geofence_event_id,
+           ARRAY(SELECT wle.employee_id FROM public.work_log_employees wle WHERE wle.work_log_id = wl.id) AS crew_ids
+    FROM public.work_logs wl
+    WHERE wl.account_id = _account_id AND wl.check_in_time >= _from AND wl.check_in_time <= _to
+    UNION ALL
+    SELECT 'shovel'::TEXT, sl.id, sl.service_type, sl.check_in_time, sl.check_out_time,
+           sl.duration_minutes, sl.snow_depth, sl.salt_used, sl.temperature, sl.weather_description,
+           sl.wind_speed, sl.photo_url, sl.geofence_event_id,
+           ARRAY(SELECT sle.employee_id FROM public.shovel_work_log_employees sle WHERE sle.shovel_work_log_id = sl.id)
+    FROM public.shovel_work_logs sl
+    WHERE sl.account_id = _account_id AND sl.check_in_time >= _from AND sl.check_in_time <= _to
+  )
+  SELECT COALESCE(jsonb_agg(visit ORDER BY visit->>'check_in_time', visit->>'id'), '[]'::jsonb) INTO _visits
+  FROM (
+    SELECT jsonb_build_object(
+      'id', l.id,
+      'log_type', l.log_type,
+      'service_type', l.service_type,
+      'check_in_time', l.check_in_time,
+      'check_out_time', l.check_out_time,
+      'duration_minutes', l.duration_minutes,
+      'snow_depth', l.snow_depth,
+      'salt_used', l.salt_used,
+      'temperature', l.temperature,
+      'weather_description', l.weather_description,
+      'wind_speed', l.wind_speed,
+      'photo_url', l.photo_url,
+      'crew', (
+        SELECT COALESCE(jsonb_agg(e.name ORDER BY e.name), '[]'::jsonb)
+        FROM public.employees e WHERE e.id = ANY (l.crew_ids)
+      ),
+      'check_in_location', COALESCE(
+        (SELECT jsonb_build_object('latitude', ge.latitude, 'longitude', ge.longitude,
+                                   'accuracy', ge.accuracy, 'recorded_at', ge.timestamp, 'source', 'geofence')
+         FROM public.geofence_events ge
+         WHERE ge.id = l.geofence_event_id
+            OR (ge.event_type = 'check_in' AND (ge.work_log_id = l.id OR ge.shovel_work_log_id = l.id))
+         ORDER BY ge.timestamp LIMIT 1),
+        (SELECT jsonb_build_object('latitude', tc.clock_in_latitude, 'longitude', tc.clock_in_longitude,
+                                   'accuracy', NULL, 'recorded_at', tc.clock_in_time, 'source', 'time_clock')
+         FROM public.time_clock tc
+         WHERE tc.employee_id = ANY (l.crew_ids)
+           AND tc.clock_in_latitude IS NOT NULL
+           AND tc.clock_in_time <= l.check_in_time
+           AND (tc.clock_out_time IS NULL OR tc.clock_out_time >= l.check_in_time)
+         ORDER BY tc.clock_in_time DESC LIMIT 1)
+      ),
+      'check_out_location', (
+        SELECT jsonb_build_object('latitude', ge.latitude, 'longitude', ge.longitude,
+                                  'accuracy', ge.accuracy, 'recorded_at', ge.timestamp, 'source', 'geofence')
+        FROM public.geofence_events ge
+        WHERE ge.event_type = 'check_out' AND (ge.work_log_id = l.id OR ge.shovel_work_log_id = l.id)
+        ORDER BY ge.timestamp DESC LIMIT 1
+      )
+    ) AS visit
+    FROM logs l
+  ) visits;
+
+  RETURN jsonb_build_object(
+    'account', (
+      SELECT jsonb_build_object('id', a.id, 'name', a.name, 'address', a.address, 'city', a.city,
+                                'state', a.state, 'zip', a.zip, 'latitude', a.latitude, 'longitude', a.longitude)
+      FROM public.accounts a WHERE a.id = _account_id
+    ),
+    'visits', _visits
+  );
+END;
+$$;
+
+-- Every generated report and its fingerprint, so a copy handed to an
+-- insurer can be checked against what we issued
+CREATE TABLE public.proof_of_service_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    visit_count INTEGER NOT NULL DEFAULT 0,
+    content_hash TEXT NOT NULL CHECK (content_hash ~ '^[0-9a-f]{64}$'),
+    generated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_proof_of_service_reports_account ON public.proof_of_service_reports (account_id, created_at DESC);
+CREATE INDEX idx_proof_of_service_reports_hash ON public.proof_of_service_reports (content_hash);
+
+ALTER TABLE public.proof_of_service_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view proof of service reports" ON public.proof_of_service_reports
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Clients can view their account proof of service reports" ON public.proof_of_service_reports
+    FOR SELECT USING (public.is_account_user(auth.uid(), account_id));
+
+-- Rows are write-once: no update or delete policies
+CREATE POLICY "Users can register proof of service reports" ON public.proof_of_service_reports
+    FOR INSERT WITH CHECK (
+        generated_by = auth.uid() AND
+        (public.is_staff(auth.uid()) OR public.is_account_user(auth.uid(), account_id))
+    );
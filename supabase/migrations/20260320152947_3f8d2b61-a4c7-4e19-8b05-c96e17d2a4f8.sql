@@ -0,0 +1,83 @@
+-- Multiple before/during/after photos per service visit. The log's own
+-- photo_url stays as the cover photo so notifications, the client portal
+-- and proof-of-service reports keep working unchanged.
+
+CREATE TABLE public.work_log_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_log_id UUID REFERENCES public.work_logs(id) ON DELETE CASCADE,
+  shovel_work_log_id UUID REFERENCES public.shovel_work_logs(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  stage TEXT NOT NULL DEFAULT 'after' CHECK (stage IN ('before', 'during', 'after')),
+  taken_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy DOUBLE PRECISION,
+  -- Where latitude/longitude came from: the photo's EXIF data or the device
+  location_source TEXT CHECK (location_source IN ('exif', 'device')),
+  width INTEGER,
+  height INTEGER,
+  size_bytes INTEGER,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((work_log_id IS NULL) <> (shovel_work_log_id IS NULL))
+);
+
+CREATE INDEX idx_work_log_photos_work_log ON public.work_log_photos(work_log_id, taken_at);
+CREATE INDEX idx_work_log_photos_shovel_work_log ON public.work_log_photos(shovel_work_log_id, taken_at);
+
+ALTER TABLE public.work_log_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view work log photos" ON public.work_log_photos
+FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can add work log photos" ON public.work_log_photos
+FOR INSERT WITH CHECK (public.is_staff(auth.uid()) AND uploaded_by = auth.uid());
+
+CREATE POLICY "Staff can remove their own work log photos" ON public.work_log_photos
+FOR DELETE USING (public.is_staff(auth.uid()) AND uploaded_by = auth.uid());
+
+CREATE POLICY "Admins and managers can manage work log photos" ON public.work_log_photos
+FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Clients can view their account work log photos" ON public.work_log_photos
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.work_logs wl
+    WHERE wl.id = work_log_id
+    AND public.is_account_user(auth.uid(), wl.account_id)
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.shovel_work_logs swl
+    WHERE swl.id = shovel_work_log_id
+    AND public.is_account_user(auth.uid(), swl.account_id)
+  )
+);
+
+CREATE POLICY "Clients can view their work log photo files" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'work-photos' AND
+  EXISTS (
+    SELECT 1 FROM public.work_log_photos p
+    LEFT JOIN public.work_logs wl ON wl.id = p.work_log_id
+    LEFT JOIN public.shovel_work_logs swl ON swl.id = p.shovel_work_log_id
+    WHERE p.storage_path = name
+    AND public.is_account_user(auth.uid(), COALESCE(wl.account_id, swl.account_id))
+  )
+);
+
+-- Existing single photos become the visit's "after" photo
+INSERT INTO public.work_log_photos (work_log_id, storage_path, stage, taken_at)
+SELECT id, photo_url, 'after', COALESCE(check_out_time, created_at)
+FROM public.work_logs
+WHERE photo_url IS NOT NULL
+ON CONFLICT (storage_path) DO NOTHING;
+
+INSERT INTO public.work_log_photos (shovel_work_log_id, storage_path, stage, taken_at)
+SELECT id, photo_url, 'after', COALESCE(check_out_time, created_at)
+FROM public.shovel_work_logs
+WHERE photo_url IS NOT NULL
+ON CONFLICT (storage_path) DO NOTHING;
+
+-- Accounts where crews can't check out without photographic proof
+ALTER TABLE public.accounts
+ADD COLUMN require_checkout_photo BOOLEAN NOT NULL DEFAULT false;
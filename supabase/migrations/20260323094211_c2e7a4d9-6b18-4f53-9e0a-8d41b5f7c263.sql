@@ -0,0 +1,272 @@
+-- Payroll-ready timesheets: unpaid breaks within a shift, and a manager
+-- approval per employee per payroll period that freezes the shifts in it.
+--
+-- Period length and overtime thresholds live in settings under 'payroll', e.g.
+--   {"period_type": "biweekly", "period_anchor": "2026-01-04",
+--    "daily_overtime_hours": 8, "weekly_overtime_hours": 40}
+-- Regular/overtime split is calculated in the app; approval snapshots it.
+
+CREATE TABLE public.time_clock_breaks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    time_clock_id UUID REFERENCES public.time_clock(id) ON DELETE CASCADE NOT NULL,
+    break_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    break_end TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (break_end IS NULL OR break_end > break_start)
+);
+
+CREATE INDEX idx_time_clock_breaks_shift ON public.time_clock_breaks (time_clock_id, break_start);
+-- Only one break can be running at a time
+CREATE UNIQUE INDEX idx_time_clock_breaks_open ON public.time_clock_breaks (time_clock_id) WHERE break_end IS NULL;
+
+ALTER TABLE public.time_clock_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view time clock breaks" ON public.time_clock_breaks
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Employees can record their own breaks" ON public.time_clock_breaks
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.time_clock tc
+            WHERE tc.id = time_clock_id
+            AND (tc.employee_id = public.get_employee_id(auth.uid()) OR public.is_admin_or_manager(auth.uid()))
+        )
+    );
+
+CREATE POLICY "Employees can end their own breaks" ON public.time_clock_breaks
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.time_clock tc
+            WHERE tc.id = time_clock_id
+            AND (tc.employee_id = public.get_employee_id(auth.uid()) OR public.is_admin_or_manager(auth.uid()))
+        )
+    );
+
+CREATE POLICY "Admin/Manager can delete time clock breaks" ON public.time_clock_breaks
+    FOR DELETE USING (public.is_admin_or_manager(auth.uid()));
+
+-- Total of finished breaks; paid time is duration_minutes - break_minutes
+ALTER TABLE public.time_clock
+  ADD COLUMN break_minutes INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.sync_time_clock_break_minutes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _time_clock_id UUID := COALESCE(NEW.time_clock_id, OLD.time_clock_id);
+BEGIN
+  UPDATE public.time_clock
+  SET break_minutes = COALESCE((
+    SELECT round(sum(EXTRACT(EPOCH FROM (break_end - break_start))) / 60)::integer
+    FROM public.time_clock_breaks
+    WHERE time_clock_id = _time_clock_id AND break_end IS NOT NULL
+  ), 0)
+  WHERE id = _time_clock_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_time_clock_break_minutes AFTER INSERT OR UPDATE OR DELETE ON public.time_clock_breaks
+FOR EACH ROW EXECUTE FUNCTION public.sync_time_clock_break_minutes();
+
+CREATE TABLE public.timesheet_approvals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    employee_id UUID REFERENCES public.employees(id) ON DELETE CASCADE NOT NULL,
+    -- Period bounds in the company's local time; period_end is exclusive
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Snapshot of the totals the manager signed off on
+    regular_minutes INTEGER NOT NULL DEFAULT 0,
+    overtime_minutes INTEGER NOT NULL DEFAULT 0,
+    break_minutes INTEGER NOT NULL DEFAULT 0,
+    shift_count INTEGER NOT NULL DEFAULT 0,
+    approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    approved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (employee_id, period_start),
+    CHECK (period_end > period_start)
+);
+
+CREATE INDEX idx_timesheet_approvals_period ON public.timesheet_approvals (period_start, period_end);
+
+ALTER TABLE public.timesheet_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Written only through approve_timesheet/reopen_timesheet
+CREATE POLICY "Admin/Manager can view timesheet approvals" ON public.timesheet_approvals
+    FOR SELECT USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Employees can view their own timesheet approvals" ON public.timesheet_approvals
+    FOR SELECT USING (employee_id = public.get_employee_id(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.is_timesheet_locked(_employee_id UUID, _at TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.timesheet_approvals
+    WHERE employee_id = _employee_id
+    AND _at >= period_start AND _at < period_end
+  )
+$$;
+
+-- Shifts on an approved timesheet can't be edited, moved, added or deleted.
+-- Storm tagging is left alone since it doesn't change what is paid.
+CREATE OR REPLACE FUNCTION public.prevent_locked_time_clock_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.employee_id = OLD.employee_id
+     AND NEW.clock_in_time = OLD.clock_in_time
+     AND NEW.clock_out_time IS NOT DISTINCT FROM OLD.clock_out_time
+     AND NEW.duration_minutes IS NOT DISTINCT FROM OLD.duration_minutes
+     AND NEW.break_minutes = OLD.break_minutes
+     AND NEW.notes IS NOT DISTINCT FROM OLD.notes THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND public.is_timesheet_locked(OLD.employee_id, OLD.clock_in_time) THEN
+    RAISE EXCEPTION 'This shift is on an approved timesheet. Reopen the timesheet to change it.';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND public.is_timesheet_locked(NEW.employee_id, NEW.clock_in_time) THEN
+    RAISE EXCEPTION 'That period''s timesheet is already approved. Reopen it to add shifts.';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER prevent_locked_time_clock_change BEFORE INSERT OR UPDATE OR DELETE ON public.time_clock
+FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_time_clock_change();
+
+CREATE OR REPLACE FUNCTION public.prevent_locked_time_clock_break_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _shift RECORD;
+BEGIN
+  SELECT employee_id, clock_in_time INTO _shift
+  FROM public.time_clock
+  WHERE id = COALESCE(NEW.time_clock_id, OLD.time_clock_id);
+
+  IF FOUND AND public.is_timesheet_locked(_shift.employee_id, _shift.clock_in_time) THEN
+    RAISE EXCEPTION 'This shift is on an approved timesheet. Reopen the timesheet to change its breaks.';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER prevent_locked_time_clock_break_change BEFORE INSERT OR UPDATE OR DELETE ON public.time_clock_breaks
+FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_time_clock_break_change();
+
+CREATE OR REPLACE FUNCTION public.approve_timesheet(
+  _employee_id UUID,
+  _period_start TIMESTAMP WITH TIME ZONE,
+  _period_end TIMESTAMP WITH TIME ZONE,
+  _regular_minutes INTEGER,
+  _overtime_minutes INTEGER,
+  _break_minutes INTEGER,
+  _shift_count INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _user_id UUID;
+BEGIN
+  IF NOT public.is_admin_or_manager(auth.uid()) THEN
+    RAISE EXCEPTION 'Only managers can approve timesheets';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.time_clock
+    WHERE employee_id = _employee_id
+    AND clock_in_time >= _period_start AND clock_in_time < _period_end
+    AND clock_out_time IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Close open shifts before approving this timesheet';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.timesheet_approvals
+    WHERE employee_id = _employee_id
+    AND period_start < _period_end AND period_end > _period_start
+  ) THEN
+    RAISE EXCEPTION 'This timesheet is already approved';
+  END IF;
+
+  INSERT INTO public.timesheet_approvals (
+    employee_id, period_start, period_end, regular_minutes, overtime_minutes, break_minutes, shift_count, approved_by
+  )
+  VALUES (
+    _employee_id, _period_start, _period_end, _regular_minutes, _overtime_minutes, _break_minutes, _shift_count, auth.uid()
+  )
+  RETURNING id INTO _id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'approve', 'timesheet_approvals', _id, 'info',
+          jsonb_build_object('employee_id', _employee_id, 'period_start', _period_start, 'period_end', _period_end,
+                             'regular_minutes', _regular_minutes, 'overtime_minutes', _overtime_minutes,
+                             'break_minutes', _break_minutes));
+
+  SELECT user_id INTO _user_id FROM public.employees WHERE id = _employee_id;
+  IF _user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+    VALUES (_user_id, 'Timesheet approved',
+            'Your timesheet starting ' || to_char(_period_start, 'Mon DD') || ' was approved.',
+            'timesheet_approved', 'low',
+            jsonb_build_object('approval_id', _id, 'period_start', _period_start));
+  END IF;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_timesheet(_approval_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _approval public.timesheet_approvals%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin_or_manager(auth.uid()) THEN
+    RAISE EXCEPTION 'Only managers can reopen timesheets';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a timesheet';
+  END IF;
+
+  DELETE FROM public.timesheet_approvals WHERE id = _approval_id
+  RETURNING * INTO _approval;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Timesheet approval not found';
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'reopen', 'timesheet_approvals', _approval_id, 'warning',
+          jsonb_build_object('employee_id', _approval.employee_id, 'period_start', _approval.period_start,
+                             'period_end', _approval.period_end, 'approved_by', _approval.approved_by,
+                             'reason', trim(_reason)));
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.timesheet_approvals;
@@ -0,0 +1,9 @@
+-- Payroll exports: the ID each employee has in the payroll provider, so
+-- exported hours land on the right person without re-keying.
+--
+-- Export options are kept with the rest of settings 'payroll', e.g.
+--   {"company_code": "ABC", "storm_earning_code": "STORM"}
+
+ALTER TABLE public.employees ADD COLUMN payroll_id TEXT;
+
+CREATE UNIQUE INDEX idx_employees_payroll_id ON public.employees (payroll_id) WHERE payroll_id IS NOT NULL;
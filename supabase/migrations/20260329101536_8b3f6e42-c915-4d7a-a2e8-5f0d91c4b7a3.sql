@@ -0,0 +1,224 @@
+-- Missed clock-outs: shifts left open past a limit are flagged for review,
+-- the employee and managers are told once, and optionally the shift is
+-- closed at the employee's last work log check-out.
+--
+-- The policy lives in settings under 'clock_out_policy', e.g.
+--   {"max_shift_hours": 14, "auto_close": true}
+
+ALTER TABLE public.time_clock
+    ADD COLUMN missed_clock_out_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN auto_closed BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN review_required BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_time_clock_review_required ON public.time_clock (clock_in_time) WHERE review_required;
+
+-- Employees can clock out of a flagged shift but only managers clear the flag
+CREATE OR REPLACE FUNCTION public.protect_time_clock_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.review_required AND NOT NEW.review_required AND NOT public.is_admin_or_manager(auth.uid()) THEN
+    RAISE EXCEPTION 'Only managers can clear a shift flagged for review';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_time_clock_review BEFORE UPDATE OF review_required ON public.time_clock
+FOR EACH ROW EXECUTE FUNCTION public.protect_time_clock_review();
+
+-- A flagged shift has to be reviewed before its timesheet is approved, since
+-- approval locks it
+CREATE OR REPLACE FUNCTION public.prevent_approval_with_unreviewed_shifts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.time_clock
+    WHERE employee_id = NEW.employee_id
+    AND clock_in_time >= NEW.period_start AND clock_in_time < NEW.period_end
+    AND review_required
+  ) THEN
+    RAISE EXCEPTION 'Review flagged shifts before approving this timesheet';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_approval_with_unreviewed_shifts BEFORE INSERT ON public.timesheet_approvals
+FOR EACH ROW EXECUTE FUNCTION public.prevent_approval_with_unreviewed_shifts();
+
+-- Latest work log check-out an employee was on after a given time
+CREATE OR REPLACE FUNCTION public.last_work_log_check_out(_employee_id UUID, _after TIMESTAMP WITH TIME ZONE)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MAX(check_out_time) FROM (
+    SELECT wl.check_out_time
+    FROM public.work_logs wl
+    JOIN public.work_log_employees wle ON wle.work_log_id = wl.id
+    WHERE wle.employee_id = _employee_id
+    AND wl.check_out_time > _after AND wl.check_out_time <= now()
+    UNION ALL
+    SELECT sl.check_out_time
+    FROM public.shovel_work_logs sl
+    JOIN public.shovel_work_log_employees sle ON sle.shovel_work_log_id = sl.id
+    WHERE sle.employee_id = _employee_id
+    AND sl.check_out_time > _after AND sl.check_out_time <= now()
+  ) logs
+$$;
+
+-- End a closed shift's running break at its clock-out, dropping breaks that
+-- started after it
+CREATE OR REPLACE FUNCTION public.close_shift_breaks(_time_clock_id UUID, _clock_out_time TIMESTAMP WITH TIME ZONE)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.time_clock_breaks
+  WHERE time_clock_id = _time_clock_id AND break_start >= _clock_out_time;
+
+  UPDATE public.time_clock_breaks
+  SET break_end = _clock_out_time
+  WHERE time_clock_id = _time_clock_id AND (break_end IS NULL OR break_end > _clock_out_time);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_shift_breaks(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Flags shifts open past the limit and notifies once per shift. There is no
+-- scheduler, so staff clients call this while Admin or the time clock is open.
+CREATE OR REPLACE FUNCTION public.evaluate_missed_clock_outs()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_hours NUMERIC;
+  _auto_close BOOLEAN;
+  _shift RECORD;
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can evaluate missed clock-outs';
+  END IF;
+
+  SELECT (s.value ->> 'max_shift_hours')::NUMERIC, (s.value ->> 'auto_close')::BOOLEAN
+  INTO _max_hours, _auto_close
+  FROM public.settings s WHERE s.key = 'clock_out_policy';
+  _max_hours := COALESCE(_max_hours, 14);
+  _auto_close := COALESCE(_auto_close, false);
+
+  WITH missed AS (
+    UPDATE public.time_clock tc
+    SET missed_clock_out_at = now(), review_required = true
+    FROM public.employees e
+    WHERE e.id = tc.employee_id
+      AND tc.clock_out_time IS NULL
+      AND tc.missed_clock_out_at IS NULL
+      AND tc.clock_in_time < now() - make_interval(secs => _max_hours * 3600)
+    RETURNING tc.id, tc.employee_id, tc.clock_in_time, e.name, e.user_id
+  )
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT recipient.user_id, recipient.title, recipient.message, 'missed_clock_out', 'high',
+         jsonb_build_object('time_clock_id', recipient.id, 'employee_id', recipient.employee_id,
+                            'clock_in_time', recipient.clock_in_time)
+  FROM (
+    SELECT m.user_id, m.id, m.employee_id, m.clock_in_time,
+           'Did you forget to clock out?' AS title,
+           'Your shift has been open for over ' || _max_hours || ' hours. Clock out now or ask a manager to correct it.' AS message
+    FROM missed m
+    WHERE m.user_id IS NOT NULL
+    UNION ALL
+    SELECT managers.user_id, m.id, m.employee_id, m.clock_in_time,
+           'Missed clock-out: ' || m.name,
+           m.name || '''s shift has been open for over ' || _max_hours || ' hours and is waiting for review.'
+    FROM missed m
+    CROSS JOIN (
+      SELECT DISTINCT user_id FROM public.user_roles WHERE role IN ('admin', 'manager')
+    ) managers
+    WHERE managers.user_id IS DISTINCT FROM m.user_id
+  ) recipient;
+
+  IF NOT _auto_close THEN
+    RETURN;
+  END IF;
+
+  FOR _shift IN
+    SELECT tc.id, tc.employee_id, tc.clock_in_time,
+           public.last_work_log_check_out(tc.employee_id, tc.clock_in_time) AS check_out_time
+    FROM public.time_clock tc
+    WHERE tc.clock_out_time IS NULL
+      AND tc.missed_clock_out_at IS NOT NULL
+  LOOP
+    CONTINUE WHEN _shift.check_out_time IS NULL;
+
+    UPDATE public.time_clock
+    SET clock_out_time = _shift.check_out_time,
+        duration_minutes = round(extract(epoch FROM _shift.check_out_time - _shift.clock_in_time) / 60),
+        auto_closed = true
+    WHERE id = _shift.id;
+
+    PERFORM public.close_shift_breaks(_shift.id, _shift.check_out_time);
+
+    INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+    VALUES (auth.uid(), 'auto_close', 'time_clock', _shift.id, 'warning',
+            jsonb_build_object('employee_id', _shift.employee_id, 'clock_in_time', _shift.clock_in_time,
+                               'clock_out_time', _shift.check_out_time));
+  END LOOP;
+END;
+$$;
+
+-- Manager sign-off on a flagged shift, with the corrected clock-out
+CREATE OR REPLACE FUNCTION public.resolve_missed_clock_out(_time_clock_id UUID, _clock_out_time TIMESTAMP WITH TIME ZONE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.time_clock%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin_or_manager(auth.uid()) THEN
+    RAISE EXCEPTION 'Only managers can review shifts';
+  END IF;
+
+  SELECT * INTO _shift FROM public.time_clock WHERE id = _time_clock_id AND review_required;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This shift is not waiting for review';
+  END IF;
+
+  IF _clock_out_time <= _shift.clock_in_time THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in';
+  END IF;
+
+  IF _clock_out_time > now() THEN
+    RAISE EXCEPTION 'Clock-out can''t be in the future';
+  END IF;
+
+  UPDATE public.time_clock
+  SET clock_out_time = _clock_out_time,
+      duration_minutes = round(extract(epoch FROM _clock_out_time - _shift.clock_in_time) / 60),
+      review_required = false,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _time_clock_id;
+
+  PERFORM public.close_shift_breaks(_time_clock_id, _clock_out_time);
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'review', 'time_clock', _time_clock_id, 'info',
+          jsonb_build_object('employee_id', _shift.employee_id, 'clock_in_time', _shift.clock_in_time,
+                             'previous_clock_out_time', _shift.clock_out_time, 'clock_out_time', _clock_out_time,
+                             'auto_closed', _shift.auto_closed));
+END;
+$$;
@@ -0,0 +1,163 @@
+-- Geofenced clock-in: fixed zones such as the shop or yard, plus active
+-- accounts, and a per-category policy for clocking in outside all of them or
+-- without GPS.
+--
+-- The policy lives in settings under 'clock_in_zones', e.g.
+--   {"include_accounts": true, "account_radius_meters": 200,
+--    "policies": {"plow": "block", "shovel": "warn"}}
+
+CREATE TABLE public.clock_in_zones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    latitude DOUBLE PRECISION NOT NULL,
+    longitude DOUBLE PRECISION NOT NULL,
+    radius_meters INTEGER NOT NULL DEFAULT 150 CHECK (radius_meters > 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.clock_in_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view clock-in zones" ON public.clock_in_zones
+    FOR SELECT USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admin/Manager can manage clock-in zones" ON public.clock_in_zones
+    FOR ALL USING (public.is_admin_or_manager(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.distance_meters(
+  _lat1 DOUBLE PRECISION, _lng1 DOUBLE PRECISION, _lat2 DOUBLE PRECISION, _lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2) +
+    cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ))
+$$;
+
+-- Employees clock in through clock_in() so the zone policy can't be skipped;
+-- managers still add and import shifts directly
+CREATE OR REPLACE FUNCTION public.require_clock_in_check()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_admin_or_manager(auth.uid())
+     OR current_setting('app.clock_in_checked', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'Clock in from the time clock';
+END;
+$$;
+
+CREATE TRIGGER require_clock_in_check BEFORE INSERT ON public.time_clock
+FOR EACH ROW EXECUTE FUNCTION public.require_clock_in_check();
+
+-- Clocks the caller in, applying their category's zone policy. Returns
+--   {"status": "clocked_in" | "warning" | "blocked", "time_clock_id",
+--    "reason": "outside_zone" | "no_gps", "zone_name", "distance_meters"}
+-- Coordinates are left out when GPS is unavailable. A warning inserts
+-- nothing until it is called again with _acknowledged.
+-- Every clock-in outside a zone or without GPS, blocked or not, is audited.
+CREATE OR REPLACE FUNCTION public.clock_in(
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL,
+  _acknowledged BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _employee public.employees%ROWTYPE;
+  _settings JSONB;
+  _policy TEXT;
+  _reason TEXT;
+  _zone_name TEXT;
+  _zone_radius DOUBLE PRECISION;
+  _distance DOUBLE PRECISION;
+  _id UUID;
+BEGIN
+  SELECT * INTO _employee FROM public.employees WHERE id = public.get_employee_id(auth.uid());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.time_clock WHERE employee_id = _employee.id AND clock_out_time IS NULL) THEN
+    RAISE EXCEPTION 'You are already clocked in';
+  END IF;
+
+  SELECT value INTO _settings FROM public.settings WHERE key = 'clock_in_zones';
+  _settings := COALESCE(_settings, '{}'::JSONB);
+  _policy := COALESCE(_settings -> 'policies' ->> _employee.category, 'allow');
+
+  IF _latitude IS NOT NULL AND _longitude IS NOT NULL THEN
+    SELECT z.name, z.radius, z.distance INTO _zone_name, _zone_radius, _distance
+    FROM (
+      SELECT cz.name, cz.radius_meters::DOUBLE PRECISION AS radius,
+             public.distance_meters(_latitude, _longitude, cz.latitude, cz.longitude) AS distance
+      FROM public.clock_in_zones cz
+      WHERE cz.is_active
+      UNION ALL
+      SELECT a.name, COALESCE((_settings ->> 'account_radius_meters')::DOUBLE PRECISION, 200),
+             public.distance_meters(_latitude, _longitude, a.latitude, a.longitude)
+      FROM public.accounts a
+      WHERE COALESCE((_settings ->> 'include_accounts')::BOOLEAN, true)
+        AND COALESCE(a.status, 'active') = 'active'
+        AND a.latitude IS NOT NULL AND a.longitude IS NOT NULL
+    ) z
+    ORDER BY z.distance - z.radius
+    LIMIT 1;
+
+    -- Give the fix the benefit of its accuracy, up to 100m. With no zones
+    -- set up there is nothing to be outside of.
+    IF _zone_name IS NOT NULL
+       AND _distance - LEAST(COALESCE(_accuracy, 0), 100) > _zone_radius THEN
+      _reason := 'outside_zone';
+    END IF;
+  ELSE
+    _reason := 'no_gps';
+  END IF;
+
+  IF _reason IS NOT NULL AND _policy = 'warn' AND NOT _acknowledged THEN
+    RETURN jsonb_build_object('status', 'warning', 'reason', _reason, 'zone_name', _zone_name,
+                              'distance_meters', round(_distance));
+  END IF;
+
+  IF _reason IS NULL OR _policy <> 'block' THEN
+    PERFORM set_config('app.clock_in_checked', 'on', true);
+
+    INSERT INTO public.time_clock (employee_id, clock_in_time, clock_in_latitude, clock_in_longitude)
+    VALUES (_employee.id, now(), _latitude, _longitude)
+    RETURNING id INTO _id;
+
+    PERFORM set_config('app.clock_in_checked', 'off', true);
+  END IF;
+
+  IF _reason IS NOT NULL THEN
+    INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+    VALUES (auth.uid(),
+            CASE WHEN _id IS NULL THEN 'clock_in_blocked' ELSE 'clock_in_exception' END,
+            'time_clock', _id,
+            CASE WHEN _policy = 'allow' THEN 'info' ELSE 'warning' END,
+            jsonb_build_object('employee_id', _employee.id, 'employee_name', _employee.name,
+                               'category', _employee.category, 'policy', _policy, 'reason', _reason,
+                               'nearest_zone', _zone_name, 'distance_meters', round(_distance),
+                               'latitude', _latitude, 'longitude', _longitude, 'accuracy', _accuracy));
+  END IF;
+
+  IF _id IS NULL THEN
+    RETURN jsonb_build_object('status', 'blocked', 'reason', _reason, 'zone_name', _zone_name,
+                              'distance_meters', round(_distance));
+  END IF;
+
+  RETURN jsonb_build_object('status', 'clocked_in', 'time_clock_id', _id, 'reason', _reason,
+                            'zone_name', _zone_name, 'distance_meters', round(_distance));
+END;
+$$;
@@ -0,0 +1,73 @@
+-- Web Push: one subscription per device, each with its own notification types
+-- and quiet hours. New notifications are handed to the send-push edge
+-- function, which applies those preferences and delivers through the
+-- browser's push service.
+--
+-- The trigger reads two Vault secrets and does nothing until both are set:
+--   push_function_url    e.g. https://<project>.supabase.co/functions/v1/send-push
+--   push_webhook_secret  must match the function's PUSH_WEBHOOK_SECRET
+
+CREATE TABLE public.push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    notification_types TEXT[] NOT NULL DEFAULT ARRAY['service_scheduled', 'urgent', 'weather_alert', 'general'],
+    -- Non-urgent pushes are held back between these local times; either NULL turns quiet hours off
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    last_sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own push subscriptions" ON public.push_subscriptions
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_push_subscriptions_updated_at BEFORE UPDATE ON public.push_subscriptions
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.dispatch_push_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _url TEXT;
+  _secret TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'push_function_url';
+  SELECT decrypted_secret INTO _secret FROM vault.decrypted_secrets WHERE name = 'push_webhook_secret';
+  IF _url IS NULL OR _secret IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- pg_net sends after commit, so a slow push service never holds up the insert
+  PERFORM net.http_post(
+    url := _url,
+    body := jsonb_build_object('notification_id', NEW.id),
+    headers := jsonb_build_object('Content-Type', 'application/json', 'x-push-secret', _secret)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER dispatch_push_notification AFTER INSERT ON public.notifications
+FOR EACH ROW EXECUTE FUNCTION public.dispatch_push_notification();
+
+-- The in-app dropdown listens for changes instead of polling
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,172 @@
+-- Proof-of-service fingerprints are computed and registered server-side.
+-- Clients used to insert their own hash, so anyone with access to an account
+-- could register a fingerprint for content we never issued. Reports are now
+-- registered by the register-proof-of-service edge function, which hashes the
+-- original photos from storage and hands them to register_proof_of_service().
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+DROP POLICY "Users can register proof of service reports" ON public.proof_of_service_reports;
+
+-- The visits behind a report, without an access check. Only called from
+-- get_proof_of_service() and register_proof_of_service(), which do the checking.
+CREATE OR REPLACE FUNCTION public.proof_of_service_data(_account_id UUID, _from TIMESTAMP WITH TIME ZONE, _to TIMESTAMP WITH TIME ZONE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _visits JSONB;
+BEGIN
+  WITH logs AS (
+    SELECT 'plow'::TEXT AS log_type, wl.id, wl.service_type, wl.check_in_time, wl.check_out_time,
+           wl.duration_minutes, wl.snow_depth, wl.salt_used, wl.temperature, wl.weather_description,
+           wl.wind_speed, wl.photo_url, wl.geofence_event_id,
+           ARRAY(SELECT wle.employee_id FROM public.work_log_employees wle WHERE wle.work_log_id = wl.id) AS crew_ids
+    FROM public.work_logs wl
+    WHERE wl.account_id = _account_id AND wl.check_in_time >= _from AND wl.check_in_time <= _to
+    UNION ALL
+    SELECT 'shovel'::TEXT, sl.id, sl.service_type, sl.check_in_time, sl.check_out_time,
+           sl.duration_minutes, sl.snow_depth, sl.salt_used, sl.temperature, sl.weather_description,
+           sl.wind_speed, sl.photo_url, sl.geofence_event_id,
+           ARRAY(SELECT sle.employee_id FROM public.shovel_work_log_employees sle WHERE sle.shovel_work_log_id = sl.id)
+    FROM public.shovel_work_logs sl
+    WHERE sl.account_id = _account_id AND sl.check_in_time >= _from AND sl.check_in_time <= _to
+  )
+  SELECT COALESCE(jsonb_agg(visit ORDER BY visit->>'check_in_time', visit->>'id'), '[]'::jsonb) INTO _visits
+  FROM (
+    SELECT jsonb_build_object(
+      'id', l.id,
+      'log_type', l.log_type,
+      'service_type', l.service_type,
+      'check_in_time', l.check_in_time,
+      'check_out_time', l.check_out_time,
+      'duration_minutes', l.duration_minutes,
+      'snow_depth', l.snow_depth,
+      'salt_used', l.salt_used,
+      'temperature', l.temperature,
+      'weather_description', l.weather_description,
+      'wind_speed', l.wind_speed,
+      'photo_url', l.photo_url,
+      'crew', (
+        SELECT COALESCE(jsonb_agg(e.name ORDER BY e.name), '[]'::jsonb)
+        FROM public.employees e WHERE e.id = ANY (l.crew_ids)
+      ),
+      'check_in_location', COALESCE(
+        (SELECT jsonb_build_object('latitude', ge.latitude, 'longitude', ge.longitude,
+                                   'accuracy', ge.accuracy, 'recorded_at', ge.timestamp, 'source', 'geofence')
+         FROM public.geofence_events ge
+         WHERE ge.id = l.geofence_event_id
+            OR (ge.event_type = 'check_in' AND (ge.work_log_id = l.id OR ge.shovel_work_log_id = l.id))
+         ORDER BY ge.timestamp LIMIT 1),
+        (SELECT jsonb_build_object('latitude', tc.clock_in_latitude, 'longitude', tc.clock_in_longitude,
+                                   'accuracy', NULL, 'recorded_at', tc.clock_in_time, 'source', 'time_clock')
+         FROM public.time_clock tc
+         WHERE tc.employee_id = ANY (l.crew_ids)
+           AND tc.clock_in_latitude IS NOT NULL
+           AND tc.clock_in_time <= l.check_in_time
+           AND (tc.clock_out_time IS NULL OR tc.clock_out_time >= l.check_in_time)
+         ORDER BY tc.clock_in_time DESC LIMIT 1)
+      ),
+      'check_out_location', (
+        SELECT jsonb_build_object('latitude', ge.latitude, 'longitude', ge.longitude,
+                                  'accuracy', ge.accuracy, 'recorded_at', ge.timestamp, 'source', 'geofence')
+        FROM public.geofence_events ge
+        WHERE ge.event_type = 'check_out' AND (ge.work_log_id = l.id OR ge.shovel_work_log_id = l.id)
+        ORDER BY ge.timestamp DESC LIMIT 1
+      )
+    ) AS visit
+    FROM logs l
+  ) visits;
+
+  RETURN jsonb_build_object(
+    'account', (
+      SELECT jsonb_build_object('id', a.id, 'name', a.name, 'address', a.address, 'city', a.city,
+                                'state', a.state, 'zip', a.zip, 'latitude', a.latitude, 'longitude', a.longitude)
+      FROM public.accounts a WHERE a.id = _account_id
+    ),
+    'visits', _visits
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.proof_of_service_data(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_proof_of_service(_account_id UUID, _from TIMESTAMP WITH TIME ZONE, _to TIMESTAMP WITH TIME ZONE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.is_staff(auth.uid()) OR public.is_account_user(auth.uid(), _account_id)) THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+
+  RETURN public.proof_of_service_data(_account_id, _from, _to);
+END;
+$$;
+
+-- Rebuilds the report from the database, fingerprints it and registers it.
+-- _photo_hashes maps each photo's storage path to the SHA-256 of the original
+-- file, as read from storage by the edge function. Returns
+--   {"id", "content_hash", "created_at", "visit_count"}
+CREATE OR REPLACE FUNCTION public.register_proof_of_service(
+  _user_id UUID,
+  _account_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _photo_hashes JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _data JSONB;
+  _hash TEXT;
+  _report public.proof_of_service_reports%ROWTYPE;
+BEGIN
+  IF NOT (public.is_staff(_user_id) OR public.is_account_user(_user_id, _account_id)) THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+
+  _data := public.proof_of_service_data(_account_id, _from, _to);
+  IF _data -> 'account' IS NULL OR jsonb_typeof(_data -> 'account') = 'null' THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  -- Records, GPS, weather and original photos in a fixed order, so the same
+  -- property and period reproduce the fingerprint unless something changed
+  SELECT encode(extensions.digest(jsonb_build_array(
+           _account_id, _from, _to,
+           COALESCE(jsonb_agg(jsonb_build_array(
+             v -> 'id', v -> 'log_type', v -> 'service_type', v -> 'check_in_time', v -> 'check_out_time',
+             v -> 'duration_minutes', v -> 'snow_depth', v -> 'salt_used', v -> 'temperature',
+             v -> 'weather_description', v -> 'wind_speed', v -> 'crew',
+             v -> 'check_in_location', v -> 'check_out_location',
+             _photo_hashes -> (v ->> 'photo_url')
+           ) ORDER BY ordinality), '[]'::JSONB)
+         )::TEXT, 'sha256'), 'hex')
+  INTO _hash
+  FROM jsonb_array_elements(_data -> 'visits') WITH ORDINALITY AS visits(v, ordinality);
+
+  INSERT INTO public.proof_of_service_reports
+    (account_id, period_start, period_end, visit_count, content_hash, generated_by)
+  VALUES (_account_id, _from, _to, jsonb_array_length(_data -> 'visits'), _hash, _user_id)
+  RETURNING * INTO _report;
+
+  RETURN jsonb_build_object('id', _report.id, 'content_hash', _report.content_hash,
+                            'created_at', _report.created_at, 'visit_count', _report.visit_count);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_proof_of_service(UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, JSONB)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_proof_of_service(UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, JSONB)
+  TO service_role;
@@ -0,0 +1,103 @@
+-- Storm premium hours are paid from a snapshot taken at approval, like the
+-- regular and overtime totals. They used to be read from the live storm tags
+-- on each shift, which storm edits and link_storm_event_records() may still
+-- change on an approved, locked timesheet.
+
+ALTER TABLE public.timesheet_approvals
+  ADD COLUMN storm_premiums JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN public.timesheet_approvals.storm_premiums IS
+  'Paid minutes per storm at approval: [{"storm_event_id", "storm_name", "minutes"}]';
+
+-- Existing approvals take the tags their shifts carry today
+UPDATE public.timesheet_approvals ta
+SET storm_premiums = premiums.storms
+FROM (
+  SELECT ta2.id, jsonb_agg(jsonb_build_object('storm_event_id', s.storm_event_id, 'storm_name', s.storm_name,
+                                              'minutes', s.minutes) ORDER BY s.storm_name) AS storms
+  FROM public.timesheet_approvals ta2
+  CROSS JOIN LATERAL (
+    SELECT tc.storm_event_id, COALESCE(se.name, 'Storm') AS storm_name,
+           sum(GREATEST(0, COALESCE(tc.duration_minutes, 0) - tc.break_minutes))::INTEGER AS minutes
+    FROM public.time_clock tc
+    LEFT JOIN public.storm_events se ON se.id = tc.storm_event_id
+    WHERE tc.employee_id = ta2.employee_id
+      AND tc.clock_in_time >= ta2.period_start AND tc.clock_in_time < ta2.period_end
+      AND tc.storm_event_id IS NOT NULL AND tc.clock_out_time IS NOT NULL
+    GROUP BY tc.storm_event_id, se.name
+    HAVING sum(GREATEST(0, COALESCE(tc.duration_minutes, 0) - tc.break_minutes)) > 0
+  ) s
+  GROUP BY ta2.id
+) premiums
+WHERE ta.id = premiums.id;
+
+DROP FUNCTION public.approve_timesheet(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.approve_timesheet(
+  _employee_id UUID,
+  _period_start TIMESTAMP WITH TIME ZONE,
+  _period_end TIMESTAMP WITH TIME ZONE,
+  _regular_minutes INTEGER,
+  _overtime_minutes INTEGER,
+  _break_minutes INTEGER,
+  _shift_count INTEGER,
+  _storm_premiums JSONB DEFAULT '[]'::JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _user_id UUID;
+BEGIN
+  IF NOT public.is_admin_or_manager(auth.uid()) THEN
+    RAISE EXCEPTION 'Only managers can approve timesheets';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.time_clock
+    WHERE employee_id = _employee_id
+    AND clock_in_time >= _period_start AND clock_in_time < _period_end
+    AND clock_out_time IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Close open shifts before approving this timesheet';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.timesheet_approvals
+    WHERE employee_id = _employee_id
+    AND period_start < _period_end AND period_end > _period_start
+  ) THEN
+    RAISE EXCEPTION 'This timesheet is already approved';
+  END IF;
+
+  INSERT INTO public.timesheet_approvals (
+    employee_id, period_start, period_end, regular_minutes, overtime_minutes, break_minutes, shift_count,
+    storm_premiums, approved_by
+  )
+  VALUES (
+    _employee_id, _period_start, _period_end, _regular_minutes, _overtime_minutes, _break_minutes, _shift_count,
+    COALESCE(_storm_premiums, '[]'::JSONB), auth.uid()
+  )
+  RETURNING id INTO _id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'approve', 'timesheet_approvals', _id, 'info',
+          jsonb_build_object('employee_id', _employee_id, 'period_start', _period_start, 'period_end', _period_end,
+                             'regular_minutes', _regular_minutes, 'overtime_minutes', _overtime_minutes,
+                             'break_minutes', _break_minutes, 'storm_premiums', _storm_premiums));
+
+  SELECT user_id INTO _user_id FROM public.employees WHERE id = _employee_id;
+  IF _user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+    VALUES (_user_id, 'Timesheet approved',
+            'Your timesheet starting ' || to_char(_period_start, 'Mon DD') || ' was approved.',
+            'timesheet_approved', 'low',
+            jsonb_build_object('approval_id', _id, 'period_start', _period_start));
+  END IF;
+
+  RETURN _id;
+END;
+$$;
@@ -0,0 +1,105 @@
+-- Missed clock-outs are evaluated on a schedule. Detection used to run only
+-- while a manager had Admin open, so shifts forgotten overnight or over a
+-- weekend were never flagged, notified or auto-closed until Monday.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- The evaluation itself, with no caller check so pg_cron can run it. Audit
+-- rows it writes have no user_id when run by the scheduler.
+CREATE OR REPLACE FUNCTION public.run_missed_clock_out_evaluation()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_hours NUMERIC;
+  _auto_close BOOLEAN;
+  _shift RECORD;
+BEGIN
+  SELECT (s.value ->> 'max_shift_hours')::NUMERIC, (s.value ->> 'auto_close')::BOOLEAN
+  INTO _max_hours, _auto_close
+  FROM public.settings s WHERE s.key = 'clock_out_policy';
+  _max_hours := COALESCE(_max_hours, 14);
+  _auto_close := COALESCE(_auto_close, false);
+
+  WITH missed AS (
+    UPDATE public.time_clock tc
+    SET missed_clock_out_at = now(), review_required = true
+    FROM public.employees e
+    WHERE e.id = tc.employee_id
+      AND tc.clock_out_time IS NULL
+      AND tc.missed_clock_out_at IS NULL
+      AND tc.clock_in_time < now() - make_interval(secs => _max_hours * 3600)
+    RETURNING tc.id, tc.employee_id, tc.clock_in_time, e.name, e.user_id
+  )
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT recipient.user_id, recipient.title, recipient.message, 'missed_clock_out', 'high',
+         jsonb_build_object('time_clock_id', recipient.id, 'employee_id', recipient.employee_id,
+                            'clock_in_time', recipient.clock_in_time)
+  FROM (
+    SELECT m.user_id, m.id, m.employee_id, m.clock_in_time,
+           'Did you forget to clock out?' AS title,
+           'Your shift has been open for over ' || _max_hours || ' hours. Clock out now or ask a manager to correct it.' AS message
+    FROM missed m
+    WHERE m.user_id IS NOT NULL
+    UNION ALL
+    SELECT managers.user_id, m.id, m.employee_id, m.clock_in_time,
+           'Missed clock-out: ' || m.name,
+           m.name || '''s shift has been open for over ' || _max_hours || ' hours and is waiting for review.'
+    FROM missed m
+    CROSS JOIN (
+      SELECT DISTINCT user_id FROM public.user_roles WHERE role IN ('admin', 'manager')
+    ) managers
+    WHERE managers.user_id IS DISTINCT FROM m.user_id
+  ) recipient;
+
+  IF NOT _auto_close THEN
+    RETURN;
+  END IF;
+
+  FOR _shift IN
+    SELECT tc.id, tc.employee_id, tc.clock_in_time,
+           public.last_work_log_check_out(tc.employee_id, tc.clock_in_time) AS check_out_time
+    FROM public.time_clock tc
+    WHERE tc.clock_out_time IS NULL
+      AND tc.missed_clock_out_at IS NOT NULL
+  LOOP
+    CONTINUE WHEN _shift.check_out_time IS NULL;
+
+    UPDATE public.time_clock
+    SET clock_out_time = _shift.check_out_time,
+        duration_minutes = round(extract(epoch FROM _shift.check_out_time - _shift.clock_in_time) / 60),
+        auto_closed = true
+    WHERE id = _shift.id;
+
+    PERFORM public.close_shift_breaks(_shift.id, _shift.check_out_time);
+
+    INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+    VALUES (auth.uid(), 'auto_close', 'time_clock', _shift.id, 'warning',
+            jsonb_build_object('employee_id', _shift.employee_id, 'clock_in_time', _shift.clock_in_time,
+                               'clock_out_time', _shift.check_out_time));
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_missed_clock_out_evaluation() FROM PUBLIC, anon, authenticated;
+
+-- Staff can still trigger it on demand; Admin does so while open so the
+-- review queue is current to the minute rather than the schedule
+CREATE OR REPLACE FUNCTION public.evaluate_missed_clock_outs()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can evaluate missed clock-outs';
+  END IF;
+
+  PERFORM public.run_missed_clock_out_evaluation();
+END;
+$$;
+
+SELECT cron.schedule('evaluate-missed-clock-outs', '*/5 * * * *', 'SELECT public.run_missed_clock_out_evaluation()');
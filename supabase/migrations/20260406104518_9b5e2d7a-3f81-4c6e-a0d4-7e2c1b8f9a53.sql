@@ -0,0 +1,53 @@
+-- Weather alerts are compared by kind (snow, freeze) rather than by their
+-- display text, which changes whenever the amount or chance moves. A re-import
+-- that only revises a storm no longer re-notifies every crew member about it.
+
+ALTER TABLE public.weather_forecasts
+  ADD COLUMN IF NOT EXISTS alert_kinds TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.weather_forecasts
+SET alert_kinds = ARRAY(
+  SELECT CASE WHEN a LIKE 'Snow%' THEN 'snow' ELSE 'freeze' END
+  FROM unnest(alerts) WITH ORDINALITY AS x(a, n)
+  ORDER BY n
+)
+WHERE COALESCE(array_length(alerts, 1), 0) > 0;
+
+-- alerts and alert_kinds are written together by the importer, in the same
+-- order; staff are notified whenever a day gains a kind it did not have before
+CREATE OR REPLACE FUNCTION public.notify_weather_forecast_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _new_alerts TEXT[];
+BEGIN
+  SELECT COALESCE(array_agg(x.message ORDER BY x.n), '{}') INTO _new_alerts
+  FROM unnest(COALESCE(NEW.alert_kinds, '{}'), COALESCE(NEW.alerts, '{}')) WITH ORDINALITY AS x(kind, message, n)
+  WHERE x.kind IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NOT (x.kind = ANY (COALESCE(OLD.alert_kinds, '{}'))));
+
+  IF array_length(_new_alerts, 1) IS NULL OR NEW.forecast_date < CURRENT_DATE THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT DISTINCT ur.user_id,
+         'Weather alert for ' || to_char(NEW.forecast_date, 'Dy Mon FMDD'),
+         array_to_string(_new_alerts, '; '),
+         'weather_alert',
+         'high',
+         jsonb_build_object('forecast_id', NEW.id, 'forecast_date', NEW.forecast_date)
+  FROM public.user_roles ur
+  WHERE ur.role IN ('admin', 'manager', 'driver', 'shovel_crew');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER notify_weather_forecast_alerts ON public.weather_forecasts;
+
+CREATE TRIGGER notify_weather_forecast_alerts AFTER INSERT OR UPDATE OF alert_kinds ON public.weather_forecasts
+    FOR EACH ROW EXECUTE FUNCTION public.notify_weather_forecast_alerts();
@@ -0,0 +1,200 @@
+-- Portal users are invited rather than attached. add_account_user used to
+-- look the email up and link that login straight away, which told any client
+-- whether an address had a login and let them pull someone else's login
+-- (another company's client, or a sign-up with no role yet) into their
+-- account without asking.
+--
+-- It now records an invitation and says nothing about the address. The
+-- invitee sees it in the portal once signed in with that confirmed email and
+-- chooses to accept or decline. The table also takes organization
+-- invitations, which carry the role to join with.
+
+CREATE TABLE public.portal_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT NOT NULL,
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+    -- Organization role to join with; account invitations give full access to that one account
+    role TEXT CHECK (role IN ('owner', 'billing', 'viewer')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '14 days',
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    declined_at TIMESTAMP WITH TIME ZONE,
+    CHECK ((account_id IS NULL) <> (organization_id IS NULL)),
+    CHECK (organization_id IS NULL OR role IS NOT NULL)
+);
+
+CREATE INDEX idx_portal_invitations_email ON public.portal_invitations (lower(email))
+    WHERE accepted_at IS NULL AND declined_at IS NULL;
+CREATE INDEX idx_portal_invitations_account ON public.portal_invitations (account_id);
+CREATE INDEX idx_portal_invitations_organization ON public.portal_invitations (organization_id);
+
+ALTER TABLE public.portal_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Written only through the functions below; whoever can invite can see and
+-- cancel their pending invitations
+CREATE POLICY "Inviters can view portal invitations" ON public.portal_invitations
+    FOR SELECT USING (
+        public.is_admin_or_manager(auth.uid()) OR
+        (account_id IS NOT NULL AND public.can_manage_account(auth.uid(), account_id)) OR
+        (organization_id IS NOT NULL AND public.is_organization_owner(auth.uid(), organization_id))
+    );
+
+CREATE POLICY "Inviters can cancel pending portal invitations" ON public.portal_invitations
+    FOR DELETE USING (
+        accepted_at IS NULL AND declined_at IS NULL AND (
+            public.is_admin_or_manager(auth.uid()) OR
+            (account_id IS NOT NULL AND public.can_manage_account(auth.uid(), account_id)) OR
+            (organization_id IS NOT NULL AND public.is_organization_owner(auth.uid(), organization_id))
+        )
+    );
+
+-- Records the invitation, replacing any pending one for the same address and
+-- target, and lets the invitee know if they already have a login. The caller
+-- learns nothing about whether the address is registered.
+CREATE OR REPLACE FUNCTION public.create_portal_invitation(
+  _email TEXT,
+  _account_id UUID,
+  _organization_id UUID,
+  _role TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _address TEXT := lower(trim(_email));
+  _id UUID;
+  _target_name TEXT;
+BEGIN
+  IF _address !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  DELETE FROM public.portal_invitations
+  WHERE email = _address
+    AND account_id IS NOT DISTINCT FROM _account_id
+    AND organization_id IS NOT DISTINCT FROM _organization_id
+    AND accepted_at IS NULL AND declined_at IS NULL;
+
+  INSERT INTO public.portal_invitations (email, account_id, organization_id, role, invited_by)
+  VALUES (_address, _account_id, _organization_id, _role, auth.uid())
+  RETURNING id INTO _id;
+
+  SELECT COALESCE((SELECT name FROM public.accounts WHERE id = _account_id),
+                  (SELECT name FROM public.client_organizations WHERE id = _organization_id))
+  INTO _target_name;
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT u.id, 'Portal invitation',
+         'You have been invited to ' || _target_name || '. Open the client portal to accept or decline.',
+         'general', 'normal', jsonb_build_object('invitation_id', _id, 'url', '/client-portal')
+  FROM auth.users u
+  WHERE lower(u.email) = _address AND u.email_confirmed_at IS NOT NULL;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'invite', 'portal_invitations', _id, 'info',
+          jsonb_build_object('email', _address, 'account_id', _account_id,
+                             'organization_id', _organization_id, 'role', _role));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_portal_invitation(TEXT, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Invite someone to an account. Returns nothing either way.
+CREATE OR REPLACE FUNCTION public.add_account_user(_account_id UUID, _email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.can_manage_account(auth.uid(), _account_id) OR public.is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'You do not have access to this account';
+  END IF;
+
+  PERFORM public.create_portal_invitation(_email, _account_id, NULL, NULL);
+END;
+$$;
+
+-- Pending invitations for the caller's confirmed email
+CREATE OR REPLACE FUNCTION public.get_my_portal_invitations()
+RETURNS TABLE (
+  id UUID,
+  account_name TEXT,
+  organization_name TEXT,
+  role TEXT,
+  invited_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, a.name, o.name, i.role, COALESCE(p.display_name, p.email), i.created_at, i.expires_at
+  FROM public.portal_invitations i
+  JOIN auth.users u ON u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL AND lower(u.email) = i.email
+  LEFT JOIN public.accounts a ON a.id = i.account_id
+  LEFT JOIN public.client_organizations o ON o.id = i.organization_id
+  LEFT JOIN public.profiles p ON p.user_id = i.invited_by
+  WHERE i.accepted_at IS NULL AND i.declined_at IS NULL AND i.expires_at > now()
+  ORDER BY i.created_at
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_portal_invitation(_invitation_id UUID, _accept BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.portal_invitations%ROWTYPE;
+BEGIN
+  SELECT i.* INTO _invitation
+  FROM public.portal_invitations i
+  JOIN auth.users u ON u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL AND lower(u.email) = i.email
+  WHERE i.id = _invitation_id
+    AND i.accepted_at IS NULL AND i.declined_at IS NULL AND i.expires_at > now()
+  FOR UPDATE OF i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation is no longer available';
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.portal_invitations SET declined_at = now() WHERE id = _invitation_id;
+    RETURN;
+  END IF;
+
+  IF public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Staff logins cannot join a client account';
+  END IF;
+
+  IF _invitation.account_id IS NOT NULL THEN
+    INSERT INTO public.account_users (account_id, user_id, added_by)
+    VALUES (_invitation.account_id, auth.uid(), _invitation.invited_by)
+    ON CONFLICT (account_id, user_id) DO NOTHING;
+  ELSE
+    INSERT INTO public.client_organization_members (organization_id, user_id, role, added_by)
+    VALUES (_invitation.organization_id, auth.uid(), _invitation.role, _invitation.invited_by)
+    ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (auth.uid(), 'client')
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.portal_invitations SET accepted_at = now() WHERE id = _invitation_id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'create',
+          CASE WHEN _invitation.account_id IS NOT NULL THEN 'account_users' ELSE 'client_organization_members' END,
+          COALESCE(_invitation.account_id, _invitation.organization_id), 'info',
+          jsonb_build_object('invitation_id', _invitation_id, 'invited_by', _invitation.invited_by,
+                             'email', _invitation.email, 'role', _invitation.role));
+END;
+$$;
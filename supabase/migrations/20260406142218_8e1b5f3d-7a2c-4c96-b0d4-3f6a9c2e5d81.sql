@@ -0,0 +1,53 @@
+-- set_organization_member had the same problem as add_account_user: it
+-- reported whether an email had a login and attached that login without
+-- asking. Anyone who isn't already a member now gets an invitation instead.
+
+-- Re-role an existing member, or invite anyone else. Returns 'updated' or
+-- 'invited'; only current members of the caller's own organization, whom
+-- they can already list, are told apart.
+DROP FUNCTION public.set_organization_member(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.set_organization_member(_organization_id UUID, _email TEXT, _role TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _previous_role TEXT;
+BEGIN
+  IF NOT (public.is_organization_owner(auth.uid(), _organization_id) OR public.is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'Only organization owners can manage users';
+  END IF;
+
+  IF _role NOT IN ('owner', 'billing', 'viewer') THEN
+    RAISE EXCEPTION 'Unknown role %', _role;
+  END IF;
+
+  SELECT m.user_id, m.role INTO _user_id, _previous_role
+  FROM public.client_organization_members m
+  JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.organization_id = _organization_id AND lower(p.email) = lower(trim(_email));
+
+  IF _user_id IS NULL THEN
+    PERFORM public.create_portal_invitation(_email, NULL, _organization_id, _role);
+    RETURN 'invited';
+  END IF;
+
+  IF _previous_role = 'owner' AND _role <> 'owner'
+     AND (SELECT count(*) FROM public.client_organization_members
+          WHERE organization_id = _organization_id AND role = 'owner') <= 1 THEN
+    RAISE EXCEPTION 'An organization needs at least one owner';
+  END IF;
+
+  UPDATE public.client_organization_members SET role = _role
+  WHERE organization_id = _organization_id AND user_id = _user_id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'update', 'client_organization_members', _organization_id, 'info',
+          jsonb_build_object('member_user_id', _user_id, 'email', _email,
+                             'role', _role, 'previous_role', _previous_role));
+  RETURN 'updated';
+END;
+$$;
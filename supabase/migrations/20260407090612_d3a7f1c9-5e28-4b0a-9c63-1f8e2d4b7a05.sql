@@ -0,0 +1,102 @@
+-- Maintenance sign-off was only enforced by the equipment picker and the
+-- history sheet. Anyone who can edit equipment could flip a unit back to
+-- active, and any work log could still be tagged with a unit in the shop.
+--
+-- The database now tracks when a unit went into maintenance, refuses to let it
+-- leave that status until a maintenance entry has been signed off since then,
+-- and refuses work logs that put it to use in the meantime.
+
+ALTER TABLE public.equipment
+  ADD COLUMN IF NOT EXISTS maintenance_started_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.equipment.maintenance_started_at IS
+  'When the unit was last put into maintenance; set while status is maintenance';
+
+UPDATE public.equipment
+SET maintenance_started_at = updated_at
+WHERE status = 'maintenance' AND maintenance_started_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.enforce_equipment_maintenance_sign_off()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'maintenance' THEN
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'maintenance' THEN
+      NEW.maintenance_started_at := now();
+    ELSE
+      NEW.maintenance_started_at := OLD.maintenance_started_at;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'maintenance' AND NOT EXISTS (
+    SELECT 1 FROM public.maintenance_logs ml
+    WHERE ml.equipment_id = NEW.id
+      AND ml.signed_off_at IS NOT NULL
+      AND ml.signed_off_at >= COALESCE(OLD.maintenance_started_at, '-infinity')
+  ) THEN
+    RAISE EXCEPTION '% is in maintenance until its work is logged and signed off', OLD.name;
+  END IF;
+
+  NEW.maintenance_started_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_equipment_maintenance_sign_off
+  BEFORE INSERT OR UPDATE OF status ON public.equipment
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_equipment_maintenance_sign_off();
+
+-- The sign-off is stamped with the signer and the time it was recorded, so a
+-- client can't backdate one or sign for someone else
+CREATE OR REPLACE FUNCTION public.stamp_maintenance_sign_off()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.signed_off_at IS NOT NULL THEN
+    NEW.signed_off_at := OLD.signed_off_at;
+    NEW.signed_off_by := OLD.signed_off_by;
+  ELSIF NEW.signed_off_at IS NOT NULL OR NEW.signed_off_by IS NOT NULL THEN
+    NEW.signed_off_at := now();
+    NEW.signed_off_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_maintenance_sign_off
+  BEFORE INSERT OR UPDATE OF signed_off_at, signed_off_by ON public.maintenance_logs
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_maintenance_sign_off();
+
+-- Work started after a unit went into the shop can't use it. Entries for work
+-- done before then (a manager back-filling last week) still go through.
+CREATE OR REPLACE FUNCTION public.prevent_work_log_equipment_in_maintenance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _name TEXT;
+BEGIN
+  SELECT e.name INTO _name
+  FROM public.equipment e
+  JOIN public.work_logs wl ON wl.id = NEW.work_log_id
+  WHERE e.id = NEW.equipment_id
+    AND e.status = 'maintenance'
+    AND wl.check_in_time >= COALESCE(e.maintenance_started_at, '-infinity');
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% is in maintenance until its work is logged and signed off', _name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_work_log_equipment_in_maintenance
+  BEFORE INSERT OR UPDATE OF equipment_id, work_log_id ON public.work_log_equipment
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_work_log_equipment_in_maintenance();
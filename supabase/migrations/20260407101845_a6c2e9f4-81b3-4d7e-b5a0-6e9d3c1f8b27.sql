@@ -0,0 +1,19 @@
+-- link_storm_event_records() rewrites storm_event_id on every work log and
+-- shift in a storm's window as definer, and was executable by anyone with
+-- the default grant. It is only meant to run from the storm_events trigger,
+-- so the trigger now runs as definer and callers lose direct access.
+
+CREATE OR REPLACE FUNCTION public.sync_storm_event_records()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.link_storm_event_records(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.link_storm_event_records(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.link_storm_event_records(UUID) TO service_role;
@@ -0,0 +1,54 @@
+-- purge_expired_location_pings() deletes as definer and kept the default
+-- execute grant, so any signed-in user (or anon) could call it. The delete
+-- itself moves to an internal function used by the insert trigger, and the
+-- callable one is limited to admins and managers.
+
+CREATE OR REPLACE FUNCTION public.delete_expired_location_pings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted INTEGER;
+BEGIN
+  DELETE FROM public.location_pings
+  WHERE recorded_at < now() - make_interval(days => public.location_ping_retention_days());
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+  RETURN _deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_expired_location_pings() FROM PUBLIC, anon, authenticated;
+
+-- Admin settings purge on demand and after shortening the retention period
+CREATE OR REPLACE FUNCTION public.purge_expired_location_pings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_or_manager(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can purge location history';
+  END IF;
+
+  RETURN public.delete_expired_location_pings();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_location_pings() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purge_expired_location_pings() TO authenticated;
+
+-- Employees' ping inserts still keep the table bounded
+CREATE OR REPLACE FUNCTION public.purge_expired_location_pings_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.delete_expired_location_pings();
+  RETURN NULL;
+END;
+$$;
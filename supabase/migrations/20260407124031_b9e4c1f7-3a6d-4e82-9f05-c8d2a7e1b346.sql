@@ -0,0 +1,58 @@
+-- Accepting an organization invitation used to overwrite the role of someone
+-- who was already a member, so an owner accepting a viewer invitation was
+-- demoted without the at-least-one-owner check. An existing membership now
+-- stays as it is; role changes go through set_organization_member.
+
+CREATE OR REPLACE FUNCTION public.respond_to_portal_invitation(_invitation_id UUID, _accept BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.portal_invitations%ROWTYPE;
+BEGIN
+  SELECT i.* INTO _invitation
+  FROM public.portal_invitations i
+  JOIN auth.users u ON u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL AND lower(u.email) = i.email
+  WHERE i.id = _invitation_id
+    AND i.accepted_at IS NULL AND i.declined_at IS NULL AND i.expires_at > now()
+  FOR UPDATE OF i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation is no longer available';
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.portal_invitations SET declined_at = now() WHERE id = _invitation_id;
+    RETURN;
+  END IF;
+
+  IF public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Staff logins cannot join a client account';
+  END IF;
+
+  IF _invitation.account_id IS NOT NULL THEN
+    INSERT INTO public.account_users (account_id, user_id, added_by)
+    VALUES (_invitation.account_id, auth.uid(), _invitation.invited_by)
+    ON CONFLICT (account_id, user_id) DO NOTHING;
+  ELSE
+    INSERT INTO public.client_organization_members (organization_id, user_id, role, added_by)
+    VALUES (_invitation.organization_id, auth.uid(), _invitation.role, _invitation.invited_by)
+    ON CONFLICT (organization_id, user_id) DO NOTHING;
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (auth.uid(), 'client')
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.portal_invitations SET accepted_at = now() WHERE id = _invitation_id;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'create',
+          CASE WHEN _invitation.account_id IS NOT NULL THEN 'account_users' ELSE 'client_organization_members' END,
+          COALESCE(_invitation.account_id, _invitation.organization_id), 'info',
+          jsonb_build_object('invitation_id', _invitation_id, 'invited_by', _invitation.invited_by,
+                             'email', _invitation.email, 'role', _invitation.role));
+END;
+$$;
@@ -0,0 +1,16 @@
+-- The account site photo policy cast every object's top folder to UUID, and
+-- Postgres may evaluate that cast before the bucket check, so any object whose
+-- folder isn't a UUID broke listing and reads for clients. Compare as text,
+-- like the site-docs policy.
+
+DROP POLICY IF EXISTS "Clients can view their account site photos" ON storage.objects;
+CREATE POLICY "Clients can view their account site photos" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'account-site-photos' AND
+  EXISTS (
+    SELECT 1 FROM public.accounts a
+    WHERE a.id::text = (storage.foldername(name))[1]
+      AND public.is_account_user(auth.uid(), a.id)
+  )
+);
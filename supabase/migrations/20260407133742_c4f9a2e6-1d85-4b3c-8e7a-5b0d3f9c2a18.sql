@@ -0,0 +1,55 @@
+-- Portal invitation notifications used a 'normal' priority, which the rest of
+-- the schema and the notification UI don't know. Use 'medium'.
+
+-- Records the invitation, replacing any pending one for the same address and
+-- target, and lets the invitee know if they already have a login. The caller
+-- learns nothing about whether the address is registered.
+CREATE OR REPLACE FUNCTION public.create_portal_invitation(
+  _email TEXT,
+  _account_id UUID,
+  _organization_id UUID,
+  _role TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _address TEXT := lower(trim(_email));
+  _id UUID;
+  _target_name TEXT;
+BEGIN
+  IF _address !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  DELETE FROM public.portal_invitations
+  WHERE email = _address
+    AND account_id IS NOT DISTINCT FROM _account_id
+    AND organization_id IS NOT DISTINCT FROM _organization_id
+    AND accepted_at IS NULL AND declined_at IS NULL;
+
+  INSERT INTO public.portal_invitations (email, account_id, organization_id, role, invited_by)
+  VALUES (_address, _account_id, _organization_id, _role, auth.uid())
+  RETURNING id INTO _id;
+
+  SELECT COALESCE((SELECT name FROM public.accounts WHERE id = _account_id),
+                  (SELECT name FROM public.client_organizations WHERE id = _organization_id))
+  INTO _target_name;
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT u.id, 'Portal invitation',
+         'You have been invited to ' || _target_name || '. Open the client portal to accept or decline.',
+         'general', 'medium', jsonb_build_object('invitation_id', _id, 'url', '/client-portal')
+  FROM auth.users u
+  WHERE lower(u.email) = _address AND u.email_confirmed_at IS NOT NULL;
+
+  INSERT INTO public.audit_logs (user_id, action_type, entity_type, entity_id, severity, metadata)
+  VALUES (auth.uid(), 'invite', 'portal_invitations', _id, 'info',
+          jsonb_build_object('email', _address, 'account_id', _account_id,
+                             'organization_id', _organization_id, 'role', _role));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_portal_invitation(TEXT, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,149 @@
+-- Storm service levels are evaluated on a schedule. Deadline warnings and
+-- missed-deadline notifications used to fire only while a staff member had
+-- the dashboard or route planner open, so a storm worked with nobody watching
+-- the board never alerted managers.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- The evaluation itself, with no caller check so pg_cron can run it
+CREATE OR REPLACE FUNCTION public.run_storm_service_level_evaluation(_storm_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _storm public.storm_events%ROWTYPE;
+  _warning_minutes INTEGER;
+BEGIN
+  SELECT * INTO _storm FROM public.storm_events WHERE id = _storm_event_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE((s.value ->> 'warning_minutes')::INTEGER, 60) INTO _warning_minutes
+  FROM public.settings s WHERE s.key = 'service_levels';
+  _warning_minutes := COALESCE(_warning_minutes, 60);
+
+  -- Priority and deadline are fixed when the account first joins the storm
+  INSERT INTO public.storm_account_services (storm_event_id, account_id, priority, deadline_at)
+  SELECT _storm.id,
+         a.id,
+         COALESCE(a.priority, 'normal'),
+         _storm.start_time + public.service_level_hours(a.priority) * INTERVAL '1 hour'
+  FROM public.accounts a
+  WHERE COALESCE(a.status, 'active') = 'active'
+  ON CONFLICT (storm_event_id, account_id) DO NOTHING;
+
+  UPDATE public.storm_account_services sas
+  SET first_serviced_at = serviced.first_at
+  FROM (
+    SELECT account_id, MIN(check_in_time) AS first_at
+    FROM (
+      SELECT account_id, check_in_time FROM public.work_logs WHERE storm_event_id = _storm.id
+      UNION ALL
+      SELECT account_id, check_in_time FROM public.shovel_work_logs WHERE storm_event_id = _storm.id
+    ) logs
+    GROUP BY account_id
+  ) serviced
+  WHERE sas.storm_event_id = _storm.id
+    AND sas.account_id = serviced.account_id
+    AND sas.first_serviced_at IS DISTINCT FROM serviced.first_at;
+
+  WITH due AS (
+    UPDATE public.storm_account_services sas
+    SET warning_notified_at = now()
+    FROM public.accounts a
+    WHERE sas.storm_event_id = _storm.id
+      AND a.id = sas.account_id
+      AND sas.first_serviced_at IS NULL
+      AND sas.warning_notified_at IS NULL
+      AND sas.breach_notified_at IS NULL
+      AND now() >= sas.deadline_at - make_interval(mins => _warning_minutes)
+      AND now() < sas.deadline_at
+    RETURNING sas.id, sas.account_id, sas.priority, a.name
+  )
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT managers.user_id,
+         'Service deadline approaching: ' || due.name,
+         due.name || ' (' || due.priority || ' priority) has not been serviced for ' || _storm.name
+           || ' and is due within ' || _warning_minutes || ' minutes',
+         'urgent',
+         'high',
+         jsonb_build_object('storm_event_id', _storm.id, 'account_id', due.account_id, 'service_level_id', due.id)
+  FROM due
+  CROSS JOIN (
+    SELECT DISTINCT user_id FROM public.user_roles WHERE role IN ('admin', 'manager')
+  ) managers;
+
+  WITH due AS (
+    UPDATE public.storm_account_services sas
+    SET breach_notified_at = now()
+    FROM public.accounts a
+    WHERE sas.storm_event_id = _storm.id
+      AND a.id = sas.account_id
+      AND sas.first_serviced_at IS NULL
+      AND sas.breach_notified_at IS NULL
+      AND now() >= sas.deadline_at
+    RETURNING sas.id, sas.account_id, sas.priority, a.name
+  )
+  INSERT INTO public.notifications (user_id, title, message, type, priority, metadata)
+  SELECT managers.user_id,
+         'Service deadline missed: ' || due.name,
+         due.name || ' (' || due.priority || ' priority) is past its service deadline for ' || _storm.name,
+         'urgent',
+         'urgent',
+         jsonb_build_object('storm_event_id', _storm.id, 'account_id', due.account_id, 'service_level_id', due.id)
+  FROM due
+  CROSS JOIN (
+    SELECT DISTINCT user_id FROM public.user_roles WHERE role IN ('admin', 'manager')
+  ) managers;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_storm_service_level_evaluation(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Every storm still inside its service window: the open one, and any that
+-- started within the longest service level
+CREATE OR REPLACE FUNCTION public.run_current_storm_service_level_evaluations()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _longest_hours NUMERIC;
+  _storm_id UUID;
+BEGIN
+  SELECT MAX(public.service_level_hours(p)) INTO _longest_hours
+  FROM unnest(ARRAY['urgent', 'high', 'normal', 'low']) AS p;
+
+  FOR _storm_id IN
+    SELECT s.id FROM public.storm_events s
+    WHERE s.end_time IS NULL
+       OR s.start_time >= now() - _longest_hours * INTERVAL '1 hour'
+  LOOP
+    PERFORM public.run_storm_service_level_evaluation(_storm_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_current_storm_service_level_evaluations() FROM PUBLIC, anon, authenticated;
+
+-- Staff clients still call this to refresh the board between runs
+CREATE OR REPLACE FUNCTION public.evaluate_storm_service_levels(_storm_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can evaluate service levels';
+  END IF;
+
+  PERFORM public.run_storm_service_level_evaluation(_storm_event_id);
+END;
+$$;
+
+SELECT cron.schedule('evaluate-storm-service-levels', '* * * * *', 'SELECT public.run_current_storm_service_level_evaluations()');
@@ -0,0 +1,24 @@
+-- Breaks are closed whenever a shift is clocked out. Only the time clock's
+-- own clock-out ended a running break first; ending a shift from the
+-- dashboard or shovel crew screen left the break open, so payroll never
+-- deducted it.
+
+-- Runs as definer because close_shift_breaks() isn't callable by clients
+CREATE OR REPLACE FUNCTION public.close_breaks_on_clock_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.clock_out_time IS NOT NULL
+     AND NEW.clock_out_time IS DISTINCT FROM OLD.clock_out_time THEN
+    PERFORM public.close_shift_breaks(NEW.id, NEW.clock_out_time);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER close_breaks_on_clock_out
+  AFTER UPDATE OF clock_out_time ON public.time_clock
+  FOR EACH ROW EXECUTE FUNCTION public.close_breaks_on_clock_out();
@@ -56,6 +56,8 @@ export default defineConfig(({ mode }) => ({
       },
       workbox: {
         globPatterns: ["**/*.{js,css,html,ico,png,svg,woff,woff2}"],
+        // Web Push handlers live in public/push-sw.js
+        importScripts: ["push-sw.js"],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
@@ -85,6 +87,24 @@ export default defineConfig(({ mode }) => ({
               },
             },
           },
+          {
+            // Keep the last accounts/equipment/employee lists available so
+            // drivers can still check in and log services without signal
+            urlPattern: /^https:\/\/[^/]+\.supabase\.co\/rest\/v1\/(accounts|equipment|employees)\b.*/i,
+            handler: "NetworkFirst",
+            method: "GET",
+            options: {
+              cacheName: "supabase-lookup-cache",
+              networkTimeoutSeconds: 5,
+              expiration: {
+                maxEntries: 50,
+                maxAgeSeconds: 60 * 60 * 24 * 7, // 1 week
+              },
+              cacheableResponse: {
+                statuses: [200],
+              },
+            },
+          },
         ],
       },
       devOptions: {